@@ -7,6 +7,9 @@
 -- ============================================================================
 -- Core identity table for registered agents. Each agent has a unique MoltID
 -- and can optionally link to a Moltbook profile for verification.
+--
+-- Existing databases need the tier column added by hand:
+--   ALTER TABLE agents ADD COLUMN tier TEXT DEFAULT 'unverified';
 
 CREATE TABLE IF NOT EXISTS agents (
     id TEXT PRIMARY KEY,
@@ -16,6 +19,7 @@ CREATE TABLE IF NOT EXISTS agents (
     public_key TEXT,
     capabilities TEXT,  -- JSON array stored as text
     trust_score INTEGER DEFAULT 0,
+    tier TEXT DEFAULT 'unverified', -- Trust tier, stored with the score (see services/tiers.ts)
     vouch_count INTEGER DEFAULT 0,
     status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'suspended')),
     verification_code TEXT,
@@ -27,22 +31,344 @@ CREATE TABLE IF NOT EXISTS agents (
 CREATE INDEX IF NOT EXISTS idx_agents_moltbook ON agents(moltbook_username);
 CREATE INDEX IF NOT EXISTS idx_agents_status ON agents(status);
 CREATE INDEX IF NOT EXISTS idx_agents_trust ON agents(trust_score DESC);
+CREATE INDEX IF NOT EXISTS idx_agents_tier ON agents(tier, trust_score DESC);
 
 -- ============================================================================
 -- Vouches Table
 -- ============================================================================
 -- Tracks trust relationships between agents. A verified agent can vouch for
 -- another agent, contributing to their trust score.
+--
+-- Existing databases need the expiry columns added by hand:
+--   ALTER TABLE vouches ADD COLUMN expires_at TEXT;
+--   ALTER TABLE vouches ADD COLUMN renewed_at TEXT;
+--   ALTER TABLE vouches ADD COLUMN capability TEXT;
+--   ALTER TABLE vouches ADD COLUMN statement TEXT;
 
 CREATE TABLE IF NOT EXISTS vouches (
     id TEXT PRIMARY KEY,
     from_agent_id TEXT NOT NULL,
     to_agent_id TEXT NOT NULL,
     created_at TEXT DEFAULT (datetime('now')),
+    expires_at TEXT, -- NULL: never expires
+    renewed_at TEXT, -- Last renewal, which vouch decay is measured from
+    capability TEXT, -- What the agent is vouched for, NULL for a general vouch
+    statement TEXT, -- Short comment from the voucher
     FOREIGN KEY (from_agent_id) REFERENCES agents(id),
     FOREIGN KEY (to_agent_id) REFERENCES agents(id),
+    -- One vouch per pair: a capability vouch also counts as the general vouch
     UNIQUE(from_agent_id, to_agent_id)
 );
 
 CREATE INDEX IF NOT EXISTS idx_vouches_to ON vouches(to_agent_id);
 CREATE INDEX IF NOT EXISTS idx_vouches_from ON vouches(from_agent_id);
+
+-- ============================================================================
+-- Request Nonces Table
+-- ============================================================================
+-- Single-use nonces from signed requests, for replay protection. Rows older
+-- than the allowed clock skew window are purged as new nonces arrive.
+
+CREATE TABLE IF NOT EXISTS request_nonces (
+    agent_id TEXT NOT NULL,
+    nonce TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (agent_id, nonce)
+);
+
+CREATE INDEX IF NOT EXISTS idx_request_nonces_created ON request_nonces(created_at);
+
+-- ============================================================================
+-- Agent Keys Table
+-- ============================================================================
+-- History of every public key an agent has registered. A key is valid from
+-- valid_from until valid_until (NULL = current key). Rotations close the old
+-- window; revocations also set revoked_at. Rows are never deleted so old
+-- signatures stay checkable.
+
+CREATE TABLE IF NOT EXISTS agent_keys (
+    id TEXT PRIMARY KEY,
+    agent_id TEXT NOT NULL,
+    public_key TEXT NOT NULL,
+    valid_from TEXT NOT NULL,
+    valid_until TEXT,
+    revoked_at TEXT,
+    revocation_reason TEXT,
+    added_via TEXT NOT NULL CHECK (added_via IN ('registration', 'signature', 'moltbook')),
+    FOREIGN KEY (agent_id) REFERENCES agents(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_keys_agent ON agent_keys(agent_id);
+CREATE INDEX IF NOT EXISTS idx_agent_keys_key ON agent_keys(public_key);
+
+-- Backfill history for agents registered before key history existed
+INSERT INTO agent_keys (id, agent_id, public_key, valid_from, added_via)
+SELECT 'key_' || a.id, a.id, a.public_key, a.created_at, 'registration'
+FROM agents a
+WHERE a.public_key IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM agent_keys k WHERE k.agent_id = a.id);
+
+-- ============================================================================
+-- Challenges Table
+-- ============================================================================
+-- Proof-of-possession challenges issued to platforms. The agent signs the
+-- challenge message with its key; verified_at/valid_until record the result.
+
+CREATE TABLE IF NOT EXISTS challenges (
+    id TEXT PRIMARY KEY,
+    agent_id TEXT NOT NULL,
+    nonce TEXT NOT NULL,
+    audience TEXT,
+    created_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    verified_at TEXT,
+    valid_until TEXT,
+    FOREIGN KEY (agent_id) REFERENCES agents(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_challenges_agent ON challenges(agent_id);
+
+-- ============================================================================
+-- OAuth Tables
+-- ============================================================================
+-- "Sign in with MoltID" relying parties and their authorizations. Each
+-- authorization starts as a challenge for the agent and gains a code once
+-- the agent signs it. Secrets and codes are stored as SHA-256 hashes.
+-- Clients can also report agents once an admin sets can_report.
+
+CREATE TABLE IF NOT EXISTS oauth_clients (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    secret_hash TEXT NOT NULL,
+    redirect_uris TEXT NOT NULL,  -- JSON array stored as text
+    can_report INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS oauth_authorizations (
+    id TEXT PRIMARY KEY,  -- challenge ID
+    client_id TEXT NOT NULL,
+    agent_id TEXT NOT NULL,
+    redirect_uri TEXT NOT NULL,
+    scope TEXT NOT NULL,
+    state TEXT,
+    code_challenge TEXT,
+    code_hash TEXT UNIQUE,
+    code_expires_at TEXT,
+    used_at TEXT,
+    created_at TEXT NOT NULL,
+    FOREIGN KEY (client_id) REFERENCES oauth_clients(id),
+    FOREIGN KEY (agent_id) REFERENCES agents(id)
+);
+
+-- ============================================================================
+-- Linked Accounts Table
+-- ============================================================================
+-- External identities (Moltbook, a domain, GitHub, ...) an agent has proven
+-- control of through a verification provider. reputation holds the signals
+-- imported from the provider at the last successful check. The moltbook_*
+-- columns on agents are kept in sync for the Moltbook provider.
+
+CREATE TABLE IF NOT EXISTS linked_accounts (
+    id TEXT PRIMARY KEY,
+    agent_id TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    handle TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('verified', 'failed')),
+    reputation TEXT,  -- JSON object stored as text
+    verified_at TEXT,
+    last_checked_at TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    FOREIGN KEY (agent_id) REFERENCES agents(id),
+    UNIQUE(agent_id, provider, handle)
+);
+
+CREATE INDEX IF NOT EXISTS idx_linked_accounts_agent ON linked_accounts(agent_id);
+CREATE INDEX IF NOT EXISTS idx_linked_accounts_handle ON linked_accounts(provider, handle);
+
+-- Backfill Moltbook links for agents verified before linked accounts existed
+INSERT INTO linked_accounts (id, agent_id, provider, handle, status, reputation, verified_at, last_checked_at, created_at)
+SELECT 'lnk_' || a.id, a.id, 'moltbook', a.moltbook_username, 'verified',
+       json_object('karma', COALESCE(a.moltbook_karma, 0)), a.updated_at, a.updated_at, a.updated_at
+FROM agents a
+WHERE a.moltbook_verified = 1
+  AND a.moltbook_username IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM linked_accounts l WHERE l.agent_id = a.id AND l.provider = 'moltbook');
+
+-- ============================================================================
+-- Job State Table
+-- ============================================================================
+-- Progress of resumable background jobs. Each scheduled invocation handles
+-- one batch after `cursor` (an agent ID) and advances it; a NULL cursor
+-- means the next invocation starts a new pass.
+
+CREATE TABLE IF NOT EXISTS job_state (
+    name TEXT PRIMARY KEY,
+    cursor TEXT,
+    run_id TEXT,
+    run_started_at TEXT,
+    last_completed_at TEXT,
+    updated_at TEXT NOT NULL
+);
+
+-- ============================================================================
+-- Score Changes Table
+-- ============================================================================
+-- Audit log of trust score and karma changes made by background jobs.
+-- Only rows where something actually changed are recorded.
+
+CREATE TABLE IF NOT EXISTS score_changes (
+    id TEXT PRIMARY KEY,
+    agent_id TEXT NOT NULL,
+    run_id TEXT NOT NULL,
+    old_score INTEGER NOT NULL,
+    new_score INTEGER NOT NULL,
+    old_karma INTEGER,
+    new_karma INTEGER,
+    created_at TEXT NOT NULL,
+    FOREIGN KEY (agent_id) REFERENCES agents(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_score_changes_agent ON score_changes(agent_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_score_changes_run ON score_changes(run_id);
+
+-- ============================================================================
+-- Trust Policies Table
+-- ============================================================================
+-- Versioned trust scoring weights. The most recently activated row with
+-- active = 1 overrides the TRUST_POLICY env var and the built-in defaults.
+-- `weights` is a JSON object merged over the defaults (see src/services/policy.ts).
+
+CREATE TABLE IF NOT EXISTS trust_policies (
+    version TEXT PRIMARY KEY,
+    weights TEXT NOT NULL,
+    active INTEGER DEFAULT 0,
+    activated_at TEXT,
+    created_at TEXT NOT NULL
+);
+
+-- ============================================================================
+-- Graph Trust Table
+-- ============================================================================
+-- Output of the graph trust job (src/services/graph.ts). `score` is the
+-- agent's EigenTrust value (summing to 1 across agents); `normalized` is
+-- score divided by the highest score, from 0 to 1.
+
+CREATE TABLE IF NOT EXISTS graph_trust (
+    agent_id TEXT PRIMARY KEY,
+    score REAL NOT NULL,
+    normalized REAL NOT NULL,
+    run_id TEXT NOT NULL,
+    computed_at TEXT NOT NULL,
+    FOREIGN KEY (agent_id) REFERENCES agents(id)
+);
+
+-- ============================================================================
+-- Risk Flags Table
+-- ============================================================================
+-- Sybil findings from the analysis job (src/services/sybil.ts), one row per
+-- agent and kind. Vouches from agents with an open flag are discounted.
+
+CREATE TABLE IF NOT EXISTS risk_flags (
+    id TEXT PRIMARY KEY,
+    agent_id TEXT NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('vouch_ring', 'registration_burst', 'shared_key')),
+    details TEXT,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed', 'resolved')),
+    run_id TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    FOREIGN KEY (agent_id) REFERENCES agents(id),
+    UNIQUE(agent_id, kind)
+);
+
+CREATE INDEX IF NOT EXISTS idx_risk_flags_status ON risk_flags(status, updated_at);
+
+-- ============================================================================
+-- Vouch Revocations Table
+-- ============================================================================
+-- Vouches withdrawn by their voucher. The row is removed from `vouches` (so
+-- scoring only ever sees active vouches) and recorded here.
+
+CREATE TABLE IF NOT EXISTS vouch_revocations (
+    id TEXT PRIMARY KEY,
+    vouch_id TEXT NOT NULL,
+    from_agent_id TEXT NOT NULL,
+    to_agent_id TEXT NOT NULL,
+    reason TEXT,
+    vouched_at TEXT NOT NULL,
+    revoked_at TEXT NOT NULL,
+    FOREIGN KEY (from_agent_id) REFERENCES agents(id),
+    FOREIGN KEY (to_agent_id) REFERENCES agents(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vouch_revocations_to ON vouch_revocations(to_agent_id, revoked_at);
+-- One revocation per vouch, so concurrent revokes can't both succeed
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vouch_revocations_vouch ON vouch_revocations(vouch_id);
+
+-- ============================================================================
+-- Capability Scores Table
+-- ============================================================================
+-- Trust in each capability an agent lists: the agent's score with only the
+-- vouches for that capability counted. Rewritten whenever the agent is
+-- rescored, and used to rank GET /v1/agents?capability=.
+
+CREATE TABLE IF NOT EXISTS capability_scores (
+    agent_id TEXT NOT NULL,
+    capability TEXT NOT NULL,
+    score INTEGER NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (agent_id, capability),
+    FOREIGN KEY (agent_id) REFERENCES agents(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_capability_scores_rank ON capability_scores(capability, score DESC);
+
+-- ============================================================================
+-- Reports Table
+-- ============================================================================
+-- Reports against agents from verified agents or from platforms (OAuth
+-- clients an admin approved for reporting). reporter_id is the agent or
+-- client ID, depending on reporter_type. They lower the reported agent's
+-- trust score once enough trusted reporters agree (see trust.ts).
+-- The reported agent can dispute a report, and admins uphold or dismiss it.
+
+CREATE TABLE IF NOT EXISTS reports (
+    id TEXT PRIMARY KEY,
+    agent_id TEXT NOT NULL, -- The reported agent
+    reporter_id TEXT NOT NULL,
+    reporter_type TEXT NOT NULL DEFAULT 'agent' CHECK (reporter_type IN ('agent', 'platform')),
+    category TEXT NOT NULL CHECK (category IN ('scam', 'impersonation', 'spam', 'malicious', 'other')),
+    description TEXT,
+    evidence TEXT, -- JSON array of URLs
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'disputed', 'upheld', 'dismissed')),
+    dispute_statement TEXT,
+    disputed_at TEXT,
+    resolved_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    FOREIGN KEY (agent_id) REFERENCES agents(id),
+    UNIQUE(agent_id, reporter_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reports_agent ON reports(agent_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_reports_status ON reports(status, updated_at);
+
+-- ============================================================================
+-- Trust Snapshots Table
+-- ============================================================================
+-- One row per trust score change, written in the same batch as the new score.
+-- Backs GET /v1/agents/:id/trust/history.
+
+CREATE TABLE IF NOT EXISTS trust_snapshots (
+    id TEXT PRIMARY KEY,
+    agent_id TEXT NOT NULL,
+    score INTEGER NOT NULL,
+    factors TEXT NOT NULL, -- JSON object of points per factor
+    policy_version TEXT NOT NULL,
+    trigger TEXT NOT NULL, -- What caused the change, e.g. vouch, verify, cron
+    created_at TEXT NOT NULL,
+    FOREIGN KEY (agent_id) REFERENCES agents(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trust_snapshots_agent ON trust_snapshots(agent_id, created_at);
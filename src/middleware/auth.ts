@@ -0,0 +1,129 @@
+/**
+ * Auth Middleware - Require requests to be signed with the agent's registered key
+ *
+ * See SignatureService for the header format and canonical string.
+ * On success the signing agent is available to handlers as c.get('signer').
+ *
+ * Admin routes use requireAdmin instead: a bearer token matching ADMIN_TOKEN.
+ */
+
+import type { MiddlewareHandler } from 'hono';
+import { AgentService } from '../services/agent';
+import { SignatureService } from '../services/signature';
+import { sha256Hex } from '../utils/crypto';
+import type { AuthVariables, Env } from '../types';
+
+export const SIGNATURE_HEADERS = {
+  agent: 'X-MoltID-Agent',
+  timestamp: 'X-MoltID-Timestamp',
+  nonce: 'X-MoltID-Nonce',
+  signature: 'X-MoltID-Signature',
+} as const;
+
+/**
+ * Middleware that verifies the request signature before the handler runs.
+ * @param options.allowKeyless - Let unsigned requests through when the agent
+ *   in the :id route param has no registered public key. The signer is null
+ *   in that case, so handlers must not treat it as authenticated.
+ * @param options.optional - Let any unsigned request through with a null
+ *   signer, for routes that offer another proof (e.g. Moltbook). Signatures
+ *   that are present are still verified.
+ */
+export function requireSignature(
+  options: { allowKeyless?: boolean; optional?: boolean } = {}
+): MiddlewareHandler<{ Bindings: Env; Variables: AuthVariables }> {
+  return async (c, next) => {
+    const agentService = new AgentService(c.env.DB);
+    const agentId = c.req.header(SIGNATURE_HEADERS.agent);
+    const timestamp = c.req.header(SIGNATURE_HEADERS.timestamp);
+    const nonce = c.req.header(SIGNATURE_HEADERS.nonce);
+    const signature = c.req.header(SIGNATURE_HEADERS.signature);
+
+    if (!agentId || !timestamp || !nonce || !signature) {
+      if (options.optional) {
+        c.set('signer', null);
+        return next();
+      }
+      if (options.allowKeyless) {
+        const target = await agentService.getById(c.req.param('id') || '');
+        if (!target || !target.public_key) {
+          c.set('signer', null);
+          return next();
+        }
+      }
+      return c.json({
+        success: false,
+        error: {
+          code: 'signature_required',
+          message: `Request must be signed (${Object.values(SIGNATURE_HEADERS).join(', ')})`,
+        },
+      }, 401);
+    }
+
+    const agent = await agentService.getById(agentId);
+    if (!agent) {
+      return c.json({
+        success: false,
+        error: { code: 'unauthorized', message: 'Unknown signing agent' },
+      }, 403);
+    }
+
+    if (!agent.public_key) {
+      return c.json({
+        success: false,
+        error: { code: 'no_public_key', message: 'Signing agent has no registered public key' },
+      }, 403);
+    }
+
+    const url = new URL(c.req.url);
+    const check = await new SignatureService(c.env.DB).verifyRequest(
+      agent.id,
+      agent.public_key,
+      {
+        method: c.req.method,
+        path: url.pathname + url.search,
+        timestamp,
+        nonce,
+        body: await c.req.text(),
+      },
+      signature
+    );
+
+    if (!check.valid) {
+      return c.json({
+        success: false,
+        error: { code: check.code, message: check.message },
+      }, 401);
+    }
+
+    c.set('signer', agent);
+    await next();
+  };
+}
+
+/**
+ * Middleware that requires `Authorization: Bearer <ADMIN_TOKEN>`.
+ * The admin API is disabled (403) on instances without ADMIN_TOKEN.
+ */
+export function requireAdmin(): MiddlewareHandler<{ Bindings: Env }> {
+  return async (c, next) => {
+    if (!c.env.ADMIN_TOKEN) {
+      return c.json({
+        success: false,
+        error: { code: 'admin_disabled', message: 'The admin API is not enabled on this instance' },
+      }, 403);
+    }
+
+    // Compare hashes so the comparison time doesn't depend on the token
+    const authorization = c.req.header('Authorization') || '';
+    const token = authorization.startsWith('Bearer ') ? authorization.slice(7) : '';
+    if (!token || (await sha256Hex(token)) !== (await sha256Hex(c.env.ADMIN_TOKEN))) {
+      return c.json({
+        success: false,
+        error: { code: 'unauthorized', message: 'Admin token required' },
+      }, 401);
+    }
+
+    await next();
+  };
+}
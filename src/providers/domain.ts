@@ -0,0 +1,119 @@
+/**
+ * DomainProvider - Verify ownership of a domain
+ *
+ * The agent publishes its verification_code in either place:
+ * - "dns": a TXT record at _moltid.<domain>, looked up over DNS-over-HTTPS
+ *   (JSON API) so the resolver can be pointed at a local stub
+ * - "well_known": a line in https://<domain>/.well-known/moltid.txt
+ *
+ * Without a method both are tried, DNS first.
+ */
+
+import { z } from 'zod';
+import type { Agent } from '../types';
+import type { VerificationOutcome, VerificationProvider } from './types';
+
+export const DEFAULT_DOH_RESOLVER = 'https://cloudflare-dns.com/dns-query';
+export const DOMAIN_CHECK_TIMEOUT_MS = 5000;
+
+const DNS_TXT_TYPE = 16;
+const HOSTNAME_PATTERN = /^(?=.{1,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+export type DomainMethod = 'dns' | 'well_known';
+
+export interface DomainInput {
+  domain: string;
+  method?: DomainMethod;
+}
+
+export class DomainProvider implements VerificationProvider<DomainInput> {
+  readonly name = 'domain';
+  readonly inputSchema = z.object({
+    domain: z.string().trim().toLowerCase().regex(HOSTNAME_PATTERN, 'domain must be a hostname like example.com'),
+    method: z.enum(['dns', 'well_known']).optional(),
+  });
+
+  private resolverUrl: string;
+  private fetcher: typeof fetch;
+
+  /**
+   * @param options.resolverUrl - DoH JSON endpoint (defaults to Cloudflare's)
+   * @param options.fetch - Fetch implementation, for tests
+   */
+  constructor(options: { resolverUrl?: string; fetch?: typeof fetch } = {}) {
+    this.resolverUrl = options.resolverUrl || DEFAULT_DOH_RESOLVER;
+    this.fetcher = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  async verify(agent: Agent, input: DomainInput): Promise<VerificationOutcome> {
+    const code = agent.verification_code;
+    const methods: DomainMethod[] = input.method ? [input.method] : ['dns', 'well_known'];
+
+    for (const method of methods) {
+      const found = method === 'dns'
+        ? await this.checkDns(input.domain, code)
+        : await this.checkWellKnown(input.domain, code);
+      if (found) {
+        return { verified: true, handle: input.domain, reputation: { method } };
+      }
+    }
+
+    return {
+      verified: false,
+      handle: input.domain,
+      code: 'verification_failed',
+      message: `Verification code not found. Publish "${code}" as a TXT record at _moltid.${input.domain} ` +
+        `or in https://${input.domain}/.well-known/moltid.txt.`,
+    };
+  }
+
+  /**
+   * Look for the code in the TXT records at _moltid.<domain>.
+   */
+  async checkDns(domain: string, code: string | null): Promise<boolean> {
+    if (!code) return false;
+
+    try {
+      const url = new URL(this.resolverUrl);
+      url.searchParams.set('name', `_moltid.${domain}`);
+      url.searchParams.set('type', 'TXT');
+      const response = await this.fetcher(url.toString(), {
+        headers: { Accept: 'application/dns-json' },
+        signal: AbortSignal.timeout(DOMAIN_CHECK_TIMEOUT_MS),
+      });
+      if (!response.ok) return false;
+
+      const result = await response.json() as { Status?: number; Answer?: Array<{ type: number; data: string }> };
+      if (result.Status !== 0) return false;
+
+      // TXT data arrives quoted, possibly split into several strings
+      return (result.Answer || [])
+        .filter((answer) => answer.type === DNS_TXT_TYPE)
+        .some((answer) => answer.data.replace(/"\s*"/g, '').replace(/^"|"$/g, '') === code);
+    } catch (error) {
+      console.error('Domain DNS verification error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Look for the code as a line of https://<domain>/.well-known/moltid.txt.
+   */
+  async checkWellKnown(domain: string, code: string | null): Promise<boolean> {
+    if (!code) return false;
+
+    try {
+      const response = await this.fetcher(`https://${domain}/.well-known/moltid.txt`, {
+        headers: { 'User-Agent': 'MoltID/1.0' },
+        signal: AbortSignal.timeout(DOMAIN_CHECK_TIMEOUT_MS),
+      });
+      if (!response.ok) return false;
+
+      const body = await response.text();
+      return body.split(/\r?\n/).some((line) => line.trim() === code);
+    } catch (error) {
+      console.error('Domain well-known verification error:', error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * GitHubProvider - Verify a GitHub account by a gist or a repository file
+ *
+ * The agent publishes its verification_code either in a public gist owned by
+ * the account, or in a file named MOLTID at the root of one of the account's
+ * repositories. On success the account's age, follower count and public repo
+ * count are imported; TrustService can count them as the "github" factor.
+ *
+ * All GitHub access goes through a GitHubClient so tests can use a fake.
+ */
+
+import { z } from 'zod';
+import type { Agent } from '../types';
+import type { VerificationOutcome, VerificationProvider } from './types';
+
+export const DEFAULT_GITHUB_API_URL = 'https://api.github.com';
+export const GITHUB_PROOF_FILE = 'MOLTID';
+export const GITHUB_TIMEOUT_MS = 5000;
+
+export interface GitHubUser {
+  login: string;
+  created_at: string;
+  followers: number;
+  public_repos: number;
+}
+
+export interface GitHubGist {
+  owner: string | null; // null for anonymous gists
+  contents: string[];
+}
+
+export interface GitHubClient {
+  /** @returns The user, or null if not found */
+  getUser(username: string): Promise<GitHubUser | null>;
+  /** @returns The gist's owner and file contents, or null if not found */
+  getGist(id: string): Promise<GitHubGist | null>;
+  /** @returns The raw file contents from the default branch, or null if not found */
+  getRepoFile(owner: string, repo: string, path: string): Promise<string | null>;
+}
+
+/**
+ * GitHubClient backed by the REST API.
+ */
+export class HttpGitHubClient implements GitHubClient {
+  private baseUrl: string;
+  private token: string | undefined;
+  private fetcher: typeof fetch;
+
+  /**
+   * @param options.baseUrl - API base URL (defaults to https://api.github.com)
+   * @param options.token - Optional token, for higher rate limits
+   * @param options.fetch - Fetch implementation, for tests
+   */
+  constructor(options: { baseUrl?: string; token?: string; fetch?: typeof fetch } = {}) {
+    this.baseUrl = (options.baseUrl || DEFAULT_GITHUB_API_URL).replace(/\/$/, '');
+    this.token = options.token;
+    this.fetcher = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  async getUser(username: string): Promise<GitHubUser | null> {
+    const response = await this.request(`/users/${encodeURIComponent(username)}`);
+    if (!response) return null;
+
+    const user = await response.json() as GitHubUser;
+    return {
+      login: user.login,
+      created_at: user.created_at,
+      followers: user.followers || 0,
+      public_repos: user.public_repos || 0,
+    };
+  }
+
+  async getGist(id: string): Promise<GitHubGist | null> {
+    const response = await this.request(`/gists/${encodeURIComponent(id)}`);
+    if (!response) return null;
+
+    const gist = await response.json() as {
+      owner?: { login: string } | null;
+      files?: Record<string, { content?: string }>;
+    };
+    return {
+      owner: gist.owner?.login ?? null,
+      contents: Object.values(gist.files || {}).map((file) => file.content || ''),
+    };
+  }
+
+  async getRepoFile(owner: string, repo: string, path: string): Promise<string | null> {
+    const response = await this.request(
+      `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/contents/${path}`,
+      'application/vnd.github.raw+json'
+    );
+    return response ? response.text() : null;
+  }
+
+  /**
+   * GET a path from the API.
+   * @returns The response, or null for non-2xx responses and network errors
+   */
+  private async request(path: string, accept: string = 'application/vnd.github+json'): Promise<Response | null> {
+    const headers: Record<string, string> = { Accept: accept, 'User-Agent': 'MoltID/1.0' };
+    if (this.token) headers.Authorization = `Bearer ${this.token}`;
+
+    try {
+      const response = await this.fetcher(`${this.baseUrl}${path}`, {
+        headers,
+        signal: AbortSignal.timeout(GITHUB_TIMEOUT_MS),
+      });
+      return response.ok ? response : null;
+    } catch (error) {
+      console.error('GitHub request error:', error);
+      return null;
+    }
+  }
+}
+
+export interface GitHubInput {
+  username: string;
+  gist_id?: string;
+  repo?: string;
+}
+
+export class GitHubProvider implements VerificationProvider<GitHubInput> {
+  readonly name = 'github';
+  readonly inputSchema = z.object({
+    username: z.string().regex(/^[a-z\d](?:[a-z\d-]{0,38})$/i, 'username must be a GitHub login'),
+    gist_id: z.string().regex(/^[a-f\d]{1,64}$/i, 'gist_id must be a gist ID').optional(),
+    repo: z.string().regex(/^[\w.-]{1,100}$/, 'repo must be a repository name').optional(),
+  }).refine((input) => !!input.gist_id !== !!input.repo, 'Provide exactly one of gist_id or repo');
+
+  constructor(private client: GitHubClient) {}
+
+  async verify(agent: Agent, input: GitHubInput): Promise<VerificationOutcome> {
+    const code = agent.verification_code;
+    const handle = input.username.toLowerCase();
+    const where = input.gist_id
+      ? `gist ${input.gist_id}`
+      : `${input.username}/${input.repo}/${GITHUB_PROOF_FILE}`;
+    const notFound = (message: string): VerificationOutcome => ({
+      verified: false,
+      handle,
+      code: 'verification_failed',
+      message,
+    });
+
+    const user = await this.client.getUser(input.username);
+    if (!user) {
+      return notFound(`GitHub user ${input.username} not found`);
+    }
+
+    let found = false;
+    if (code && input.gist_id) {
+      const gist = await this.client.getGist(input.gist_id);
+      // The gist must belong to the account being linked
+      found = !!gist && gist.owner?.toLowerCase() === handle && gist.contents.some((c) => c.includes(code));
+    } else if (code && input.repo) {
+      const content = await this.client.getRepoFile(user.login, input.repo, GITHUB_PROOF_FILE);
+      found = !!content?.includes(code);
+    }
+
+    if (!found) {
+      return notFound(`Verification code not found. Add "${code}" to ${where} and retry.`);
+    }
+
+    return {
+      verified: true,
+      handle,
+      reputation: {
+        proof: input.gist_id ? 'gist' : 'repo',
+        account_created_at: user.created_at,
+        followers: user.followers,
+        public_repos: user.public_repos,
+      },
+    };
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Verification provider registry
+ *
+ * To add a provider, implement VerificationProvider and register it here.
+ * It becomes available at POST /v1/agents/:id/verify/<name>.
+ */
+
+import { DomainProvider } from './domain';
+import { GitHubProvider, HttpGitHubClient } from './github';
+import { createMoltbookClient, MoltbookProvider } from './moltbook';
+import type { Env } from '../types';
+import type { VerificationProvider } from './types';
+
+export type { VerificationOutcome, VerificationProvider } from './types';
+export { DomainProvider } from './domain';
+export {
+  GitHubProvider,
+  HttpGitHubClient,
+  type GitHubClient,
+  type GitHubGist,
+  type GitHubUser,
+} from './github';
+export {
+  createMoltbookClient,
+  HttpMoltbookClient,
+  MoltbookProvider,
+  type MoltbookClient,
+} from './moltbook';
+
+/**
+ * Build the providers enabled for this instance.
+ * @param env - Worker bindings, for provider configuration
+ */
+export function createProviders(env: Env): VerificationProvider[] {
+  return [
+    new MoltbookProvider(createMoltbookClient(env)),
+    new DomainProvider({ resolverUrl: env.DOH_RESOLVER_URL }),
+    new GitHubProvider(new HttpGitHubClient({ baseUrl: env.GITHUB_API_URL, token: env.GITHUB_TOKEN })),
+  ];
+}
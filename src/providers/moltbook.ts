@@ -0,0 +1,201 @@
+/**
+ * MoltbookProvider - Verify a Moltbook profile by a post containing the code
+ *
+ * The account is the moltbook_username the agent registered with. On success
+ * the agent's karma is imported and the moltbook_* columns are updated.
+ *
+ * All Moltbook access goes through a MoltbookClient. HttpMoltbookClient is
+ * configured from Env (MOLTBOOK_BASE_URL, MOLTBOOK_TIMEOUT_MS,
+ * MOLTBOOK_RETRIES, MOLTBOOK_USER_AGENT) so it can point at staging or at
+ * the mock server in test/mocks.
+ */
+
+import { z } from 'zod';
+import type { Agent, Env } from '../types';
+import type { VerificationOutcome, VerificationProvider } from './types';
+
+export const DEFAULT_MOLTBOOK_URL = 'https://www.moltbook.com';
+export const DEFAULT_MOLTBOOK_TIMEOUT_MS = 5000;
+export const DEFAULT_MOLTBOOK_RETRIES = 1;
+export const DEFAULT_MOLTBOOK_USER_AGENT = 'MoltID/1.0';
+export const MOLTBOOK_POSTS_LIMIT = 10;
+
+// Response shapes of the Moltbook API (extra fields are ignored)
+const profileSchema = z.object({ karma: z.number().nullish() });
+const postsSchema = z.array(z.object({ content: z.string().nullish() }));
+
+export interface MoltbookClient {
+  /** @returns The user's karma, or null if the profile API is unavailable */
+  getKarma(username: string): Promise<number | null>;
+  /** @returns Recent post contents, or null if the posts API is unavailable */
+  getRecentPosts(username: string, limit: number): Promise<string[] | null>;
+  /** @returns The HTML of the user's posts page, or null if unavailable */
+  getPostsPage(username: string): Promise<string | null>;
+}
+
+export interface MoltbookClientOptions {
+  baseUrl?: string;
+  timeoutMs?: number;
+  retries?: number; // Extra attempts after network errors, 429s and 5xxs
+  userAgent?: string;
+  fetch?: typeof fetch;
+}
+
+/**
+ * MoltbookClient backed by the Moltbook API, with the profile page as fallback.
+ */
+export class HttpMoltbookClient implements MoltbookClient {
+  private baseUrl: string;
+  private timeoutMs: number;
+  private retries: number;
+  private userAgent: string;
+  private fetcher: typeof fetch;
+
+  constructor(options: MoltbookClientOptions = {}) {
+    this.baseUrl = (options.baseUrl || DEFAULT_MOLTBOOK_URL).replace(/\/$/, '');
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_MOLTBOOK_TIMEOUT_MS;
+    this.retries = options.retries ?? DEFAULT_MOLTBOOK_RETRIES;
+    this.userAgent = options.userAgent || DEFAULT_MOLTBOOK_USER_AGENT;
+    this.fetcher = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  async getKarma(username: string): Promise<number | null> {
+    const profile = await this.getJson(`/api/v1/users/${encodeURIComponent(username)}`, profileSchema);
+    return profile ? profile.karma || 0 : null;
+  }
+
+  async getRecentPosts(username: string, limit: number): Promise<string[] | null> {
+    const posts = await this.getJson(`/api/v1/users/${encodeURIComponent(username)}/posts?limit=${limit}`, postsSchema);
+    return posts ? posts.map((post) => post.content || '') : null;
+  }
+
+  async getPostsPage(username: string): Promise<string | null> {
+    const response = await this.request(`/u/${encodeURIComponent(username)}/posts`);
+    if (!response) return null;
+
+    try {
+      return await response.text();
+    } catch (error) {
+      console.error('Moltbook response error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * GET a JSON API path and check the response shape.
+   * @returns The parsed body, or null if the request failed or the body doesn't match
+   */
+  private async getJson<T extends z.ZodTypeAny>(path: string, schema: T): Promise<z.infer<T> | null> {
+    const response = await this.request(path);
+    if (!response) return null;
+
+    try {
+      const parsed = schema.safeParse(await response.json());
+      if (parsed.success) return parsed.data;
+      console.error(`Unexpected Moltbook response for ${path}:`, parsed.error.message);
+    } catch (error) {
+      console.error('Moltbook response error:', error);
+    }
+    return null;
+  }
+
+  /**
+   * GET a path, retrying transient failures.
+   * @returns The response, or null if it never succeeded
+   */
+  private async request(path: string): Promise<Response | null> {
+    for (let attempt = 0; attempt <= this.retries; attempt++) {
+      try {
+        const response = await this.fetcher(`${this.baseUrl}${path}`, {
+          headers: { 'User-Agent': this.userAgent },
+          signal: AbortSignal.timeout(this.timeoutMs),
+        });
+        if (response.ok) return response;
+        if (response.status !== 429 && response.status < 500) return null;
+      } catch (error) {
+        console.error('Moltbook request error:', error);
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * Build the Moltbook client configured for this instance.
+ */
+export function createMoltbookClient(env: Env): MoltbookClient {
+  return new HttpMoltbookClient({
+    baseUrl: env.MOLTBOOK_BASE_URL,
+    timeoutMs: env.MOLTBOOK_TIMEOUT_MS ? parseInt(env.MOLTBOOK_TIMEOUT_MS) : undefined,
+    retries: env.MOLTBOOK_RETRIES ? parseInt(env.MOLTBOOK_RETRIES) : undefined,
+    userAgent: env.MOLTBOOK_USER_AGENT,
+  });
+}
+
+export class MoltbookProvider implements VerificationProvider<Record<string, never>> {
+  readonly name = 'moltbook';
+  readonly inputSchema = z.object({}).strict();
+
+  constructor(private client: MoltbookClient) {}
+
+  async verify(agent: Agent): Promise<VerificationOutcome> {
+    if (!agent.moltbook_username) {
+      return { verified: false, handle: null, code: 'no_moltbook', message: 'No Moltbook username linked' };
+    }
+
+    const result = await this.checkPost(agent.moltbook_username, agent.verification_code);
+    if (!result.verified) {
+      return {
+        verified: false,
+        handle: agent.moltbook_username,
+        code: 'verification_failed',
+        message: `Verification code not found. Create a Moltbook post containing "${agent.verification_code}" to verify.`,
+      };
+    }
+
+    return {
+      verified: true,
+      handle: agent.moltbook_username,
+      reputation: { karma: result.karma ?? 0 },
+      agent_updates: { moltbook_verified: true, moltbook_karma: result.karma, status: 'active' },
+    };
+  }
+
+  /**
+   * Check a Moltbook user's recent posts for a code.
+   * Also used for key recovery, where the code differs from verification_code.
+   * @param username - The Moltbook username
+   * @param code - Code to look for
+   * @returns Whether the code was found, and the user's karma if so
+   */
+  async checkPost(username: string, code: string | null): Promise<{ verified: boolean; karma?: number }> {
+    if (!code) {
+      return { verified: false };
+    }
+
+    const posts = await this.client.getRecentPosts(username, MOLTBOOK_POSTS_LIMIT);
+    if (!posts) {
+      // Fallback: scrape the posts page when the API is unavailable
+      return this.checkPostsPage(username, code);
+    }
+
+    if (!posts.some((content) => content.includes(code))) {
+      return { verified: false };
+    }
+
+    return { verified: true, karma: (await this.client.getKarma(username)) ?? 0 };
+  }
+
+  /**
+   * Fallback that scrapes the Moltbook posts page for the code and karma.
+   */
+  private async checkPostsPage(username: string, code: string): Promise<{ verified: boolean; karma?: number }> {
+    const html = await this.client.getPostsPage(username);
+    if (!html?.includes(code)) return { verified: false };
+
+    // Try to extract karma from page
+    const karmaMatch = html.match(/karma[:\s]*(\d+)/i);
+    const karma = karmaMatch ? parseInt(karmaMatch[1]) : 0;
+    return { verified: true, karma };
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Verification provider contract
+ *
+ * A provider proves that an agent controls an account somewhere else (a
+ * Moltbook profile, a domain, a GitHub account, ...) by finding the agent's
+ * verification_code in a place only the account owner can write to.
+ */
+
+import type { z } from 'zod';
+import type { Agent, Reputation } from '../types';
+
+export type VerificationOutcome =
+  | {
+      verified: true;
+      handle: string;
+      reputation: Reputation;
+      agent_updates?: Partial<Agent>; // Denormalized agent columns to sync, if any
+    }
+  | {
+      verified: false;
+      handle: string | null; // null when the request never identified an account
+      code: string;
+      message: string;
+    };
+
+export interface VerificationProvider<TInput = unknown> {
+  /** Route segment (/verify/:provider) and linked_accounts.provider value */
+  readonly name: string;
+  /** Schema for the JSON body of the verify request */
+  readonly inputSchema: z.ZodType<TInput, z.ZodTypeDef, unknown>;
+  /**
+   * Look for the agent's verification code on the provider.
+   * Must not throw for provider outages; report them as an unverified outcome.
+   */
+  verify(agent: Agent, input: TInput): Promise<VerificationOutcome>;
+}
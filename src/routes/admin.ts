@@ -0,0 +1,184 @@
+/**
+ * Admin Routes - Operator-only endpoints
+ *
+ * All routes are prefixed with /v1/admin (set in index.ts) and require the
+ * ADMIN_TOKEN bearer token.
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { requireAdmin } from '../middleware/auth';
+import { OAuthService } from '../services/oauth';
+import { activateTrustPolicy, InvalidTrustPolicyError, loadTrustPolicy, saveTrustPolicy } from '../services/policy';
+import { ReportService } from '../services/report';
+import { SybilService } from '../services/sybil';
+import { TrustService } from '../services/trust';
+import type { Env } from '../types';
+
+const adminRoutes = new Hono<{ Bindings: Env }>();
+
+adminRoutes.use('*', requireAdmin());
+
+// Validation schemas
+const listFlagsSchema = z.object({
+  status: z.enum(['open', 'dismissed', 'resolved']).optional(),
+  kind: z.enum(['vouch_ring', 'registration_burst', 'shared_key']).optional(),
+  agent_id: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+const listReportsSchema = z.object({
+  status: z.enum(['open', 'disputed', 'upheld', 'dismissed']).optional(),
+  agent_id: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+const resolveReportSchema = z.object({
+  outcome: z.enum(['upheld', 'dismissed']),
+});
+
+const clientReportingSchema = z.object({
+  can_report: z.boolean(),
+});
+
+const consistencySchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+const createPolicySchema = z.object({
+  version: z.string().min(1).max(64),
+  weights: z.record(z.unknown()),
+  activate: z.boolean().optional(),
+});
+
+// GET /v1/admin/risk-flags - Sybil findings, newest first
+adminRoutes.get('/risk-flags', zValidator('query', listFlagsSchema), async (c) => {
+  const flags = await new SybilService(c.env.DB).list(c.req.valid('query'));
+  return c.json({ success: true, data: flags });
+});
+
+// POST /v1/admin/risk-flags/analyze - Run the Sybil analysis now
+adminRoutes.post('/risk-flags/analyze', async (c) => {
+  const result = await new SybilService(c.env.DB, await loadTrustPolicy(c.env)).analyze();
+  return c.json({ success: true, data: result });
+});
+
+// POST /v1/admin/risk-flags/:id/dismiss - Mark a finding as a false positive
+adminRoutes.post('/risk-flags/:id/dismiss', async (c) => {
+  const flag = await new SybilService(c.env.DB, await loadTrustPolicy(c.env)).dismiss(c.req.param('id'));
+  if (!flag) {
+    return c.json({
+      success: false,
+      error: { code: 'not_found', message: 'Risk flag not found' }
+    }, 404);
+  }
+
+  return c.json({ success: true, data: flag });
+});
+
+// GET /v1/admin/reports - Reports against agents, newest first
+adminRoutes.get('/reports', zValidator('query', listReportsSchema), async (c) => {
+  const reports = await new ReportService(c.env.DB).list(c.req.valid('query'));
+  return c.json({ success: true, data: reports });
+});
+
+// POST /v1/admin/reports/:id/resolve - Uphold or dismiss a report
+adminRoutes.post('/reports/:id/resolve', zValidator('json', resolveReportSchema), async (c) => {
+  const { outcome } = c.req.valid('json');
+  const trustService = new TrustService(c.env.DB, await loadTrustPolicy(c.env));
+
+  const report = await new ReportService(c.env.DB).resolve(c.req.param('id'), outcome);
+  if (!report) {
+    return c.json({
+      success: false,
+      error: { code: 'not_found', message: 'Report not found' }
+    }, 404);
+  }
+
+  // Recalculate the reported agent's trust score
+  const newScore = await trustService.rescore(report.agent_id, 'report_resolved');
+
+  return c.json({ success: true, data: { report, new_trust_score: newScore } });
+});
+
+// POST /v1/admin/oauth-clients/:id/reporting - Allow or stop a platform reporting agents
+adminRoutes.post('/oauth-clients/:id/reporting', zValidator('json', clientReportingSchema), async (c) => {
+  const { can_report } = c.req.valid('json');
+  const trustService = new TrustService(c.env.DB, await loadTrustPolicy(c.env));
+
+  const client = await new OAuthService(c.env.DB, c.env).setCanReport(c.req.param('id'), can_report);
+  if (!client) {
+    return c.json({
+      success: false,
+      error: { code: 'not_found', message: 'Client not found' }
+    }, 404);
+  }
+
+  // The platform's reports start or stop counting, so rescore the agents it reported
+  for (const agentId of await new ReportService(c.env.DB).reportedAgents(client.id)) {
+    await trustService.rescore(agentId, 'report');
+  }
+
+  return c.json({ success: true, data: client });
+});
+
+// GET /v1/admin/trust/consistency - Agents whose stored score drifted from the engine
+adminRoutes.get('/trust/consistency', zValidator('query', consistencySchema), async (c) => {
+  const { cursor, limit } = c.req.valid('query');
+  const trustService = new TrustService(c.env.DB, await loadTrustPolicy(c.env));
+
+  const result = await trustService.checkConsistency({ cursor, limit: limit ?? 100 });
+  return c.json({ success: true, data: { policy_version: trustService.policy.version, ...result } });
+});
+
+// POST /v1/admin/trust-policies - Store a new policy version (validated), optionally activating it
+adminRoutes.post('/trust-policies', zValidator('json', createPolicySchema), async (c) => {
+  const { version, weights, activate } = c.req.valid('json');
+
+  try {
+    const policy = await saveTrustPolicy(c.env, version, weights, activate ?? false);
+    return c.json({ success: true, data: { policy, active: activate ?? false } }, 201);
+  } catch (error: unknown) {
+    if (error instanceof InvalidTrustPolicyError) {
+      return c.json({
+        success: false,
+        error: { code: 'invalid_request', message: error.message }
+      }, 400);
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    if (errorMessage.includes('UNIQUE constraint')) {
+      return c.json({
+        success: false,
+        error: { code: 'policy_exists', message: `Policy version "${version}" already exists` }
+      }, 409);
+    }
+    throw error;
+  }
+});
+
+// POST /v1/admin/trust-policies/:version/activate - Make a stored policy the active one
+adminRoutes.post('/trust-policies/:version/activate', async (c) => {
+  try {
+    const policy = await activateTrustPolicy(c.env, c.req.param('version'));
+    if (!policy) {
+      return c.json({
+        success: false,
+        error: { code: 'not_found', message: 'Policy not found' }
+      }, 404);
+    }
+
+    return c.json({ success: true, data: { policy, active: true } });
+  } catch (error: unknown) {
+    if (error instanceof InvalidTrustPolicyError) {
+      return c.json({
+        success: false,
+        error: { code: 'invalid_request', message: error.message }
+      }, 400);
+    }
+    throw error;
+  }
+});
+
+export { adminRoutes };
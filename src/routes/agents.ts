@@ -4,14 +4,65 @@
  * All routes are prefixed with /v1/agents (set in index.ts)
  */
 
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import { zValidator } from '@hono/zod-validator';
 import { z } from 'zod';
+import { requireSignature } from '../middleware/auth';
 import { AgentService } from '../services/agent';
+import { AttestationService } from '../services/attestation';
+import { TrustHistoryService } from '../services/history';
+import { InvalidTrustPolicyError, loadTrustPolicy, loadTrustPolicyVersion } from '../services/policy';
+import { TRUST_TIERS } from '../services/tiers';
 import { TrustService } from '../services/trust';
-import type { Env } from '../types';
+import { isSupportedPublicKey } from '../utils/crypto';
+import type { Agent, AuthVariables, Env, TrustDetails, TrustPolicy, TrustTier } from '../types';
 
-const agentRoutes = new Hono<{ Bindings: Env }>();
+type AgentContext = Context<{ Bindings: Env; Variables: AuthVariables }>;
+
+const agentRoutes = new Hono<{ Bindings: Env; Variables: AuthVariables }>();
+
+/**
+ * One page of an agent's received or given vouches.
+ */
+async function vouchListResponse(c: AgentContext, direction: 'received' | 'given') {
+  const id = c.req.param('id')!;
+  const cursor = c.req.query('cursor');
+  const limit = Math.min(parseInt(c.req.query('limit') || '20') || 20, 100);
+  const agentService = new AgentService(c.env.DB);
+  
+  const agent = await agentService.getById(id);
+  if (!agent) {
+    return c.json({ 
+      success: false, 
+      error: { code: 'not_found', message: 'Agent not found' } 
+    }, 404);
+  }
+  
+  if (cursor && !AgentService.decodeCursor(cursor)) {
+    return c.json({ 
+      success: false, 
+      error: { code: 'invalid_request', message: 'Invalid cursor' } 
+    }, 400);
+  }
+  
+  const page = await agentService.listVouches(id, direction, { cursor, limit });
+  return c.json({ success: true, data: page });
+}
+
+/**
+ * Sign trust details for an agent and return the token.
+ * Instances without a signing key get a 503 from the app error handler.
+ */
+async function attestationResponse(c: AgentContext, agent: Agent, details: TrustDetails) {
+  const { token, claims } = await new AttestationService(c.env).attestTrust(agent, details);
+  return c.json({ 
+    success: true, 
+    data: { 
+      token, 
+      expires_at: new Date(claims.exp * 1000).toISOString(),
+    } 
+  });
+}
 
 // Validation schemas
 const createAgentSchema = z.object({
@@ -20,9 +71,38 @@ const createAgentSchema = z.object({
   capabilities: z.array(z.string()).optional(),
 });
 
+const updateAgentSchema = z.object({
+  capabilities: z.array(z.string()).optional(),
+});
+
+// The voucher is authenticated by the request signature; from_agent_id must match the signer
 const vouchSchema = z.object({
   from_agent_id: z.string().min(1),
-  signature: z.string().optional(), // For future key-based auth
+  expires_at: z.string().datetime({ offset: true }).optional(),
+  capability: z.string().min(1).max(64).optional(),
+  statement: z.string().max(280).optional(),
+});
+
+const renewVouchSchema = vouchSchema.pick({ from_agent_id: true, expires_at: true });
+
+const trustHistorySchema = z.object({
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+  bucket: z.enum(['none', 'hour', 'day', 'week']).default('day'),
+});
+
+const simulateTrustSchema = z.object({
+  vouches: z.array(z.object({
+    from_agent_id: z.string().min(1),
+    capability: z.string().min(1).max(64).optional(),
+  })).max(50).optional(),
+  karma: z.number().int().min(0).optional(),
+  at: z.string().datetime({ offset: true }).optional(),
+  policy_version: z.string().min(1).optional(),
+});
+
+const revokeVouchSchema = vouchSchema.pick({ from_agent_id: true }).extend({
+  reason: z.string().max(500).optional(),
 });
 
 // POST /v1/agents - Register new agent
@@ -30,6 +110,14 @@ agentRoutes.post('/', zValidator('json', createAgentSchema), async (c) => {
   const input = c.req.valid('json');
   const agentService = new AgentService(c.env.DB);
   
+  // Every mutating route needs a signature, so a key we can't verify would lock the agent out
+  if (input.public_key !== undefined && !(await isSupportedPublicKey(input.public_key))) {
+    return c.json({ 
+      success: false, 
+      error: { code: 'invalid_public_key', message: 'Public key must be an Ed25519 or P-256 key' } 
+    }, 400);
+  }
+  
   try {
     const agent = await agentService.create(input);
     return c.json({ success: true, data: agent }, 201);
@@ -88,9 +176,18 @@ agentRoutes.get('/moltbook/:username', async (c) => {
 agentRoutes.get('/', async (c) => {
   const agentService = new AgentService(c.env.DB);
   
+  const tier = c.req.query('tier');
+  if (tier && !TRUST_TIERS.includes(tier as TrustTier)) {
+    return c.json({ 
+      success: false, 
+      error: { code: 'invalid_request', message: `tier must be one of: ${TRUST_TIERS.join(', ')}` } 
+    }, 400);
+  }
+  
   const query = {
     verified: c.req.query('verified') === 'true' ? true : undefined,
     min_trust: c.req.query('min_trust') ? parseInt(c.req.query('min_trust')!) : undefined,
+    tier: tier as TrustTier | undefined,
     capability: c.req.query('capability'),
     limit: Math.min(parseInt(c.req.query('limit') || '20'), 100),
     offset: parseInt(c.req.query('offset') || '0'),
@@ -100,11 +197,33 @@ agentRoutes.get('/', async (c) => {
   return c.json({ success: true, data: agents });
 });
 
-// POST /v1/agents/:id/verify/moltbook - Verify Moltbook profile
-agentRoutes.post('/:id/verify/moltbook', async (c) => {
+// PATCH /v1/agents/:id - Update own profile (signed by the agent)
+agentRoutes.patch('/:id', requireSignature(), zValidator('json', updateAgentSchema), async (c) => {
   const id = c.req.param('id');
+  const updates = c.req.valid('json');
   const agentService = new AgentService(c.env.DB);
-  const trustService = new TrustService(c.env.DB);
+  
+  if (c.get('signer')?.id !== id) {
+    return c.json({ 
+      success: false, 
+      error: { code: 'unauthorized', message: 'Agents can only update their own profile' } 
+    }, 403);
+  }
+  
+  await agentService.update(id, updates);
+  if (updates.capabilities) {
+    await new TrustService(c.env.DB, await loadTrustPolicy(c.env)).updateCapabilityScores(id);
+  }
+  
+  const updated = await agentService.getById(id);
+  return c.json({ success: true, data: agentService.toPublic(updated!) });
+});
+
+// GET /v1/agents/:id/trust - Get trust details
+agentRoutes.get('/:id/trust', async (c) => {
+  const id = c.req.param('id');
+  const agentService = new AgentService(c.env.DB);
+  const trustService = new TrustService(c.env.DB, await loadTrustPolicy(c.env));
   
   const agent = await agentService.getById(id);
   if (!agent) {
@@ -114,54 +233,124 @@ agentRoutes.post('/:id/verify/moltbook', async (c) => {
     }, 404);
   }
   
-  if (!agent.moltbook_username) {
+  const details = await trustService.getDetails(agent);
+  
+  if (c.req.query('format') === 'jws') {
+    return attestationResponse(c, agent, details);
+  }
+  
+  return c.json({ success: true, data: details });
+});
+
+// GET /v1/agents/:id/trust/history - Score changes over time (defaults to the last 30 days by day)
+agentRoutes.get('/:id/trust/history', zValidator('query', trustHistorySchema), async (c) => {
+  const id = c.req.param('id');
+  const { bucket, ...query } = c.req.valid('query');
+  const historyService = new TrustHistoryService(c.env.DB);
+  
+  const agent = await new AgentService(c.env.DB).getById(id);
+  if (!agent) {
     return c.json({ 
       success: false, 
-      error: { code: 'no_moltbook', message: 'No Moltbook username linked' } 
+      error: { code: 'not_found', message: 'Agent not found' } 
+    }, 404);
+  }
+  
+  const to = query.to ? new Date(query.to) : new Date();
+  const from = query.from ? new Date(query.from) : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+  if (from >= to) {
+    return c.json({ 
+      success: false, 
+      error: { code: 'invalid_request', message: 'from must be before to' } 
     }, 400);
   }
   
-  // Check Moltbook for verification code
-  const result = await agentService.verifyMoltbook(agent);
+  const range = { from: from.toISOString(), to: to.toISOString() };
+  const points = bucket === 'none'
+    ? await historyService.list(id, range)
+    : await historyService.buckets(id, range, bucket);
   
-  if (result.verified) {
-    // Update agent with verification and karma
-    await agentService.update(id, {
-      moltbook_verified: true,
-      moltbook_karma: result.karma,
-      status: 'active',
-    });
-    
-    // Recalculate trust score
-    const newScore = await trustService.calculateScore(id);
-    await agentService.update(id, { trust_score: newScore });
-    
-    const updated = await agentService.getById(id);
+  return c.json({ 
+    success: true, 
+    data: { 
+      agent_id: id,
+      ...range,
+      bucket,
+      starting_score: await historyService.scoreAt(id, range.from),
+      points,
+    } 
+  });
+});
+
+// POST /v1/agents/:id/trust/simulate - Projected trust under hypothetical changes (writes nothing)
+agentRoutes.post('/:id/trust/simulate', zValidator('json', simulateTrustSchema), async (c) => {
+  const id = c.req.param('id');
+  const { policy_version, at, ...scenario } = c.req.valid('json');
+  const agentService = new AgentService(c.env.DB);
+  
+  const agent = await agentService.getById(id);
+  if (!agent) {
     return c.json({ 
-      success: true, 
-      data: {
-        verified: true,
-        karma_imported: result.karma,
-        trust_score: newScore,
-        agent: agentService.toPublic(updated!),
-      }
-    });
+      success: false, 
+      error: { code: 'not_found', message: 'Agent not found' } 
+    }, 404);
   }
   
+  let policy: TrustPolicy | null;
+  try {
+    policy = policy_version
+      ? await loadTrustPolicyVersion(c.env, policy_version)
+      : await loadTrustPolicy(c.env);
+  } catch (error: unknown) {
+    // A stored policy that no longer passes validation can't be simulated
+    if (!(error instanceof InvalidTrustPolicyError)) throw error;
+    return c.json({ 
+      success: false, 
+      error: { code: 'invalid_request', message: error.message } 
+    }, 400);
+  }
+  if (!policy) {
+    return c.json({ 
+      success: false, 
+      error: { code: 'invalid_request', message: `Unknown policy version "${policy_version}"` } 
+    }, 400);
+  }
+  
+  if (at && new Date(at).getTime() < Date.now()) {
+    return c.json({ 
+      success: false, 
+      error: { code: 'invalid_request', message: 'at must not be in the past' } 
+    }, 400);
+  }
+  
+  for (const { from_agent_id } of scenario.vouches ?? []) {
+    if (from_agent_id === id || !(await agentService.getById(from_agent_id))) {
+      return c.json({ 
+        success: false, 
+        error: { code: 'invalid_request', message: `Invalid voucher "${from_agent_id}"` } 
+      }, 400);
+    }
+  }
+  
+  const details = await new TrustService(c.env.DB, policy).simulate(agent, {
+    ...scenario,
+    at: at ? new Date(at) : undefined,
+  });
+  
   return c.json({ 
-    success: false, 
-    error: { 
-      code: 'verification_failed', 
-      message: `Verification code not found. Create a Moltbook post containing "${agent.verification_code}" to verify.` 
+    success: true, 
+    data: { 
+      current_score: agent.trust_score,
+      projected: details,
     } 
-  }, 400);
+  });
 });
 
-// GET /v1/agents/:id/trust - Get trust details
-agentRoutes.get('/:id/trust', async (c) => {
+// GET /v1/agents/:id/attestation - Signed trust attestation (compact JWS)
+agentRoutes.get('/:id/attestation', async (c) => {
   const id = c.req.param('id');
   const agentService = new AgentService(c.env.DB);
-  const trustService = new TrustService(c.env.DB);
+  const trustService = new TrustService(c.env.DB, await loadTrustPolicy(c.env));
   
   const agent = await agentService.getById(id);
   if (!agent) {
@@ -172,15 +361,29 @@ agentRoutes.get('/:id/trust', async (c) => {
   }
   
   const details = await trustService.getDetails(agent);
-  return c.json({ success: true, data: details });
+  return attestationResponse(c, agent, details);
 });
 
 // POST /v1/agents/:id/vouch - Vouch for an agent
-agentRoutes.post('/:id/vouch', zValidator('json', vouchSchema), async (c) => {
+agentRoutes.post('/:id/vouch', requireSignature(), zValidator('json', vouchSchema), async (c) => {
   const toId = c.req.param('id');
-  const { from_agent_id } = c.req.valid('json');
+  const { from_agent_id, expires_at, capability, statement } = c.req.valid('json');
   const agentService = new AgentService(c.env.DB);
-  const trustService = new TrustService(c.env.DB);
+  const trustService = new TrustService(c.env.DB, await loadTrustPolicy(c.env));
+  
+  if (c.get('signer')?.id !== from_agent_id) {
+    return c.json({ 
+      success: false, 
+      error: { code: 'unauthorized', message: 'from_agent_id must match the signing agent' } 
+    }, 403);
+  }
+  
+  if (expires_at && new Date(expires_at).getTime() <= Date.now()) {
+    return c.json({ 
+      success: false, 
+      error: { code: 'invalid_vouch', message: 'expires_at must be in the future' } 
+    }, 400);
+  }
   
   // Verify voucher exists and is verified
   const voucher = await agentService.getById(from_agent_id);
@@ -208,30 +411,151 @@ agentRoutes.post('/:id/vouch', zValidator('json', vouchSchema), async (c) => {
     }, 400);
   }
   
+  // A capability vouch must name something the target claims to do
+  if (capability && !target.capabilities.includes(capability)) {
+    return c.json({ 
+      success: false, 
+      error: { code: 'invalid_vouch', message: `Agent does not list the capability "${capability}"` } 
+    }, 400);
+  }
+  
   try {
-    await agentService.addVouch(from_agent_id, toId);
+    await agentService.addVouch(from_agent_id, toId, {
+      expires_at: expires_at && new Date(expires_at).toISOString(),
+      capability,
+      statement,
+    });
     
     // Recalculate trust score
-    const newScore = await trustService.calculateScore(toId);
-    await agentService.update(toId, { trust_score: newScore });
+    const newScore = await trustService.rescore(toId, 'vouch');
     
     return c.json({ 
       success: true, 
       data: { 
         vouch_added: true, 
-        new_trust_score: newScore 
+        new_trust_score: newScore,
+        policy_version: trustService.policy.version,
       } 
     });
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     if (errorMessage.includes('UNIQUE constraint')) {
+      // One vouch per pair: a capability vouch is the voucher's only vouch for this agent
+      const existing = await agentService.getVouch(from_agent_id, toId);
+      const held = existing?.capability ? `for "${existing.capability}"` : 'with a general vouch';
       return c.json({ 
         success: false, 
-        error: { code: 'already_vouched', message: 'Already vouched for this agent' } 
+        error: { 
+          code: 'already_vouched', 
+          message: `Already vouched for this agent ${held}. You can hold one vouch per agent, ` +
+            'so revoke it first to vouch for a different capability',
+        } 
       }, 409);
     }
     throw error;
   }
 });
 
+// POST /v1/agents/:id/vouch/renew - Renew your vouch for an agent
+agentRoutes.post('/:id/vouch/renew', requireSignature(), zValidator('json', renewVouchSchema), async (c) => {
+  const toId = c.req.param('id');
+  const { from_agent_id, expires_at } = c.req.valid('json');
+  const agentService = new AgentService(c.env.DB);
+  const trustService = new TrustService(c.env.DB, await loadTrustPolicy(c.env));
+  
+  if (c.get('signer')?.id !== from_agent_id) {
+    return c.json({ 
+      success: false, 
+      error: { code: 'unauthorized', message: 'from_agent_id must match the signing agent' } 
+    }, 403);
+  }
+  
+  if (expires_at && new Date(expires_at).getTime() <= Date.now()) {
+    return c.json({ 
+      success: false, 
+      error: { code: 'invalid_vouch', message: 'expires_at must be in the future' } 
+    }, 400);
+  }
+  
+  const vouch = await agentService.renewVouch(from_agent_id, toId, expires_at && new Date(expires_at).toISOString());
+  if (!vouch) {
+    return c.json({ 
+      success: false, 
+      error: { code: 'not_found', message: 'Vouch not found' } 
+    }, 404);
+  }
+  
+  // Recalculate trust score
+  const newScore = await trustService.rescore(toId, 'vouch_renewed');
+  
+  return c.json({ 
+    success: true, 
+    data: { 
+      vouch_renewed: true, 
+      vouch,
+      new_trust_score: newScore,
+      policy_version: trustService.policy.version,
+    } 
+  });
+});
+
+// DELETE /v1/agents/:id/vouch - Withdraw your vouch for an agent
+agentRoutes.delete('/:id/vouch', requireSignature(), zValidator('json', revokeVouchSchema), async (c) => {
+  const toId = c.req.param('id');
+  const { from_agent_id, reason } = c.req.valid('json');
+  const agentService = new AgentService(c.env.DB);
+  const trustService = new TrustService(c.env.DB, await loadTrustPolicy(c.env));
+  
+  if (c.get('signer')?.id !== from_agent_id) {
+    return c.json({ 
+      success: false, 
+      error: { code: 'unauthorized', message: 'from_agent_id must match the signing agent' } 
+    }, 403);
+  }
+  
+  const revocation = await agentService.revokeVouch(from_agent_id, toId, reason);
+  if (!revocation) {
+    return c.json({ 
+      success: false, 
+      error: { code: 'not_found', message: 'Vouch not found' } 
+    }, 404);
+  }
+  
+  // Recalculate trust score
+  const newScore = await trustService.rescore(toId, 'vouch_revoked');
+  
+  return c.json({ 
+    success: true, 
+    data: { 
+      vouch_revoked: true, 
+      revocation,
+      new_trust_score: newScore,
+      policy_version: trustService.policy.version,
+    } 
+  });
+});
+
+// GET /v1/agents/:id/vouches/received - Who vouched for an agent
+agentRoutes.get('/:id/vouches/received', (c) => vouchListResponse(c, 'received'));
+
+// GET /v1/agents/:id/vouches/given - Who an agent vouched for
+agentRoutes.get('/:id/vouches/given', (c) => vouchListResponse(c, 'given'));
+
+// GET /v1/agents/:id/vouches/revoked - Vouches withdrawn from an agent
+agentRoutes.get('/:id/vouches/revoked', async (c) => {
+  const id = c.req.param('id');
+  const agentService = new AgentService(c.env.DB);
+  
+  const agent = await agentService.getById(id);
+  if (!agent) {
+    return c.json({ 
+      success: false, 
+      error: { code: 'not_found', message: 'Agent not found' } 
+    }, 404);
+  }
+  
+  const revocations = await agentService.getVouchRevocations(id);
+  return c.json({ success: true, data: revocations });
+});
+
 export { agentRoutes };
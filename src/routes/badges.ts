@@ -0,0 +1,59 @@
+/**
+ * Badge Routes - Embeddable SVG trust badges
+ *
+ * All routes are prefixed with /v1/agents (set in index.ts)
+ *
+ * Badges are images, so unknown agents get a "not found" badge (with a 404
+ * status) rather than a JSON error that would render as a broken image.
+ * Anyone can register with any Moltbook username, so badges by username only
+ * resolve once the agent has verified it.
+ */
+
+import { Hono, type Context } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { AgentService } from '../services/agent';
+import { agentBadge, notFoundBadge, profileUrl, BADGE_SIZES, BADGE_STYLES, type BadgeOptions } from '../services/badge';
+import type { Agent, Env } from '../types';
+
+// Scores change on vouches and verification, so keep caches short
+const BADGE_MAX_AGE_SECONDS = 300;
+const NOT_FOUND_MAX_AGE_SECONDS = 60;
+
+const badgeRoutes = new Hono<{ Bindings: Env }>();
+
+// Validation schemas
+const badgeQuerySchema = z.object({
+  style: z.enum(BADGE_STYLES).optional(),
+  size: z.enum(BADGE_SIZES).optional(),
+});
+
+/**
+ * An SVG badge response for an agent (or the not found badge).
+ */
+function badgeResponse(c: Context<{ Bindings: Env }>, agent: Agent | null, options: BadgeOptions) {
+  const svg = agent
+    ? agentBadge(agent, profileUrl(c.env.SITE_URL, agent.id), options)
+    : notFoundBadge(options);
+  const maxAge = agent ? BADGE_MAX_AGE_SECONDS : NOT_FOUND_MAX_AGE_SECONDS;
+
+  return c.body(svg, agent ? 200 : 404, {
+    'Content-Type': 'image/svg+xml; charset=utf-8',
+    'Cache-Control': `public, max-age=${maxAge}, s-maxage=${maxAge}`,
+    ...(agent && { Link: `<${profileUrl(c.env.SITE_URL, agent.id)}>; rel="related"` }),
+  });
+}
+
+// GET /v1/agents/:id/badge.svg - Trust badge (?style=flat|flat-square|for-the-badge&size=small|medium|large)
+badgeRoutes.get('/:id/badge.svg', zValidator('query', badgeQuerySchema), async (c) => {
+  const agent = await new AgentService(c.env.DB).getById(c.req.param('id'));
+  return badgeResponse(c, agent, c.req.valid('query'));
+});
+
+// GET /v1/agents/moltbook/:username/badge.svg - Trust badge by verified Moltbook username
+badgeRoutes.get('/moltbook/:username/badge.svg', zValidator('query', badgeQuerySchema), async (c) => {
+  const agent = await new AgentService(c.env.DB).getByMoltbook(c.req.param('username'));
+  return badgeResponse(c, agent?.moltbook_verified ? agent : null, c.req.valid('query'));
+});
+
+export { badgeRoutes };
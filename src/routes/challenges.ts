@@ -0,0 +1,142 @@
+/**
+ * Challenge Routes - Proof-of-possession for third-party platforms
+ *
+ * All routes are prefixed with /v1/challenges (set in index.ts)
+ *
+ * Flow:
+ * 1. Platform: POST /v1/challenges { agent_id } -> challenge message
+ * 2. Agent signs the message with its registered key
+ * 3. Platform: POST /v1/challenges/:id/verify { signature } -> verified identity
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { AgentService } from '../services/agent';
+import { ChallengeService } from '../services/challenge';
+import type { Env } from '../types';
+
+const challengeRoutes = new Hono<{ Bindings: Env }>();
+
+// Validation schemas
+const createChallengeSchema = z.object({
+  agent_id: z.string().min(1),
+  audience: z.string().min(1).max(256).optional(), // e.g. the platform's domain
+});
+
+const verifyChallengeSchema = z.object({
+  signature: z.string().min(1),
+});
+
+// POST /v1/challenges - Issue a challenge for an agent
+challengeRoutes.post('/', zValidator('json', createChallengeSchema), async (c) => {
+  const { agent_id, audience } = c.req.valid('json');
+  const agentService = new AgentService(c.env.DB);
+  const challengeService = new ChallengeService(c.env.DB);
+
+  const agent = await agentService.getById(agent_id);
+  if (!agent) {
+    return c.json({
+      success: false,
+      error: { code: 'not_found', message: 'Agent not found' }
+    }, 404);
+  }
+
+  if (!agent.public_key) {
+    return c.json({
+      success: false,
+      error: { code: 'no_public_key', message: 'Agent has no registered public key' }
+    }, 400);
+  }
+
+  const challenge = await challengeService.create(agent.id, audience ?? null);
+  return c.json({
+    success: true,
+    data: {
+      id: challenge.id,
+      agent_id: challenge.agent_id,
+      audience: challenge.audience,
+      message: ChallengeService.message(challenge),
+      expires_at: challenge.expires_at,
+    }
+  }, 201);
+});
+
+// POST /v1/challenges/:id/verify - Submit the agent's signature
+challengeRoutes.post('/:id/verify', zValidator('json', verifyChallengeSchema), async (c) => {
+  const id = c.req.param('id');
+  const { signature } = c.req.valid('json');
+  const agentService = new AgentService(c.env.DB);
+  const challengeService = new ChallengeService(c.env.DB);
+
+  const challenge = await challengeService.getById(id);
+  if (!challenge) {
+    return c.json({
+      success: false,
+      error: { code: 'not_found', message: 'Challenge not found' }
+    }, 404);
+  }
+
+  const agent = await agentService.getById(challenge.agent_id);
+  if (!agent || !agent.public_key) {
+    return c.json({
+      success: false,
+      error: { code: 'no_public_key', message: 'Agent has no registered public key' }
+    }, 400);
+  }
+
+  const result = await challengeService.verify(challenge, agent.public_key, signature);
+  if (!result.verified) {
+    const status = result.code === 'invalid_signature' ? 401 : result.code === 'already_used' ? 409 : 410;
+    return c.json({
+      success: false,
+      error: { code: result.code, message: result.message }
+    }, status);
+  }
+
+  return c.json({
+    success: true,
+    data: {
+      verified: true,
+      challenge_id: challenge.id,
+      audience: challenge.audience,
+      verified_at: result.challenge.verified_at,
+      valid_until: result.challenge.valid_until,
+      agent: agentService.toPublic(agent),
+    }
+  });
+});
+
+// GET /v1/challenges/:id - Re-check a challenge result
+challengeRoutes.get('/:id', async (c) => {
+  const id = c.req.param('id');
+  const agentService = new AgentService(c.env.DB);
+  const challengeService = new ChallengeService(c.env.DB);
+
+  const challenge = await challengeService.getById(id);
+  if (!challenge) {
+    return c.json({
+      success: false,
+      error: { code: 'not_found', message: 'Challenge not found' }
+    }, 404);
+  }
+
+  const status = challengeService.status(challenge);
+  const agent = status === 'verified' ? await agentService.getById(challenge.agent_id) : null;
+
+  return c.json({
+    success: true,
+    data: {
+      id: challenge.id,
+      agent_id: challenge.agent_id,
+      audience: challenge.audience,
+      status,
+      expires_at: challenge.expires_at,
+      verified_at: challenge.verified_at,
+      valid_until: challenge.valid_until,
+      agent: agent ? agentService.toPublic(agent) : null,
+    }
+  });
+});
+
+export { challengeRoutes };
@@ -0,0 +1,97 @@
+/**
+ * Credential Routes - W3C Verifiable Credentials about agents
+ *
+ * All routes are prefixed with /v1/agents (set in index.ts)
+ *
+ * Credentials are JWT-VCs issued by did:web:<DID_DOMAIN> about the agent's
+ * did:web identifier; verifiers resolve the issuer DID document for the key.
+ */
+
+import { Hono } from 'hono';
+import { AgentService } from '../services/agent';
+import { DidService } from '../services/did';
+import { loadTrustPolicy } from '../services/policy';
+import { TrustService } from '../services/trust';
+import type { Env } from '../types';
+
+const credentialRoutes = new Hono<{ Bindings: Env }>();
+
+// GET /v1/agents/:id/did - The agent's DID and resolved document
+credentialRoutes.get('/:id/did', async (c) => {
+  const id = c.req.param('id');
+  const agentService = new AgentService(c.env.DB);
+  const didService = new DidService(c.env);
+
+  const agent = await agentService.getById(id);
+  if (!agent) {
+    return c.json({
+      success: false,
+      error: { code: 'not_found', message: 'Agent not found' }
+    }, 404);
+  }
+
+  return c.json({
+    success: true,
+    data: { did: didService.agentDid(id), document: await didService.agentDocument(agent) }
+  });
+});
+
+// GET /v1/agents/:id/credentials/moltbook - "Moltbook account linked" credential
+credentialRoutes.get('/:id/credentials/moltbook', async (c) => {
+  const id = c.req.param('id');
+  const agentService = new AgentService(c.env.DB);
+
+  const agent = await agentService.getById(id);
+  if (!agent) {
+    return c.json({
+      success: false,
+      error: { code: 'not_found', message: 'Agent not found' }
+    }, 404);
+  }
+
+  if (!agent.moltbook_verified) {
+    return c.json({
+      success: false,
+      error: { code: 'not_verified', message: 'Agent has not verified a Moltbook account' }
+    }, 400);
+  }
+
+  const result = await new DidService(c.env).issueMoltbookCredential(agent);
+  return c.json({ success: true, data: result });
+});
+
+// GET /v1/agents/:id/credentials/trust?min_score=N - "Trust score >= N" credential
+credentialRoutes.get('/:id/credentials/trust', async (c) => {
+  const id = c.req.param('id');
+  const minScore = parseInt(c.req.query('min_score') || '');
+  const agentService = new AgentService(c.env.DB);
+  const trustService = new TrustService(c.env.DB, await loadTrustPolicy(c.env));
+
+  if (isNaN(minScore) || minScore < 0 || minScore > 100) {
+    return c.json({
+      success: false,
+      error: { code: 'invalid_request', message: 'min_score must be an integer from 0 to 100' }
+    }, 400);
+  }
+
+  const agent = await agentService.getById(id);
+  if (!agent) {
+    return c.json({
+      success: false,
+      error: { code: 'not_found', message: 'Agent not found' }
+    }, 404);
+  }
+
+  const details = await trustService.getDetails(agent);
+  if (details.score < minScore) {
+    return c.json({
+      success: false,
+      error: { code: 'threshold_not_met', message: `Trust score ${details.score} is below ${minScore}` }
+    }, 400);
+  }
+
+  const result = await new DidService(c.env).issueTrustCredential(agent, details, minScore);
+  return c.json({ success: true, data: result });
+});
+
+export { credentialRoutes };
@@ -0,0 +1,211 @@
+/**
+ * Key Routes - Public key rotation, revocation and history
+ *
+ * All routes are prefixed with /v1/agents (set in index.ts)
+ *
+ * Rotation and revocation need proof of control, either:
+ * - method "signature": the request is signed with the current key, or
+ * - method "moltbook": the agent posts a one-off code on its verified Moltbook
+ *   account (for agents that lost their key)
+ */
+
+import { Hono, type Context } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { requireSignature } from '../middleware/auth';
+import { createMoltbookClient, MoltbookProvider } from '../providers';
+import { AgentService } from '../services/agent';
+import { KeyService } from '../services/keys';
+import { isSupportedPublicKey, verifySignature } from '../utils/crypto';
+import type { Agent, AuthVariables, Env } from '../types';
+
+type KeyContext = Context<{ Bindings: Env; Variables: AuthVariables }>;
+
+const keyRoutes = new Hono<{ Bindings: Env; Variables: AuthVariables }>();
+
+// Validation schemas
+const proofMethod = z.enum(['signature', 'moltbook']).default('signature');
+
+const rotateKeySchema = z.object({
+  new_public_key: z.string().min(1),
+  proof: z.string().min(1), // Signature by the new key over KeyService.proofMessage
+  method: proofMethod,
+});
+
+const revokeKeySchema = z.object({
+  reason: z.string().max(200).optional(),
+  method: proofMethod,
+});
+
+/**
+ * Check that the caller controls the agent, by signature or Moltbook post.
+ * @returns An error response, or null if authorized
+ */
+async function authorizeKeyChange(
+  c: KeyContext,
+  agent: Agent,
+  method: 'signature' | 'moltbook',
+  moltbookCode: string
+): Promise<Response | null> {
+  if (method === 'signature') {
+    const signer = c.get('signer');
+    if (!signer) {
+      return c.json({
+        success: false,
+        error: { code: 'signature_required', message: 'Request must be signed with the current key' }
+      }, 401);
+    }
+    if (signer.id !== agent.id) {
+      return c.json({
+        success: false,
+        error: { code: 'unauthorized', message: 'Agents can only manage their own keys' }
+      }, 403);
+    }
+    return null;
+  }
+
+  if (!agent.moltbook_username || !agent.moltbook_verified) {
+    return c.json({
+      success: false,
+      error: { code: 'no_moltbook', message: 'Moltbook recovery requires a verified Moltbook account' }
+    }, 400);
+  }
+
+  const result = await new MoltbookProvider(createMoltbookClient(c.env)).checkPost(agent.moltbook_username, moltbookCode);
+  if (!result.verified) {
+    return c.json({
+      success: false,
+      error: {
+        code: 'verification_failed',
+        message: `Recovery code not found. Create a Moltbook post containing "${moltbookCode}" and retry.`
+      }
+    }, 400);
+  }
+  return null;
+}
+
+// POST /v1/agents/:id/keys/rotate - Replace the current key
+keyRoutes.post('/:id/keys/rotate', requireSignature({ optional: true }), zValidator('json', rotateKeySchema), async (c) => {
+  const id = c.req.param('id');
+  const { new_public_key, proof, method } = c.req.valid('json');
+  const agentService = new AgentService(c.env.DB);
+  const keyService = new KeyService(c.env.DB);
+
+  const agent = await agentService.getById(id);
+  if (!agent) {
+    return c.json({
+      success: false,
+      error: { code: 'not_found', message: 'Agent not found' }
+    }, 404);
+  }
+
+  if (!(await isSupportedPublicKey(new_public_key))) {
+    return c.json({
+      success: false,
+      error: { code: 'invalid_public_key', message: 'Public key must be an Ed25519 or P-256 key' }
+    }, 400);
+  }
+
+  // The new key must sign the proof message so agents can't claim someone else's key
+  if (!(await verifySignature(new_public_key, proof, KeyService.proofMessage(id, new_public_key)))) {
+    return c.json({
+      success: false,
+      error: { code: 'invalid_proof', message: 'Proof must be a signature by the new key' }
+    }, 400);
+  }
+
+  const denied = await authorizeKeyChange(
+    c,
+    agent,
+    method,
+    await KeyService.moltbookRotationCode(id, new_public_key)
+  );
+  if (denied) return denied;
+
+  await keyService.rotate(id, new_public_key, method);
+
+  const [current] = await keyService.getHistory(id);
+  return c.json({ success: true, data: { rotated: true, key: current } });
+});
+
+// POST /v1/agents/:id/keys/revoke - Revoke the current key
+keyRoutes.post('/:id/keys/revoke', requireSignature({ optional: true }), zValidator('json', revokeKeySchema), async (c) => {
+  const id = c.req.param('id');
+  const { reason, method } = c.req.valid('json');
+  const agentService = new AgentService(c.env.DB);
+  const keyService = new KeyService(c.env.DB);
+
+  const agent = await agentService.getById(id);
+  if (!agent) {
+    return c.json({
+      success: false,
+      error: { code: 'not_found', message: 'Agent not found' }
+    }, 404);
+  }
+
+  if (!agent.public_key) {
+    return c.json({
+      success: false,
+      error: { code: 'no_public_key', message: 'Agent has no key to revoke' }
+    }, 400);
+  }
+
+  const denied = await authorizeKeyChange(
+    c,
+    agent,
+    method,
+    await KeyService.moltbookRevocationCode(id, agent.public_key)
+  );
+  if (denied) return denied;
+
+  await keyService.revoke(id, reason ?? null);
+
+  return c.json({ success: true, data: { revoked: true } });
+});
+
+// GET /v1/agents/:id/keys - Key history
+keyRoutes.get('/:id/keys', async (c) => {
+  const id = c.req.param('id');
+  const agentService = new AgentService(c.env.DB);
+  const keyService = new KeyService(c.env.DB);
+
+  const agent = await agentService.getById(id);
+  if (!agent) {
+    return c.json({
+      success: false,
+      error: { code: 'not_found', message: 'Agent not found' }
+    }, 404);
+  }
+
+  const keys = await keyService.getHistory(id);
+  return c.json({ success: true, data: keys });
+});
+
+// GET /v1/agents/:id/keys/check?public_key=...&at=... - Was this key valid at time T?
+keyRoutes.get('/:id/keys/check', async (c) => {
+  const id = c.req.param('id');
+  const publicKey = c.req.query('public_key');
+  const atParam = c.req.query('at');
+  const keyService = new KeyService(c.env.DB);
+
+  if (!publicKey) {
+    return c.json({
+      success: false,
+      error: { code: 'invalid_request', message: 'public_key query parameter is required' }
+    }, 400);
+  }
+
+  if (atParam && isNaN(Date.parse(atParam))) {
+    return c.json({
+      success: false,
+      error: { code: 'invalid_request', message: 'at must be an ISO 8601 timestamp' }
+    }, 400);
+  }
+
+  const at = atParam ? new Date(atParam).toISOString() : new Date().toISOString();
+
+  const key = await keyService.findValidAt(id, publicKey, at);
+  return c.json({ success: true, data: { valid: key !== null, at, key } });
+});
+
+export { keyRoutes };
@@ -0,0 +1,243 @@
+/**
+ * OAuth Routes - "Sign in with MoltID" for relying parties
+ *
+ * All routes are prefixed with /v1/oauth (set in index.ts)
+ *
+ * Client registration and the authorize steps use the usual MoltID response
+ * envelope. The token and userinfo endpoints follow RFC 6749 / OIDC response
+ * formats so standard OAuth client libraries can consume them.
+ */
+
+import { Hono, type Context } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { AgentService } from '../services/agent';
+import { ChallengeService } from '../services/challenge';
+import { DEFAULT_SCOPE, OAuthService } from '../services/oauth';
+import { loadTrustPolicy } from '../services/policy';
+import { TrustService } from '../services/trust';
+import type { Env } from '../types';
+
+const oauthRoutes = new Hono<{ Bindings: Env }>();
+
+// Validation schemas
+const registerClientSchema = z.object({
+  name: z.string().min(1).max(128),
+  redirect_uris: z.array(z.string().url()).min(1).max(10),
+});
+
+const authorizeQuerySchema = z.object({
+  response_type: z.literal('code'),
+  client_id: z.string().min(1),
+  redirect_uri: z.string().url(),
+  agent_id: z.string().min(1),
+  scope: z.string().max(256).optional(),
+  state: z.string().max(512).optional(),
+  code_challenge: z.string().min(43).max(128).optional(),
+  code_challenge_method: z.literal('S256').optional(),
+});
+
+const approveSchema = z.object({
+  request_id: z.string().min(1),
+  signature: z.string().min(1),
+});
+
+/**
+ * RFC 6749 error response for the token endpoint.
+ */
+function tokenError(c: Context, error: string, description: string, status: 400 | 401 = 400) {
+  return c.json({ error, error_description: description }, status);
+}
+
+// POST /v1/oauth/clients - Register a relying party
+oauthRoutes.post('/clients', zValidator('json', registerClientSchema), async (c) => {
+  const { name, redirect_uris } = c.req.valid('json');
+  const oauthService = new OAuthService(c.env.DB, c.env);
+
+  const { client, client_secret } = await oauthService.registerClient(name, redirect_uris);
+  return c.json({ success: true, data: { ...client, client_secret } }, 201);
+});
+
+// GET /v1/oauth/authorize - Start sign-in; returns the challenge the agent must sign
+oauthRoutes.get('/authorize', zValidator('query', authorizeQuerySchema), async (c) => {
+  const query = c.req.valid('query');
+  const agentService = new AgentService(c.env.DB);
+  const challengeService = new ChallengeService(c.env.DB);
+  const oauthService = new OAuthService(c.env.DB, c.env);
+
+  const client = await oauthService.getClient(query.client_id);
+  if (!client || !client.redirect_uris.includes(query.redirect_uri)) {
+    return c.json({
+      success: false,
+      error: { code: 'invalid_client', message: 'Unknown client or unregistered redirect_uri' }
+    }, 400);
+  }
+
+  const agent = await agentService.getById(query.agent_id);
+  if (!agent) {
+    return c.json({
+      success: false,
+      error: { code: 'not_found', message: 'Agent not found' }
+    }, 404);
+  }
+
+  if (!agent.public_key) {
+    return c.json({
+      success: false,
+      error: { code: 'no_public_key', message: 'Agent has no registered public key' }
+    }, 400);
+  }
+
+  // The challenge audience binds the signature to this client
+  const challenge = await challengeService.create(agent.id, `oauth:${client.id}`);
+  await oauthService.createAuthorization({
+    id: challenge.id,
+    client_id: client.id,
+    agent_id: agent.id,
+    redirect_uri: query.redirect_uri,
+    scope: query.scope || DEFAULT_SCOPE,
+    state: query.state ?? null,
+    code_challenge: query.code_challenge ?? null,
+  });
+
+  return c.json({
+    success: true,
+    data: {
+      request_id: challenge.id,
+      client: { id: client.id, name: client.name },
+      message: ChallengeService.message(challenge),
+      expires_at: challenge.expires_at,
+    }
+  });
+});
+
+// POST /v1/oauth/authorize - Agent approves by signing the challenge
+oauthRoutes.post('/authorize', zValidator('json', approveSchema), async (c) => {
+  const { request_id, signature } = c.req.valid('json');
+  const agentService = new AgentService(c.env.DB);
+  const challengeService = new ChallengeService(c.env.DB);
+  const oauthService = new OAuthService(c.env.DB, c.env);
+
+  const authorization = await oauthService.getAuthorization(request_id);
+  const challenge = await challengeService.getById(request_id);
+  if (!authorization || !challenge) {
+    return c.json({
+      success: false,
+      error: { code: 'not_found', message: 'Authorization request not found' }
+    }, 404);
+  }
+
+  const agent = await agentService.getById(authorization.agent_id);
+  if (!agent || !agent.public_key) {
+    return c.json({
+      success: false,
+      error: { code: 'no_public_key', message: 'Agent has no registered public key' }
+    }, 400);
+  }
+
+  const result = await challengeService.verify(challenge, agent.public_key, signature);
+  if (!result.verified) {
+    const status = result.code === 'invalid_signature' ? 401 : result.code === 'already_used' ? 409 : 410;
+    return c.json({
+      success: false,
+      error: { code: result.code, message: result.message }
+    }, status);
+  }
+
+  const code = await oauthService.issueCode(authorization.id);
+  const redirect = new URL(authorization.redirect_uri);
+  redirect.searchParams.set('code', code);
+  if (authorization.state) redirect.searchParams.set('state', authorization.state);
+
+  return c.json({
+    success: true,
+    data: { code, state: authorization.state, redirect_uri: redirect.toString() }
+  });
+});
+
+// POST /v1/oauth/token - Exchange an authorization code for tokens
+oauthRoutes.post('/token', async (c) => {
+  const contentType = c.req.header('Content-Type') || '';
+  let body: Record<string, string | undefined>;
+  try {
+    body = (contentType.includes('application/json')
+      ? await c.req.json()
+      : await c.req.parseBody()) as Record<string, string | undefined>;
+  } catch {
+    return tokenError(c, 'invalid_request', 'Request body could not be parsed');
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return tokenError(c, 'invalid_request', 'Request body must be an object');
+  }
+  const agentService = new AgentService(c.env.DB);
+  const oauthService = new OAuthService(c.env.DB, c.env);
+
+  if (body.grant_type !== 'authorization_code') {
+    return tokenError(c, 'unsupported_grant_type', 'Only authorization_code is supported');
+  }
+  if (!body.code || !body.redirect_uri) {
+    return tokenError(c, 'invalid_request', 'code and redirect_uri are required');
+  }
+
+  // Client authentication: HTTP Basic or client_secret_post
+  let clientId = body.client_id;
+  let clientSecret = body.client_secret;
+  try {
+    const basic = OAuthService.parseBasicCredentials(c.req.header('Authorization'));
+    if (basic) {
+      clientId = basic.id;
+      clientSecret = basic.secret;
+    }
+  } catch {
+    return tokenError(c, 'invalid_client', 'Malformed Basic credentials', 401);
+  }
+
+  const client = clientId && clientSecret
+    ? await oauthService.authenticateClient(clientId, clientSecret)
+    : null;
+  if (!client) {
+    return tokenError(c, 'invalid_client', 'Client authentication failed', 401);
+  }
+
+  const redemption = await oauthService.redeemCode(body.code, client.id, body.redirect_uri, body.code_verifier);
+  if (!redemption.ok) {
+    return tokenError(c, redemption.error, redemption.description);
+  }
+
+  const agent = await agentService.getById(redemption.authorization.agent_id);
+  if (!agent) {
+    return tokenError(c, 'invalid_grant', 'Agent no longer exists');
+  }
+
+  const tokens = await oauthService.issueTokens(agent, redemption.authorization);
+  c.header('Cache-Control', 'no-store');
+  return c.json({ token_type: 'Bearer', ...tokens });
+});
+
+// GET /v1/oauth/userinfo - The signed-in agent's public profile and trust
+oauthRoutes.get('/userinfo', async (c) => {
+  const authorization = c.req.header('Authorization') || '';
+  const token = authorization.startsWith('Bearer ') ? authorization.slice(7) : '';
+  const agentService = new AgentService(c.env.DB);
+  const trustService = new TrustService(c.env.DB, await loadTrustPolicy(c.env));
+
+  const claims = token ? await new OAuthService(c.env.DB, c.env).verifyAccessToken(token) : null;
+  if (!claims) {
+    c.header('WWW-Authenticate', 'Bearer error="invalid_token"');
+    return c.json({ error: 'invalid_token', error_description: 'Access token is missing, invalid or expired' }, 401);
+  }
+
+  const agent = await agentService.getById(claims.sub);
+  if (!agent) {
+    c.header('WWW-Authenticate', 'Bearer error="invalid_token"');
+    return c.json({ error: 'invalid_token', error_description: 'Agent no longer exists' }, 401);
+  }
+
+  return c.json({
+    sub: agent.id,
+    ...agentService.toPublic(agent),
+    trust: await trustService.getDetails(agent),
+  });
+});
+
+export { oauthRoutes };
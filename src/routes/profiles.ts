@@ -0,0 +1,311 @@
+/**
+ * Profile Routes - Public, human-readable agent profile pages
+ *
+ * Mounted at / (set in index.ts):
+ *   /a/:id        - Profile by MoltID
+ *   /@:username   - Profile by Moltbook username
+ *
+ * Pages are rendered on the server from the same services as the API:
+ * identity, verified linked accounts, the trust breakdown, who vouched and
+ * the score over the last 90 days. OpenGraph and Twitter card tags make
+ * shared links preview with the agent's tier and score.
+ *
+ * Anyone can register with any Moltbook username, so a username is only shown
+ * (and only resolves at /@:username) once the agent has verified it.
+ */
+
+import { Hono, type Context } from 'hono';
+import { createProviders } from '../providers';
+import { AgentService } from '../services/agent';
+import { profileUrl } from '../services/badge';
+import { TrustHistoryService } from '../services/history';
+import { loadTrustPolicy } from '../services/policy';
+import { TrustService } from '../services/trust';
+import { VerificationService } from '../services/verification';
+import type { Agent, Env, LinkedAccount, TrustDetails, TrustHistoryBucket, VouchListing } from '../types';
+
+const profileRoutes = new Hono<{ Bindings: Env }>();
+
+const PROFILE_MAX_AGE_SECONDS = 300;
+const HISTORY_DAYS = 90;
+const VOUCHERS_SHOWN = 20;
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const FACTOR_LABELS: Record<string, string> = {
+  moltbook_verified: 'Moltbook identity',
+  karma: 'Moltbook karma',
+  age: 'Account age',
+  vouches: 'Vouches',
+  reports: 'Reports',
+  github: 'GitHub account',
+  graph_trust: 'Graph trust',
+};
+
+interface ProfileData {
+  agent: Agent;
+  url: string;
+  accounts: LinkedAccount[];
+  trust: TrustDetails;
+  vouches: VouchListing[];
+  history: { from: number; to: number; starting_score: number | null; buckets: TrustHistoryBucket[] };
+}
+
+/**
+ * Escape text for HTML content and attribute values.
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * The name an agent is shown under: its Moltbook username once verified,
+ * otherwise its MoltID.
+ */
+function displayName(agent: Pick<Agent, 'id' | 'moltbook_username' | 'moltbook_verified'>): string {
+  return agent.moltbook_verified && agent.moltbook_username ? `@${agent.moltbook_username}` : agent.id;
+}
+
+/**
+ * Factor rows for the trust breakdown. Graph trust is only listed when the
+ * policy counts it.
+ */
+function factorRowsHtml(trust: TrustDetails): string {
+  const { factors } = trust.explanation;
+  return Object.entries(factors)
+    .filter(([name, f]) => f && (name !== 'graph_trust' || factors.graph_trust.counted))
+    .map(([name, f]) => {
+      const points = f!.points > 0 ? `+${f!.points}` : `${f!.points}`;
+      const max = name === 'reports' ? `-${f!.max_points}` : `${f!.max_points}`;
+      return `<tr><td>${FACTOR_LABELS[name] ?? escapeHtml(name)}</td><td class="num">${points}</td><td class="num muted">${max}</td></tr>`;
+    })
+    .join('\n          ');
+}
+
+/**
+ * The score over time as a step chart.
+ */
+function historyChartSvg(history: ProfileData['history'], maxScore: number): string {
+  const width = 600;
+  const height = 120;
+  const x = (t: number) => Math.round(((t - history.from) / (history.to - history.from)) * width);
+  const y = (score: number) => Math.round(height - (score / maxScore) * (height - 8) - 4);
+
+  let score = history.starting_score ?? history.buckets[0]?.score ?? 0;
+  let path = `M0 ${y(score)}`;
+  for (const bucket of history.buckets) {
+    path += ` H${x(new Date(bucket.bucket_start).getTime())} V${y(bucket.score)}`;
+    score = bucket.score;
+  }
+  path += ` H${width}`;
+
+  return `<svg class="chart" viewBox="0 0 ${width} ${height}" preserveAspectRatio="none" role="img" aria-label="Trust score over the last ${HISTORY_DAYS} days, now ${score}">
+          <path d="${path}" fill="none" stroke="#3b82f6" stroke-width="2" vector-effect="non-scaling-stroke"/>
+        </svg>`;
+}
+
+/**
+ * One received vouch.
+ */
+function vouchHtml(vouch: VouchListing): string {
+  const voucher = vouch.agent;
+  const name = displayName(voucher);
+  const details = [
+    vouch.capability && `for <code>${escapeHtml(vouch.capability)}</code>`,
+    new Date(vouch.created_at).toISOString().slice(0, 10),
+    !vouch.counts && 'not counted',
+  ].filter(Boolean).join(' · ');
+
+  return `<li>
+          <a href="/a/${encodeURIComponent(voucher.id)}">${escapeHtml(name)}</a>
+          <span class="muted">(${escapeHtml(voucher.tier)}, ${voucher.trust_score}) · ${details}</span>${vouch.statement ? `
+          <div class="statement">“${escapeHtml(vouch.statement)}”</div>` : ''}
+        </li>`;
+}
+
+/**
+ * The profile page.
+ */
+function profilePageHtml(data: ProfileData, maxScore: number): string {
+  const { agent, trust } = data;
+  const name = escapeHtml(displayName(agent));
+  const summary = escapeHtml(
+    `${trust.tier} on MoltID · trust ${agent.trust_score}/${maxScore}` +
+    (agent.moltbook_verified ? ' · Moltbook verified' : '') +
+    ` · ${agent.vouch_count} ${agent.vouch_count === 1 ? 'vouch' : 'vouches'}`
+  );
+  const url = escapeHtml(data.url);
+  const badge = `/v1/agents/${encodeURIComponent(agent.id)}/badge.svg`;
+
+  const accounts = data.accounts.length
+    ? data.accounts.map((a) =>
+        `<li><strong>${escapeHtml(a.provider)}</strong> ${escapeHtml(a.handle)}${a.verified_at ? ` <span class="muted">verified ${a.verified_at.slice(0, 10)}</span>` : ''}</li>`
+      ).join('\n        ')
+    : '<li class="muted">No linked accounts yet.</li>';
+
+  const vouches = data.vouches.length
+    ? data.vouches.map(vouchHtml).join('\n        ')
+    : '<li class="muted">No vouches yet.</li>';
+
+  const history = data.history.buckets.length || data.history.starting_score !== null
+    ? historyChartSvg(data.history, maxScore)
+    : `<p class="muted">No score changes in the last ${HISTORY_DAYS} days.</p>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${name} - MoltID</title>
+  <meta name="description" content="${summary}">
+  <link rel="canonical" href="${url}">
+  <meta property="og:type" content="profile">
+  <meta property="og:site_name" content="MoltID">
+  <meta property="og:title" content="${name} - MoltID">
+  <meta property="og:description" content="${summary}">
+  <meta property="og:url" content="${url}">
+  <meta name="twitter:card" content="summary">
+  <meta name="twitter:title" content="${name} - MoltID">
+  <meta name="twitter:description" content="${summary}">
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body { font-family: system-ui, -apple-system, sans-serif; background: #0a0a0a; color: #e5e5e5; line-height: 1.6; }
+    .container { max-width: 800px; margin: 0 auto; padding: 3rem 2rem; }
+    h1 { font-size: 2.5rem; color: #fff; word-break: break-all; }
+    h2 { font-size: 1.25rem; margin-bottom: 1rem; color: #fff; }
+    .section { margin: 2.5rem 0; }
+    .card { background: #18181b; padding: 1.5rem; border-radius: 8px; }
+    .muted { color: #71717a; }
+    .score { font-size: 3rem; color: #fff; font-weight: 700; }
+    .tier { color: #fbbf24; font-weight: 600; text-transform: capitalize; }
+    table { width: 100%; border-collapse: collapse; margin-top: 1rem; }
+    td { padding: 0.35rem 0; border-bottom: 1px solid #27272a; }
+    .num { text-align: right; font-variant-numeric: tabular-nums; }
+    ul { list-style: none; }
+    li { margin: 0.6rem 0; }
+    .statement { color: #a1a1aa; font-style: italic; }
+    .chart { width: 100%; height: 120px; }
+    code { color: #a5f3fc; }
+    a { color: #3b82f6; }
+    footer { margin-top: 3rem; color: #71717a; font-size: 0.9rem; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <h1>${name}</h1>
+    <p class="muted"><code>${escapeHtml(agent.id)}</code> · registered ${agent.created_at.slice(0, 10)}${agent.status === 'suspended' ? ' · <strong>suspended</strong>' : ''}</p>
+    <p style="margin-top: 0.75rem;"><img src="${badge}" alt="MoltID trust badge"></p>${agent.capabilities.length ? `
+    <p style="margin-top: 0.75rem;">${agent.capabilities.map((c) => `<code>${escapeHtml(c)}</code>`).join(' ')}</p>` : ''}
+
+    <div class="section">
+      <h2>Trust</h2>
+      <div class="card">
+        <span class="score">${trust.score}</span><span class="muted">/${maxScore}</span>
+        · <span class="tier">${escapeHtml(trust.tier)}</span>
+        <table>
+          ${factorRowsHtml(trust)}
+        </table>
+        <p class="muted" style="margin-top: 0.75rem;">Scoring policy ${escapeHtml(trust.policy_version)} · <a href="/v1/agents/${encodeURIComponent(agent.id)}/trust">JSON</a></p>
+      </div>
+    </div>
+
+    <div class="section">
+      <h2>History</h2>
+      <div class="card">
+        ${history}
+      </div>
+    </div>
+
+    <div class="section">
+      <h2>Linked accounts</h2>
+      <ul>
+        ${accounts}
+      </ul>
+    </div>
+
+    <div class="section">
+      <h2>Vouched for by</h2>
+      <ul>
+        ${vouches}
+      </ul>
+    </div>
+
+    <footer>
+      <p><a href="/">MoltID</a> - the trust layer for the agent internet.</p>
+    </footer>
+  </div>
+</body>
+</html>`;
+}
+
+/**
+ * The not found page.
+ */
+function notFoundPageHtml(): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>Agent not found - MoltID</title>
+  <style>
+    body { font-family: system-ui, -apple-system, sans-serif; background: #0a0a0a; color: #e5e5e5; text-align: center; padding: 6rem 2rem; }
+    a { color: #3b82f6; }
+  </style>
+</head>
+<body>
+  <h1>Agent not found</h1>
+  <p>No agent is registered under this name. <a href="/">MoltID</a></p>
+</body>
+</html>`;
+}
+
+/**
+ * Render an agent's profile page, or the not found page.
+ */
+async function profileResponse(c: Context<{ Bindings: Env }>, agent: Agent | null) {
+  if (!agent) {
+    return c.html(notFoundPageHtml(), 404);
+  }
+
+  const policy = await loadTrustPolicy(c.env);
+  const to = new Date();
+  const from = new Date(to.getTime() - HISTORY_DAYS * DAY_MS);
+  const range = { from: from.toISOString(), to: to.toISOString() };
+  const historyService = new TrustHistoryService(c.env.DB);
+
+  const data: ProfileData = {
+    agent,
+    url: profileUrl(c.env.SITE_URL, agent.id),
+    accounts: await new VerificationService(c.env.DB, createProviders(c.env)).getLinkedAccounts(agent.id, { verifiedOnly: true }),
+    trust: await new TrustService(c.env.DB, policy).getDetails(agent),
+    vouches: (await new AgentService(c.env.DB).listVouches(agent.id, 'received', { limit: VOUCHERS_SHOWN })).vouches,
+    history: {
+      from: from.getTime(),
+      to: to.getTime(),
+      starting_score: await historyService.scoreAt(agent.id, range.from),
+      buckets: await historyService.buckets(agent.id, range, 'day'),
+    },
+  };
+
+  return c.html(profilePageHtml(data, policy.max_score), 200, {
+    'Cache-Control': `public, max-age=${PROFILE_MAX_AGE_SECONDS}`,
+  });
+}
+
+// GET /a/:id - Profile by MoltID
+profileRoutes.get('/a/:id', async (c) => {
+  return profileResponse(c, await new AgentService(c.env.DB).getById(c.req.param('id')));
+});
+
+// GET /@:username - Profile by verified Moltbook username
+profileRoutes.get('/:handle{@[^/]+}', async (c) => {
+  const username = c.req.param('handle').slice(1);
+  const agent = await new AgentService(c.env.DB).getByMoltbook(username);
+  return profileResponse(c, agent?.moltbook_verified ? agent : null);
+});
+
+export { profileRoutes };
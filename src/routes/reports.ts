@@ -0,0 +1,214 @@
+/**
+ * Report Routes - Report an agent, and dispute reports against you
+ *
+ * All routes are prefixed with /v1/agents (set in index.ts)
+ *
+ * Verified agents report by signing the request. Platforms report with their
+ * OAuth client credentials (HTTP Basic), once an admin has allowed the client
+ * to report. Admins uphold or dismiss reports under /v1/admin/reports.
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { requireSignature } from '../middleware/auth';
+import { AgentService } from '../services/agent';
+import { OAuthService } from '../services/oauth';
+import { loadTrustPolicy } from '../services/policy';
+import { ReportService } from '../services/report';
+import { TrustService } from '../services/trust';
+import type { AuthVariables, Env, ReporterType } from '../types';
+
+const reportRoutes = new Hono<{ Bindings: Env; Variables: AuthVariables }>();
+
+// Validation schemas
+// Evidence is shown to integrators as links, so only web URLs
+const evidenceUrl = z.string().url().refine(
+  (url) => /^https?:\/\//i.test(url),
+  { message: 'Evidence must be an http or https URL' }
+);
+
+// reporter_id is required for agents (it must match the signer) and omitted by platforms
+const reportSchema = z.object({
+  reporter_id: z.string().min(1).optional(),
+  category: z.enum(['scam', 'impersonation', 'spam', 'malicious', 'other']),
+  description: z.string().max(1000).optional(),
+  evidence: z.array(evidenceUrl).max(5).optional(),
+});
+
+const disputeSchema = z.object({
+  statement: z.string().min(1).max(1000),
+});
+
+// POST /v1/agents/:id/reports - Report an agent (signed by the reporter, or platform client credentials)
+reportRoutes.post('/:id/reports', requireSignature({ optional: true }), zValidator('json', reportSchema), async (c) => {
+  const agentId = c.req.param('id');
+  const { reporter_id, ...input } = c.req.valid('json');
+  const agentService = new AgentService(c.env.DB);
+  const reportService = new ReportService(c.env.DB);
+  const trustService = new TrustService(c.env.DB, await loadTrustPolicy(c.env));
+  const signer = c.get('signer');
+
+  let reporter: { id: string; type: ReporterType };
+  if (signer) {
+    if (signer.id !== reporter_id) {
+      return c.json({
+        success: false,
+        error: { code: 'unauthorized', message: 'reporter_id must match the signing agent' }
+      }, 403);
+    }
+
+    if (!signer.moltbook_verified) {
+      return c.json({
+        success: false,
+        error: { code: 'unauthorized', message: 'Only verified agents can report' }
+      }, 403);
+    }
+    reporter = { id: signer.id, type: 'agent' };
+  } else {
+    const oauthService = new OAuthService(c.env.DB, c.env);
+    let credentials: { id: string; secret: string } | null;
+    try {
+      credentials = OAuthService.parseBasicCredentials(c.req.header('Authorization'));
+    } catch {
+      return c.json({
+        success: false,
+        error: { code: 'unauthorized', message: 'Malformed Basic credentials' }
+      }, 401);
+    }
+
+    if (!credentials) {
+      return c.json({
+        success: false,
+        error: {
+          code: 'signature_required',
+          message: 'Sign the request as the reporting agent, or authenticate as a platform with client credentials',
+        }
+      }, 401);
+    }
+
+    const client = await oauthService.authenticateClient(credentials.id, credentials.secret);
+    if (!client) {
+      return c.json({
+        success: false,
+        error: { code: 'unauthorized', message: 'Client authentication failed' }
+      }, 401);
+    }
+
+    if (!client.can_report) {
+      return c.json({
+        success: false,
+        error: { code: 'unauthorized', message: 'This platform is not allowed to report agents' }
+      }, 403);
+    }
+
+    if (reporter_id !== undefined) {
+      return c.json({
+        success: false,
+        error: { code: 'invalid_request', message: 'reporter_id is only for reports by agents' }
+      }, 400);
+    }
+    reporter = { id: client.id, type: 'platform' };
+  }
+
+  const agent = await agentService.getById(agentId);
+  if (!agent) {
+    return c.json({
+      success: false,
+      error: { code: 'not_found', message: 'Agent not found' }
+    }, 404);
+  }
+
+  if (reporter.id === agentId) {
+    return c.json({
+      success: false,
+      error: { code: 'invalid_report', message: 'Cannot report yourself' }
+    }, 400);
+  }
+
+  try {
+    const report = await reportService.create(agentId, reporter.id, input, reporter.type);
+
+    // Recalculate trust score
+    const newScore = await trustService.rescore(agentId, 'report');
+
+    return c.json({
+      success: true,
+      data: {
+        report,
+        new_trust_score: newScore,
+        policy_version: trustService.policy.version,
+      }
+    }, 201);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    if (errorMessage.includes('UNIQUE constraint')) {
+      return c.json({
+        success: false,
+        error: { code: 'already_reported', message: 'Already reported this agent' }
+      }, 409);
+    }
+    throw error;
+  }
+});
+
+// GET /v1/agents/:id/reports - Reports against an agent, newest first
+reportRoutes.get('/:id/reports', async (c) => {
+  const agentId = c.req.param('id');
+
+  const agent = await new AgentService(c.env.DB).getById(agentId);
+  if (!agent) {
+    return c.json({
+      success: false,
+      error: { code: 'not_found', message: 'Agent not found' }
+    }, 404);
+  }
+
+  const reports = await new ReportService(c.env.DB).list({ agent_id: agentId });
+  return c.json({ success: true, data: reports });
+});
+
+// POST /v1/agents/:id/reports/:reportId/dispute - Dispute a report against you (signed)
+reportRoutes.post('/:id/reports/:reportId/dispute', requireSignature(), zValidator('json', disputeSchema), async (c) => {
+  const agentId = c.req.param('id');
+  const { statement } = c.req.valid('json');
+  const reportService = new ReportService(c.env.DB);
+  const trustService = new TrustService(c.env.DB, await loadTrustPolicy(c.env));
+
+  if (c.get('signer')?.id !== agentId) {
+    return c.json({
+      success: false,
+      error: { code: 'unauthorized', message: 'Only the reported agent can dispute a report' }
+    }, 403);
+  }
+
+  const existing = await reportService.getById(c.req.param('reportId'));
+  if (!existing || existing.agent_id !== agentId) {
+    return c.json({
+      success: false,
+      error: { code: 'not_found', message: 'Report not found' }
+    }, 404);
+  }
+
+  const report = await reportService.dispute(existing.id, statement);
+  if (!report) {
+    return c.json({
+      success: false,
+      error: { code: 'invalid_state', message: `Report is already ${existing.status}` }
+    }, 409);
+  }
+
+  // Recalculate trust score
+  const newScore = await trustService.rescore(agentId, 'dispute');
+
+  return c.json({
+    success: true,
+    data: {
+      report,
+      new_trust_score: newScore,
+      policy_version: trustService.policy.version,
+    }
+  });
+});
+
+export { reportRoutes };
@@ -0,0 +1,26 @@
+/**
+ * Trust Routes - Instance-wide trust scoring information
+ *
+ * All routes are prefixed with /v1/trust (set in index.ts)
+ */
+
+import { Hono } from 'hono';
+import { loadTrustPolicy } from '../services/policy';
+import { tierDefinitions } from '../services/tiers';
+import type { Env } from '../types';
+
+const trustRoutes = new Hono<{ Bindings: Env }>();
+
+// GET /v1/trust/policy - The active scoring weights and their version
+trustRoutes.get('/policy', async (c) => {
+  const policy = await loadTrustPolicy(c.env);
+  return c.json({ success: true, data: policy });
+});
+
+// GET /v1/trust/tiers - Tier requirements under the active policy, lowest first
+trustRoutes.get('/tiers', async (c) => {
+  const policy = await loadTrustPolicy(c.env);
+  return c.json({ success: true, data: { policy_version: policy.version, tiers: tierDefinitions(policy) } });
+});
+
+export { trustRoutes };
@@ -0,0 +1,118 @@
+/**
+ * Verification Routes - Link external accounts through verification providers
+ *
+ * All routes are prefixed with /v1/agents (set in index.ts)
+ *
+ * Each provider in src/providers is exposed as POST /:id/verify/:provider.
+ * Agents that registered without a public key may call these unsigned; the
+ * provider check itself proves control of the external account.
+ */
+
+import { Hono } from 'hono';
+import { requireSignature } from '../middleware/auth';
+import { createProviders } from '../providers';
+import { AgentService } from '../services/agent';
+import { loadTrustPolicy } from '../services/policy';
+import { TrustService } from '../services/trust';
+import { VerificationService } from '../services/verification';
+import type { AuthVariables, Env } from '../types';
+
+const verificationRoutes = new Hono<{ Bindings: Env; Variables: AuthVariables }>();
+
+// POST /v1/agents/:id/verify/:provider - Verify and link an external account
+verificationRoutes.post('/:id/verify/:provider', requireSignature({ allowKeyless: true }), async (c) => {
+  const id = c.req.param('id');
+  const agentService = new AgentService(c.env.DB);
+  const trustService = new TrustService(c.env.DB, await loadTrustPolicy(c.env));
+  const verificationService = new VerificationService(c.env.DB, createProviders(c.env));
+
+  const signer = c.get('signer');
+  if (signer && signer.id !== id) {
+    return c.json({
+      success: false,
+      error: { code: 'unauthorized', message: 'Agents can only verify themselves' }
+    }, 403);
+  }
+
+  const provider = verificationService.getProvider(c.req.param('provider'));
+  if (!provider) {
+    return c.json({
+      success: false,
+      error: {
+        code: 'unknown_provider',
+        message: `Unknown provider. Available: ${verificationService.providerNames.join(', ')}`
+      }
+    }, 404);
+  }
+
+  const agent = await agentService.getById(id);
+  if (!agent) {
+    return c.json({
+      success: false,
+      error: { code: 'not_found', message: 'Agent not found' }
+    }, 404);
+  }
+
+  // The body is optional; providers that need input declare it in their schema
+  const raw = await c.req.text();
+  let body: unknown;
+  try {
+    body = raw ? JSON.parse(raw) : {};
+  } catch {
+    return c.json({
+      success: false,
+      error: { code: 'invalid_request', message: 'Request body must be JSON' }
+    }, 400);
+  }
+  const input = provider.inputSchema.safeParse(body);
+  if (!input.success) {
+    return c.json({
+      success: false,
+      error: { code: 'invalid_request', message: input.error.issues.map((i) => i.message).join('; ') }
+    }, 400);
+  }
+
+  const { outcome, account } = await verificationService.verify(agent, provider, input.data);
+  if (!outcome.verified) {
+    return c.json({
+      success: false,
+      error: { code: outcome.code, message: outcome.message }
+    }, 400);
+  }
+
+  // Recalculate trust score
+  const newScore = await trustService.rescore(id, 'verify');
+
+  const updated = await agentService.getById(id);
+  return c.json({
+    success: true,
+    data: {
+      verified: true,
+      provider: provider.name,
+      account,
+      trust_score: newScore,
+      policy_version: trustService.policy.version,
+      agent: agentService.toPublic(updated!),
+    }
+  });
+});
+
+// GET /v1/agents/:id/accounts - Linked accounts and their status
+verificationRoutes.get('/:id/accounts', async (c) => {
+  const id = c.req.param('id');
+  const agentService = new AgentService(c.env.DB);
+  const verificationService = new VerificationService(c.env.DB, createProviders(c.env));
+
+  const agent = await agentService.getById(id);
+  if (!agent) {
+    return c.json({
+      success: false,
+      error: { code: 'not_found', message: 'Agent not found' }
+    }, 404);
+  }
+
+  const accounts = await verificationService.getLinkedAccounts(id);
+  return c.json({ success: true, data: accounts });
+});
+
+export { verificationRoutes };
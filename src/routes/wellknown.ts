@@ -0,0 +1,68 @@
+/**
+ * Well-Known Routes - Discovery documents for offline verification
+ *
+ * Mounted at / (so /.well-known/jwks.json is the full path). Also serves the
+ * did:web documents, which must live at fixed paths on the DID domain.
+ */
+
+import { Hono } from 'hono';
+import { AgentService } from '../services/agent';
+import { AttestationService } from '../services/attestation';
+import { DidService } from '../services/did';
+import type { Env } from '../types';
+
+const wellKnownRoutes = new Hono<{ Bindings: Env }>();
+
+// GET /.well-known/jwks.json - Public keys that sign MoltID attestations
+wellKnownRoutes.get('/.well-known/jwks.json', async (c) => {
+  const jwks = await new AttestationService(c.env).getJwks();
+  c.header('Cache-Control', 'public, max-age=3600');
+  return c.json(jwks);
+});
+
+// GET /.well-known/did.json - DID document for the instance (credential issuer)
+wellKnownRoutes.get('/.well-known/did.json', async (c) => {
+  const document = await new DidService(c.env).issuerDocument();
+  c.header('Cache-Control', 'public, max-age=3600');
+  return c.json(document);
+});
+
+// GET /.well-known/openid-configuration - OIDC discovery for "Sign in with MoltID"
+wellKnownRoutes.get('/.well-known/openid-configuration', (c) => {
+  const issuer = new AttestationService(c.env).issuer;
+  c.header('Cache-Control', 'public, max-age=3600');
+  return c.json({
+    issuer,
+    authorization_endpoint: `${issuer}/v1/oauth/authorize`,
+    token_endpoint: `${issuer}/v1/oauth/token`,
+    userinfo_endpoint: `${issuer}/v1/oauth/userinfo`,
+    registration_endpoint: `${issuer}/v1/oauth/clients`,
+    jwks_uri: `${issuer}/.well-known/jwks.json`,
+    response_types_supported: ['code'],
+    grant_types_supported: ['authorization_code'],
+    subject_types_supported: ['public'],
+    scopes_supported: ['openid'],
+    code_challenge_methods_supported: ['S256'],
+    token_endpoint_auth_methods_supported: ['client_secret_post', 'client_secret_basic'],
+    id_token_signing_alg_values_supported: ['EdDSA', 'ES256'],
+  });
+});
+
+// GET /agents/:id/did.json - did:web resolution for did:web:<domain>:agents:<id>
+wellKnownRoutes.get('/agents/:id/did.json', async (c) => {
+  const id = c.req.param('id');
+  const agentService = new AgentService(c.env.DB);
+
+  const agent = await agentService.getById(id);
+  if (!agent) {
+    return c.json({
+      success: false,
+      error: { code: 'not_found', message: 'Agent not found' }
+    }, 404);
+  }
+
+  const document = await new DidService(c.env).agentDocument(agent);
+  return c.json(document);
+});
+
+export { wellKnownRoutes };
@@ -0,0 +1,47 @@
+/**
+ * Scheduled Handler - Cron trigger entry point
+ *
+ * The graph trust cron (GRAPH_TRUST_CRON, daily by default) runs the Sybil
+ * analysis (see SybilService) and then recomputes graph trust for every agent
+ * (see GraphTrustService). Every other trigger refreshes
+ * one batch of agents (see RefreshService). Configure the schedules under
+ * [triggers] in wrangler.toml.
+ */
+
+import { GraphTrustService } from './services/graph';
+import { loadTrustPolicy } from './services/policy';
+import { RefreshService } from './services/refresh';
+import { SybilService } from './services/sybil';
+import type { Env } from './types';
+
+export const DEFAULT_GRAPH_TRUST_CRON = '0 3 * * *';
+
+export async function scheduled(controller: ScheduledController, env: Env): Promise<void> {
+  if (controller.cron === (env.GRAPH_TRUST_CRON || DEFAULT_GRAPH_TRUST_CRON)) {
+    const policy = await loadTrustPolicy(env);
+    const analysis = await new SybilService(env.DB, policy).analyze();
+    console.log(
+      `[${controller.cron}] sybil analysis ${analysis.run_id}: ` +
+      `${analysis.flagged} agents flagged, ${analysis.resolved} flags resolved, ${analysis.rescored} agents rescored`
+    );
+
+    const result = await new GraphTrustService(env.DB, policy).run();
+    console.log(
+      `[${controller.cron}] graph trust ${result.run_id}: ` +
+      `${result.agents} agents, ${result.vouches} vouches, ${result.iterations} iterations`
+    );
+    return;
+  }
+
+  const result = await new RefreshService(env.DB, env).runBatch();
+
+  if (!result) {
+    console.log(`[${controller.cron}] trust refresh: batch already claimed, skipping`);
+    return;
+  }
+  console.log(
+    `[${controller.cron}] trust refresh ${result.run_id}: ` +
+    `${result.processed} agents, ${result.changed} changed` +
+    `${result.failed ? `, ${result.failed} failed` : ''}${result.completed ? ', pass complete' : ''}`
+  );
+}
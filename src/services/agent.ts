@@ -1,5 +1,21 @@
 import { nanoid } from 'nanoid';
-import type { Agent, AgentCreateInput, AgentPublic } from '../types';
+import { KeyService } from './keys';
+import type { Agent, AgentCreateInput, AgentPublic, TrustTier, Vouch, VouchPage, VouchRevocation } from '../types';
+
+// Agent rows plus verified domains, which live in linked_accounts
+const AGENT_COLUMNS = `
+  a.*, (
+    SELECT json_group_array(l.handle) FROM linked_accounts l
+    WHERE l.agent_id = a.id AND l.provider = 'domain' AND l.status = 'verified'
+  ) AS domains
+`;
+
+const AGENT_SELECT = `SELECT ${AGENT_COLUMNS} FROM agents a`;
+
+// Unexpired vouches for an agent (binds: agent ID, now)
+const ACTIVE_VOUCH_COUNT = `
+  SELECT COUNT(*) FROM vouches WHERE to_agent_id = ? AND (expires_at IS NULL OR expires_at > ?)
+`;
 
 /**
  * AgentService handles all CRUD operations and search for MoltID agents.
@@ -18,16 +34,27 @@ export class AgentService {
     const verification_code = `moltid-verify:${id}`;
     const capabilities = JSON.stringify(input.capabilities || []);
     
-    await this.db.prepare(`
-      INSERT INTO agents (id, moltbook_username, public_key, capabilities, verification_code)
-      VALUES (?, ?, ?, ?, ?)
-    `).bind(
-      id,
-      input.moltbook_username || null,
-      input.public_key || null,
-      capabilities,
-      verification_code
-    ).run();
+    const statements = [
+      this.db.prepare(`
+        INSERT INTO agents (id, moltbook_username, public_key, capabilities, verification_code)
+        VALUES (?, ?, ?, ?, ?)
+      `).bind(
+        id,
+        input.moltbook_username || null,
+        input.public_key || null,
+        capabilities,
+        verification_code
+      ),
+    ];
+    
+    // Start the key history with the registered key
+    if (input.public_key) {
+      statements.push(
+        new KeyService(this.db).recordStatement(id, input.public_key, 'registration', new Date().toISOString())
+      );
+    }
+    
+    await this.db.batch(statements);
     
     return this.getById(id) as Promise<Agent>;
   }
@@ -39,7 +66,7 @@ export class AgentService {
    */
   async getById(id: string): Promise<Agent | null> {
     const result = await this.db.prepare(
-      'SELECT * FROM agents WHERE id = ?'
+      `${AGENT_SELECT} WHERE a.id = ?`
     ).bind(id).first();
     
     return result ? this.parseAgent(result) : null;
@@ -52,7 +79,7 @@ export class AgentService {
    */
   async getByMoltbook(username: string): Promise<Agent | null> {
     const result = await this.db.prepare(
-      'SELECT * FROM agents WHERE moltbook_username = ?'
+      `${AGENT_SELECT} WHERE a.moltbook_username = ?`
     ).bind(username).first();
     
     return result ? this.parseAgent(result) : null;
@@ -66,33 +93,54 @@ export class AgentService {
   async search(query: {
     verified?: boolean;
     min_trust?: number;
+    tier?: TrustTier;
     capability?: string;
     limit: number;
     offset: number;
   }): Promise<AgentPublic[]> {
-    let sql = 'SELECT * FROM agents WHERE status = ?';
+    let sql = `${AGENT_SELECT} WHERE a.status = ?`;
     const params: (string | number)[] = ['active'];
+    if (query.capability) {
+      // Rank by trust in the capability; agents not yet scored for it count as 0
+      sql = `
+        SELECT ${AGENT_COLUMNS}, COALESCE(cs.score, 0) AS capability_score FROM agents a
+        LEFT JOIN capability_scores cs ON cs.agent_id = a.id AND cs.capability = ?
+        WHERE a.status = ?
+      `;
+      params.unshift(query.capability);
+    }
     
     if (query.verified !== undefined) {
-      sql += ' AND moltbook_verified = ?';
+      sql += ' AND a.moltbook_verified = ?';
       params.push(query.verified ? 1 : 0);
     }
     
     if (query.min_trust !== undefined) {
-      sql += ' AND trust_score >= ?';
+      sql += ' AND a.trust_score >= ?';
       params.push(query.min_trust);
     }
     
+    if (query.tier) {
+      sql += ' AND a.tier = ?';
+      params.push(query.tier);
+    }
+    
     if (query.capability) {
-      sql += ' AND capabilities LIKE ?';
+      sql += ' AND a.capabilities LIKE ?';
       params.push(`%"${query.capability}"%`);
     }
     
-    sql += ' ORDER BY trust_score DESC LIMIT ? OFFSET ?';
+    sql += query.capability
+      ? ' ORDER BY capability_score DESC, a.trust_score DESC LIMIT ? OFFSET ?'
+      : ' ORDER BY a.trust_score DESC LIMIT ? OFFSET ?';
     params.push(query.limit, query.offset);
     
     const results = await this.db.prepare(sql).bind(...params).all();
-    return (results.results || []).map((r: unknown) => this.toPublic(this.parseAgent(r)));
+    return (results.results || []).map((r: unknown) => {
+      const agent = this.toPublic(this.parseAgent(r));
+      const capabilityScore = (r as { capability_score?: number }).capability_score;
+      return capabilityScore === undefined ? agent : { ...agent, capability_score: capabilityScore };
+    });
   }
 
   /**
@@ -150,111 +198,244 @@ export class AgentService {
    * Add a vouch relationship from one agent to another.
    * @param fromId - The vouching agent's MoltID
    * @param toId - The agent being vouched for's MoltID
+   * @param options - Optional expiry (ISO 8601), capability and statement
    */
-  async addVouch(fromId: string, toId: string): Promise<void> {
+  async addVouch(
+    fromId: string,
+    toId: string,
+    options: { expires_at?: string; capability?: string; statement?: string } = {}
+  ): Promise<void> {
     const id = `vch_${nanoid(12)}`;
     
     await this.db.prepare(`
-      INSERT INTO vouches (id, from_agent_id, to_agent_id)
-      VALUES (?, ?, ?)
-    `).bind(id, fromId, toId).run();
+      INSERT INTO vouches (id, from_agent_id, to_agent_id, expires_at, capability, statement)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).bind(
+      id, fromId, toId,
+      options.expires_at ?? null, options.capability ?? null, options.statement ?? null
+    ).run();
     
     // Update vouch count on the target agent
-    await this.db.prepare(`
-      UPDATE agents SET vouch_count = vouch_count + 1, updated_at = ? WHERE id = ?
-    `).bind(new Date().toISOString(), toId).run();
+    await this.recountVouches(toId, new Date().toISOString()).run();
   }
 
   /**
-   * Get all agent IDs that have vouched for a given agent.
-   * @param agentId - The agent's MoltID
-   * @returns Array of voucher agent IDs
+   * Get the vouch from one agent to another.
+   * @returns The vouch, or null if there is none
    */
-  async getVouches(agentId: string): Promise<string[]> {
-    const results = await this.db.prepare(
-      'SELECT from_agent_id FROM vouches WHERE to_agent_id = ?'
-    ).bind(agentId).all();
-    
-    return (results.results || []).map((r: unknown) => (r as { from_agent_id: string }).from_agent_id);
+  async getVouch(fromId: string, toId: string): Promise<Vouch | null> {
+    return this.db.prepare(
+      'SELECT * FROM vouches WHERE from_agent_id = ? AND to_agent_id = ?'
+    ).bind(fromId, toId).first<Vouch>();
   }
 
   /**
-   * Verify an agent's Moltbook profile by checking for the verification code in a post.
-   * @param agent - The agent to verify
-   * @returns Verification result with verified status and karma if successful
+   * Renew a vouch, restarting its decay clock. Expired vouches can be renewed.
+   *
+   * Without `expiresAt`, a vouch that had an expiry gets the same term again,
+   * counted from now; one without an expiry keeps none.
+   * @param fromId - The vouching agent's MoltID
+   * @param toId - The agent that was vouched for
+   * @param expiresAt - New expiry (ISO 8601)
+   * @returns The renewed vouch, or null if there was no such vouch
    */
-  async verifyMoltbook(agent: Agent): Promise<{ verified: boolean; karma?: number }> {
-    if (!agent.moltbook_username || !agent.verification_code) {
-      return { verified: false };
+  async renewVouch(fromId: string, toId: string, expiresAt?: string): Promise<Vouch | null> {
+    const vouch = await this.getVouch(fromId, toId);
+    if (!vouch) return null;
+
+    const now = new Date();
+    let newExpiry = expiresAt ?? null;
+    if (!expiresAt && vouch.expires_at) {
+      const term = new Date(vouch.expires_at).getTime() - new Date(vouch.renewed_at ?? vouch.created_at).getTime();
+      newExpiry = new Date(now.getTime() + Math.max(term, 0)).toISOString();
     }
-    
+
+    // Renewing an expired vouch puts it back in the count
+    await this.db.batch([
+      this.db.prepare(
+        'UPDATE vouches SET renewed_at = ?, expires_at = ? WHERE id = ?'
+      ).bind(now.toISOString(), newExpiry, vouch.id),
+      this.recountVouches(toId, now.toISOString()),
+    ]);
+
+    return { ...vouch, renewed_at: now.toISOString(), expires_at: newExpiry };
+  }
+
+  /**
+   * Withdraw a vouch. The vouch is moved to vouch_revocations, so the voucher
+   * can vouch again later and the history is kept.
+   * @param fromId - The vouching agent's MoltID
+   * @param toId - The agent that was vouched for
+   * @param reason - Optional note from the voucher
+   * @returns The revocation, or null if there was no such vouch (or it was
+   *   revoked concurrently)
+   */
+  async revokeVouch(fromId: string, toId: string, reason?: string): Promise<VouchRevocation | null> {
+    const vouch = await this.db.prepare(
+      'SELECT id, created_at FROM vouches WHERE from_agent_id = ? AND to_agent_id = ?'
+    ).bind(fromId, toId).first<{ id: string; created_at: string }>();
+    if (!vouch) return null;
+
+    const revocation: VouchRevocation = {
+      id: `vrv_${nanoid(12)}`,
+      vouch_id: vouch.id,
+      from_agent_id: fromId,
+      to_agent_id: toId,
+      reason: reason ?? null,
+      vouched_at: vouch.created_at,
+      revoked_at: new Date().toISOString(),
+    };
+
+    // A concurrent revoke of the same vouch fails on the unique vouch_id, rolling back the whole batch
     try {
-      // Fetch user's karma from profile API
-      const profileResponse = await fetch(
-        `https://www.moltbook.com/api/v1/users/${agent.moltbook_username}`,
-        { headers: { 'User-Agent': 'MoltID/1.0' } }
-      );
-      
-      let karma = 0;
-      if (profileResponse.ok) {
-        const profile = await profileResponse.json() as { karma?: number };
-        karma = profile.karma || 0;
-      }
-      
-      // Check recent posts for verification code
-      const postsResponse = await fetch(
-        `https://www.moltbook.com/api/v1/users/${agent.moltbook_username}/posts?limit=10`,
-        { headers: { 'User-Agent': 'MoltID/1.0' } }
-      );
-      
-      if (!postsResponse.ok) {
-        // Fallback: try scraping the profile page for posts
-        return this.verifyMoltbookFallback(agent);
-      }
-      
-      const posts = await postsResponse.json() as Array<{ content?: string }>;
-      for (const post of posts) {
-        if (post.content?.includes(agent.verification_code)) {
-          return { verified: true, karma };
-        }
+      await this.db.batch([
+        this.db.prepare(`
+          INSERT INTO vouch_revocations (id, vouch_id, from_agent_id, to_agent_id, reason, vouched_at, revoked_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?)
+        `).bind(
+          revocation.id, revocation.vouch_id, fromId, toId,
+          revocation.reason, revocation.vouched_at, revocation.revoked_at
+        ),
+        this.db.prepare('DELETE FROM vouches WHERE id = ?').bind(vouch.id),
+        this.recountVouches(toId, revocation.revoked_at),
+      ]);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes('UNIQUE constraint')) return null;
+      throw error;
+    }
+
+    return revocation;
+  }
+
+  /**
+   * Count an agent's unexpired vouches.
+   */
+  async countActiveVouches(agentId: string, at: string = new Date().toISOString()): Promise<number> {
+    const row = await this.db.prepare(`SELECT (${ACTIVE_VOUCH_COUNT}) AS count`)
+      .bind(agentId, at).first<{ count: number }>();
+    return row?.count ?? 0;
+  }
+
+  /**
+   * Statement that sets an agent's vouch_count to its unexpired vouches.
+   * Vouches that expire later drop out when the refresh job recounts.
+   */
+  recountVouches(agentId: string, at: string): D1PreparedStatement {
+    return this.db.prepare(`UPDATE agents SET vouch_count = (${ACTIVE_VOUCH_COUNT}), updated_at = ? WHERE id = ?`)
+      .bind(agentId, at, at, agentId);
+  }
+
+  /**
+   * Get vouches withdrawn from an agent, newest first.
+   * @param agentId - The agent that was vouched for
+   */
+  async getVouchRevocations(agentId: string): Promise<VouchRevocation[]> {
+    const results = await this.db.prepare(
+      'SELECT * FROM vouch_revocations WHERE to_agent_id = ? ORDER BY revoked_at DESC'
+    ).bind(agentId).all<VouchRevocation>();
+
+    return results.results || [];
+  }
+
+  /**
+   * List vouches an agent received or gave, newest first.
+   * @param agentId - The agent's MoltID
+   * @param direction - 'received' (vouches for the agent) or 'given' (vouches by it)
+   * @param options - Page size and the cursor from the previous page
+   * @returns The page, with next_cursor null on the last page
+   * @throws Error if the cursor is malformed
+   */
+  async listVouches(
+    agentId: string,
+    direction: 'received' | 'given',
+    options: { cursor?: string; limit?: number } = {}
+  ): Promise<VouchPage> {
+    const limit = options.limit ?? 20;
+    type Side = 'from_agent_id' | 'to_agent_id';
+    const [own, other]: [Side, Side] =
+      direction === 'received' ? ['to_agent_id', 'from_agent_id'] : ['from_agent_id', 'to_agent_id'];
+
+    let sql = `
+      SELECT v.*, (f.moltbook_verified = 1 AND (v.expires_at IS NULL OR v.expires_at > ?)) AS counts
+      FROM vouches v
+      JOIN agents f ON f.id = v.from_agent_id
+      WHERE v.${own} = ?
+    `;
+    const params: (string | number)[] = [new Date().toISOString(), agentId];
+    if (options.cursor) {
+      const position = AgentService.decodeCursor(options.cursor);
+      if (!position) throw new Error('Invalid cursor');
+      const [createdAt, id] = position;
+      sql += ' AND (v.created_at < ? OR (v.created_at = ? AND v.id < ?))';
+      params.push(createdAt, createdAt, id);
+    }
+    sql += ' ORDER BY v.created_at DESC, v.id DESC LIMIT ?';
+    params.push(limit);
+
+    const results = await this.db.prepare(sql).bind(...params).all<Vouch & { counts: number }>();
+    const rows = results.results || [];
+
+    // Load the other party of every vouch in one query
+    const otherIds = [...new Set(rows.map((r) => r[other]))];
+    const agents = new Map<string, AgentPublic>();
+    if (otherIds.length > 0) {
+      const found = await this.db.prepare(
+        `${AGENT_SELECT} WHERE a.id IN (${otherIds.map(() => '?').join(', ')})`
+      ).bind(...otherIds).all();
+      for (const r of found.results || []) {
+        const agent = this.toPublic(this.parseAgent(r));
+        agents.set(agent.id, agent);
       }
-      
-      return { verified: false };
-    } catch (error) {
-      console.error('Moltbook verification error:', error);
-      return this.verifyMoltbookFallback(agent);
     }
+
+    const last = rows[rows.length - 1];
+    return {
+      vouches: rows
+        .filter((r) => agents.has(r[other]))
+        .map(({ counts, ...vouch }) => ({
+          ...vouch,
+          agent: agents.get(vouch[other])!,
+          counts: !!counts,
+        })),
+      next_cursor: rows.length === limit ? AgentService.encodeCursor(last.created_at, last.id) : null,
+    };
   }
 
   /**
-   * Fallback verification method that scrapes the Moltbook profile page for posts.
-   * Used when the API is unavailable.
+   * Opaque pagination cursor for a (created_at, id) position.
    */
-  private async verifyMoltbookFallback(agent: Agent): Promise<{ verified: boolean; karma?: number }> {
+  static encodeCursor(createdAt: string, id: string): string {
+    return btoa(JSON.stringify([createdAt, id]));
+  }
+
+  /**
+   * Read a cursor from encodeCursor.
+   * @returns The (created_at, id) position, or null if the cursor is malformed
+   */
+  static decodeCursor(cursor: string): [string, string] | null {
     try {
-      // Fetch the user's posts page
-      const response = await fetch(
-        `https://www.moltbook.com/u/${agent.moltbook_username}/posts`,
-        { headers: { 'User-Agent': 'MoltID/1.0' } }
-      );
-      
-      if (!response.ok) return { verified: false };
-      
-      const html = await response.text();
-      
-      // Check if verification code appears in posts section
-      if (html.includes(agent.verification_code!)) {
-        // Try to extract karma from page
-        const karmaMatch = html.match(/karma[:\s]*(\d+)/i);
-        const karma = karmaMatch ? parseInt(karmaMatch[1]) : 0;
-        return { verified: true, karma };
+      const value = JSON.parse(atob(cursor));
+      if (Array.isArray(value) && value.length === 2 && value.every((v) => typeof v === 'string')) {
+        return value as [string, string];
       }
-      
-      return { verified: false };
-    } catch (error) {
-      console.error('Moltbook fallback verification error:', error);
-      return { verified: false };
+    } catch {
+      // Not base64 or not JSON
     }
+    return null;
+  }
+
+  /**
+   * Get all agent IDs that have vouched for a given agent.
+   * @param agentId - The agent's MoltID
+   * @returns Array of voucher agent IDs
+   */
+  async getVouches(agentId: string): Promise<string[]> {
+    const results = await this.db.prepare(
+      'SELECT from_agent_id FROM vouches WHERE to_agent_id = ?'
+    ).bind(agentId).all();
+    
+    return (results.results || []).map((r: unknown) => (r as { from_agent_id: string }).from_agent_id);
   }
 
   /**
@@ -273,9 +454,11 @@ export class AgentService {
       public_key: r.public_key as string | null,
       capabilities: r.capabilities ? JSON.parse(r.capabilities as string) : [],
       trust_score: (r.trust_score as number) || 0,
+      tier: (r.tier as TrustTier) || 'unverified',
       vouch_count: (r.vouch_count as number) || 0,
       status: r.status as 'pending' | 'active' | 'suspended',
       verification_code: r.verification_code as string | null,
+      domains: r.domains ? JSON.parse(r.domains as string) : [],
       created_at: r.created_at as string,
       updated_at: r.updated_at as string,
     };
@@ -291,8 +474,10 @@ export class AgentService {
       id: agent.id,
       moltbook_username: agent.moltbook_username,
       moltbook_verified: agent.moltbook_verified,
+      domains: agent.domains,
       capabilities: agent.capabilities,
       trust_score: agent.trust_score,
+      tier: agent.tier,
       vouch_count: agent.vouch_count,
       status: agent.status,
       created_at: agent.created_at,
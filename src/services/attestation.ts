@@ -0,0 +1,261 @@
+/**
+ * AttestationService - Sign trust data as compact JWS tokens
+ *
+ * The instance signing key is a private JWK (Ed25519 or P-256) supplied as the
+ * ATTESTATION_SIGNING_KEY secret. Its public half is published at
+ * /.well-known/jwks.json together with any ATTESTATION_PREVIOUS_KEYS, so
+ * tokens signed before a key change can still be verified offline.
+ */
+
+import { decodeBase64, encodeBase64Url, sha256 } from '../utils/crypto';
+import type { Agent, Env, TrustDetails } from '../types';
+
+export const DEFAULT_ISSUER = 'https://api.moltid.dev';
+export const ATTESTATION_TTL_SECONDS = 3600;
+export const ATTESTATION_TYPE = 'moltid-trust+jwt';
+
+export interface PublicJwk {
+  kty: string;
+  crv: string;
+  x: string;
+  y?: string;
+  kid: string;
+  alg: 'EdDSA' | 'ES256';
+  use: 'sig';
+}
+
+export interface SigningKey {
+  key: CryptoKey;
+  jwk: PublicJwk;
+}
+
+export interface TrustAttestationClaims {
+  iss: string;
+  sub: string;
+  iat: number;
+  exp: number;
+  moltbook_username: string | null;
+  moltbook_verified: boolean;
+  trust_score: number;
+  trust_factors: TrustDetails['factors'];
+  trust_policy_version: string;
+}
+
+/**
+ * Thrown when no signing key is configured or the configured key is unusable.
+ */
+export class AttestationUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AttestationUnavailableError';
+  }
+}
+
+export class AttestationService {
+  private signingKey: Promise<SigningKey> | null = null;
+  private previousKeys: PublicJwk[] | null = null;
+
+  constructor(private env: Env) {}
+
+  /**
+   * The issuer URL stamped into every token.
+   */
+  get issuer(): string {
+    return this.env.ISSUER_URL || DEFAULT_ISSUER;
+  }
+
+  /**
+   * Sign an arbitrary claims object as a compact JWS.
+   * @param claims - JWT claims to sign
+   * @param options.type - The JOSE "typ" header
+   * @param options.kidPrefix - Prepended to the key ID, e.g. an issuer DID + "#"
+   * @returns The compact token (header.payload.signature)
+   */
+  async sign(
+    claims: object,
+    options: { type?: string; kidPrefix?: string } = {}
+  ): Promise<string> {
+    const { key, jwk } = await this.getSigningKey();
+    const header = {
+      alg: jwk.alg,
+      typ: options.type ?? ATTESTATION_TYPE,
+      kid: `${options.kidPrefix ?? ''}${jwk.kid}`,
+    };
+    const encoder = new TextEncoder();
+    const signingInput =
+      `${encodeBase64Url(encoder.encode(JSON.stringify(header)))}.` +
+      encodeBase64Url(encoder.encode(JSON.stringify(claims)));
+
+    const params = jwk.alg === 'EdDSA' ? { name: 'Ed25519' } : { name: 'ECDSA', hash: 'SHA-256' };
+    const signature = await crypto.subtle.sign(params, key, encoder.encode(signingInput));
+
+    return `${signingInput}.${encodeBase64Url(signature)}`;
+  }
+
+  /**
+   * Build and sign a trust attestation for an agent.
+   * @param agent - The agent being attested
+   * @param details - Trust breakdown from TrustService.getDetails
+   * @returns The token and its claims
+   */
+  async attestTrust(
+    agent: Agent,
+    details: TrustDetails
+  ): Promise<{ token: string; claims: TrustAttestationClaims }> {
+    const iat = Math.floor(Date.now() / 1000);
+    const claims: TrustAttestationClaims = {
+      iss: this.issuer,
+      sub: agent.id,
+      iat,
+      exp: iat + ATTESTATION_TTL_SECONDS,
+      moltbook_username: agent.moltbook_username,
+      moltbook_verified: agent.moltbook_verified,
+      trust_score: details.score,
+      trust_factors: details.factors,
+      trust_policy_version: details.policy_version,
+    };
+
+    return { token: await this.sign(claims), claims };
+  }
+
+  /**
+   * Verify a token signed by one of this instance's published keys.
+   * @returns The decoded claims, or null if the signature or expiry is invalid
+   */
+  async verify<T extends { exp?: number }>(token: string): Promise<T | null> {
+    const [headerPart, payloadPart, signaturePart] = token.split('.');
+    if (!headerPart || !payloadPart || !signaturePart) return null;
+
+    try {
+      const decoder = new TextDecoder();
+      const header = JSON.parse(decoder.decode(decodeBase64(headerPart))) as { kid?: string };
+      // Accept bare key IDs and DID URLs ending in #<kid>
+      const kid = header.kid?.split('#').pop();
+      const jwk = (await this.getJwks()).keys.find((k) => k.kid === kid);
+      if (!jwk) return null;
+
+      const params = jwk.alg === 'EdDSA' ? { name: 'Ed25519' } : { name: 'ECDSA', namedCurve: 'P-256' };
+      const key = await crypto.subtle.importKey('jwk', jwk, params, false, ['verify']);
+      const valid = await crypto.subtle.verify(
+        jwk.alg === 'EdDSA' ? { name: 'Ed25519' } : { name: 'ECDSA', hash: 'SHA-256' },
+        key,
+        decodeBase64(signaturePart),
+        new TextEncoder().encode(`${headerPart}.${payloadPart}`)
+      );
+      if (!valid) return null;
+
+      const claims = JSON.parse(decoder.decode(decodeBase64(payloadPart))) as T;
+      if (claims.exp !== undefined && claims.exp <= Math.floor(Date.now() / 1000)) return null;
+      return claims;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * The public keys verifiers should trust, as a JWK Set.
+   */
+  async getJwks(): Promise<{ keys: PublicJwk[] }> {
+    const keys: PublicJwk[] = [];
+    if (this.env.ATTESTATION_SIGNING_KEY) {
+      keys.push((await this.getSigningKey()).jwk);
+    }
+    this.previousKeys ??= parsePreviousKeys(this.env.ATTESTATION_PREVIOUS_KEYS);
+    keys.push(...this.previousKeys);
+    return { keys };
+  }
+
+  /**
+   * Import the configured private key (once per service instance).
+   * @throws AttestationUnavailableError if no usable key is configured
+   */
+  getSigningKey(): Promise<SigningKey> {
+    this.signingKey ??= importSigningKey(this.env.ATTESTATION_SIGNING_KEY);
+    return this.signingKey;
+  }
+}
+
+/**
+ * Parse ATTESTATION_PREVIOUS_KEYS. A malformed secret must not take down the
+ * JWKS endpoint, so invalid entries (or an invalid value) are logged and skipped.
+ */
+function parsePreviousKeys(secret: string | undefined): PublicJwk[] {
+  if (!secret) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(secret);
+  } catch {
+    console.error('ATTESTATION_PREVIOUS_KEYS is not valid JSON, ignoring it');
+    return [];
+  }
+  if (!Array.isArray(parsed)) {
+    console.error('ATTESTATION_PREVIOUS_KEYS is not a JSON array, ignoring it');
+    return [];
+  }
+
+  return parsed.filter((key): key is PublicJwk => {
+    const valid = isPublicJwk(key);
+    if (!valid) console.error('Ignoring invalid key in ATTESTATION_PREVIOUS_KEYS');
+    return valid;
+  });
+}
+
+/**
+ * A public JWK with the members verifiers need to select and use it.
+ */
+function isPublicJwk(value: unknown): boolean {
+  if (typeof value !== 'object' || value === null) return false;
+  const key = value as Record<string, unknown>;
+  return ['kty', 'crv', 'x', 'kid', 'alg'].every((name) => typeof key[name] === 'string' && key[name] !== '')
+    && key.d === undefined;
+}
+
+/**
+ * Import a private JWK and derive its public JWK with an RFC 7638 thumbprint kid.
+ */
+async function importSigningKey(secret: string | undefined): Promise<SigningKey> {
+  if (!secret) {
+    throw new AttestationUnavailableError('No attestation signing key is configured');
+  }
+
+  let jwk: JsonWebKey;
+  try {
+    jwk = JSON.parse(secret) as JsonWebKey;
+  } catch {
+    throw new AttestationUnavailableError('Attestation signing key is not valid JSON');
+  }
+
+  const isEd25519 = jwk.kty === 'OKP' && jwk.crv === 'Ed25519';
+  const isP256 = jwk.kty === 'EC' && jwk.crv === 'P-256';
+  if ((!isEd25519 && !isP256) || !jwk.d || !jwk.x) {
+    throw new AttestationUnavailableError('Attestation signing key must be a private Ed25519 or P-256 JWK');
+  }
+
+  // Members required for the thumbprint, in lexicographic order
+  const thumbprintInput = isEd25519
+    ? { crv: jwk.crv, kty: jwk.kty, x: jwk.x }
+    : { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y };
+  const kid = encodeBase64Url(await sha256(JSON.stringify(thumbprintInput)));
+
+  const key = await crypto.subtle.importKey(
+    'jwk',
+    { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y, d: jwk.d },
+    isEd25519 ? { name: 'Ed25519' } : { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['sign']
+  );
+
+  return {
+    key,
+    jwk: {
+      kty: jwk.kty,
+      crv: jwk.crv!,
+      x: jwk.x,
+      ...(isP256 ? { y: jwk.y } : {}),
+      kid,
+      alg: isEd25519 ? 'EdDSA' : 'ES256',
+      use: 'sig',
+    },
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * Badge - Embeddable SVG trust badges
+ *
+ * Renders a shields.io-style two-part badge ("MoltID | ✓ trusted · 82") so
+ * platforms and READMEs can show an agent's trust without calling the JSON
+ * API. Colors follow the agent's tier, and the badge links to the agent's
+ * profile page when embedded as <object> or inline SVG. Agents that are not
+ * active get a status badge ("suspended", "pending") instead of their tier.
+ *
+ * Text widths are estimated from per-character widths of Verdana, which is
+ * close enough for badge layout without shipping font metrics.
+ */
+
+import type { Agent, TrustTier } from '../types';
+
+export const BADGE_STYLES = ['flat', 'flat-square', 'for-the-badge'] as const;
+export const BADGE_SIZES = ['small', 'medium', 'large'] as const;
+
+export type BadgeStyle = (typeof BADGE_STYLES)[number];
+export type BadgeSize = (typeof BADGE_SIZES)[number];
+
+const TIER_COLORS: Record<TrustTier, string> = {
+  unverified: '#9f9f9f',
+  linked: '#dfb317',
+  established: '#97ca00',
+  trusted: '#44cc11',
+};
+const STATUS_COLORS: Record<Exclude<Agent['status'], 'active'>, string> = {
+  pending: '#9f9f9f',
+  suspended: '#e05d44',
+};
+const LABEL_COLOR = '#555';
+const NOT_FOUND_COLOR = '#e05d44';
+
+// Scale applied to the whole badge
+const SIZE_SCALE: Record<BadgeSize, number> = { small: 1, medium: 1.5, large: 2 };
+
+const DEFAULT_SITE_URL = 'https://moltid.dev';
+
+export interface BadgeOptions {
+  style?: BadgeStyle;
+  size?: BadgeSize;
+}
+
+interface BadgeContent {
+  label: string;
+  message: string;
+  color: string;
+  link?: string;
+}
+
+/**
+ * The public profile page for an agent.
+ */
+export function profileUrl(siteUrl: string | undefined, agentId: string): string {
+  return `${(siteUrl || DEFAULT_SITE_URL).replace(/\/$/, '')}/a/${encodeURIComponent(agentId)}`;
+}
+
+/**
+ * The trust badge for an agent.
+ */
+export function agentBadge(agent: Agent, link: string, options: BadgeOptions = {}): string {
+  if (agent.status !== 'active') {
+    return renderBadge(
+      { label: 'MoltID', message: agent.status, color: STATUS_COLORS[agent.status], link },
+      options
+    );
+  }
+
+  const status = agent.moltbook_verified ? `✓ ${agent.tier}` : agent.tier;
+  return renderBadge(
+    { label: 'MoltID', message: `${status} · ${agent.trust_score}`, color: TIER_COLORS[agent.tier], link },
+    options
+  );
+}
+
+/**
+ * The badge shown for an agent that doesn't exist.
+ */
+export function notFoundBadge(options: BadgeOptions = {}): string {
+  return renderBadge({ label: 'MoltID', message: 'not found', color: NOT_FOUND_COLOR }, options);
+}
+
+/**
+ * Render a two-part badge.
+ */
+export function renderBadge(content: BadgeContent, options: BadgeOptions = {}): string {
+  const style = options.style ?? 'flat';
+  const scale = SIZE_SCALE[options.size ?? 'small'];
+  const large = style === 'for-the-badge';
+
+  const label = large ? content.label.toUpperCase() : content.label;
+  const message = large ? content.message.toUpperCase() : content.message;
+  const padding = large ? 12 : 6;
+  const height = large ? 28 : 20;
+  // for-the-badge letter-spacing adds about a pixel per character
+  const labelWidth = Math.round(textWidth(label) + (large ? label.length : 0)) + padding * 2;
+  const messageWidth = Math.round(textWidth(message) + (large ? message.length : 0)) + padding * 2;
+  const width = labelWidth + messageWidth;
+
+  const title = escapeXml(`${content.label}: ${content.message}`);
+  const rounded = style === 'flat';
+  const textAttrs = large
+    ? 'font-weight="bold" letter-spacing="1" font-size="10"'
+    : 'font-size="11"';
+  const textY = large ? 18 : 14;
+
+  const body = `
+  <title>${title}</title>${rounded ? `
+  <linearGradient id="s" x2="0" y2="100%">
+    <stop offset="0" stop-color="#bbb" stop-opacity=".1"/>
+    <stop offset="1" stop-opacity=".1"/>
+  </linearGradient>
+  <clipPath id="r"><rect width="${width}" height="${height}" rx="3" fill="#fff"/></clipPath>` : ''}
+  <g${rounded ? ' clip-path="url(#r)"' : ''}>
+    <rect width="${labelWidth}" height="${height}" fill="${LABEL_COLOR}"/>
+    <rect x="${labelWidth}" width="${messageWidth}" height="${height}" fill="${content.color}"/>${rounded ? `
+    <rect width="${width}" height="${height}" fill="url(#s)"/>` : ''}
+  </g>
+  <g fill="#fff" text-anchor="middle" font-family="Verdana,Geneva,DejaVu Sans,sans-serif" ${textAttrs}>
+    <text x="${labelWidth / 2}" y="${textY}">${escapeXml(label)}</text>
+    <text x="${labelWidth + messageWidth / 2}" y="${textY}">${escapeXml(message)}</text>
+  </g>`;
+
+  const linked = content.link
+    ? `\n  <a href="${escapeXml(content.link)}" target="_blank">${body.replace(/\n/g, '\n  ')}\n  </a>`
+    : body;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${Math.round(width * scale)}" height="${Math.round(height * scale)}" viewBox="0 0 ${width} ${height}" role="img" aria-label="${title}">${linked}
+</svg>`;
+}
+
+/**
+ * Approximate rendered width of text in 11px Verdana.
+ */
+function textWidth(text: string): number {
+  let width = 0;
+  for (const ch of text) {
+    if ('il.,:;!|\'`'.includes(ch)) width += 3.5;
+    else if ('mwMW'.includes(ch)) width += 10;
+    else if (ch === ' ') width += 4;
+    else if (ch >= 'A' && ch <= 'Z') width += 7.5;
+    else width += 7;
+  }
+  return width;
+}
+
+/**
+ * Escape text for use in SVG content and attributes.
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,137 @@
+/**
+ * ChallengeService - Proof-of-possession challenges for third-party platforms
+ *
+ * A platform asks MoltID for a challenge for the agent it is talking to,
+ * hands the message to the agent, and submits the agent's signature back.
+ * A successful verification stays readable for a short window so the
+ * platform can re-check the result without another round trip to the agent.
+ */
+
+import { nanoid } from 'nanoid';
+import { verifySignature } from '../utils/crypto';
+import type { Challenge } from '../types';
+
+export const CHALLENGE_VERSION = 'MOLTID-CHALLENGE-V1';
+export const CHALLENGE_TTL_SECONDS = 300;
+export const VERIFICATION_TTL_SECONDS = 600;
+
+export type ChallengeCheck =
+  | { verified: true; challenge: Challenge }
+  | { verified: false; code: 'expired' | 'already_used' | 'invalid_signature'; message: string };
+
+export class ChallengeService {
+  constructor(private db: D1Database) {}
+
+  /**
+   * The exact message an agent must sign to answer a challenge.
+   */
+  static message(challenge: Pick<Challenge, 'id' | 'agent_id' | 'nonce' | 'audience'>): string {
+    return [
+      CHALLENGE_VERSION,
+      challenge.id,
+      challenge.agent_id,
+      challenge.nonce,
+      challenge.audience ?? '',
+    ].join('\n');
+  }
+
+  /**
+   * Issue a new challenge for an agent.
+   * @param agentId - The MoltID the caller claims to be talking to
+   * @param audience - Optional identifier of the platform issuing the challenge
+   * @returns The created challenge
+   */
+  async create(agentId: string, audience: string | null): Promise<Challenge> {
+    const id = `chl_${nanoid(16)}`;
+    const nonce = nanoid(32);
+    const now = Date.now();
+    const expiresAt = new Date(now + CHALLENGE_TTL_SECONDS * 1000).toISOString();
+
+    await this.db.prepare(`
+      INSERT INTO challenges (id, agent_id, nonce, audience, created_at, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).bind(id, agentId, nonce, audience, new Date(now).toISOString(), expiresAt).run();
+
+    return this.getById(id) as Promise<Challenge>;
+  }
+
+  /**
+   * Fetch a challenge by ID.
+   * @returns The challenge or null if not found
+   */
+  async getById(id: string): Promise<Challenge | null> {
+    const result = await this.db.prepare(
+      'SELECT * FROM challenges WHERE id = ?'
+    ).bind(id).first();
+
+    return result ? this.parseChallenge(result) : null;
+  }
+
+  /**
+   * Check an agent's signature over a challenge and mark it verified.
+   * Failed signatures leave the challenge pending so a bad guess can't burn it.
+   * @param challenge - The challenge being answered
+   * @param publicKey - The agent's current public key
+   * @param signature - Base64 signature over ChallengeService.message()
+   */
+  async verify(challenge: Challenge, publicKey: string, signature: string): Promise<ChallengeCheck> {
+    if (challenge.verified_at) {
+      return { verified: false, code: 'already_used', message: 'Challenge has already been answered' };
+    }
+
+    if (Date.parse(challenge.expires_at) <= Date.now()) {
+      return { verified: false, code: 'expired', message: 'Challenge has expired' };
+    }
+
+    if (!(await verifySignature(publicKey, signature, ChallengeService.message(challenge)))) {
+      return { verified: false, code: 'invalid_signature', message: 'Signature does not match the agent key' };
+    }
+
+    const now = Date.now();
+    const verifiedAt = new Date(now).toISOString();
+    const validUntil = new Date(now + VERIFICATION_TTL_SECONDS * 1000).toISOString();
+
+    // Guard on verified_at so two concurrent answers can't both succeed
+    const result = await this.db.prepare(`
+      UPDATE challenges SET verified_at = ?, valid_until = ?
+      WHERE id = ? AND verified_at IS NULL
+    `).bind(verifiedAt, validUntil, challenge.id).run();
+
+    if (result.meta.changes === 0) {
+      return { verified: false, code: 'already_used', message: 'Challenge has already been answered' };
+    }
+
+    return {
+      verified: true,
+      challenge: { ...challenge, verified_at: verifiedAt, valid_until: validUntil },
+    };
+  }
+
+  /**
+   * Derive the state of a challenge at the current time.
+   */
+  status(challenge: Challenge): 'pending' | 'verified' | 'expired' {
+    const now = Date.now();
+    if (challenge.verified_at) {
+      return challenge.valid_until && Date.parse(challenge.valid_until) > now ? 'verified' : 'expired';
+    }
+    return Date.parse(challenge.expires_at) > now ? 'pending' : 'expired';
+  }
+
+  /**
+   * Parse a database row into a Challenge object.
+   */
+  parseChallenge(row: unknown): Challenge {
+    const r = row as Record<string, unknown>;
+    return {
+      id: r.id as string,
+      agent_id: r.agent_id as string,
+      nonce: r.nonce as string,
+      audience: r.audience as string | null,
+      created_at: r.created_at as string,
+      expires_at: r.expires_at as string,
+      verified_at: r.verified_at as string | null,
+      valid_until: r.valid_until as string | null,
+    };
+  }
+}
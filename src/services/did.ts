@@ -0,0 +1,186 @@
+/**
+ * DidService - W3C DID documents and Verifiable Credentials for MoltIDs
+ *
+ * Agents are identified as did:web:<DID_DOMAIN>:agents:<moltid>, which
+ * resolves to https://<DID_DOMAIN>/agents/<moltid>/did.json. The instance
+ * itself is did:web:<DID_DOMAIN> and issues credentials as JWT-VCs
+ * (VC Data Model 1.1, JWT encoding) signed with the attestation key.
+ */
+
+import { AttestationService } from './attestation';
+import { publicKeyToJwk } from '../utils/crypto';
+import type { Agent, Env, TrustDetails } from '../types';
+
+export const DEFAULT_DID_DOMAIN = 'moltid.dev';
+export const MOLTBOOK_CREDENTIAL_TTL_SECONDS = 30 * 24 * 60 * 60;
+export const TRUST_CREDENTIAL_TTL_SECONDS = 24 * 60 * 60;
+
+const DID_CONTEXT = [
+  'https://www.w3.org/ns/did/v1',
+  'https://w3id.org/security/suites/jws-2020/v1',
+];
+const VC_CONTEXT = ['https://www.w3.org/2018/credentials/v1'];
+
+export interface VerificationMethod {
+  id: string;
+  type: 'JsonWebKey2020';
+  controller: string;
+  publicKeyJwk: JsonWebKey;
+}
+
+export interface DidDocument {
+  '@context': string[];
+  id: string;
+  controller?: string;
+  alsoKnownAs?: string[];
+  verificationMethod: VerificationMethod[];
+  authentication: string[];
+  assertionMethod: string[];
+  service?: Array<{ id: string; type: string; serviceEndpoint: string }>;
+}
+
+export class DidService {
+  private attestationService: AttestationService;
+
+  constructor(private env: Env) {
+    this.attestationService = new AttestationService(env);
+  }
+
+  /**
+   * The did:web identifier of this MoltID instance.
+   */
+  get issuerDid(): string {
+    return `did:web:${this.env.DID_DOMAIN || DEFAULT_DID_DOMAIN}`;
+  }
+
+  /**
+   * The did:web identifier for an agent.
+   * @param agentId - The agent's MoltID
+   */
+  agentDid(agentId: string): string {
+    return `${this.issuerDid}:agents:${agentId}`;
+  }
+
+  /**
+   * Build the DID document for an agent from its current key and verification status.
+   * Agents without a supported key get a document with no verification methods.
+   * @param agent - The agent
+   */
+  async agentDocument(agent: Agent): Promise<DidDocument> {
+    const did = this.agentDid(agent.id);
+    const jwk = agent.public_key ? await publicKeyToJwk(agent.public_key) : null;
+    const methods: VerificationMethod[] = jwk
+      ? [{ id: `${did}#key-1`, type: 'JsonWebKey2020', controller: did, publicKeyJwk: jwk }]
+      : [];
+
+    const document: DidDocument = {
+      '@context': DID_CONTEXT,
+      id: did,
+      controller: did,
+      verificationMethod: methods,
+      authentication: methods.map((m) => m.id),
+      assertionMethod: methods.map((m) => m.id),
+      service: [
+        {
+          id: `${did}#moltid`,
+          type: 'MoltIDProfile',
+          serviceEndpoint: `${this.attestationService.issuer}/v1/agents/${agent.id}`,
+        },
+      ],
+    };
+
+    // Only claim the Moltbook identity once the link has been proven
+    if (agent.moltbook_verified && agent.moltbook_username) {
+      document.alsoKnownAs = [`https://www.moltbook.com/u/${agent.moltbook_username}`];
+    }
+
+    return document;
+  }
+
+  /**
+   * Build the DID document for the instance, listing the attestation keys.
+   */
+  async issuerDocument(): Promise<DidDocument> {
+    const did = this.issuerDid;
+    const { keys } = await this.attestationService.getJwks();
+    const methods: VerificationMethod[] = keys.map(({ kid, ...publicKeyJwk }) => ({
+      id: `${did}#${kid}`,
+      type: 'JsonWebKey2020',
+      controller: did,
+      publicKeyJwk,
+    }));
+
+    return {
+      '@context': DID_CONTEXT,
+      id: did,
+      verificationMethod: methods,
+      authentication: [],
+      assertionMethod: methods.map((m) => m.id),
+    };
+  }
+
+  /**
+   * Issue a credential stating the agent has proven control of its Moltbook account.
+   * @param agent - A Moltbook-verified agent
+   * @returns The JWT-VC
+   */
+  async issueMoltbookCredential(agent: Agent): Promise<{ credential: string; expires_at: string }> {
+    return this.issue(agent.id, 'MoltbookAccountCredential', MOLTBOOK_CREDENTIAL_TTL_SECONDS, {
+      moltbook_username: agent.moltbook_username,
+      moltbook_verified: agent.moltbook_verified,
+      moltbook_karma: agent.moltbook_karma,
+    });
+  }
+
+  /**
+   * Issue a credential stating the agent's trust score is at least a threshold,
+   * embedding the full breakdown it was derived from.
+   * @param agent - The agent
+   * @param details - Trust breakdown from TrustService.getDetails
+   * @param minScore - The threshold being attested (score must already meet it)
+   * @returns The JWT-VC
+   */
+  async issueTrustCredential(
+    agent: Agent,
+    details: TrustDetails,
+    minScore: number
+  ): Promise<{ credential: string; expires_at: string }> {
+    return this.issue(agent.id, 'TrustScoreCredential', TRUST_CREDENTIAL_TTL_SECONDS, {
+      trust_score_at_least: minScore,
+      trust: details,
+    });
+  }
+
+  /**
+   * Sign a JWT-VC about an agent.
+   */
+  private async issue(
+    agentId: string,
+    type: string,
+    ttlSeconds: number,
+    subject: Record<string, unknown>
+  ): Promise<{ credential: string; expires_at: string }> {
+    const subjectDid = this.agentDid(agentId);
+    const iat = Math.floor(Date.now() / 1000);
+    const exp = iat + ttlSeconds;
+
+    const credential = await this.attestationService.sign(
+      {
+        iss: this.issuerDid,
+        sub: subjectDid,
+        iat,
+        nbf: iat,
+        exp,
+        jti: `urn:uuid:${crypto.randomUUID()}`,
+        vc: {
+          '@context': VC_CONTEXT,
+          type: ['VerifiableCredential', type],
+          credentialSubject: { id: subjectDid, ...subject },
+        },
+      },
+      { type: 'JWT', kidPrefix: `${this.issuerDid}#` }
+    );
+
+    return { credential, expires_at: new Date(exp * 1000).toISOString() };
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * GraphTrustService - Transitive trust over the vouch graph (EigenTrust)
+ *
+ * The linear formula gives every verified voucher the same 5 points. Here a
+ * vouch passes on a share of the voucher's own graph trust instead:
+ * 1. Verified agents are pre-trusted and start with equal trust
+ * 2. Each agent splits its trust evenly across the agents it vouched for
+ * 3. Each iteration resets a `damping` share of all trust to the pre-trusted
+ *    set, so vouch rings cannot grow trust out of nothing
+ *
+ * Trust sums to 1 across all agents. The job stores each agent's value and
+ * its ratio to the highest value, which TrustService maps to points.
+ */
+
+import { nanoid } from 'nanoid';
+import type { TrustPolicy } from '../types';
+
+export const GRAPH_TRUST_JOB = 'graph_trust';
+
+// Stop iterating once the total change in trust falls below this
+const CONVERGENCE_EPSILON = 1e-9;
+
+// D1 batch size for writing results
+const WRITE_CHUNK_SIZE = 100;
+
+export interface GraphTrustResult {
+  run_id: string;
+  agents: number;
+  vouches: number;
+  iterations: number;
+}
+
+export interface GraphTrustValue {
+  score: number;
+  normalized: number;
+  computed_at: string;
+}
+
+export class GraphTrustService {
+  constructor(private db: D1Database, private policy: TrustPolicy) {}
+
+  /**
+   * Compute graph trust for every agent and store it.
+   */
+  async run(): Promise<GraphTrustResult> {
+    const startedAt = new Date().toISOString();
+    const agents = await this.db
+      .prepare('SELECT id, moltbook_verified FROM agents ORDER BY id')
+      .all<{ id: string; moltbook_verified: number }>();
+    // Expired vouches pass on no trust
+    const vouches = await this.db
+      .prepare('SELECT from_agent_id, to_agent_id FROM vouches WHERE expires_at IS NULL OR expires_at > ?')
+      .bind(startedAt)
+      .all<{ from_agent_id: string; to_agent_id: string }>();
+
+    const nodes = agents.results || [];
+    const edges = vouches.results || [];
+    const { scores, iterations } = this.compute(
+      nodes.map((n) => ({ id: n.id, pretrusted: !!n.moltbook_verified })),
+      edges.map((e) => [e.from_agent_id, e.to_agent_id])
+    );
+
+    const runId = `run_${nanoid(12)}`;
+    const now = new Date().toISOString();
+    const max = [...scores.values()].reduce((a, b) => Math.max(a, b), 0);
+
+    const statements = [...scores].map(([agentId, score]) =>
+      this.db.prepare(`
+        INSERT INTO graph_trust (agent_id, score, normalized, run_id, computed_at)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT (agent_id) DO UPDATE SET
+          score = excluded.score, normalized = excluded.normalized,
+          run_id = excluded.run_id, computed_at = excluded.computed_at
+      `).bind(agentId, score, max > 0 ? score / max : 0, runId, now)
+    );
+    for (let i = 0; i < statements.length; i += WRITE_CHUNK_SIZE) {
+      await this.db.batch(statements.slice(i, i + WRITE_CHUNK_SIZE));
+    }
+
+    await this.db.prepare(`
+      INSERT INTO job_state (name, run_id, run_started_at, last_completed_at, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (name) DO UPDATE SET
+        run_id = excluded.run_id, run_started_at = excluded.run_started_at,
+        last_completed_at = excluded.last_completed_at, updated_at = excluded.updated_at
+    `).bind(GRAPH_TRUST_JOB, runId, startedAt, now, now).run();
+
+    return { run_id: runId, agents: nodes.length, vouches: edges.length, iterations };
+  }
+
+  /**
+   * EigenTrust power iteration.
+   * @param nodes - All agents; pre-trusted ones seed the computation
+   * @param edges - [voucher, vouchee] pairs
+   * @returns Trust per agent (summing to 1) and the iterations used
+   */
+  compute(
+    nodes: { id: string; pretrusted: boolean }[],
+    edges: [string, string][]
+  ): { scores: Map<string, number>; iterations: number } {
+    const scores = new Map<string, number>();
+    if (nodes.length === 0) return { scores, iterations: 0 };
+
+    const index = new Map(nodes.map((n, i) => [n.id, i]));
+    const n = nodes.length;
+
+    // Pre-trust: verified agents equally, or everyone if none are verified
+    const pretrusted = nodes.filter((node) => node.pretrusted).length;
+    const p = nodes.map((node) =>
+      pretrusted > 0 ? (node.pretrusted ? 1 / pretrusted : 0) : 1 / n
+    );
+
+    // Outgoing vouches, ignoring self-vouches and agents that no longer exist
+    const outgoing: number[][] = nodes.map(() => []);
+    for (const [from, to] of edges) {
+      const i = index.get(from);
+      const j = index.get(to);
+      if (i !== undefined && j !== undefined && i !== j) outgoing[i].push(j);
+    }
+
+    const { damping, iterations: maxIterations } = this.policy.graph_trust;
+    let t = [...p];
+    let iterations = 0;
+    while (iterations < maxIterations) {
+      iterations++;
+      const next = new Array<number>(n).fill(0);
+      let dangling = 0;
+
+      for (let i = 0; i < n; i++) {
+        if (outgoing[i].length === 0) {
+          // Agents who vouched for no one hand their trust back to the pre-trusted set
+          dangling += t[i];
+          continue;
+        }
+        const share = t[i] / outgoing[i].length;
+        for (const j of outgoing[i]) next[j] += share;
+      }
+
+      let delta = 0;
+      for (let i = 0; i < n; i++) {
+        next[i] = (1 - damping) * (next[i] + dangling * p[i]) + damping * p[i];
+        delta += Math.abs(next[i] - t[i]);
+      }
+      t = next;
+      if (delta < CONVERGENCE_EPSILON) break;
+    }
+
+    nodes.forEach((node, i) => scores.set(node.id, t[i]));
+    return { scores, iterations };
+  }
+
+  /**
+   * The stored graph trust for an agent, or null before the first run.
+   */
+  async get(agentId: string): Promise<GraphTrustValue | null> {
+    return this.db
+      .prepare('SELECT score, normalized, computed_at FROM graph_trust WHERE agent_id = ?')
+      .bind(agentId)
+      .first<GraphTrustValue>();
+  }
+}
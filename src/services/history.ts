@@ -0,0 +1,124 @@
+/**
+ * TrustHistoryService - Trust score snapshots over time
+ *
+ * Every time an agent's stored score changes, a snapshot is written in the
+ * same batch as the new score: the score, the points per factor, the policy
+ * version and what triggered the change (a vouch, verification, the refresh
+ * cron, ...). Scores only change at those moments, so the snapshots are the
+ * agent's full score history.
+ *
+ * For charts, buckets() groups snapshots by hour, day or week and keeps the
+ * last score in each bucket.
+ */
+
+import { nanoid } from 'nanoid';
+import type { ScoreTrigger, TrustExplanation, TrustHistoryBucket, TrustSnapshot } from '../types';
+
+export type HistoryBucket = 'hour' | 'day' | 'week';
+
+// Most raw snapshots returned for one range
+export const MAX_SNAPSHOTS = 500;
+
+// Start of each snapshot's bucket, as an ISO timestamp (weeks start on Monday)
+const BUCKET_START: Record<HistoryBucket, string> = {
+  hour: "strftime('%Y-%m-%dT%H:00:00.000Z', created_at)",
+  day: "strftime('%Y-%m-%dT00:00:00.000Z', created_at)",
+  week: "strftime('%Y-%m-%dT00:00:00.000Z', created_at, '-6 days', 'weekday 1')",
+};
+
+export interface HistoryRange {
+  from: string;
+  to: string;
+}
+
+export class TrustHistoryService {
+  constructor(private db: D1Database) {}
+
+  /**
+   * A statement recording a score change, to batch with the score update.
+   */
+  snapshot(agentId: string, explanation: TrustExplanation, trigger: ScoreTrigger, at: string): D1PreparedStatement {
+    const factors: Record<string, number> = {};
+    for (const [name, f] of Object.entries(explanation.factors)) {
+      if (f) factors[name] = f.points;
+    }
+
+    return this.db.prepare(`
+      INSERT INTO trust_snapshots (id, agent_id, score, factors, policy_version, trigger, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      `tsn_${nanoid(12)}`, agentId, explanation.score, JSON.stringify(factors),
+      explanation.policy_version, trigger, at
+    );
+  }
+
+  /**
+   * Snapshots in [from, to), oldest first, up to MAX_SNAPSHOTS.
+   */
+  async list(agentId: string, range: HistoryRange): Promise<TrustSnapshot[]> {
+    const results = await this.db.prepare(`
+      SELECT * FROM trust_snapshots
+      WHERE agent_id = ? AND created_at >= ? AND created_at < ?
+      ORDER BY created_at, id
+      LIMIT ?
+    `).bind(agentId, range.from, range.to, MAX_SNAPSHOTS).all();
+
+    return (results.results || []).map((r: unknown) => this.parseSnapshot(r));
+  }
+
+  /**
+   * Snapshots in [from, to) grouped into buckets, oldest first. Buckets with
+   * no changes are left out: the score carries over from the previous one.
+   */
+  async buckets(agentId: string, range: HistoryRange, bucket: HistoryBucket): Promise<TrustHistoryBucket[]> {
+    const results = await this.db.prepare(`
+      SELECT bucket_start, score, min_score, max_score, changes FROM (
+        SELECT
+          ${BUCKET_START[bucket]} AS bucket_start,
+          score,
+          MIN(score) OVER w AS min_score,
+          MAX(score) OVER w AS max_score,
+          COUNT(*) OVER w AS changes,
+          ROW_NUMBER() OVER (PARTITION BY ${BUCKET_START[bucket]} ORDER BY created_at DESC, id DESC) AS rn
+        FROM trust_snapshots
+        WHERE agent_id = ? AND created_at >= ? AND created_at < ?
+        WINDOW w AS (PARTITION BY ${BUCKET_START[bucket]})
+      )
+      WHERE rn = 1
+      ORDER BY bucket_start
+    `).bind(agentId, range.from, range.to).all<TrustHistoryBucket>();
+
+    return results.results || [];
+  }
+
+  /**
+   * The score an agent had at a point in time: the last snapshot before it,
+   * or null if there was none.
+   */
+  async scoreAt(agentId: string, at: string): Promise<number | null> {
+    const row = await this.db.prepare(`
+      SELECT score FROM trust_snapshots
+      WHERE agent_id = ? AND created_at < ?
+      ORDER BY created_at DESC, id DESC
+      LIMIT 1
+    `).bind(agentId, at).first<{ score: number }>();
+
+    return row ? row.score : null;
+  }
+
+  /**
+   * Parse a database row into a TrustSnapshot
+   */
+  private parseSnapshot(row: unknown): TrustSnapshot {
+    const r = row as Record<string, unknown>;
+    return {
+      id: r.id as string,
+      agent_id: r.agent_id as string,
+      score: r.score as number,
+      factors: JSON.parse((r.factors as string) || '{}'),
+      policy_version: r.policy_version as string,
+      trigger: r.trigger as ScoreTrigger,
+      created_at: r.created_at as string,
+    };
+  }
+}
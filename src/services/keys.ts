@@ -0,0 +1,146 @@
+/**
+ * KeyService - Public key history, rotation and revocation
+ *
+ * Every key an agent has used is kept in agent_keys with a validity window
+ * [valid_from, valid_until). The agent's current key is the row with no
+ * valid_until, and is mirrored in agents.public_key for fast lookups.
+ * Old rows are never deleted so signatures made before a rotation can still
+ * be checked against the key that was valid at the time.
+ */
+
+import { nanoid } from 'nanoid';
+import { sha256Hex } from '../utils/crypto';
+import type { AgentKey, KeyChangeMethod } from '../types';
+
+export const KEY_PROOF_VERSION = 'MOLTID-KEY-V1';
+
+export class KeyService {
+  constructor(private db: D1Database) {}
+
+  /**
+   * Message the new key must sign to prove possession during rotation.
+   * @param agentId - The agent's MoltID
+   * @param newPublicKey - The key being rotated in
+   */
+  static proofMessage(agentId: string, newPublicKey: string): string {
+    return `${KEY_PROOF_VERSION}\n${agentId}\n${newPublicKey}`;
+  }
+
+  /**
+   * Code an agent posts on Moltbook to authorize a rotation without the old key.
+   * Bound to the new key so a past post cannot be replayed for a different key.
+   */
+  static async moltbookRotationCode(agentId: string, newPublicKey: string): Promise<string> {
+    const fingerprint = (await sha256Hex(newPublicKey)).slice(0, 16);
+    return `moltid-rotate:${agentId}:${fingerprint}`;
+  }
+
+  /**
+   * Code an agent posts on Moltbook to revoke its current key without that key.
+   * Bound to the current key so it can't be reused after a later rotation.
+   */
+  static async moltbookRevocationCode(agentId: string, currentPublicKey: string): Promise<string> {
+    const fingerprint = (await sha256Hex(currentPublicKey)).slice(0, 16);
+    return `moltid-revoke:${agentId}:${fingerprint}`;
+  }
+
+  /**
+   * Build the statement that records a key as the agent's current key.
+   * Returned unexecuted so callers can batch it with the agent update.
+   */
+  recordStatement(agentId: string, publicKey: string, method: KeyChangeMethod, at: string): D1PreparedStatement {
+    return this.db.prepare(`
+      INSERT INTO agent_keys (id, agent_id, public_key, valid_from, added_via)
+      VALUES (?, ?, ?, ?, ?)
+    `).bind(`key_${nanoid(12)}`, agentId, publicKey, at, method);
+  }
+
+  /**
+   * Replace the agent's current key with a new one.
+   * The previous key's validity window is closed at the moment of rotation.
+   * @param agentId - The agent's MoltID
+   * @param newPublicKey - The new public key
+   * @param method - How the agent proved control ('signature' or 'moltbook')
+   */
+  async rotate(agentId: string, newPublicKey: string, method: KeyChangeMethod): Promise<void> {
+    const now = new Date().toISOString();
+
+    await this.db.batch([
+      this.db.prepare(
+        'UPDATE agent_keys SET valid_until = ? WHERE agent_id = ? AND valid_until IS NULL'
+      ).bind(now, agentId),
+      this.recordStatement(agentId, newPublicKey, method, now),
+      this.db.prepare(
+        'UPDATE agents SET public_key = ?, updated_at = ? WHERE id = ?'
+      ).bind(newPublicKey, now, agentId),
+    ]);
+  }
+
+  /**
+   * Revoke the agent's current key, leaving the agent keyless until it rotates
+   * in a new one.
+   * @param agentId - The agent's MoltID
+   * @param reason - Optional free-text reason (e.g. "compromised")
+   */
+  async revoke(agentId: string, reason: string | null): Promise<void> {
+    const now = new Date().toISOString();
+
+    await this.db.batch([
+      this.db.prepare(`
+        UPDATE agent_keys SET valid_until = ?, revoked_at = ?, revocation_reason = ?
+        WHERE agent_id = ? AND valid_until IS NULL
+      `).bind(now, now, reason, agentId),
+      this.db.prepare(
+        'UPDATE agents SET public_key = NULL, updated_at = ? WHERE id = ?'
+      ).bind(now, agentId),
+    ]);
+  }
+
+  /**
+   * Get every key the agent has registered, newest first.
+   * @param agentId - The agent's MoltID
+   */
+  async getHistory(agentId: string): Promise<AgentKey[]> {
+    const results = await this.db.prepare(
+      'SELECT * FROM agent_keys WHERE agent_id = ? ORDER BY datetime(valid_from) DESC'
+    ).bind(agentId).all();
+
+    return (results.results || []).map((r: unknown) => this.parseKey(r));
+  }
+
+  /**
+   * Find the key record that made a public key valid for an agent at a point in time.
+   * @param agentId - The agent's MoltID
+   * @param publicKey - The public key to check
+   * @param at - ISO timestamp to check validity at
+   * @returns The matching key record, or null if the key was not valid then
+   */
+  async findValidAt(agentId: string, publicKey: string, at: string): Promise<AgentKey | null> {
+    const result = await this.db.prepare(`
+      SELECT * FROM agent_keys
+      WHERE agent_id = ? AND public_key = ?
+        AND datetime(valid_from) <= datetime(?)
+        AND (valid_until IS NULL OR datetime(valid_until) > datetime(?))
+      LIMIT 1
+    `).bind(agentId, publicKey, at, at).first();
+
+    return result ? this.parseKey(result) : null;
+  }
+
+  /**
+   * Parse a database row into an AgentKey object.
+   */
+  parseKey(row: unknown): AgentKey {
+    const r = row as Record<string, unknown>;
+    return {
+      id: r.id as string,
+      agent_id: r.agent_id as string,
+      public_key: r.public_key as string,
+      valid_from: r.valid_from as string,
+      valid_until: r.valid_until as string | null,
+      revoked_at: r.revoked_at as string | null,
+      revocation_reason: r.revocation_reason as string | null,
+      added_via: r.added_via as KeyChangeMethod,
+    };
+  }
+}
@@ -0,0 +1,294 @@
+/**
+ * OAuthService - "Sign in with MoltID" authorization-code flow
+ *
+ * Relying parties register a client, then:
+ * 1. Start an authorization for an agent; MoltID issues a challenge bound to the client.
+ * 2. The agent signs the challenge with its key and receives an authorization code.
+ * 3. The relying party exchanges the code (client secret and optional PKCE verifier)
+ *    for an access token and an ID token, both JWS signed with the attestation key.
+ *
+ * Client secrets and authorization codes are stored as SHA-256 hashes only.
+ * Clients an admin approves (can_report) can also report agents as platforms.
+ */
+
+import { nanoid } from 'nanoid';
+import { AttestationService } from './attestation';
+import { encodeBase64Url, sha256, sha256Hex } from '../utils/crypto';
+import type { Agent, Env, OAuthAuthorization, OAuthClient } from '../types';
+
+export const AUTHORIZATION_CODE_TTL_SECONDS = 120;
+export const ACCESS_TOKEN_TTL_SECONDS = 3600;
+export const ACCESS_TOKEN_TYPE = 'at+jwt';
+export const DEFAULT_SCOPE = 'openid';
+
+export type CodeRedemption =
+  | { ok: true; authorization: OAuthAuthorization }
+  | { ok: false; error: 'invalid_grant'; description: string };
+
+export interface AccessTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string;
+  client_id: string;
+  scope: string;
+  iat: number;
+  exp: number;
+}
+
+export class OAuthService {
+  constructor(private db: D1Database, private env: Env) {}
+
+  /**
+   * Register a relying party.
+   * @returns The client and its plaintext secret (only ever returned here)
+   */
+  async registerClient(
+    name: string,
+    redirectUris: string[]
+  ): Promise<{ client: OAuthClient; client_secret: string }> {
+    const id = `cli_${nanoid(16)}`;
+    const secret = `mcs_${nanoid(32)}`;
+
+    await this.db.prepare(`
+      INSERT INTO oauth_clients (id, name, secret_hash, redirect_uris, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).bind(id, name, await sha256Hex(secret), JSON.stringify(redirectUris), new Date().toISOString()).run();
+
+    return { client: (await this.getClient(id))!, client_secret: secret };
+  }
+
+  /**
+   * Fetch a registered client.
+   * @returns The client or null if not found
+   */
+  async getClient(id: string): Promise<OAuthClient | null> {
+    const result = await this.db.prepare(
+      'SELECT * FROM oauth_clients WHERE id = ?'
+    ).bind(id).first();
+
+    if (!result) return null;
+    const r = result as Record<string, unknown>;
+    return {
+      id: r.id as string,
+      name: r.name as string,
+      redirect_uris: JSON.parse(r.redirect_uris as string),
+      can_report: Boolean(r.can_report),
+      created_at: r.created_at as string,
+    };
+  }
+
+  /**
+   * Allow or stop a client reporting agents.
+   * @returns The updated client, or null if not found
+   */
+  async setCanReport(id: string, canReport: boolean): Promise<OAuthClient | null> {
+    const result = await this.db.prepare(
+      'UPDATE oauth_clients SET can_report = ? WHERE id = ?'
+    ).bind(canReport ? 1 : 0, id).run();
+
+    return result.meta.changes > 0 ? this.getClient(id) : null;
+  }
+
+  /**
+   * Read client credentials from an `Authorization: Basic` header value.
+   * @returns The credentials, or null if the header isn't Basic
+   * @throws Error if the credentials are not valid base64 or URL encoding
+   */
+  static parseBasicCredentials(authorization: string | undefined): { id: string; secret: string } | null {
+    if (!authorization?.startsWith('Basic ')) return null;
+    const [id, secret] = atob(authorization.slice(6)).split(':');
+    return { id: decodeURIComponent(id), secret: decodeURIComponent(secret ?? '') };
+  }
+
+  /**
+   * Check a client's secret.
+   * @returns The client if the secret matches, otherwise null
+   */
+  async authenticateClient(id: string, secret: string): Promise<OAuthClient | null> {
+    const result = await this.db.prepare(
+      'SELECT secret_hash FROM oauth_clients WHERE id = ?'
+    ).bind(id).first<{ secret_hash: string }>();
+
+    if (!result || result.secret_hash !== (await sha256Hex(secret))) return null;
+    return this.getClient(id);
+  }
+
+  /**
+   * Record a pending authorization, keyed by the challenge the agent must sign.
+   */
+  async createAuthorization(input: {
+    id: string;
+    client_id: string;
+    agent_id: string;
+    redirect_uri: string;
+    scope: string;
+    state: string | null;
+    code_challenge: string | null;
+  }): Promise<void> {
+    await this.db.prepare(`
+      INSERT INTO oauth_authorizations
+        (id, client_id, agent_id, redirect_uri, scope, state, code_challenge, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      input.id,
+      input.client_id,
+      input.agent_id,
+      input.redirect_uri,
+      input.scope,
+      input.state,
+      input.code_challenge,
+      new Date().toISOString()
+    ).run();
+  }
+
+  /**
+   * Fetch a pending or completed authorization by its challenge ID.
+   */
+  async getAuthorization(id: string): Promise<OAuthAuthorization | null> {
+    const result = await this.db.prepare(
+      'SELECT * FROM oauth_authorizations WHERE id = ?'
+    ).bind(id).first();
+
+    return result ? this.parseAuthorization(result) : null;
+  }
+
+  /**
+   * Issue an authorization code once the agent has answered the challenge.
+   * @returns The plaintext code
+   */
+  async issueCode(authorizationId: string): Promise<string> {
+    const code = `mac_${nanoid(32)}`;
+    const expiresAt = new Date(Date.now() + AUTHORIZATION_CODE_TTL_SECONDS * 1000).toISOString();
+
+    await this.db.prepare(`
+      UPDATE oauth_authorizations SET code_hash = ?, code_expires_at = ?
+      WHERE id = ? AND code_hash IS NULL
+    `).bind(await sha256Hex(code), expiresAt, authorizationId).run();
+
+    return code;
+  }
+
+  /**
+   * Redeem an authorization code for a client. Codes are single-use.
+   * @param code - The plaintext code
+   * @param clientId - The authenticated client
+   * @param redirectUri - Must match the URI the code was issued for
+   * @param codeVerifier - PKCE verifier, required if a challenge was sent
+   */
+  async redeemCode(
+    code: string,
+    clientId: string,
+    redirectUri: string,
+    codeVerifier: string | undefined
+  ): Promise<CodeRedemption> {
+    const result = await this.db.prepare(
+      'SELECT * FROM oauth_authorizations WHERE code_hash = ?'
+    ).bind(await sha256Hex(code)).first();
+
+    const invalid = (description: string): CodeRedemption => ({ ok: false, error: 'invalid_grant', description });
+
+    if (!result) return invalid('Unknown authorization code');
+    const authorization = this.parseAuthorization(result);
+
+    if (authorization.client_id !== clientId) return invalid('Code was issued to another client');
+    if (authorization.redirect_uri !== redirectUri) return invalid('redirect_uri does not match');
+    if (authorization.used_at) return invalid('Code has already been used');
+    if (!authorization.code_expires_at || Date.parse(authorization.code_expires_at) <= Date.now()) {
+      return invalid('Code has expired');
+    }
+
+    if (authorization.code_challenge) {
+      const expected = codeVerifier ? encodeBase64Url(await sha256(codeVerifier)) : null;
+      if (expected !== authorization.code_challenge) return invalid('PKCE verification failed');
+    }
+
+    // Guard on used_at so a code can't be redeemed twice concurrently
+    const update = await this.db.prepare(
+      'UPDATE oauth_authorizations SET used_at = ? WHERE id = ? AND used_at IS NULL'
+    ).bind(new Date().toISOString(), authorization.id).run();
+    if (update.meta.changes === 0) return invalid('Code has already been used');
+
+    return { ok: true, authorization };
+  }
+
+  /**
+   * Issue an access token (and an ID token for the openid scope).
+   * @param agent - The signed-in agent
+   * @param authorization - The redeemed authorization
+   */
+  async issueTokens(
+    agent: Agent,
+    authorization: OAuthAuthorization
+  ): Promise<{ access_token: string; id_token?: string; expires_in: number; scope: string }> {
+    const attestationService = new AttestationService(this.env);
+    const iat = Math.floor(Date.now() / 1000);
+    const exp = iat + ACCESS_TOKEN_TTL_SECONDS;
+
+    const accessClaims: AccessTokenClaims = {
+      iss: attestationService.issuer,
+      sub: agent.id,
+      aud: attestationService.issuer,
+      client_id: authorization.client_id,
+      scope: authorization.scope,
+      iat,
+      exp,
+    };
+    const access_token = await attestationService.sign(accessClaims, { type: ACCESS_TOKEN_TYPE });
+
+    const tokens: { access_token: string; id_token?: string; expires_in: number; scope: string } = {
+      access_token,
+      expires_in: ACCESS_TOKEN_TTL_SECONDS,
+      scope: authorization.scope,
+    };
+
+    if (authorization.scope.split(' ').includes('openid')) {
+      tokens.id_token = await attestationService.sign(
+        {
+          iss: attestationService.issuer,
+          sub: agent.id,
+          aud: authorization.client_id,
+          iat,
+          exp,
+          moltbook_username: agent.moltbook_username,
+          moltbook_verified: agent.moltbook_verified,
+          trust_score: agent.trust_score,
+        },
+        { type: 'JWT' }
+      );
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Validate a bearer access token.
+   * @returns The token claims, or null if invalid or expired
+   */
+  async verifyAccessToken(token: string): Promise<AccessTokenClaims | null> {
+    const attestationService = new AttestationService(this.env);
+    const claims = await attestationService.verify<AccessTokenClaims>(token);
+
+    // ID tokens and attestations share the signing key, so check the audience too
+    if (!claims || claims.aud !== attestationService.issuer || !claims.client_id) return null;
+    return claims;
+  }
+
+  /**
+   * Parse a database row into an OAuthAuthorization object.
+   */
+  parseAuthorization(row: unknown): OAuthAuthorization {
+    const r = row as Record<string, unknown>;
+    return {
+      id: r.id as string,
+      client_id: r.client_id as string,
+      agent_id: r.agent_id as string,
+      redirect_uri: r.redirect_uri as string,
+      scope: r.scope as string,
+      state: r.state as string | null,
+      code_challenge: r.code_challenge as string | null,
+      code_expires_at: r.code_expires_at as string | null,
+      used_at: r.used_at as string | null,
+      created_at: r.created_at as string,
+    };
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * Trust Policy - The weights behind trust scores
+ *
+ * The active policy is resolved per request, first match wins:
+ * 1. The most recently activated row in the trust_policies table
+ * 2. The TRUST_POLICY env var (JSON)
+ * 3. DEFAULT_TRUST_POLICY
+ *
+ * Overrides are merged over the defaults, so a policy only needs the weights
+ * it changes, plus a `version` so integrators can tell formulas apart.
+ * Inactive policies in trust_policies can still be loaded by version, e.g.
+ * to simulate scores under them.
+ *
+ * Policies are validated when saved through the admin API. A policy that is
+ * still malformed at load time (edited by hand, or written by an older
+ * release) is logged and the base policy is used, so one bad row can't take
+ * down scoring.
+ */
+
+import { z } from 'zod';
+import type { Env, TrustPolicy } from '../types';
+
+export const DEFAULT_TRUST_POLICY: TrustPolicy = {
+  version: '1',
+  max_score: 100,
+  moltbook_verified_points: 20,
+  karma: { karma_per_point: 100, max_points: 30 },
+  age: { days_per_point: 1, max_points: 20 },
+  vouches: { points_each: 5, max_points: 30, flagged_weight: 0.2 },
+  github: {
+    enabled: false,
+    age_days_per_point: 90,
+    age_max_points: 5,
+    followers_per_point: 10,
+    followers_max_points: 5,
+  },
+  graph_trust: {
+    enabled: false,
+    max_points: 30,
+    damping: 0.15,
+    iterations: 50,
+  },
+  reports: {
+    points_each: 10,
+    max_points: 40,
+    min_reporter_score: 30,
+    min_reporters: 2,
+    disputed_weight: 0.5,
+  },
+  vouch_decay: {
+    enabled: false,
+    grace_days: 90,
+    half_life_days: 365,
+    min_weight: 0.25,
+  },
+  tiers: {
+    established_min_score: 40,
+    trusted_min_score: 70,
+  },
+};
+
+/**
+ * Thrown when a policy override is malformed.
+ */
+export class InvalidTrustPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidTrustPolicyError';
+  }
+}
+
+const points = z.number().int().min(0);
+const divisor = z.number().int().positive();
+
+const policyOverrideSchema = z.object({
+  version: z.string().min(1).max(64),
+  max_score: divisor.optional(),
+  moltbook_verified_points: points.optional(),
+  karma: z.object({ karma_per_point: divisor, max_points: points }).partial().optional(),
+  age: z.object({ days_per_point: divisor, max_points: points }).partial().optional(),
+  vouches: z.object({
+    points_each: points,
+    max_points: points,
+    flagged_weight: z.number().min(0).max(1),
+  }).partial().optional(),
+  github: z.object({
+    enabled: z.boolean(),
+    age_days_per_point: divisor,
+    age_max_points: points,
+    followers_per_point: divisor,
+    followers_max_points: points,
+  }).partial().optional(),
+  graph_trust: z.object({
+    enabled: z.boolean(),
+    max_points: points,
+    damping: z.number().min(0).max(1),
+    iterations: z.number().int().min(1).max(200),
+  }).partial().optional(),
+  reports: z.object({
+    points_each: points,
+    max_points: points,
+    min_reporter_score: points,
+    min_reporters: divisor,
+    disputed_weight: z.number().min(0).max(1),
+  }).partial().optional(),
+  vouch_decay: z.object({
+    enabled: z.boolean(),
+    grace_days: points,
+    half_life_days: divisor,
+    min_weight: z.number().min(0).max(1),
+  }).partial().optional(),
+  tiers: z.object({
+    established_min_score: points,
+    trusted_min_score: points,
+  }).partial().optional(),
+}).strict();
+
+// Rules across fields, checked once the override is merged over its base
+const mergedPolicySchema = z.custom<TrustPolicy>().refine(
+  (p) => p.tiers.trusted_min_score >= p.tiers.established_min_score,
+  { message: 'must be at least tiers.established_min_score', path: ['tiers', 'trusted_min_score'] }
+);
+
+/**
+ * Describe validation issues as "path: message" pairs.
+ */
+function formatIssues(error: z.ZodError): string {
+  return error.issues.map((i) => `${i.path.join('.') || 'policy'}: ${i.message}`).join('; ');
+}
+
+/**
+ * Merge a policy override over a base policy.
+ * @param source - Where the override came from, for error messages
+ * @throws InvalidTrustPolicyError if the override is malformed
+ */
+export function mergeTrustPolicy(base: TrustPolicy, override: unknown, source: string): TrustPolicy {
+  const parsed = policyOverrideSchema.safeParse(override);
+  if (!parsed.success) {
+    throw new InvalidTrustPolicyError(`Invalid trust policy from ${source}: ${formatIssues(parsed.error)}`);
+  }
+
+  const o = parsed.data;
+  const merged: TrustPolicy = {
+    version: o.version,
+    max_score: o.max_score ?? base.max_score,
+    moltbook_verified_points: o.moltbook_verified_points ?? base.moltbook_verified_points,
+    karma: { ...base.karma, ...o.karma },
+    age: { ...base.age, ...o.age },
+    vouches: { ...base.vouches, ...o.vouches },
+    github: { ...base.github, ...o.github },
+    graph_trust: { ...base.graph_trust, ...o.graph_trust },
+    reports: { ...base.reports, ...o.reports },
+    vouch_decay: { ...base.vouch_decay, ...o.vouch_decay },
+    tiers: { ...base.tiers, ...o.tiers },
+  };
+
+  const checked = mergedPolicySchema.safeParse(merged);
+  if (!checked.success) {
+    throw new InvalidTrustPolicyError(`Invalid trust policy from ${source}: ${formatIssues(checked.error)}`);
+  }
+  return merged;
+}
+
+/**
+ * The policy overrides are merged over.
+ */
+function basePolicy(env: Env): TrustPolicy {
+  // TRUST_GITHUB_FACTOR predates policies; it enables GitHub on the default policy
+  if (env.TRUST_GITHUB_FACTOR !== 'true') return DEFAULT_TRUST_POLICY;
+  return {
+    ...DEFAULT_TRUST_POLICY,
+    version: `${DEFAULT_TRUST_POLICY.version}+github`,
+    github: { ...DEFAULT_TRUST_POLICY.github, enabled: true },
+  };
+}
+
+/**
+ * Parse a policy override stored as JSON text.
+ * @throws InvalidTrustPolicyError if the text is not a JSON object
+ */
+function parsePolicyJson(text: string, source: string): Record<string, unknown> {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new InvalidTrustPolicyError(`Invalid trust policy from ${source}: not valid JSON`);
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new InvalidTrustPolicyError(`Invalid trust policy from ${source}: must be a JSON object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Merge a trust_policies row over the base policy.
+ * @throws InvalidTrustPolicyError if the stored weights are malformed
+ */
+function policyFromRow(base: TrustPolicy, row: { version: string; weights: string }): TrustPolicy {
+  const source = `trust_policies ${row.version}`;
+  return mergeTrustPolicy(base, { ...parsePolicyJson(row.weights, source), version: row.version }, source);
+}
+
+/**
+ * Resolve the trust policy active for this instance. A malformed policy is
+ * logged and the base policy is used instead.
+ */
+export async function loadTrustPolicy(env: Env): Promise<TrustPolicy> {
+  const base = basePolicy(env);
+
+  const row = await env.DB.prepare(
+    'SELECT version, weights FROM trust_policies WHERE active = 1 ORDER BY activated_at DESC LIMIT 1'
+  ).first<{ version: string; weights: string }>();
+
+  try {
+    if (row) return policyFromRow(base, row);
+    if (env.TRUST_POLICY) {
+      return mergeTrustPolicy(base, parsePolicyJson(env.TRUST_POLICY, 'TRUST_POLICY'), 'TRUST_POLICY');
+    }
+  } catch (error) {
+    if (!(error instanceof InvalidTrustPolicyError)) throw error;
+    console.error(`${error.message}. Using policy ${base.version} instead.`);
+  }
+
+  return base;
+}
+
+/**
+ * Resolve a trust policy by version: the active policy, the default, or any
+ * stored in trust_policies whether active or not.
+ * @returns The policy, or null if no policy has that version
+ * @throws InvalidTrustPolicyError if the stored policy is malformed
+ */
+export async function loadTrustPolicyVersion(env: Env, version: string): Promise<TrustPolicy | null> {
+  const active = await loadTrustPolicy(env);
+  if (active.version === version) return active;
+  const base = basePolicy(env);
+  if (base.version === version) return base;
+
+  const row = await env.DB.prepare(
+    'SELECT version, weights FROM trust_policies WHERE version = ?'
+  ).bind(version).first<{ version: string; weights: string }>();
+  if (!row) return null;
+
+  return policyFromRow(base, row);
+}
+
+/**
+ * Store a new policy version, optionally activating it.
+ * @throws InvalidTrustPolicyError if the weights are malformed
+ * @throws Error (UNIQUE constraint) if the version already exists
+ */
+export async function saveTrustPolicy(
+  env: Env,
+  version: string,
+  weights: Record<string, unknown>,
+  activate: boolean
+): Promise<TrustPolicy> {
+  const policy = mergeTrustPolicy(basePolicy(env), { ...weights, version }, `trust policy ${version}`);
+  const now = new Date().toISOString();
+
+  await env.DB.prepare(
+    'INSERT INTO trust_policies (version, weights, active, activated_at, created_at) VALUES (?, ?, ?, ?, ?)'
+  ).bind(version, JSON.stringify(weights), activate ? 1 : 0, activate ? now : null, now).run();
+
+  return policy;
+}
+
+/**
+ * Make a stored policy the active one.
+ * @returns The policy, or null if no stored policy has that version
+ * @throws InvalidTrustPolicyError if the stored weights are malformed
+ */
+export async function activateTrustPolicy(env: Env, version: string): Promise<TrustPolicy | null> {
+  const row = await env.DB.prepare(
+    'SELECT version, weights FROM trust_policies WHERE version = ?'
+  ).bind(version).first<{ version: string; weights: string }>();
+  if (!row) return null;
+
+  const policy = policyFromRow(basePolicy(env), row);
+  await env.DB.prepare(
+    'UPDATE trust_policies SET active = 1, activated_at = ? WHERE version = ?'
+  ).bind(new Date().toISOString(), version).run();
+
+  return policy;
+}
@@ -0,0 +1,199 @@
+/**
+ * RefreshService - Periodic karma refresh and trust score recomputation
+ *
+ * Karma is only imported at verification time and scores only change on
+ * verify or vouch, so the age factor and karma would otherwise go stale.
+ * The cron trigger calls runBatch(), which:
+ * 1. Claims the next batch of agents after the stored cursor (by ID)
+ * 2. Re-fetches Moltbook karma for verified agents
+ * 3. Recomputes each trust score and tier, records any score change in
+ *    score_changes and as a trust snapshot (trigger 'cron'), and rewrites
+ *    the agent's capability scores
+ * 4. Recounts vouch_count, so vouches that expired since the last pass drop out
+ *
+ * One batch per invocation keeps each run well inside D1 and subrequest
+ * limits; a full pass completes over as many invocations as it needs.
+ * The batch is claimed before it is processed, so an agent that fails is
+ * logged and skipped rather than aborting the rest of the batch. It is
+ * retried on the next pass.
+ */
+
+import { nanoid } from 'nanoid';
+import { AgentService } from './agent';
+import { TrustHistoryService } from './history';
+import { loadTrustPolicy } from './policy';
+import { TrustService } from './trust';
+import { createMoltbookClient, type MoltbookClient } from '../providers';
+import type { Agent, Env } from '../types';
+
+export const REFRESH_JOB = 'trust_refresh';
+export const DEFAULT_REFRESH_BATCH_SIZE = 50;
+
+export interface RefreshBatchResult {
+  run_id: string;
+  processed: number;
+  changed: number;
+  failed: number; // Agents skipped after an error (retried on the next pass)
+  completed: boolean; // This batch finished the pass
+}
+
+interface JobState {
+  name: string;
+  cursor: string | null;
+  run_id: string | null;
+  run_started_at: string | null;
+  last_completed_at: string | null;
+}
+
+export class RefreshService {
+  private moltbook: MoltbookClient;
+  private trustService: Promise<TrustService> | null = null;
+
+  /**
+   * @param moltbook - Moltbook client (defaults to the one configured in env)
+   */
+  constructor(private db: D1Database, private env: Env, moltbook?: MoltbookClient) {
+    this.moltbook = moltbook ?? createMoltbookClient(env);
+  }
+
+  /**
+   * Process the next batch of agents.
+   * @param batchSize - Agents per batch (defaults to REFRESH_BATCH_SIZE or 50)
+   * @returns What was done, or null if another invocation claimed the batch first
+   */
+  async runBatch(
+    batchSize: number = parseInt(this.env.REFRESH_BATCH_SIZE || '') || DEFAULT_REFRESH_BATCH_SIZE
+  ): Promise<RefreshBatchResult | null> {
+    const state = await this.getState();
+    const now = new Date().toISOString();
+
+    // A null cursor means the previous pass finished (or none has run yet)
+    const newRun = state.cursor === null;
+    const runId = newRun ? `run_${nanoid(12)}` : state.run_id!;
+
+    const results = await this.db.prepare(
+      'SELECT * FROM agents WHERE id > ? ORDER BY id LIMIT ?'
+    ).bind(state.cursor ?? '', batchSize).all();
+    const agentService = new AgentService(this.db);
+    const agents = (results.results || []).map((r: unknown) => agentService.parseAgent(r));
+
+    const completed = agents.length < batchSize;
+    const nextCursor = completed ? null : agents[agents.length - 1].id;
+
+    // Claim the batch by advancing the cursor only if nobody else has
+    const claim = await this.db.prepare(`
+      UPDATE job_state
+      SET cursor = ?, run_id = ?, run_started_at = ?, updated_at = ?,
+          last_completed_at = CASE WHEN ? THEN ? ELSE last_completed_at END
+      WHERE name = ? AND cursor IS ? AND run_id IS ?
+    `).bind(
+      nextCursor,
+      runId,
+      newRun ? now : state.run_started_at,
+      now,
+      completed ? 1 : 0,
+      now,
+      REFRESH_JOB,
+      state.cursor,
+      state.run_id
+    ).run();
+    if (claim.meta.changes === 0) return null;
+
+    let changed = 0;
+    let failed = 0;
+    for (const agent of agents) {
+      try {
+        if (await this.refreshAgent(agent, runId)) changed++;
+      } catch (error) {
+        console.error(`Trust refresh failed for ${agent.id}:`, error);
+        failed++;
+      }
+    }
+
+    return { run_id: runId, processed: agents.length, changed, failed, completed };
+  }
+
+  /**
+   * Refresh one agent's karma and score.
+   * @returns true if anything changed
+   */
+  async refreshAgent(agent: Agent, runId: string): Promise<boolean> {
+    const agentService = new AgentService(this.db);
+    const trustService = await this.getTrustService();
+
+    let karma = agent.moltbook_karma;
+    if (agent.moltbook_verified && agent.moltbook_username) {
+      // Keep the old value if Moltbook is unavailable
+      karma = (await this.moltbook.getKarma(agent.moltbook_username)) ?? karma;
+    }
+
+    const karmaChanged = karma !== agent.moltbook_karma;
+    if (karmaChanged) {
+      await agentService.update(agent.id, { moltbook_karma: karma });
+    }
+
+    const now = new Date().toISOString();
+    const explanation = await trustService.explain({ ...agent, moltbook_karma: karma });
+    const score = explanation.score;
+    await trustService.updateCapabilityScores(agent.id);
+    const scoreChanged = score !== agent.trust_score;
+    // A policy change can move tier thresholds without changing the score
+    const tierChanged = explanation.tier !== agent.tier;
+    const countChanged = (await agentService.countActiveVouches(agent.id, now)) !== agent.vouch_count;
+    if (!karmaChanged && !scoreChanged && !tierChanged && !countChanged) return false;
+
+    const statements: D1PreparedStatement[] = [];
+    if (karmaChanged || scoreChanged) {
+      statements.push(
+        this.db.prepare(`
+          INSERT INTO score_changes (id, agent_id, run_id, old_score, new_score, old_karma, new_karma, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `).bind(`scg_${nanoid(12)}`, agent.id, runId, agent.trust_score, score, agent.moltbook_karma, karma, now)
+      );
+    }
+    if (scoreChanged || tierChanged) {
+      statements.push(
+        this.db.prepare('UPDATE agents SET trust_score = ?, tier = ?, updated_at = ? WHERE id = ?')
+          .bind(score, explanation.tier, now, agent.id)
+      );
+    }
+    if (countChanged) {
+      statements.push(agentService.recountVouches(agent.id, now));
+    }
+    if (scoreChanged) {
+      statements.push(new TrustHistoryService(this.db).snapshot(agent.id, explanation, 'cron', now));
+    }
+    if (karmaChanged) {
+      statements.push(
+        this.db.prepare(`
+          UPDATE linked_accounts SET reputation = json_set(COALESCE(reputation, '{}'), '$.karma', ?), last_checked_at = ?
+          WHERE agent_id = ? AND provider = 'moltbook' AND status = 'verified'
+        `).bind(karma, now, agent.id)
+      );
+    }
+    await this.db.batch(statements);
+
+    return true;
+  }
+
+  /**
+   * TrustService for the active policy, loaded once per service instance.
+   */
+  private getTrustService(): Promise<TrustService> {
+    this.trustService ??= loadTrustPolicy(this.env).then((policy) => new TrustService(this.db, policy));
+    return this.trustService;
+  }
+
+  /**
+   * Load the job state, creating it on first use.
+   */
+  private async getState(): Promise<JobState> {
+    await this.db.prepare(
+      'INSERT OR IGNORE INTO job_state (name, updated_at) VALUES (?, ?)'
+    ).bind(REFRESH_JOB, new Date().toISOString()).run();
+
+    return (await this.db.prepare(
+      'SELECT * FROM job_state WHERE name = ?'
+    ).bind(REFRESH_JOB).first<JobState>())!;
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * ReportService - Reports against agents and their disputes
+ *
+ * Reporters are verified agents or platforms (approved OAuth clients).
+ *
+ * A report moves through:
+ *   open -> disputed (the reported agent gives their side)
+ *   open | disputed -> upheld | dismissed (an admin decides)
+ *
+ * Whether reports lower a score is up to TrustService: they need enough
+ * trusted reporters before they count, disputed ones count less, and
+ * dismissed ones not at all.
+ */
+
+import { nanoid } from 'nanoid';
+import type { Report, ReportCategory, ReporterType } from '../types';
+
+export interface ReportInput {
+  category: ReportCategory;
+  description?: string;
+  evidence?: string[];
+}
+
+export class ReportService {
+  constructor(private db: D1Database) {}
+
+  /**
+   * File a report. Each agent or platform can report an agent once.
+   * @throws Error with a UNIQUE constraint message if the reporter already reported the agent
+   */
+  async create(
+    agentId: string,
+    reporterId: string,
+    input: ReportInput,
+    reporterType: ReporterType = 'agent'
+  ): Promise<Report> {
+    const now = new Date().toISOString();
+    const report: Report = {
+      id: `rpt_${nanoid(12)}`,
+      agent_id: agentId,
+      reporter_id: reporterId,
+      reporter_type: reporterType,
+      category: input.category,
+      description: input.description ?? null,
+      evidence: input.evidence ?? [],
+      status: 'open',
+      dispute_statement: null,
+      disputed_at: null,
+      resolved_at: null,
+      created_at: now,
+      updated_at: now,
+    };
+
+    await this.db.prepare(`
+      INSERT INTO reports (id, agent_id, reporter_id, reporter_type, category, description, evidence, status, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, 'open', ?, ?)
+    `).bind(
+      report.id, agentId, reporterId, reporterType, report.category,
+      report.description, JSON.stringify(report.evidence), now, now
+    ).run();
+
+    return report;
+  }
+
+  /**
+   * Get a report by ID.
+   */
+  async getById(id: string): Promise<Report | null> {
+    const row = await this.db.prepare('SELECT * FROM reports WHERE id = ?').bind(id).first();
+    return row ? this.parseReport(row) : null;
+  }
+
+  /**
+   * List reports, newest first.
+   */
+  async list(filters: { status?: Report['status']; agent_id?: string; limit?: number } = {}): Promise<Report[]> {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    if (filters.status) {
+      conditions.push('status = ?');
+      values.push(filters.status);
+    }
+    if (filters.agent_id) {
+      conditions.push('agent_id = ?');
+      values.push(filters.agent_id);
+    }
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const results = await this.db.prepare(
+      `SELECT * FROM reports ${where} ORDER BY created_at DESC, id LIMIT ?`
+    ).bind(...values, filters.limit ?? 100).all();
+
+    return (results.results || []).map((r: unknown) => this.parseReport(r));
+  }
+
+  /**
+   * The agents a reporter has reported.
+   */
+  async reportedAgents(reporterId: string): Promise<string[]> {
+    const results = await this.db.prepare(
+      'SELECT DISTINCT agent_id FROM reports WHERE reporter_id = ?'
+    ).bind(reporterId).all<{ agent_id: string }>();
+
+    return (results.results || []).map((r) => r.agent_id);
+  }
+
+  /**
+   * Record the reported agent's side. Only open reports can be disputed.
+   * @returns The updated report, or null if it was not open
+   */
+  async dispute(id: string, statement: string): Promise<Report | null> {
+    const now = new Date().toISOString();
+    const result = await this.db.prepare(`
+      UPDATE reports SET status = 'disputed', dispute_statement = ?, disputed_at = ?, updated_at = ?
+      WHERE id = ? AND status = 'open'
+    `).bind(statement, now, now, id).run();
+
+    return result.meta.changes > 0 ? this.getById(id) : null;
+  }
+
+  /**
+   * An admin's decision on a report. Resolved reports can be decided again.
+   * @returns The updated report, or null if not found
+   */
+  async resolve(id: string, outcome: 'upheld' | 'dismissed'): Promise<Report | null> {
+    const now = new Date().toISOString();
+    await this.db.prepare(
+      'UPDATE reports SET status = ?, resolved_at = ?, updated_at = ? WHERE id = ?'
+    ).bind(outcome, now, now, id).run();
+
+    return this.getById(id);
+  }
+
+  /**
+   * Parse a database row into a Report
+   */
+  private parseReport(row: unknown): Report {
+    const r = row as Record<string, unknown>;
+    return {
+      id: r.id as string,
+      agent_id: r.agent_id as string,
+      reporter_id: r.reporter_id as string,
+      reporter_type: r.reporter_type as ReporterType,
+      category: r.category as ReportCategory,
+      description: r.description as string | null,
+      evidence: JSON.parse((r.evidence as string) || '[]'),
+      status: r.status as Report['status'],
+      dispute_statement: r.dispute_statement as string | null,
+      disputed_at: r.disputed_at as string | null,
+      resolved_at: r.resolved_at as string | null,
+      created_at: r.created_at as string,
+      updated_at: r.updated_at as string,
+    };
+  }
+}
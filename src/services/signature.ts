@@ -0,0 +1,104 @@
+/**
+ * SignatureService - Verify signed API requests against an agent's public key
+ *
+ * A signed request carries four headers:
+ * - X-MoltID-Agent: the signing agent's MoltID
+ * - X-MoltID-Timestamp: unix time in seconds
+ * - X-MoltID-Nonce: a random, single-use string
+ * - X-MoltID-Signature: base64 signature over the canonical string
+ *
+ * The canonical string is the following lines joined with "\n":
+ *   MOLTID-SIG-V1, METHOD, path (with query), timestamp, nonce, sha256(body) hex
+ *
+ * Replay protection: timestamps must be within MAX_CLOCK_SKEW_SECONDS of the
+ * server clock and each (agent, nonce) pair is accepted only once.
+ */
+
+import { sha256Hex, verifySignature } from '../utils/crypto';
+
+export const SIGNATURE_VERSION = 'MOLTID-SIG-V1';
+export const MAX_CLOCK_SKEW_SECONDS = 300;
+
+export interface SignedRequestParts {
+  method: string;
+  path: string;
+  timestamp: string;
+  nonce: string;
+  body: string;
+}
+
+export type SignatureCheck =
+  | { valid: true }
+  | { valid: false; code: 'stale_timestamp' | 'invalid_signature' | 'replayed_nonce'; message: string };
+
+export class SignatureService {
+  constructor(private db: D1Database) {}
+
+  /**
+   * Build the canonical string an agent signs for a request.
+   */
+  static async canonicalString(parts: SignedRequestParts): Promise<string> {
+    return [
+      SIGNATURE_VERSION,
+      parts.method.toUpperCase(),
+      parts.path,
+      parts.timestamp,
+      parts.nonce,
+      await sha256Hex(parts.body),
+    ].join('\n');
+  }
+
+  /**
+   * Verify a signed request and consume its nonce.
+   * @param agentId - The signing agent's MoltID
+   * @param publicKey - The signing agent's registered public key
+   * @param parts - The request components covered by the signature
+   * @param signature - Base64 signature from the X-MoltID-Signature header
+   */
+  async verifyRequest(
+    agentId: string,
+    publicKey: string,
+    parts: SignedRequestParts,
+    signature: string
+  ): Promise<SignatureCheck> {
+    const timestamp = Number(parts.timestamp);
+    const now = Math.floor(Date.now() / 1000);
+    if (!Number.isInteger(timestamp) || Math.abs(now - timestamp) > MAX_CLOCK_SKEW_SECONDS) {
+      return {
+        valid: false,
+        code: 'stale_timestamp',
+        message: `Timestamp must be unix seconds within ${MAX_CLOCK_SKEW_SECONDS}s of server time`,
+      };
+    }
+
+    const message = await SignatureService.canonicalString(parts);
+    if (!(await verifySignature(publicKey, signature, message))) {
+      return { valid: false, code: 'invalid_signature', message: 'Signature verification failed' };
+    }
+
+    if (!(await this.consumeNonce(agentId, parts.nonce))) {
+      return { valid: false, code: 'replayed_nonce', message: 'Nonce has already been used' };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Record a nonce as used. Expired nonces are purged on the way in, since
+   * the timestamp window already rejects anything older.
+   * @returns false if the nonce was already used by this agent
+   */
+  async consumeNonce(agentId: string, nonce: string): Promise<boolean> {
+    const cutoff = new Date(Date.now() - MAX_CLOCK_SKEW_SECONDS * 2 * 1000).toISOString();
+    await this.db.prepare(
+      'DELETE FROM request_nonces WHERE created_at < ?'
+    ).bind(cutoff).run();
+
+    const result = await this.db.prepare(`
+      INSERT OR IGNORE INTO request_nonces (agent_id, nonce, created_at)
+      VALUES (?, ?, ?)
+    `).bind(agentId, nonce, new Date().toISOString()).run();
+
+    return result.meta.changes > 0;
+  }
+}
@@ -0,0 +1,323 @@
+/**
+ * SybilService - Detect vouch rings and other Sybil patterns
+ *
+ * analyze() scans the whole agent and vouch tables and flags agents showing:
+ * - vouch_ring: a cluster of recently registered agents that vouch for each
+ *   other densely (mutual vouches between most pairs)
+ * - registration_burst: many agents registered within minutes of each other
+ *   that go on to vouch
+ * - shared_key: one public key registered to several agents, now or in
+ *   their key history
+ *
+ * Flags are kept per (agent, kind). Re-running updates their evidence, closes
+ * open flags that are no longer detected (resolved), and never reopens flags
+ * an admin dismissed. TrustService discounts vouches from agents with an open
+ * flag, so whenever an agent's flag opens or closes the agents it vouched for
+ * are rescored (trigger 'risk_flag').
+ */
+
+import { nanoid } from 'nanoid';
+import { DEFAULT_TRUST_POLICY } from './policy';
+import { TrustService } from './trust';
+import type { RiskFlag, RiskKind, TrustPolicy } from '../types';
+
+export const SYBIL_JOB = 'sybil_analysis';
+
+// Vouch rings: only agents registered in the last RING_MAX_AGE_DAYS are considered
+const RING_MAX_AGE_DAYS = 30;
+const RING_MIN_SIZE = 3;
+const RING_MIN_DENSITY = 0.6; // Mutual-vouch pairs / all possible pairs in the cluster
+
+// Registration bursts: BURST_MIN_AGENTS vouching agents registered within BURST_WINDOW_MINUTES
+const BURST_WINDOW_MINUTES = 10;
+const BURST_MIN_AGENTS = 5;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export interface SybilFinding {
+  agent_id: string;
+  kind: RiskKind;
+  details: Record<string, unknown>;
+}
+
+export interface SybilAnalysisResult {
+  run_id: string;
+  flagged: number; // Agents with at least one detection in this run
+  findings: Record<RiskKind, number>;
+  resolved: number; // Previously open flags not detected this time
+  rescored: number; // Agents rescored because a voucher's flag opened or closed
+}
+
+export class SybilService {
+  /**
+   * @param policy - Trust policy used to rescore agents when flags change
+   */
+  constructor(private db: D1Database, private policy: TrustPolicy = DEFAULT_TRUST_POLICY) {}
+
+  /**
+   * Run every detector and store the findings as risk flags.
+   */
+  async analyze(): Promise<SybilAnalysisResult> {
+    const runId = `run_${nanoid(12)}`;
+    const now = new Date().toISOString();
+
+    const findings = [
+      ...(await this.findVouchRings()),
+      ...(await this.findRegistrationBursts()),
+      ...(await this.findSharedKeys()),
+    ];
+    const flaggedBefore = await this.openlyFlaggedAgents();
+
+    const statements = findings.map((f) =>
+      this.db.prepare(`
+        INSERT INTO risk_flags (id, agent_id, kind, details, status, run_id, created_at, updated_at)
+        VALUES (?, ?, ?, ?, 'open', ?, ?, ?)
+        ON CONFLICT (agent_id, kind) DO UPDATE SET
+          details = excluded.details,
+          run_id = excluded.run_id,
+          status = CASE WHEN risk_flags.status = 'dismissed' THEN 'dismissed' ELSE 'open' END,
+          updated_at = excluded.updated_at
+      `).bind(`rsk_${nanoid(12)}`, f.agent_id, f.kind, JSON.stringify(f.details), runId, now, now)
+    );
+    statements.push(
+      this.db.prepare(`
+        UPDATE risk_flags SET status = 'resolved', updated_at = ?
+        WHERE status = 'open' AND run_id != ?
+      `).bind(now, runId)
+    );
+    const results = await this.db.batch(statements);
+
+    await this.db.prepare(`
+      INSERT INTO job_state (name, run_id, run_started_at, last_completed_at, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (name) DO UPDATE SET
+        run_id = excluded.run_id, run_started_at = excluded.run_started_at,
+        last_completed_at = excluded.last_completed_at, updated_at = excluded.updated_at
+    `).bind(SYBIL_JOB, runId, now, now, now).run();
+
+    const flaggedAfter = await this.openlyFlaggedAgents();
+    const changed = [
+      ...[...flaggedAfter].filter((id) => !flaggedBefore.has(id)),
+      ...[...flaggedBefore].filter((id) => !flaggedAfter.has(id)),
+    ];
+    const rescored = await this.rescoreVouchTargets(changed);
+
+    const counts: Record<RiskKind, number> = { vouch_ring: 0, registration_burst: 0, shared_key: 0 };
+    for (const f of findings) counts[f.kind]++;
+
+    return {
+      run_id: runId,
+      flagged: new Set(findings.map((f) => f.agent_id)).size,
+      findings: counts,
+      resolved: results[results.length - 1].meta.changes,
+      rescored,
+    };
+  }
+
+  /**
+   * Dense clusters of mutual vouches between recently registered agents.
+   */
+  async findVouchRings(): Promise<SybilFinding[]> {
+    const since = new Date(Date.now() - RING_MAX_AGE_DAYS * DAY_MS).toISOString();
+    const pairs = await this.db.prepare(`
+      SELECT v1.from_agent_id AS a, v1.to_agent_id AS b
+      FROM vouches v1
+      JOIN vouches v2 ON v2.from_agent_id = v1.to_agent_id AND v2.to_agent_id = v1.from_agent_id
+      JOIN agents fa ON fa.id = v1.from_agent_id
+      JOIN agents ta ON ta.id = v1.to_agent_id
+      WHERE v1.from_agent_id < v1.to_agent_id
+        AND datetime(fa.created_at) >= datetime(?) AND datetime(ta.created_at) >= datetime(?)
+    `).bind(since, since).all<{ a: string; b: string }>();
+
+    // Union-find over mutual-vouch pairs
+    const parent = new Map<string, string>();
+    const find = (x: string): string => {
+      while (parent.get(x) !== x) {
+        parent.set(x, parent.get(parent.get(x)!)!);
+        x = parent.get(x)!;
+      }
+      return x;
+    };
+    for (const { a, b } of pairs.results || []) {
+      if (!parent.has(a)) parent.set(a, a);
+      if (!parent.has(b)) parent.set(b, b);
+      parent.set(find(a), find(b));
+    }
+
+    const clusters = new Map<string, { members: string[]; pairs: number }>();
+    for (const id of parent.keys()) {
+      const root = find(id);
+      if (!clusters.has(root)) clusters.set(root, { members: [], pairs: 0 });
+      clusters.get(root)!.members.push(id);
+    }
+    for (const { a } of pairs.results || []) clusters.get(find(a))!.pairs++;
+
+    const findings: SybilFinding[] = [];
+    for (const { members, pairs: mutual } of clusters.values()) {
+      const n = members.length;
+      const density = mutual / ((n * (n - 1)) / 2);
+      if (n < RING_MIN_SIZE || density < RING_MIN_DENSITY) continue;
+
+      members.sort();
+      for (const agentId of members) {
+        findings.push({
+          agent_id: agentId,
+          kind: 'vouch_ring',
+          details: { members, mutual_pairs: mutual, density: Math.round(density * 100) / 100 },
+        });
+      }
+    }
+    return findings;
+  }
+
+  /**
+   * Many vouching agents registered within a few minutes of each other.
+   */
+  async findRegistrationBursts(): Promise<SybilFinding[]> {
+    const results = await this.db.prepare(`
+      SELECT id, created_at FROM agents
+      WHERE EXISTS (SELECT 1 FROM vouches v WHERE v.from_agent_id = agents.id)
+      ORDER BY created_at
+    `).all<{ id: string; created_at: string }>();
+    const agents = (results.results || []).map((a) => ({ id: a.id, at: new Date(a.created_at).getTime() }));
+
+    // Sliding window: flag every agent in a window holding enough registrations
+    const burst = new Map<string, string[]>();
+    let start = 0;
+    for (let end = 0; end < agents.length; end++) {
+      while (agents[end].at - agents[start].at > BURST_WINDOW_MINUTES * 60 * 1000) start++;
+      if (end - start + 1 < BURST_MIN_AGENTS) continue;
+
+      const window = agents.slice(start, end + 1).map((a) => a.id);
+      for (const id of window) {
+        if (!burst.has(id) || burst.get(id)!.length < window.length) burst.set(id, window);
+      }
+    }
+
+    return [...burst].map(([agentId, window]) => ({
+      agent_id: agentId,
+      kind: 'registration_burst' as const,
+      details: { window_minutes: BURST_WINDOW_MINUTES, agents: window },
+    }));
+  }
+
+  /**
+   * Public keys registered to more than one agent, current or historical.
+   */
+  async findSharedKeys(): Promise<SybilFinding[]> {
+    const results = await this.db.prepare(`
+      SELECT public_key, json_group_array(DISTINCT agent_id) AS agents
+      FROM (
+        SELECT agent_id, public_key FROM agent_keys
+        UNION
+        SELECT id AS agent_id, public_key FROM agents WHERE public_key IS NOT NULL
+      )
+      GROUP BY public_key
+      HAVING COUNT(DISTINCT agent_id) > 1
+    `).all<{ public_key: string; agents: string }>();
+
+    const findings: SybilFinding[] = [];
+    for (const row of results.results || []) {
+      const agents = (JSON.parse(row.agents) as string[]).sort();
+      for (const agentId of agents) {
+        findings.push({ agent_id: agentId, kind: 'shared_key', details: { public_key: row.public_key, agents } });
+      }
+    }
+    return findings;
+  }
+
+  /**
+   * List risk flags, newest first.
+   */
+  async list(filters: { status?: RiskFlag['status']; kind?: RiskKind; agent_id?: string; limit?: number } = {}): Promise<RiskFlag[]> {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    if (filters.status) {
+      conditions.push('status = ?');
+      values.push(filters.status);
+    }
+    if (filters.kind) {
+      conditions.push('kind = ?');
+      values.push(filters.kind);
+    }
+    if (filters.agent_id) {
+      conditions.push('agent_id = ?');
+      values.push(filters.agent_id);
+    }
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const results = await this.db.prepare(
+      `SELECT * FROM risk_flags ${where} ORDER BY updated_at DESC, id LIMIT ?`
+    ).bind(...values, filters.limit ?? 100).all();
+
+    return (results.results || []).map((r: unknown) => this.parseFlag(r));
+  }
+
+  /**
+   * Mark a flag as a false positive. Dismissed flags stay dismissed when re-detected.
+   * @returns The updated flag, or null if not found
+   */
+  async dismiss(id: string): Promise<RiskFlag | null> {
+    const row = await this.db.prepare('SELECT * FROM risk_flags WHERE id = ?').bind(id).first();
+    if (!row) return null;
+    const flag = this.parseFlag(row);
+
+    const now = new Date().toISOString();
+    await this.db.prepare(
+      "UPDATE risk_flags SET status = 'dismissed', updated_at = ? WHERE id = ?"
+    ).bind(now, id).run();
+
+    // The agent's vouches count in full again once it has no open flag left
+    if (flag.status === 'open' && !(await this.openlyFlaggedAgents()).has(flag.agent_id)) {
+      await this.rescoreVouchTargets([flag.agent_id]);
+    }
+
+    return { ...flag, status: 'dismissed', updated_at: now };
+  }
+
+  /**
+   * Agents with at least one open flag.
+   */
+  private async openlyFlaggedAgents(): Promise<Set<string>> {
+    const results = await this.db.prepare(
+      "SELECT DISTINCT agent_id FROM risk_flags WHERE status = 'open'"
+    ).all<{ agent_id: string }>();
+    return new Set((results.results || []).map((r) => r.agent_id));
+  }
+
+  /**
+   * Rescore every agent vouched for by one of `voucherIds`.
+   * @returns How many agents were rescored
+   */
+  private async rescoreVouchTargets(voucherIds: string[]): Promise<number> {
+    if (voucherIds.length === 0) return 0;
+
+    const results = await this.db.prepare(
+      'SELECT DISTINCT to_agent_id FROM vouches WHERE from_agent_id IN (SELECT value FROM json_each(?))'
+    ).bind(JSON.stringify(voucherIds)).all<{ to_agent_id: string }>();
+    const targets = (results.results || []).map((r) => r.to_agent_id);
+
+    const trustService = new TrustService(this.db, this.policy);
+    for (const agentId of targets) {
+      await trustService.rescore(agentId, 'risk_flag');
+    }
+    return targets.length;
+  }
+
+  /**
+   * Parse a database row into a RiskFlag
+   */
+  private parseFlag(row: unknown): RiskFlag {
+    const r = row as Record<string, unknown>;
+    return {
+      id: r.id as string,
+      agent_id: r.agent_id as string,
+      kind: r.kind as RiskKind,
+      details: JSON.parse((r.details as string) || '{}'),
+      status: r.status as RiskFlag['status'],
+      run_id: r.run_id as string,
+      created_at: r.created_at as string,
+      updated_at: r.updated_at as string,
+    };
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Trust Tiers - Named levels derived from score, verification and reports
+ *
+ * So integrators don't each pick their own `trust_score > 50`, every agent
+ * is placed in the highest tier whose requirements it meets:
+ * - unverified: registered, no Moltbook identity linked
+ * - linked: Moltbook identity linked
+ * - established: linked, a score of at least tiers.established_min_score
+ *   (40) and no report penalty
+ * - trusted: linked, a score of at least tiers.trusted_min_score (70) and
+ *   no report penalty
+ *
+ * The thresholds are part of the TrustPolicy. The tier is stored with the
+ * score whenever an agent is rescored.
+ */
+
+import type { TrustExplanation, TrustPolicy, TrustTier, TrustTierDefinition } from '../types';
+
+export const TRUST_TIERS: TrustTier[] = ['unverified', 'linked', 'established', 'trusted'];
+
+/**
+ * The tier requirements under a policy, lowest tier first.
+ */
+export function tierDefinitions(policy: TrustPolicy): TrustTierDefinition[] {
+  return [
+    {
+      tier: 'unverified',
+      description: 'Registered, with no Moltbook identity linked',
+      min_score: 0,
+      requires_verification: false,
+      requires_clean_record: false,
+    },
+    {
+      tier: 'linked',
+      description: 'Moltbook identity linked',
+      min_score: 0,
+      requires_verification: true,
+      requires_clean_record: false,
+    },
+    {
+      tier: 'established',
+      description: 'Linked, with a moderate score and no report penalty',
+      min_score: policy.tiers.established_min_score,
+      requires_verification: true,
+      requires_clean_record: true,
+    },
+    {
+      tier: 'trusted',
+      description: 'Linked, with a high score and no report penalty',
+      min_score: policy.tiers.trusted_min_score,
+      requires_verification: true,
+      requires_clean_record: true,
+    },
+  ];
+}
+
+/**
+ * The highest tier a scored agent qualifies for.
+ */
+export function tierFor(policy: TrustPolicy, explanation: Omit<TrustExplanation, 'tier'>): TrustTier {
+  const { score, factors } = explanation;
+  const qualifies = (t: TrustTierDefinition) =>
+    score >= t.min_score &&
+    (!t.requires_verification || factors.moltbook_verified.input) &&
+    (!t.requires_clean_record || !factors.reports.applied);
+
+  return tierDefinitions(policy).filter(qualifies).pop()!.tier;
+}
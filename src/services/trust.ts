@@ -1,108 +1,446 @@
 /**
  * TrustService - Calculate and manage trust scores for agents
  *
- * Trust score calculation (max 100 points):
+ * Scores are computed from a TrustPolicy (see policy.ts). Under the default
+ * policy (max 100 points):
  * - Moltbook verification: +20 points
  * - Karma: 1 point per 100 karma, capped at 30 points
  * - Age: 1 point per day since registration, capped at 20 points
- * - Vouches: 5 points per vouch from verified agents, capped at 30 points
+ * - Vouches: 5 points per vouch from verified agents, capped at 30 points.
+ *   Vouches from agents with an open risk flag (see sybil.ts) count 20%.
+ *   Expired vouches don't count.
+ *
+ * Optional factors (off unless the policy enables them):
+ * - GitHub: for a verified linked GitHub account, 1 point per 90 days of
+ *   account age (max 5) plus 1 point per 10 followers (max 5)
+ * - Graph trust: up to 30 points from the vouch graph (see graph.ts), scaled
+ *   against the most trusted agent. Always reported for comparison.
+ * - Reports: -10 points per report, down to -40, but only once at least 2
+ *   verified agents with a trust score of 30+ or approved platforms have
+ *   reported the agent (or an admin upheld a report). Disputed reports count
+ *   half until resolved.
+ * - Vouch decay: after a 90 day grace period a vouch's weight halves every
+ *   365 days (down to 25%). Renewing a vouch restarts the clock.
+ *
+ * Each capability an agent lists also gets a capability score: the same
+ * score, but with only the vouches for that capability counted.
+ *
+ * rescore() stores a new score together with a snapshot of it (see
+ * history.ts), so every change to a stored score should go through it.
+ *
+ * A TrustScenario scores an agent under hypothetical changes (a later date,
+ * different karma, extra vouches) for simulate(), without writing anything.
  */
 
-import type { Agent, TrustDetails } from '../types';
+import { AgentService } from './agent';
+import { GraphTrustService } from './graph';
+import { TrustHistoryService } from './history';
+import { DEFAULT_TRUST_POLICY } from './policy';
+import { tierFor } from './tiers';
+import type { Agent, Report, ScoreTrigger, TrustDetails, TrustDrift, TrustExplanation, TrustFactor, TrustPolicy } from '../types';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export interface TrustScenario {
+  at?: Date; // Score as of this time instead of now
+  karma?: number;
+  vouches?: { from_agent_id: string; capability?: string }[]; // Hypothetical vouches given at `at`
+}
+
+interface VouchRow {
+  from_agent_id: string;
+  capability: string | null;
+  vouched_at: string;
+  flagged: number;
+}
 
-// Score caps
-const MOLTBOOK_VERIFIED_POINTS = 20;
-const KARMA_MAX_POINTS = 30;
-const KARMA_DIVISOR = 100;
-const AGE_MAX_POINTS = 20;
-const VOUCH_POINTS_EACH = 5;
-const VOUCH_MAX_POINTS = 30;
-const MAX_TOTAL_SCORE = 100;
+/**
+ * Apply a factor's cap to its uncapped points.
+ */
+function factor<TInput>(input: TInput, uncapped: number, maxPoints: number): TrustFactor<TInput> {
+  return {
+    input,
+    points: Math.min(uncapped, maxPoints),
+    max_points: maxPoints,
+    capped: uncapped > maxPoints,
+  };
+}
 
 export class TrustService {
-  constructor(private db: D1Database) {}
+  constructor(private db: D1Database, readonly policy: TrustPolicy = DEFAULT_TRUST_POLICY) {}
 
   /**
    * Calculate trust score for an agent (0-100)
    */
   async calculateScore(agentId: string): Promise<number> {
-    const agent = (await this.db
-      .prepare('SELECT * FROM agents WHERE id = ?')
-      .bind(agentId)
-      .first()) as any;
-
+    const agent = await new AgentService(this.db).getById(agentId);
     if (!agent) return 0;
 
-    let score = 0;
+    return (await this.explain(agent)).score;
+  }
 
-    // Moltbook verification: +20 points
-    if (agent.moltbook_verified) {
-      score += MOLTBOOK_VERIFIED_POINTS;
+  /**
+   * Recompute and store an agent's score, tier and capability scores. A
+   * changed score is recorded as a trust snapshot.
+   * @param trigger - What caused the recompute
+   * @returns The new score (0 if the agent doesn't exist)
+   */
+  async rescore(agentId: string, trigger: ScoreTrigger): Promise<number> {
+    const agent = await new AgentService(this.db).getById(agentId);
+    if (!agent) return 0;
+
+    const explanation = await this.explain(agent);
+    const scoreChanged = explanation.score !== agent.trust_score;
+    if (scoreChanged || explanation.tier !== agent.tier) {
+      const now = new Date().toISOString();
+      const statements = [
+        this.db.prepare('UPDATE agents SET trust_score = ?, tier = ?, updated_at = ? WHERE id = ?')
+          .bind(explanation.score, explanation.tier, now, agentId),
+      ];
+      if (scoreChanged) {
+        statements.push(new TrustHistoryService(this.db).snapshot(agentId, explanation, trigger, now));
+      }
+      await this.db.batch(statements);
     }
+    await this.storeCapabilityScores(agentId, explanation.capability_scores);
 
-    // Karma: up to 30 points (1 point per 100 karma, capped)
-    const karma = agent.moltbook_karma || 0;
-    score += Math.min(Math.floor(karma / KARMA_DIVISOR), KARMA_MAX_POINTS);
+    return explanation.score;
+  }
 
-    // Age: up to 20 points (1 point per day, capped)
-    const createdAt = new Date(agent.created_at);
-    const ageDays = Math.floor(
-      (Date.now() - createdAt.getTime()) / (1000 * 60 * 60 * 24)
-    );
-    score += Math.min(ageDays, AGE_MAX_POINTS);
+  /**
+   * Score an agent under the policy, explaining every factor.
+   *
+   * This is the only place scores are computed: calculateScore (the stored
+   * score), getDetails (the /trust breakdown) and simulate all read from it.
+   * @param scenario - Hypothetical changes to score the agent under
+   */
+  async explain(agent: Agent, scenario: TrustScenario = {}): Promise<TrustExplanation> {
+    const policy = this.policy;
+    const now = scenario.at ?? new Date();
+    const ageDays = Math.floor((now.getTime() - new Date(agent.created_at).getTime()) / DAY_MS);
+    const karma = scenario.karma ?? (agent.moltbook_karma || 0);
 
-    // Vouches: 5 points each, up to 30
-    // Only count vouches from verified agents
-    const verifiedVouches = (await this.db
+    // Only unexpired vouches from verified agents count; those from risk-flagged agents are discounted
+    const vouchers = await this.db
       .prepare(
-        `
-      SELECT COUNT(*) as count FROM vouches v
-      JOIN agents a ON v.from_agent_id = a.id
-      WHERE v.to_agent_id = ? AND a.moltbook_verified = 1
-    `
+        `SELECT v.from_agent_id, v.capability, COALESCE(v.renewed_at, v.created_at) AS vouched_at,
+           EXISTS (SELECT 1 FROM risk_flags f WHERE f.agent_id = v.from_agent_id AND f.status = 'open') AS flagged
+         FROM vouches v
+         JOIN agents a ON v.from_agent_id = a.id
+         WHERE v.to_agent_id = ? AND a.moltbook_verified = 1
+           AND (v.expires_at IS NULL OR v.expires_at > ?)
+         ORDER BY v.created_at`
       )
-      .bind(agentId)
-      .first()) as any;
+      .bind(agent.id, now.toISOString())
+      .all<VouchRow>();
+    const rows = vouchers.results || [];
+    if (scenario.vouches?.length) {
+      rows.push(...(await this.hypotheticalVouches(agent, scenario.vouches, rows, now)));
+    }
+    const voucherIds = rows.map((v) => v.from_agent_id);
+    const flaggedIds = rows.filter((v) => v.flagged).map((v) => v.from_agent_id);
+    const weights = rows.map(
+      (v) => (v.flagged ? policy.vouches.flagged_weight : 1) * this.decayWeight(v.vouched_at, now)
+    );
+    // Rounded so fractional weights don't floor away a point to float error
+    const sumWeights = (ws: number[]) => Math.round(ws.reduce((sum, w) => sum + w, 0) * 1000) / 1000;
+    const vouchWeight = sumWeights(weights);
+
+    const factors: TrustExplanation['factors'] = {
+      moltbook_verified: factor(
+        agent.moltbook_verified,
+        agent.moltbook_verified ? policy.moltbook_verified_points : 0,
+        policy.moltbook_verified_points
+      ),
+      karma: factor(karma, Math.floor(karma / policy.karma.karma_per_point), policy.karma.max_points),
+      age: factor(ageDays, Math.floor(ageDays / policy.age.days_per_point), policy.age.max_points),
+      vouches: {
+        ...factor(
+          voucherIds.length,
+          Math.floor(vouchWeight * policy.vouches.points_each),
+          policy.vouches.max_points
+        ),
+        vouchers: voucherIds,
+        flagged_vouchers: flaggedIds,
+        weight: vouchWeight,
+      },
+      reports: await this.reportsFactor(agent.id),
+      graph_trust: await this.graphTrustFactor(agent.id),
+    };
+    if (policy.github.enabled) {
+      factors.github = await this.githubFactor(agent.id, now);
+    }
 
-    const vouchCount = verifiedVouches?.count || 0;
-    score += Math.min(vouchCount * VOUCH_POINTS_EACH, VOUCH_MAX_POINTS);
+    const { graph_trust: graph, ...counted } = factors;
+    let uncappedTotal = Object.values(counted).reduce((sum, f) => sum + (f?.points ?? 0), 0);
+    if (graph.counted) uncappedTotal += graph.points;
+
+    // Capability scores swap the vouches factor for the vouches scoped to that capability
+    const capabilityScores: Record<string, number> = {};
+    for (const capability of agent.capabilities) {
+      const capabilityWeight = sumWeights(weights.filter((_, i) => rows[i].capability === capability));
+      const capabilityPoints = Math.min(
+        Math.floor(capabilityWeight * policy.vouches.points_each),
+        policy.vouches.max_points
+      );
+      capabilityScores[capability] = Math.max(
+        0,
+        Math.min(uncappedTotal - factors.vouches.points + capabilityPoints, policy.max_score)
+      );
+    }
 
-    return Math.min(score, MAX_TOTAL_SCORE);
+    const explanation = {
+      score: Math.max(0, Math.min(uncappedTotal, policy.max_score)),
+      policy_version: policy.version,
+      uncapped_total: uncappedTotal,
+      max_score: policy.max_score,
+      capability_scores: capabilityScores,
+      factors,
+    };
+    return { ...explanation, tier: tierFor(policy, explanation) };
   }
 
   /**
    * Get detailed trust breakdown for an agent
+   * @param scenario - Hypothetical changes to score the agent under
    */
-  async getDetails(agent: Agent): Promise<TrustDetails> {
-    const createdAt = new Date(agent.created_at);
-    const ageDays = Math.floor(
-      (Date.now() - createdAt.getTime()) / (1000 * 60 * 60 * 24)
-    );
-
-    // Calculate individual factors
-    const moltbookFactor = agent.moltbook_verified ? MOLTBOOK_VERIFIED_POINTS : 0;
-    const karmaFactor = Math.min(
-      Math.floor((agent.moltbook_karma || 0) / KARMA_DIVISOR),
-      KARMA_MAX_POINTS
-    );
-    const ageFactor = Math.min(ageDays, AGE_MAX_POINTS);
-    const vouchFactor = Math.min(
-      agent.vouch_count * VOUCH_POINTS_EACH,
-      VOUCH_MAX_POINTS
-    );
+  async getDetails(agent: Agent, scenario: TrustScenario = {}): Promise<TrustDetails> {
+    const explanation = await this.explain(agent, scenario);
+    const { factors } = explanation;
 
-    return {
+    const details: TrustDetails = {
       score: agent.trust_score,
+      computed_score: explanation.score,
+      drifted: agent.trust_score !== explanation.score,
+      tier: agent.tier,
+      policy_version: explanation.policy_version,
       factors: {
-        moltbook_verified: moltbookFactor,
-        karma: karmaFactor,
-        age: ageFactor,
-        vouches: vouchFactor,
+        moltbook_verified: factors.moltbook_verified.points,
+        karma: factors.karma.points,
+        age: factors.age.points,
+        vouches: factors.vouches.points,
+        reports: factors.reports.points,
+        graph_trust: factors.graph_trust.points,
       },
+      explanation,
       moltbook_verified: agent.moltbook_verified,
-      moltbook_karma: agent.moltbook_karma,
+      moltbook_karma: scenario.karma ?? agent.moltbook_karma,
       vouch_count: agent.vouch_count,
-      age_days: ageDays,
+      age_days: factors.age.input,
+    };
+    if (factors.github) {
+      details.factors.github = factors.github.points;
+    }
+
+    return details;
+  }
+
+  /**
+   * The trust breakdown an agent would have under a scenario. Nothing is
+   * written: `score` and `tier` are projected and the stored ones untouched.
+   */
+  async simulate(agent: Agent, scenario: TrustScenario): Promise<TrustDetails> {
+    const details = await this.getDetails(agent, scenario);
+    return { ...details, score: details.computed_score, drifted: false, tier: details.explanation.tier };
+  }
+
+  /**
+   * Recompute and store an agent's capability scores, replacing any for
+   * capabilities it no longer lists.
+   * @returns The stored scores by capability
+   */
+  async updateCapabilityScores(agentId: string): Promise<Record<string, number>> {
+    const agent = await new AgentService(this.db).getById(agentId);
+    if (!agent) return {};
+
+    const { capability_scores: scores } = await this.explain(agent);
+    await this.storeCapabilityScores(agentId, scores);
+
+    return scores;
+  }
+
+  /**
+   * Find agents whose stored score differs from what the engine computes now.
+   * Checks up to `limit` agents in ID order after `cursor`.
+   * @returns The drifted agents and the cursor to continue from (null when done)
+   */
+  async checkConsistency(
+    options: { cursor?: string; limit?: number } = {}
+  ): Promise<{ checked: number; drifted: TrustDrift[]; next_cursor: string | null }> {
+    const limit = options.limit ?? 100;
+    const agentService = new AgentService(this.db);
+
+    const results = await this.db
+      .prepare('SELECT * FROM agents WHERE id > ? ORDER BY id LIMIT ?')
+      .bind(options.cursor ?? '', limit)
+      .all();
+    const agents = (results.results || []).map((r: unknown) => agentService.parseAgent(r));
+
+    const drifted: TrustDrift[] = [];
+    for (const agent of agents) {
+      const { score } = await this.explain(agent);
+      if (score !== agent.trust_score) {
+        drifted.push({ agent_id: agent.id, stored_score: agent.trust_score, computed_score: score });
+      }
+    }
+
+    return {
+      checked: agents.length,
+      drifted,
+      next_cursor: agents.length === limit ? agents[agents.length - 1].id : null,
+    };
+  }
+
+  /**
+   * Replace an agent's stored capability scores.
+   */
+  private async storeCapabilityScores(agentId: string, scores: Record<string, number>): Promise<void> {
+    const now = new Date().toISOString();
+    await this.db.batch([
+      this.db.prepare('DELETE FROM capability_scores WHERE agent_id = ?').bind(agentId),
+      ...Object.entries(scores).map(([capability, score]) =>
+        this.db.prepare(
+          'INSERT INTO capability_scores (agent_id, capability, score, updated_at) VALUES (?, ?, ?, ?)'
+        ).bind(agentId, capability, score, now)
+      ),
+    ]);
+  }
+
+  /**
+   * What a vouch given or last renewed at `vouchedAt` counts for under the
+   * policy's decay curve (1 when decay is off).
+   */
+  private decayWeight(vouchedAt: string, now: Date): number {
+    const decay = this.policy.vouch_decay;
+    if (!decay.enabled) return 1;
+
+    const ageDays = Math.floor((now.getTime() - new Date(vouchedAt).getTime()) / DAY_MS);
+    if (ageDays <= decay.grace_days) return 1;
+    return Math.max(decay.min_weight, 0.5 ** ((ageDays - decay.grace_days) / decay.half_life_days));
+  }
+
+  /**
+   * Vouch rows for a scenario's hypothetical vouches, counted like real ones:
+   * only from verified agents, discounted if the voucher is flagged. Agents
+   * who already vouch, and the agent itself, are skipped.
+   */
+  private async hypotheticalVouches(
+    agent: Agent,
+    vouches: NonNullable<TrustScenario['vouches']>,
+    existing: VouchRow[],
+    at: Date
+  ): Promise<VouchRow[]> {
+    const skip = new Set([agent.id, ...existing.map((v) => v.from_agent_id)]);
+    const candidates = vouches.filter((v, i) =>
+      !skip.has(v.from_agent_id) && vouches.findIndex((o) => o.from_agent_id === v.from_agent_id) === i
+    );
+    if (candidates.length === 0) return [];
+
+    const results = await this.db
+      .prepare(
+        `SELECT a.id,
+           EXISTS (SELECT 1 FROM risk_flags f WHERE f.agent_id = a.id AND f.status = 'open') AS flagged
+         FROM agents a
+         WHERE a.id IN (${candidates.map(() => '?').join(', ')}) AND a.moltbook_verified = 1`
+      )
+      .bind(...candidates.map((v) => v.from_agent_id))
+      .all<{ id: string; flagged: number }>();
+    const flagged = new Map((results.results || []).map((r) => [r.id, r.flagged]));
+
+    return candidates
+      .filter((v) => flagged.has(v.from_agent_id))
+      .map((v) => ({
+        from_agent_id: v.from_agent_id,
+        capability: v.capability ?? null,
+        vouched_at: at.toISOString(),
+        flagged: flagged.get(v.from_agent_id)!,
+      }));
+  }
+
+  /**
+   * The report penalty. Reports count when they come from verified agents
+   * meeting min_reporter_score or from platforms still allowed to report, or
+   * when an admin upheld them.
+   */
+  private async reportsFactor(agentId: string): Promise<TrustExplanation['factors']['reports']> {
+    const policy = this.policy.reports;
+
+    const results = await this.db
+      .prepare(
+        `SELECT r.reporter_id, r.status FROM reports r
+         LEFT JOIN agents a ON r.reporter_type = 'agent' AND a.id = r.reporter_id
+         LEFT JOIN oauth_clients p ON r.reporter_type = 'platform' AND p.id = r.reporter_id
+         WHERE r.agent_id = ? AND r.status != 'dismissed'
+           AND (r.status = 'upheld' OR (a.moltbook_verified = 1 AND a.trust_score >= ?) OR p.can_report = 1)
+         ORDER BY r.created_at`
+      )
+      .bind(agentId, policy.min_reporter_score)
+      .all<{ reporter_id: string; status: Report['status'] }>();
+    const reports = results.results || [];
+
+    // One reporter can't move a score on their own
+    const applied = reports.length >= policy.min_reporters || reports.some((r) => r.status === 'upheld');
+    const weight = reports.reduce((sum, r) => sum + (r.status === 'disputed' ? policy.disputed_weight : 1), 0);
+    const penalty = applied ? Math.floor(Math.round(weight * 1000) / 1000 * policy.points_each) : 0;
+
+    return {
+      input: reports.length,
+      points: penalty > 0 ? -Math.min(penalty, policy.max_points) : 0,
+      max_points: policy.max_points,
+      capped: penalty > policy.max_points,
+      reporters: reports.map((r) => r.reporter_id),
+      applied,
+    };
+  }
+
+  /**
+   * The graph trust factor from the last graph trust run.
+   */
+  private async graphTrustFactor(agentId: string): Promise<TrustExplanation['factors']['graph_trust']> {
+    const graph = this.policy.graph_trust;
+    const value = await new GraphTrustService(this.db, this.policy).get(agentId);
+
+    return {
+      ...factor(value?.normalized ?? null, Math.round((value?.normalized ?? 0) * graph.max_points), graph.max_points),
+      counted: graph.enabled,
+      computed_at: value?.computed_at ?? null,
+    };
+  }
+
+  /**
+   * The GitHub factor from the agent's verified GitHub account (0 points if none is linked).
+   */
+  private async githubFactor(agentId: string, now: Date): Promise<NonNullable<TrustExplanation['factors']['github']>> {
+    const github = this.policy.github;
+    const maxPoints = github.age_max_points + github.followers_max_points;
+
+    const account = await this.db
+      .prepare(
+        `SELECT reputation FROM linked_accounts
+         WHERE agent_id = ? AND provider = 'github' AND status = 'verified'
+         ORDER BY verified_at DESC LIMIT 1`
+      )
+      .bind(agentId)
+      .first<{ reputation: string | null }>();
+
+    if (!account?.reputation) {
+      return { input: null, points: 0, max_points: maxPoints, capped: false };
+    }
+
+    const reputation = JSON.parse(account.reputation) as { account_created_at?: string; followers?: number };
+    const accountAgeDays = reputation.account_created_at
+      ? Math.floor((now.getTime() - new Date(reputation.account_created_at).getTime()) / DAY_MS)
+      : 0;
+    const followers = reputation.followers || 0;
+
+    const agePoints = Math.floor(accountAgeDays / github.age_days_per_point);
+    const followerPoints = Math.floor(followers / github.followers_per_point);
+
+    return {
+      input: { account_age_days: accountAgeDays, followers },
+      points: Math.min(agePoints, github.age_max_points) + Math.min(followerPoints, github.followers_max_points),
+      max_points: maxPoints,
+      capped: agePoints > github.age_max_points || followerPoints > github.followers_max_points,
     };
   }
 }
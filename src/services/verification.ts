@@ -0,0 +1,135 @@
+/**
+ * VerificationService - Link external accounts through verification providers
+ *
+ * Runs a provider's check and records the result in linked_accounts. A
+ * successful check stores the imported reputation and applies any agent
+ * column updates the provider asks for; a failed check never downgrades an
+ * account that was already verified.
+ */
+
+import { nanoid } from 'nanoid';
+import { AgentService } from './agent';
+import type { VerificationOutcome, VerificationProvider } from '../providers';
+import type { Agent, LinkedAccount } from '../types';
+
+export class VerificationService {
+  private providers: Map<string, VerificationProvider>;
+
+  constructor(private db: D1Database, providers: VerificationProvider[]) {
+    this.providers = new Map(providers.map((p) => [p.name, p]));
+  }
+
+  /**
+   * Look up a registered provider by name.
+   * @returns The provider or null if not registered
+   */
+  getProvider(name: string): VerificationProvider | null {
+    return this.providers.get(name) ?? null;
+  }
+
+  /**
+   * Names of all registered providers.
+   */
+  get providerNames(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  /**
+   * Run a provider check for an agent and record the outcome.
+   * @param agent - The agent being verified
+   * @param provider - The provider to check with
+   * @param input - Request input, already validated against provider.inputSchema
+   * @returns The outcome and the linked account row (null if no account was identified)
+   */
+  async verify(
+    agent: Agent,
+    provider: VerificationProvider,
+    input: unknown
+  ): Promise<{ outcome: VerificationOutcome; account: LinkedAccount | null }> {
+    const outcome = await provider.verify(agent, input);
+    if (!outcome.handle) {
+      return { outcome, account: null };
+    }
+
+    const now = new Date().toISOString();
+    if (outcome.verified) {
+      await this.db.prepare(`
+        INSERT INTO linked_accounts
+          (id, agent_id, provider, handle, status, reputation, verified_at, last_checked_at, created_at)
+        VALUES (?, ?, ?, ?, 'verified', ?, ?, ?, ?)
+        ON CONFLICT (agent_id, provider, handle) DO UPDATE SET
+          status = 'verified',
+          reputation = excluded.reputation,
+          verified_at = excluded.verified_at,
+          last_checked_at = excluded.last_checked_at
+      `).bind(
+        `lnk_${nanoid(12)}`,
+        agent.id,
+        provider.name,
+        outcome.handle,
+        JSON.stringify(outcome.reputation),
+        now,
+        now,
+        now
+      ).run();
+
+      if (outcome.agent_updates) {
+        await new AgentService(this.db).update(agent.id, outcome.agent_updates);
+      }
+    } else {
+      await this.db.prepare(`
+        INSERT INTO linked_accounts
+          (id, agent_id, provider, handle, status, last_checked_at, created_at)
+        VALUES (?, ?, ?, ?, 'failed', ?, ?)
+        ON CONFLICT (agent_id, provider, handle) DO UPDATE SET
+          last_checked_at = excluded.last_checked_at
+      `).bind(`lnk_${nanoid(12)}`, agent.id, provider.name, outcome.handle, now, now).run();
+    }
+
+    return { outcome, account: await this.getLinkedAccount(agent.id, provider.name, outcome.handle) };
+  }
+
+  /**
+   * Fetch one linked account.
+   * @returns The account or null if never checked
+   */
+  async getLinkedAccount(agentId: string, provider: string, handle: string): Promise<LinkedAccount | null> {
+    const result = await this.db.prepare(
+      'SELECT * FROM linked_accounts WHERE agent_id = ? AND provider = ? AND handle = ?'
+    ).bind(agentId, provider, handle).first();
+
+    return result ? this.parseLinkedAccount(result) : null;
+  }
+
+  /**
+   * All accounts an agent has attempted to link, oldest first.
+   * @param agentId - The agent's MoltID
+   * @param options.verifiedOnly - Only return verified accounts
+   */
+  async getLinkedAccounts(agentId: string, options: { verifiedOnly?: boolean } = {}): Promise<LinkedAccount[]> {
+    const sql = options.verifiedOnly
+      ? "SELECT * FROM linked_accounts WHERE agent_id = ? AND status = 'verified' ORDER BY created_at, id"
+      : 'SELECT * FROM linked_accounts WHERE agent_id = ? ORDER BY created_at, id';
+    const results = await this.db.prepare(sql).bind(agentId).all();
+
+    return (results.results || []).map((r: unknown) => this.parseLinkedAccount(r));
+  }
+
+  /**
+   * Parse a database row into a LinkedAccount object.
+   */
+  parseLinkedAccount(row: unknown): LinkedAccount {
+    const r = row as Record<string, unknown>;
+    return {
+      id: r.id as string,
+      agent_id: r.agent_id as string,
+      provider: r.provider as string,
+      handle: r.handle as string,
+      status: r.status as LinkedAccount['status'],
+      reputation: r.reputation ? JSON.parse(r.reputation as string) : {},
+      verified_at: r.verified_at as string | null,
+      last_checked_at: r.last_checked_at as string,
+      created_at: r.created_at as string,
+    };
+  }
+}
@@ -11,9 +11,11 @@ export interface Agent {
   public_key: string | null;
   capabilities: string[];
   trust_score: number;
+  tier: TrustTier; // Stored with trust_score
   vouch_count: number;
   status: 'pending' | 'active' | 'suspended';
   verification_code: string | null;
+  domains: string[]; // Verified through the domain provider (from linked_accounts)
   created_at: string;
   updated_at: string;
 }
@@ -28,34 +30,297 @@ export interface AgentPublic {
   id: string;
   moltbook_username: string | null;
   moltbook_verified: boolean;
+  domains: string[];
   capabilities: string[];
   trust_score: number;
+  tier: TrustTier;
   vouch_count: number;
   status: string;
   created_at: string;
+  capability_score?: number; // Only when searching by capability
+}
+
+// Named trust levels, lowest first (see services/tiers.ts)
+export type TrustTier = 'unverified' | 'linked' | 'established' | 'trusted';
+
+export interface TrustTierDefinition {
+  tier: TrustTier;
+  description: string;
+  min_score: number;
+  requires_verification: boolean; // Moltbook identity linked
+  requires_clean_record: boolean; // No report penalty applies
+}
+
+// Key types
+export type KeyChangeMethod = 'registration' | 'signature' | 'moltbook';
+
+export interface AgentKey {
+  id: string;
+  agent_id: string;
+  public_key: string;
+  valid_from: string;
+  valid_until: string | null;
+  revoked_at: string | null;
+  revocation_reason: string | null;
+  added_via: KeyChangeMethod;
+}
+
+// Challenge types
+export interface Challenge {
+  id: string;
+  agent_id: string;
+  nonce: string;
+  audience: string | null;
+  created_at: string;
+  expires_at: string;
+  verified_at: string | null;
+  valid_until: string | null;
+}
+
+// OAuth types
+export interface OAuthClient {
+  id: string;
+  name: string;
+  redirect_uris: string[];
+  can_report: boolean; // Set by an admin: the platform can report agents
+  created_at: string;
+}
+
+export interface OAuthAuthorization {
+  id: string; // Same as the challenge ID the agent signs
+  client_id: string;
+  agent_id: string;
+  redirect_uri: string;
+  scope: string;
+  state: string | null;
+  code_challenge: string | null;
+  code_expires_at: string | null;
+  used_at: string | null;
+  created_at: string;
+}
+
+// Verification types
+export type Reputation = Record<string, string | number | boolean | null>;
+
+export interface LinkedAccount {
+  id: string;
+  agent_id: string;
+  provider: string; // e.g. 'moltbook'
+  handle: string; // The account on the provider's side
+  status: 'verified' | 'failed';
+  reputation: Reputation; // Signals imported at the last successful check
+  verified_at: string | null;
+  last_checked_at: string;
+  created_at: string;
 }
 
 // Trust types
-export interface TrustDetails {
+export interface TrustPolicy {
+  version: string; // Identifies the formula; stamped into every trust response
+  max_score: number;
+  moltbook_verified_points: number;
+  karma: { karma_per_point: number; max_points: number };
+  age: { days_per_point: number; max_points: number };
+  vouches: {
+    points_each: number;
+    max_points: number;
+    flagged_weight: number; // What a vouch from a risk-flagged agent counts as (0-1)
+  };
+  github: {
+    enabled: boolean;
+    age_days_per_point: number;
+    age_max_points: number;
+    followers_per_point: number;
+    followers_max_points: number;
+  };
+  graph_trust: {
+    enabled: boolean; // Count graph trust in the score (it is always reported)
+    max_points: number; // Awarded to the most trusted agent; others scale linearly
+    damping: number; // Share of trust reset to verified agents each iteration (0-1)
+    iterations: number; // Upper bound on power iterations
+  };
+  reports: {
+    points_each: number; // Penalty per report that counts
+    max_points: number; // Largest total penalty
+    min_reporter_score: number; // Reporters need at least this stored trust score
+    min_reporters: number; // Reports only count once this many qualifying agents agree
+    disputed_weight: number; // What a disputed report counts as until resolved (0-1)
+  };
+  vouch_decay: {
+    enabled: boolean;
+    grace_days: number; // Vouches count in full for this long after they are given or renewed
+    half_life_days: number; // After the grace period, weight halves every half_life_days
+    min_weight: number; // Floor for old vouches (0-1)
+  };
+  tiers: {
+    established_min_score: number;
+    trusted_min_score: number;
+  };
+}
+
+// One scoring factor: its raw input and the points it earned under the policy
+export interface TrustFactor<TInput = number> {
+  input: TInput;
+  points: number;
+  max_points: number;
+  capped: boolean; // The cap reduced the points
+}
+
+export interface TrustExplanation {
   score: number;
+  tier: TrustTier; // The tier the score earns
+  policy_version: string;
+  uncapped_total: number; // Sum of factor points before max_score applies
+  max_score: number;
+  // Score per listed capability, counting only the vouches for that capability
+  capability_scores: Record<string, number>;
+  factors: {
+    moltbook_verified: TrustFactor<boolean>;
+    karma: TrustFactor; // Input: Moltbook karma
+    age: TrustFactor; // Input: days since registration
+    // Input: unexpired vouches from verified agents; those from risk-flagged agents are also in
+    // flagged_vouchers. weight is what they count for after flags and decay.
+    vouches: TrustFactor & { vouchers: string[]; flagged_vouchers: string[]; weight: number };
+    github?: TrustFactor<{ account_age_days: number; followers: number } | null>;
+    // Input: reports that count; points are a penalty (zero or negative), max_points the largest one.
+    // applied is false until enough qualifying reporters agree.
+    reports: TrustFactor & { reporters: string[]; applied: boolean };
+    // Input: graph trust relative to the most trusted agent (0-1), null before the first run
+    graph_trust: TrustFactor<number | null> & { counted: boolean; computed_at: string | null };
+  };
+}
+
+export interface TrustDetails {
+  score: number; // The stored score
+  computed_score: number; // What the scoring engine produces now
+  drifted: boolean; // Stored and computed scores disagree
+  tier: TrustTier; // The stored tier (explanation.tier is the computed one)
+  policy_version: string;
   factors: {
     moltbook_verified: number;
     karma: number;
     age: number;
     vouches: number;
+    reports: number; // Zero or negative
+    github?: number; // Only present when the GitHub factor is enabled
+    graph_trust: number; // Counted in the score only when the policy enables it
   };
+  explanation: TrustExplanation;
   moltbook_verified: boolean;
   moltbook_karma: number | null;
   vouch_count: number;
   age_days: number;
 }
 
+// What caused a trust score change
+export type ScoreTrigger =
+  | 'verify'
+  | 'vouch'
+  | 'vouch_renewed'
+  | 'vouch_revoked'
+  | 'report'
+  | 'dispute'
+  | 'report_resolved'
+  | 'risk_flag'
+  | 'cron';
+
+export interface TrustSnapshot {
+  id: string;
+  agent_id: string;
+  score: number;
+  factors: Record<string, number>; // Points per factor, as in TrustDetails.factors
+  policy_version: string;
+  trigger: ScoreTrigger;
+  created_at: string;
+}
+
+// Score changes grouped by hour, day or week
+export interface TrustHistoryBucket {
+  bucket_start: string;
+  score: number; // Score at the end of the bucket
+  min_score: number;
+  max_score: number;
+  changes: number;
+}
+
+export interface TrustDrift {
+  agent_id: string;
+  stored_score: number;
+  computed_score: number;
+}
+
+// Risk types
+export type RiskKind = 'vouch_ring' | 'registration_burst' | 'shared_key';
+
+export interface RiskFlag {
+  id: string;
+  agent_id: string;
+  kind: RiskKind;
+  details: Record<string, unknown>; // Evidence, e.g. the other members of a ring
+  status: 'open' | 'dismissed' | 'resolved'; // Only open flags discount vouches
+  run_id: string; // The analysis run that last detected it
+  created_at: string;
+  updated_at: string;
+}
+
+// Report types
+export type ReportCategory = 'scam' | 'impersonation' | 'spam' | 'malicious' | 'other';
+export type ReporterType = 'agent' | 'platform';
+
+export interface Report {
+  id: string;
+  agent_id: string; // The reported agent
+  reporter_id: string; // An agent ID, or an OAuth client ID for platforms
+  reporter_type: ReporterType;
+  category: ReportCategory;
+  description: string | null;
+  evidence: string[]; // URLs
+  status: 'open' | 'disputed' | 'upheld' | 'dismissed'; // Dismissed reports don't count
+  dispute_statement: string | null; // The reported agent's side
+  disputed_at: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 // Vouch types
 export interface Vouch {
   id: string;
   from_agent_id: string;
   to_agent_id: string;
   created_at: string;
+  expires_at: string | null; // Expired vouches no longer count
+  renewed_at: string | null;
+  capability: string | null; // One of the target's capabilities; null for a general vouch
+  statement: string | null;
+}
+
+// A vouch as listed under /vouches/received or /vouches/given
+export interface VouchListing extends Vouch {
+  agent: AgentPublic; // The other party: the voucher for received, the vouched-for agent for given
+  counts: boolean; // Counts toward the score now (voucher verified, not expired)
+}
+
+export interface VouchPage {
+  vouches: VouchListing[];
+  next_cursor: string | null;
+}
+
+// A withdrawn vouch, kept so consumers can see it happened
+export interface VouchRevocation {
+  id: string;
+  vouch_id: string;
+  from_agent_id: string;
+  to_agent_id: string;
+  reason: string | null;
+  vouched_at: string;
+  revoked_at: string;
+}
+
+// Auth types
+export interface AuthVariables {
+  // The agent whose key signed the request (null only for keyless passthrough)
+  signer: Agent | null;
 }
 
 // API response types
@@ -72,4 +337,21 @@ export interface ApiResponse<T> {
 export interface Env {
   DB: D1Database;
   ENVIRONMENT: string;
+  ISSUER_URL?: string; // Public base URL of this instance (defaults to https://api.moltid.dev)
+  DID_DOMAIN?: string; // Host for did:web identifiers (defaults to moltid.dev)
+  SITE_URL?: string; // Public site origin for profile pages (defaults to https://moltid.dev)
+  ATTESTATION_SIGNING_KEY?: string; // Secret: private JWK used to sign attestations
+  ATTESTATION_PREVIOUS_KEYS?: string; // JSON array of retired public JWKs still published
+  MOLTBOOK_BASE_URL?: string; // Moltbook origin (defaults to https://www.moltbook.com)
+  MOLTBOOK_TIMEOUT_MS?: string; // Per-request timeout (default 5000)
+  MOLTBOOK_RETRIES?: string; // Extra attempts on network errors, 429s and 5xxs (default 1)
+  MOLTBOOK_USER_AGENT?: string; // Defaults to MoltID/1.0
+  REFRESH_BATCH_SIZE?: string; // Agents per scheduled refresh invocation (default 50)
+  GRAPH_TRUST_CRON?: string; // Cron expression that runs the graph trust job (default "0 3 * * *")
+  DOH_RESOLVER_URL?: string; // DNS-over-HTTPS JSON endpoint for domain verification
+  GITHUB_API_URL?: string; // GitHub REST API base URL (defaults to https://api.github.com)
+  GITHUB_TOKEN?: string; // Secret: optional GitHub token for higher rate limits
+  TRUST_GITHUB_FACTOR?: string; // "true" to count linked GitHub accounts in trust scores
+  TRUST_POLICY?: string; // JSON trust policy overrides (see src/services/policy.ts)
+  ADMIN_TOKEN?: string; // Secret: bearer token for /v1/admin (admin API is disabled without it)
 }
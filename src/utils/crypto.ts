@@ -0,0 +1,175 @@
+/**
+ * Crypto helpers - Key parsing and signature verification on top of WebCrypto
+ *
+ * Agents register a public key as base64 (raw or SPKI DER) or as a PEM block.
+ * Supported algorithms:
+ * - Ed25519: raw 32-byte key or SPKI; 64-byte signatures
+ * - ECDSA P-256: raw 65-byte uncompressed point or SPKI; 64-byte r||s signatures
+ */
+
+export type KeyAlgorithm = 'Ed25519' | 'ES256';
+
+// DER lengths of SubjectPublicKeyInfo structures for each supported key type
+const ED25519_RAW_LENGTH = 32;
+const ED25519_SPKI_LENGTH = 44;
+const P256_RAW_LENGTH = 65;
+const P256_SPKI_LENGTH = 91;
+
+/**
+ * Decode a base64 or base64url string into bytes.
+ * @throws If the input is not valid base64
+ */
+export function decodeBase64(input: string): Uint8Array {
+  const normalized = input.trim().replace(/-/g, '+').replace(/_/g, '/');
+  const padded = normalized + '='.repeat((4 - (normalized.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Encode bytes as standard base64.
+ */
+export function encodeBase64(bytes: Uint8Array | ArrayBuffer): string {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  for (const byte of view) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Encode bytes as unpadded base64url.
+ */
+export function encodeBase64Url(bytes: Uint8Array | ArrayBuffer): string {
+  return encodeBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * SHA-256 digest of a string or byte array.
+ */
+export async function sha256(data: string | Uint8Array): Promise<Uint8Array> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+}
+
+/**
+ * SHA-256 digest of a string or byte array, as lowercase hex.
+ */
+export async function sha256Hex(data: string | Uint8Array): Promise<string> {
+  return Array.from(await sha256(data))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Parse a stored public key into a WebCrypto verification key.
+ * The algorithm is inferred from the decoded key length.
+ * @param publicKey - Base64 (raw or SPKI) or PEM-encoded public key
+ * @returns The imported key and its algorithm, or null if unsupported
+ */
+export async function importPublicKey(
+  publicKey: string,
+  extractable: boolean = false
+): Promise<{ key: CryptoKey; algorithm: KeyAlgorithm } | null> {
+  let bytes: Uint8Array;
+  try {
+    const body = publicKey
+      .replace(/-----(BEGIN|END) PUBLIC KEY-----/g, '')
+      .replace(/\s+/g, '');
+    bytes = decodeBase64(body);
+  } catch {
+    return null;
+  }
+
+  try {
+    switch (bytes.length) {
+      case ED25519_RAW_LENGTH:
+      case ED25519_SPKI_LENGTH:
+        return {
+          key: await crypto.subtle.importKey(
+            bytes.length === ED25519_RAW_LENGTH ? 'raw' : 'spki',
+            bytes,
+            { name: 'Ed25519' },
+            extractable,
+            ['verify']
+          ),
+          algorithm: 'Ed25519',
+        };
+      case P256_RAW_LENGTH:
+      case P256_SPKI_LENGTH:
+        return {
+          key: await crypto.subtle.importKey(
+            bytes.length === P256_RAW_LENGTH ? 'raw' : 'spki',
+            bytes,
+            { name: 'ECDSA', namedCurve: 'P-256' },
+            extractable,
+            ['verify']
+          ),
+          algorithm: 'ES256',
+        };
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Convert a stored public key to a public JWK (for DID documents).
+ * @returns The JWK, or null if the key is unsupported
+ */
+export async function publicKeyToJwk(publicKey: string): Promise<JsonWebKey | null> {
+  const imported = await importPublicKey(publicKey, true);
+  if (!imported) return null;
+
+  const { kty, crv, x, y } = (await crypto.subtle.exportKey('jwk', imported.key)) as JsonWebKey;
+  return y ? { kty, crv, x, y } : { kty, crv, x };
+}
+
+/**
+ * Check whether a public key string is one we can verify signatures with.
+ */
+export async function isSupportedPublicKey(publicKey: string): Promise<boolean> {
+  return (await importPublicKey(publicKey)) !== null;
+}
+
+/**
+ * Verify a base64 signature over a message with an agent's public key.
+ * @param publicKey - The agent's registered public key
+ * @param signature - Base64 or base64url signature
+ * @param message - The signed message
+ * @returns true if the signature is valid
+ */
+export async function verifySignature(
+  publicKey: string,
+  signature: string,
+  message: string | Uint8Array
+): Promise<boolean> {
+  const imported = await importPublicKey(publicKey);
+  if (!imported) return false;
+
+  let signatureBytes: Uint8Array;
+  try {
+    signatureBytes = decodeBase64(signature);
+  } catch {
+    return false;
+  }
+
+  const data = typeof message === 'string' ? new TextEncoder().encode(message) : message;
+  const params =
+    imported.algorithm === 'Ed25519'
+      ? { name: 'Ed25519' }
+      : { name: 'ECDSA', hash: 'SHA-256' };
+
+  try {
+    return await crypto.subtle.verify(params, imported.key, signatureBytes, data);
+  } catch {
+    return false;
+  }
+}
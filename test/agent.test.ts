@@ -495,7 +495,7 @@ describe('AgentService', () => {
   });
 
   // ============================================================
-  // Vouch tests: addVouch() and getVouches()
+  // Vouch tests: addVouch(), getVouches() and revokeVouch()
   // ============================================================
   describe('vouch operations', () => {
     let agentA: string;
@@ -592,6 +592,33 @@ describe('AgentService', () => {
         expect(vouches).toEqual([]);
       });
     });
+
+    describe('renewVouch', () => {
+      it('counts an expired vouch again once renewed', async () => {
+        await agentService.addVouch(agentA, agentB, { expires_at: new Date(Date.now() - 1000).toISOString() });
+        expect((await agentService.getById(agentB))!.vouch_count).toBe(0);
+
+        await agentService.renewVouch(agentA, agentB, new Date(Date.now() + 60_000).toISOString());
+
+        expect((await agentService.getById(agentB))!.vouch_count).toBe(1);
+      });
+    });
+
+    describe('revokeVouch', () => {
+      it('revokes a vouch only once under concurrent requests', async () => {
+        await agentService.addVouch(agentA, agentB);
+        await agentService.addVouch(agentC, agentB);
+
+        const results = await Promise.all([
+          agentService.revokeVouch(agentA, agentB),
+          agentService.revokeVouch(agentA, agentB),
+        ]);
+
+        expect(results.filter(Boolean)).toHaveLength(1);
+        expect((await agentService.getById(agentB))!.vouch_count).toBe(1);
+        expect(await agentService.getVouchRevocations(agentB)).toHaveLength(1);
+      });
+    });
   });
 
   // ============================================================
@@ -730,9 +757,11 @@ describe('AgentService', () => {
         public_key: 'pk_sensitive_key', // Sensitive - should be hidden
         capabilities: ['testing'],
         trust_score: 50,
+        tier: 'established' as const,
         vouch_count: 5,
         status: 'active' as const,
         verification_code: 'moltid-verify:mlt_public_test', // Sensitive
+        domains: [],
         created_at: '2025-01-01T00:00:00Z',
         updated_at: '2025-01-15T00:00:00Z', // Sensitive
       };
@@ -743,6 +772,7 @@ describe('AgentService', () => {
       expect(publicAgent.id).toBe('mlt_public_test');
       expect(publicAgent.moltbook_username).toBe('public_user');
       expect(publicAgent.moltbook_verified).toBe(true);
+      expect(publicAgent.domains).toEqual([]);
       expect(publicAgent.capabilities).toEqual(['testing']);
       expect(publicAgent.trust_score).toBe(50);
       expect(publicAgent.vouch_count).toBe(5);
@@ -765,9 +795,11 @@ describe('AgentService', () => {
         public_key: null,
         capabilities: [],
         trust_score: 0,
+        tier: 'unverified' as const,
         vouch_count: 0,
         status: 'pending' as const,
         verification_code: 'moltid-verify:mlt_preserve_test',
+        domains: [],
         created_at: '2025-01-01T00:00:00Z',
         updated_at: '2025-01-01T00:00:00Z',
       };
@@ -13,12 +13,17 @@ import {
   seedTestData,
   createTestAgent,
   createTestVouch,
+  countTestAgents,
+  createTestKeyPair,
+  signTestRequest,
+  signedAppRequest,
+  type TestKeyPair,
 } from './setup';
 import {
   SAMPLE_AGENTS,
   VALID_AGENT_INPUTS,
 } from './fixtures';
-import type { ApiResponse, AgentPublic, TrustDetails } from '../src/types';
+import type { ApiResponse, AgentPublic, TrustDetails, Vouch, VouchPage, VouchRevocation } from '../src/types';
 
 // Response types for API calls
 interface ErrorResponse {
@@ -31,6 +36,18 @@ interface VouchResponse {
   new_trust_score: number;
 }
 
+interface RenewVouchResponse {
+  vouch_renewed: boolean;
+  vouch: Vouch;
+  new_trust_score: number;
+}
+
+interface RevokeVouchResponse {
+  vouch_revoked: boolean;
+  revocation: VouchRevocation;
+  new_trust_score: number;
+}
+
 interface HealthResponse {
   status: string;
   timestamp: string;
@@ -103,7 +120,8 @@ describe('API Integration Tests', () => {
     });
 
     it('creates agent with public key (201)', async () => {
-      const res = await request('POST', '/v1/agents', VALID_AGENT_INPUTS.withPublicKey);
+      const { publicKey } = await createTestKeyPair();
+      const res = await request('POST', '/v1/agents', { ...VALID_AGENT_INPUTS.withPublicKey, public_key: publicKey });
 
       expect(res.status).toBe(201);
       const json = await res.json() as ApiResponse<AgentPublic>;
@@ -112,6 +130,16 @@ describe('API Integration Tests', () => {
       expect(json.data!.id).toBeDefined();
     });
 
+    it('rejects unsupported public keys (400)', async () => {
+      const res = await request('POST', '/v1/agents', VALID_AGENT_INPUTS.withPublicKey);
+
+      expect(res.status).toBe(400);
+      const json = await res.json() as ApiResponse<AgentPublic>;
+      expect(json.success).toBe(false);
+      expect(json.error!.code).toBe('invalid_public_key');
+      expect(await countTestAgents(env.DB)).toBe(0);
+    });
+
     it('creates agent with capabilities (201)', async () => {
       const res = await request('POST', '/v1/agents', VALID_AGENT_INPUTS.withCapabilities);
 
@@ -122,7 +150,8 @@ describe('API Integration Tests', () => {
     });
 
     it('creates agent with complete data (201)', async () => {
-      const res = await request('POST', '/v1/agents', VALID_AGENT_INPUTS.complete);
+      const { publicKey } = await createTestKeyPair();
+      const res = await request('POST', '/v1/agents', { ...VALID_AGENT_INPUTS.complete, public_key: publicKey });
 
       expect(res.status).toBe(201);
       const json = await res.json() as ApiResponse<AgentPublic>;
@@ -493,10 +522,17 @@ describe('API Integration Tests', () => {
   // POST /v1/agents/:id/vouch - Vouch for an agent
   // ============================================================
   describe('POST /v1/agents/:id/vouch', () => {
+    let voucherKeys: TestKeyPair;
+
+    beforeEach(async () => {
+      voucherKeys = await createTestKeyPair();
+    });
+
     it('vouch succeeds (200)', async () => {
       // Create verified voucher
       const voucherId = await createTestAgent(env.DB, {
         id: 'mlt_voucher_test',
+        public_key: voucherKeys.publicKey,
         moltbook_username: 'voucher_user',
         moltbook_verified: true,
         status: 'active',
@@ -510,7 +546,7 @@ describe('API Integration Tests', () => {
         status: 'active',
       });
 
-      const res = await request('POST', `/v1/agents/${targetId}/vouch`, {
+      const res = await signedAppRequest('POST', `/v1/agents/${targetId}/vouch`, voucherId, voucherKeys, {
         from_agent_id: voucherId,
       });
 
@@ -525,6 +561,7 @@ describe('API Integration Tests', () => {
       // Create unverified voucher
       const unverifiedId = await createTestAgent(env.DB, {
         id: 'mlt_unverified_voucher',
+        public_key: voucherKeys.publicKey,
         moltbook_verified: false,
         status: 'active',
       });
@@ -535,7 +572,7 @@ describe('API Integration Tests', () => {
         status: 'active',
       });
 
-      const res = await request('POST', `/v1/agents/${targetId}/vouch`, {
+      const res = await signedAppRequest('POST', `/v1/agents/${targetId}/vouch`, unverifiedId, voucherKeys, {
         from_agent_id: unverifiedId,
       });
 
@@ -550,11 +587,12 @@ describe('API Integration Tests', () => {
       // Create verified agent
       const agentId = await createTestAgent(env.DB, {
         id: 'mlt_self_voucher',
+        public_key: voucherKeys.publicKey,
         moltbook_verified: true,
         status: 'active',
       });
 
-      const res = await request('POST', `/v1/agents/${agentId}/vouch`, {
+      const res = await signedAppRequest('POST', `/v1/agents/${agentId}/vouch`, agentId, voucherKeys, {
         from_agent_id: agentId,
       });
 
@@ -569,6 +607,7 @@ describe('API Integration Tests', () => {
       // Create verified voucher
       const voucherId = await createTestAgent(env.DB, {
         id: 'mlt_dup_voucher',
+        public_key: voucherKeys.publicKey,
         moltbook_verified: true,
         status: 'active',
       });
@@ -580,12 +619,12 @@ describe('API Integration Tests', () => {
       });
 
       // First vouch
-      await request('POST', `/v1/agents/${targetId}/vouch`, {
+      await signedAppRequest('POST', `/v1/agents/${targetId}/vouch`, voucherId, voucherKeys, {
         from_agent_id: voucherId,
       });
 
       // Second vouch (duplicate)
-      const res = await request('POST', `/v1/agents/${targetId}/vouch`, {
+      const res = await signedAppRequest('POST', `/v1/agents/${targetId}/vouch`, voucherId, voucherKeys, {
         from_agent_id: voucherId,
       });
 
@@ -599,11 +638,12 @@ describe('API Integration Tests', () => {
       // Create verified voucher
       const voucherId = await createTestAgent(env.DB, {
         id: 'mlt_voucher_404',
+        public_key: voucherKeys.publicKey,
         moltbook_verified: true,
         status: 'active',
       });
 
-      const res = await request('POST', '/v1/agents/mlt_nonexistent_999/vouch', {
+      const res = await signedAppRequest('POST', '/v1/agents/mlt_nonexistent_999/vouch', voucherId, voucherKeys, {
         from_agent_id: voucherId,
       });
 
@@ -620,7 +660,7 @@ describe('API Integration Tests', () => {
         status: 'active',
       });
 
-      const res = await request('POST', `/v1/agents/${targetId}/vouch`, {
+      const res = await signedAppRequest('POST', `/v1/agents/${targetId}/vouch`, 'mlt_nonexistent_voucher', voucherKeys, {
         from_agent_id: 'mlt_nonexistent_voucher',
       });
 
@@ -634,6 +674,7 @@ describe('API Integration Tests', () => {
       // Create verified voucher
       const voucherId = await createTestAgent(env.DB, {
         id: 'mlt_score_voucher',
+        public_key: voucherKeys.publicKey,
         moltbook_verified: true,
         status: 'active',
       });
@@ -653,7 +694,7 @@ describe('API Integration Tests', () => {
       const beforeScore = beforeJson.data!.score;
 
       // Add vouch
-      const vouchRes = await request('POST', `/v1/agents/${targetId}/vouch`, {
+      const vouchRes = await signedAppRequest('POST', `/v1/agents/${targetId}/vouch`, voucherId, voucherKeys, {
         from_agent_id: voucherId,
       });
       const vouchJson = await vouchRes.json() as ApiResponse<VouchResponse>;
@@ -663,6 +704,549 @@ describe('API Integration Tests', () => {
     });
   });
 
+  // ============================================================
+  // Vouch expiry - POST /v1/agents/:id/vouch/renew
+  // ============================================================
+  describe('Vouch expiry and renewal', () => {
+    let voucherKeys: TestKeyPair;
+    let voucherId: string;
+    let targetId: string;
+    const inDays = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+
+    beforeEach(async () => {
+      voucherKeys = await createTestKeyPair();
+      voucherId = await createTestAgent(env.DB, {
+        id: 'mlt_renew_voucher',
+        public_key: voucherKeys.publicKey,
+        moltbook_verified: true,
+        status: 'active',
+      });
+      targetId = await createTestAgent(env.DB, {
+        id: 'mlt_renew_target',
+        status: 'active',
+      });
+    });
+
+    it('stores expires_at on a new vouch', async () => {
+      const expiresAt = inDays(30);
+
+      const res = await signedAppRequest('POST', `/v1/agents/${targetId}/vouch`, voucherId, voucherKeys, {
+        from_agent_id: voucherId,
+        expires_at: expiresAt,
+      });
+
+      expect(res.status).toBe(200);
+      const vouch = await env.DB.prepare('SELECT expires_at FROM vouches WHERE to_agent_id = ?')
+        .bind(targetId).first<{ expires_at: string }>();
+      expect(vouch!.expires_at).toBe(expiresAt);
+    });
+
+    it('rejects an expires_at in the past (400)', async () => {
+      const res = await signedAppRequest('POST', `/v1/agents/${targetId}/vouch`, voucherId, voucherKeys, {
+        from_agent_id: voucherId,
+        expires_at: inDays(-1),
+      });
+
+      expect(res.status).toBe(400);
+      const json = await res.json() as ErrorResponse;
+      expect(json.error.code).toBe('invalid_vouch');
+    });
+
+    it('renews an expired vouch for the same term', async () => {
+      await env.DB.prepare(
+        `INSERT INTO vouches (id, from_agent_id, to_agent_id, created_at, expires_at)
+         VALUES ('vch_renew_test', ?, ?, ?, ?)`
+      ).bind(voucherId, targetId, inDays(-40), inDays(-10)).run();
+
+      const res = await signedAppRequest('POST', `/v1/agents/${targetId}/vouch/renew`, voucherId, voucherKeys, {
+        from_agent_id: voucherId,
+      });
+
+      expect(res.status).toBe(200);
+      const json = await res.json() as ApiResponse<RenewVouchResponse>;
+      expect(json.data!.vouch_renewed).toBe(true);
+      expect(json.data!.new_trust_score).toBe(5);
+      const term = new Date(json.data!.vouch.expires_at!).getTime() - new Date(json.data!.vouch.renewed_at!).getTime();
+      expect(term).toBe(30 * 24 * 60 * 60 * 1000);
+    });
+
+    it('renews with a new expires_at', async () => {
+      await signedAppRequest('POST', `/v1/agents/${targetId}/vouch`, voucherId, voucherKeys, {
+        from_agent_id: voucherId,
+      });
+      const expiresAt = inDays(90);
+
+      const res = await signedAppRequest('POST', `/v1/agents/${targetId}/vouch/renew`, voucherId, voucherKeys, {
+        from_agent_id: voucherId,
+        expires_at: expiresAt,
+      });
+
+      const json = await res.json() as ApiResponse<RenewVouchResponse>;
+      expect(json.data!.vouch.expires_at).toBe(expiresAt);
+    });
+
+    it('returns 404 when there is no vouch to renew', async () => {
+      const res = await signedAppRequest('POST', `/v1/agents/${targetId}/vouch/renew`, voucherId, voucherKeys, {
+        from_agent_id: voucherId,
+      });
+
+      expect(res.status).toBe(404);
+      const json = await res.json() as ErrorResponse;
+      expect(json.error.code).toBe('not_found');
+    });
+  });
+
+  // ============================================================
+  // Capability vouches - ranking with GET /v1/agents?capability=
+  // ============================================================
+  describe('Capability vouches', () => {
+    let voucherKeys: TestKeyPair;
+    let voucherId: string;
+
+    beforeEach(async () => {
+      voucherKeys = await createTestKeyPair();
+      voucherId = await createTestAgent(env.DB, {
+        id: 'mlt_capability_voucher',
+        public_key: voucherKeys.publicKey,
+        moltbook_verified: true,
+        status: 'active',
+      });
+    });
+
+    it('ranks agents by trust in the capability', async () => {
+      // Higher general score, but no code-review vouch
+      const generalistId = await createTestAgent(env.DB, {
+        id: 'mlt_capability_generalist',
+        capabilities: ['code-review'],
+        trust_score: 40,
+        status: 'active',
+      });
+      const reviewerId = await createTestAgent(env.DB, {
+        id: 'mlt_capability_reviewer',
+        capabilities: ['code-review'],
+        trust_score: 0,
+        status: 'active',
+      });
+
+      const vouchRes = await signedAppRequest('POST', `/v1/agents/${reviewerId}/vouch`, voucherId, voucherKeys, {
+        from_agent_id: voucherId,
+        capability: 'code-review',
+        statement: 'Caught a race condition in my deploy script',
+      });
+      expect(vouchRes.status).toBe(200);
+
+      const res = await request('GET', '/v1/agents?capability=code-review');
+      const json = await res.json() as ApiResponse<AgentPublic[]>;
+      expect(json.data!.map((a) => a.id)).toEqual([reviewerId, generalistId]);
+      expect(json.data![0].capability_score).toBe(5);
+      expect(json.data![1].capability_score).toBe(0);
+
+      const vouch = await env.DB.prepare('SELECT capability, statement FROM vouches WHERE to_agent_id = ?')
+        .bind(reviewerId).first();
+      expect(vouch).toEqual({ capability: 'code-review', statement: 'Caught a race condition in my deploy script' });
+    });
+
+    it('rejects a capability the target does not list (400)', async () => {
+      const targetId = await createTestAgent(env.DB, {
+        id: 'mlt_capability_target',
+        capabilities: ['translation'],
+        status: 'active',
+      });
+
+      const res = await signedAppRequest('POST', `/v1/agents/${targetId}/vouch`, voucherId, voucherKeys, {
+        from_agent_id: voucherId,
+        capability: 'code-review',
+      });
+
+      expect(res.status).toBe(400);
+      const json = await res.json() as ErrorResponse;
+      expect(json.error.code).toBe('invalid_vouch');
+      expect(json.error.message).toContain('code-review');
+    });
+
+    it('allows one vouch per agent and explains the conflict (409)', async () => {
+      const targetId = await createTestAgent(env.DB, {
+        id: 'mlt_capability_multi',
+        capabilities: ['code-review', 'translation'],
+        status: 'active',
+      });
+      await signedAppRequest('POST', `/v1/agents/${targetId}/vouch`, voucherId, voucherKeys, {
+        from_agent_id: voucherId,
+        capability: 'code-review',
+      });
+
+      const res = await signedAppRequest('POST', `/v1/agents/${targetId}/vouch`, voucherId, voucherKeys, {
+        from_agent_id: voucherId,
+        capability: 'translation',
+      });
+
+      expect(res.status).toBe(409);
+      const json = await res.json() as ErrorResponse;
+      expect(json.error.code).toBe('already_vouched');
+      expect(json.error.message).toContain('for "code-review"');
+      expect(json.error.message).toContain('revoke it first');
+    });
+  });
+
+  // ============================================================
+  // GET /v1/agents/:id/vouches/received and /given
+  // ============================================================
+  describe('Vouch listings', () => {
+    let targetId: string;
+
+    // Stores a vouch created `minutesAgo` minutes ago
+    async function insertVouch(fromId: string, toId: string, minutesAgo: number, expiresAt: string | null = null) {
+      await env.DB.prepare(
+        `INSERT INTO vouches (id, from_agent_id, to_agent_id, created_at, expires_at)
+         VALUES (?, ?, ?, ?, ?)`
+      ).bind(`vch_${fromId}_${toId}`, fromId, toId, new Date(Date.now() - minutesAgo * 60_000).toISOString(), expiresAt).run();
+    }
+
+    beforeEach(async () => {
+      targetId = await createTestAgent(env.DB, { id: 'mlt_listing_target', moltbook_verified: true, status: 'active' });
+      await createTestAgent(env.DB, { id: 'mlt_listing_verified', moltbook_verified: true, status: 'active' });
+      await createTestAgent(env.DB, { id: 'mlt_listing_unverified', status: 'active' });
+      await createTestAgent(env.DB, { id: 'mlt_listing_expired', moltbook_verified: true, status: 'active' });
+      await insertVouch('mlt_listing_verified', targetId, 3);
+      await insertVouch('mlt_listing_unverified', targetId, 2);
+      await insertVouch('mlt_listing_expired', targetId, 1, new Date(Date.now() - 1000).toISOString());
+    });
+
+    it('lists received vouches with voucher summaries, newest first', async () => {
+      const res = await request('GET', `/v1/agents/${targetId}/vouches/received`);
+
+      expect(res.status).toBe(200);
+      const json = await res.json() as ApiResponse<VouchPage>;
+      expect(json.data!.vouches.map((v) => [v.agent.id, v.counts])).toEqual([
+        ['mlt_listing_expired', false],
+        ['mlt_listing_unverified', false],
+        ['mlt_listing_verified', true],
+      ]);
+      expect(json.data!.vouches[0].agent).not.toHaveProperty('verification_code');
+      expect(json.data!.next_cursor).toBeNull();
+    });
+
+    it('lists given vouches', async () => {
+      await insertVouch(targetId, 'mlt_listing_verified', 0);
+
+      const res = await request('GET', `/v1/agents/${targetId}/vouches/given`);
+
+      const json = await res.json() as ApiResponse<VouchPage>;
+      expect(json.data!.vouches).toHaveLength(1);
+      expect(json.data!.vouches[0]).toMatchObject({
+        from_agent_id: targetId,
+        to_agent_id: 'mlt_listing_verified',
+        counts: true,
+      });
+      expect(json.data!.vouches[0].agent.id).toBe('mlt_listing_verified');
+    });
+
+    it('paginates with a cursor', async () => {
+      const first = await request('GET', `/v1/agents/${targetId}/vouches/received?limit=2`);
+      const firstPage = (await first.json() as ApiResponse<VouchPage>).data!;
+      const second = await request(
+        'GET',
+        `/v1/agents/${targetId}/vouches/received?limit=2&cursor=${encodeURIComponent(firstPage.next_cursor!)}`
+      );
+      const secondPage = (await second.json() as ApiResponse<VouchPage>).data!;
+
+      expect(firstPage.vouches.map((v) => v.from_agent_id)).toEqual(['mlt_listing_expired', 'mlt_listing_unverified']);
+      expect(secondPage.vouches.map((v) => v.from_agent_id)).toEqual(['mlt_listing_verified']);
+      expect(secondPage.next_cursor).toBeNull();
+    });
+
+    it('rejects a malformed cursor (400)', async () => {
+      const res = await request('GET', `/v1/agents/${targetId}/vouches/received?cursor=not-a-cursor`);
+
+      expect(res.status).toBe(400);
+      const json = await res.json() as ErrorResponse;
+      expect(json.error.code).toBe('invalid_request');
+    });
+
+    it('returns 404 for unknown agents', async () => {
+      const res = await request('GET', '/v1/agents/mlt_nonexistent/vouches/given');
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  // ============================================================
+  // DELETE /v1/agents/:id/vouch - Withdraw a vouch
+  // ============================================================
+  describe('DELETE /v1/agents/:id/vouch', () => {
+    let voucherKeys: TestKeyPair;
+    let voucherId: string;
+    let targetId: string;
+
+    beforeEach(async () => {
+      voucherKeys = await createTestKeyPair();
+      voucherId = await createTestAgent(env.DB, {
+        id: 'mlt_revoke_voucher',
+        public_key: voucherKeys.publicKey,
+        moltbook_verified: true,
+        status: 'active',
+      });
+      targetId = await createTestAgent(env.DB, {
+        id: 'mlt_revoke_target',
+        status: 'active',
+      });
+    });
+
+    it('revokes the vouch and recomputes the score', async () => {
+      const vouchRes = await signedAppRequest('POST', `/v1/agents/${targetId}/vouch`, voucherId, voucherKeys, {
+        from_agent_id: voucherId,
+      });
+      const vouched = (await vouchRes.json() as ApiResponse<VouchResponse>).data!.new_trust_score;
+
+      const res = await signedAppRequest('DELETE', `/v1/agents/${targetId}/vouch`, voucherId, voucherKeys, {
+        from_agent_id: voucherId,
+        reason: 'No longer working together',
+      });
+
+      expect(res.status).toBe(200);
+      const json = await res.json() as ApiResponse<RevokeVouchResponse>;
+      expect(json.data!.vouch_revoked).toBe(true);
+      expect(json.data!.new_trust_score).toBe(vouched - 5);
+      expect(json.data!.revocation).toMatchObject({
+        from_agent_id: voucherId,
+        to_agent_id: targetId,
+        reason: 'No longer working together',
+      });
+
+      const agentRes = await request('GET', `/v1/agents/${targetId}`);
+      const agent = (await agentRes.json() as ApiResponse<AgentPublic>).data!;
+      expect(agent.vouch_count).toBe(0);
+      expect(agent.trust_score).toBe(vouched - 5);
+    });
+
+    it('keeps the revocation in history', async () => {
+      await signedAppRequest('POST', `/v1/agents/${targetId}/vouch`, voucherId, voucherKeys, {
+        from_agent_id: voucherId,
+      });
+      await signedAppRequest('DELETE', `/v1/agents/${targetId}/vouch`, voucherId, voucherKeys, {
+        from_agent_id: voucherId,
+      });
+
+      const res = await request('GET', `/v1/agents/${targetId}/vouches/revoked`);
+
+      expect(res.status).toBe(200);
+      const json = await res.json() as ApiResponse<VouchRevocation[]>;
+      expect(json.data).toHaveLength(1);
+      expect(json.data![0].from_agent_id).toBe(voucherId);
+      expect(json.data![0].reason).toBeNull();
+    });
+
+    it('allows vouching again after a revocation', async () => {
+      await signedAppRequest('POST', `/v1/agents/${targetId}/vouch`, voucherId, voucherKeys, {
+        from_agent_id: voucherId,
+      });
+      await signedAppRequest('DELETE', `/v1/agents/${targetId}/vouch`, voucherId, voucherKeys, {
+        from_agent_id: voucherId,
+      });
+
+      const res = await signedAppRequest('POST', `/v1/agents/${targetId}/vouch`, voucherId, voucherKeys, {
+        from_agent_id: voucherId,
+      });
+
+      expect(res.status).toBe(200);
+    });
+
+    it('returns 404 when there is no vouch', async () => {
+      const res = await signedAppRequest('DELETE', `/v1/agents/${targetId}/vouch`, voucherId, voucherKeys, {
+        from_agent_id: voucherId,
+      });
+
+      expect(res.status).toBe(404);
+      const json = await res.json() as ErrorResponse;
+      expect(json.error.code).toBe('not_found');
+    });
+
+    it('only the voucher can revoke (403)', async () => {
+      await signedAppRequest('POST', `/v1/agents/${targetId}/vouch`, voucherId, voucherKeys, {
+        from_agent_id: voucherId,
+      });
+      const otherKeys = await createTestKeyPair();
+      const otherId = await createTestAgent(env.DB, {
+        id: 'mlt_revoke_other',
+        public_key: otherKeys.publicKey,
+        status: 'active',
+      });
+
+      const res = await signedAppRequest('DELETE', `/v1/agents/${targetId}/vouch`, otherId, otherKeys, {
+        from_agent_id: voucherId,
+      });
+
+      expect(res.status).toBe(403);
+      const json = await res.json() as ErrorResponse;
+      expect(json.error.code).toBe('unauthorized');
+    });
+  });
+
+  // ============================================================
+  // Signed requests - mutating routes require the agent's key
+  // ============================================================
+  describe('Signed requests', () => {
+    let voucherKeys: TestKeyPair;
+    let voucherId: string;
+    let targetId: string;
+
+    beforeEach(async () => {
+      voucherKeys = await createTestKeyPair();
+      voucherId = await createTestAgent(env.DB, {
+        id: 'mlt_signing_voucher',
+        public_key: voucherKeys.publicKey,
+        moltbook_verified: true,
+        status: 'active',
+      });
+      targetId = await createTestAgent(env.DB, {
+        id: 'mlt_signing_target',
+        status: 'active',
+      });
+    });
+
+    it('rejects unsigned vouch (401)', async () => {
+      const res = await request('POST', `/v1/agents/${targetId}/vouch`, {
+        from_agent_id: voucherId,
+      });
+
+      expect(res.status).toBe(401);
+      const json = await res.json() as ErrorResponse;
+      expect(json.error.code).toBe('signature_required');
+    });
+
+    it('accepts ECDSA P-256 signatures', async () => {
+      const ecKeys = await createTestKeyPair('ES256');
+      const ecVoucherId = await createTestAgent(env.DB, {
+        id: 'mlt_signing_ec',
+        public_key: ecKeys.publicKey,
+        moltbook_verified: true,
+        status: 'active',
+      });
+
+      const res = await signedAppRequest('POST', `/v1/agents/${targetId}/vouch`, ecVoucherId, ecKeys, {
+        from_agent_id: ecVoucherId,
+      });
+
+      expect(res.status).toBe(200);
+    });
+
+    it('rejects signature from a different key (401)', async () => {
+      const otherKeys = await createTestKeyPair();
+
+      const res = await signedAppRequest('POST', `/v1/agents/${targetId}/vouch`, voucherId, otherKeys, {
+        from_agent_id: voucherId,
+      });
+
+      expect(res.status).toBe(401);
+      const json = await res.json() as ErrorResponse;
+      expect(json.error.code).toBe('invalid_signature');
+    });
+
+    it('rejects a tampered body (401)', async () => {
+      const path = `/v1/agents/${targetId}/vouch`;
+      const headers = await signTestRequest(
+        voucherKeys, voucherId, 'POST', path, JSON.stringify({ from_agent_id: voucherId })
+      );
+
+      const res = await app.fetch(
+        new Request(`http://localhost${path}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...headers },
+          body: JSON.stringify({ from_agent_id: voucherId, extra: true }),
+        }),
+        env
+      );
+
+      expect(res.status).toBe(401);
+      const json = await res.json() as ErrorResponse;
+      expect(json.error.code).toBe('invalid_signature');
+    });
+
+    it('rejects a replayed nonce (401)', async () => {
+      const path = `/v1/agents/${targetId}/vouch`;
+      await signedAppRequest('POST', path, voucherId, voucherKeys, { from_agent_id: voucherId }, { nonce: 'fixed-nonce' });
+
+      const res = await signedAppRequest('POST', path, voucherId, voucherKeys, { from_agent_id: voucherId }, { nonce: 'fixed-nonce' });
+
+      expect(res.status).toBe(401);
+      const json = await res.json() as ErrorResponse;
+      expect(json.error.code).toBe('replayed_nonce');
+    });
+
+    it('rejects a stale timestamp (401)', async () => {
+      const stale = String(Math.floor(Date.now() / 1000) - 3600);
+
+      const res = await signedAppRequest('POST', `/v1/agents/${targetId}/vouch`, voucherId, voucherKeys, {
+        from_agent_id: voucherId,
+      }, { timestamp: stale });
+
+      expect(res.status).toBe(401);
+      const json = await res.json() as ErrorResponse;
+      expect(json.error.code).toBe('stale_timestamp');
+    });
+
+    it('rejects from_agent_id that does not match the signer (403)', async () => {
+      const res = await signedAppRequest('POST', `/v1/agents/${targetId}/vouch`, voucherId, voucherKeys, {
+        from_agent_id: 'mlt_someone_else',
+      });
+
+      expect(res.status).toBe(403);
+      const json = await res.json() as ErrorResponse;
+      expect(json.error.code).toBe('unauthorized');
+    });
+
+    it('rejects signers without a registered key (403)', async () => {
+      const keylessId = await createTestAgent(env.DB, {
+        id: 'mlt_signing_keyless',
+        moltbook_verified: true,
+        status: 'active',
+      });
+
+      const res = await signedAppRequest('POST', `/v1/agents/${targetId}/vouch`, keylessId, voucherKeys, {
+        from_agent_id: keylessId,
+      });
+
+      expect(res.status).toBe(403);
+      const json = await res.json() as ErrorResponse;
+      expect(json.error.code).toBe('no_public_key');
+    });
+
+    it('PATCH /v1/agents/:id updates own capabilities', async () => {
+      const res = await signedAppRequest('PATCH', `/v1/agents/${voucherId}`, voucherId, voucherKeys, {
+        capabilities: ['research'],
+      });
+
+      expect(res.status).toBe(200);
+      const json = await res.json() as ApiResponse<AgentPublic>;
+      expect(json.data!.capabilities).toEqual(['research']);
+    });
+
+    it('PATCH /v1/agents/:id rejects updates to another agent (403)', async () => {
+      const res = await signedAppRequest('PATCH', `/v1/agents/${targetId}`, voucherId, voucherKeys, {
+        capabilities: ['research'],
+      });
+
+      expect(res.status).toBe(403);
+    });
+
+    it('verify requires a signature when the agent has a key (401)', async () => {
+      const res = await request('POST', `/v1/agents/${voucherId}/verify/moltbook`);
+
+      expect(res.status).toBe(401);
+      const json = await res.json() as ErrorResponse;
+      expect(json.error.code).toBe('signature_required');
+    });
+
+    it('verify allows unsigned calls for keyless agents', async () => {
+      // No moltbook username, so the route stops before contacting Moltbook
+      const res = await request('POST', `/v1/agents/${targetId}/verify/moltbook`);
+
+      expect(res.status).toBe(400);
+      const json = await res.json() as ErrorResponse;
+      expect(json.error.code).toBe('no_moltbook');
+    });
+  });
+
   // ============================================================
   // GET /v1/health - Health check
   // ============================================================
@@ -0,0 +1,182 @@
+/**
+ * Attestation tests
+ *
+ * Tests for AttestationService (JWS signing, JWKS) and the signed trust routes.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env } from 'cloudflare:test';
+import app from '../src/index';
+import {
+  AttestationService,
+  AttestationUnavailableError,
+  type TrustAttestationClaims,
+} from '../src/services/attestation';
+import { decodeBase64 } from '../src/utils/crypto';
+import {
+  setupTestDb,
+  cleanupTestDb,
+  seedTestData,
+  appRequest,
+} from './setup';
+import type { ApiResponse } from '../src/types';
+
+interface AttestationResponse {
+  token: string;
+  expires_at: string;
+}
+
+function decodePart<T>(part: string): T {
+  return JSON.parse(new TextDecoder().decode(decodeBase64(part))) as T;
+}
+
+describe('Attestations', () => {
+  let attestationService: AttestationService;
+
+  beforeEach(async () => {
+    await setupTestDb(env.DB);
+    await cleanupTestDb(env.DB);
+    attestationService = new AttestationService(env);
+  });
+
+  // ============================================================
+  // AttestationService tests
+  // ============================================================
+  describe('AttestationService', () => {
+    it('signs tokens that verify against the published keys', async () => {
+      const token = await attestationService.sign({ sub: 'mlt_x', exp: Math.floor(Date.now() / 1000) + 60 });
+
+      const claims = await attestationService.verify<{ sub: string; exp: number }>(token);
+
+      expect(claims?.sub).toBe('mlt_x');
+    });
+
+    it('uses an RFC 7638 thumbprint as kid', async () => {
+      const { keys } = await attestationService.getJwks();
+
+      expect(keys).toHaveLength(1);
+      expect(keys[0].alg).toBe('EdDSA');
+      expect(keys[0].kid).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(keys[0]).not.toHaveProperty('d');
+    });
+
+    it('rejects tampered and expired tokens', async () => {
+      const token = await attestationService.sign({ sub: 'mlt_x', exp: Math.floor(Date.now() / 1000) + 60 });
+      const [header, , signature] = token.split('.');
+      const forgedPayload = btoa(JSON.stringify({ sub: 'mlt_evil' })).replace(/=+$/, '');
+      const expired = await attestationService.sign({ sub: 'mlt_x', exp: 1 });
+
+      expect(await attestationService.verify(`${header}.${forgedPayload}.${signature}`)).toBeNull();
+      expect(await attestationService.verify(expired)).toBeNull();
+    });
+
+    it('signs with P-256 keys as ES256', async () => {
+      const pair = (await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, [
+        'sign',
+        'verify',
+      ])) as CryptoKeyPair;
+      const jwk = await crypto.subtle.exportKey('jwk', pair.privateKey);
+      const service = new AttestationService({ ...env, ATTESTATION_SIGNING_KEY: JSON.stringify(jwk) });
+
+      const token = await service.sign({ sub: 'mlt_x' });
+
+      expect(decodePart<{ alg: string }>(token.split('.')[0]).alg).toBe('ES256');
+      expect(await service.verify(token)).toEqual({ sub: 'mlt_x' });
+    });
+
+    it('publishes previous keys alongside the active key', async () => {
+      const previous = { kty: 'OKP', crv: 'Ed25519', x: 'abc', kid: 'old-key', alg: 'EdDSA', use: 'sig' };
+      const service = new AttestationService({ ...env, ATTESTATION_PREVIOUS_KEYS: JSON.stringify([previous]) });
+
+      const { keys } = await service.getJwks();
+
+      expect(keys.map((k) => k.kid)).toContain('old-key');
+      expect(keys).toHaveLength(2);
+    });
+
+    it('skips malformed previous keys', async () => {
+      const previous = { kty: 'OKP', crv: 'Ed25519', x: 'abc', kid: 'old-key', alg: 'EdDSA', use: 'sig' };
+      const mixed = new AttestationService({
+        ...env,
+        ATTESTATION_PREVIOUS_KEYS: JSON.stringify([previous, { kid: 'broken' }, 'nope']),
+      });
+      const invalid = new AttestationService({ ...env, ATTESTATION_PREVIOUS_KEYS: '[{not json' });
+      const notArray = new AttestationService({ ...env, ATTESTATION_PREVIOUS_KEYS: JSON.stringify(previous) });
+
+      const { keys } = await mixed.getJwks();
+      expect(keys).toHaveLength(2);
+      expect(keys.map((k) => k.kid)).toContain('old-key');
+      expect((await invalid.getJwks()).keys).toHaveLength(1);
+      expect((await notArray.getJwks()).keys).toHaveLength(1);
+    });
+
+    it('throws AttestationUnavailableError without a signing key', async () => {
+      const service = new AttestationService({ ...env, ATTESTATION_SIGNING_KEY: undefined });
+
+      await expect(service.sign({})).rejects.toBeInstanceOf(AttestationUnavailableError);
+    });
+  });
+
+  // ============================================================
+  // Routes
+  // ============================================================
+  describe('GET /v1/agents/:id/attestation', () => {
+    it('returns a signed trust attestation (200)', async () => {
+      await seedTestData(env.DB, { agents: true, vouches: true });
+
+      const res = await appRequest('GET', '/v1/agents/mlt_verified_001/attestation');
+
+      expect(res.status).toBe(200);
+      const json = await res.json() as ApiResponse<AttestationResponse>;
+      const claims = await attestationService.verify<TrustAttestationClaims>(json.data!.token);
+      expect(claims).not.toBeNull();
+      expect(claims!.iss).toBe('https://api.moltid.test');
+      expect(claims!.sub).toBe('mlt_verified_001');
+      expect(claims!.moltbook_username).toBe('alice_agent');
+      expect(claims!.moltbook_verified).toBe(true);
+      expect(claims!.trust_score).toBe(80);
+      expect(claims!.trust_factors.moltbook_verified).toBe(20);
+      expect(Date.parse(json.data!.expires_at)).toBe(claims!.exp * 1000);
+    });
+
+    it('is also available via /trust?format=jws', async () => {
+      await seedTestData(env.DB, { agents: true, vouches: false });
+
+      const res = await appRequest('GET', '/v1/agents/mlt_verified_002/trust?format=jws');
+
+      expect(res.status).toBe(200);
+      const json = await res.json() as ApiResponse<AttestationResponse>;
+      expect(json.data!.token.split('.')).toHaveLength(3);
+    });
+
+    it('returns 404 for unknown agent', async () => {
+      const res = await appRequest('GET', '/v1/agents/mlt_nonexistent_999/attestation');
+
+      expect(res.status).toBe(404);
+    });
+
+    it('returns 503 when no signing key is configured', async () => {
+      await seedTestData(env.DB, { agents: true, vouches: false });
+
+      const res = await app.fetch(
+        new Request('http://localhost/v1/agents/mlt_verified_001/attestation'),
+        { ...env, ATTESTATION_SIGNING_KEY: undefined }
+      );
+
+      expect(res.status).toBe(503);
+      const json = await res.json() as { error: { code: string } };
+      expect(json.error.code).toBe('attestation_unavailable');
+    });
+  });
+
+  describe('GET /.well-known/jwks.json', () => {
+    it('publishes the signing keys', async () => {
+      const res = await appRequest('GET', '/.well-known/jwks.json');
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Cache-Control')).toContain('max-age');
+      const jwks = await res.json() as { keys: Array<{ kid: string }> };
+      expect(jwks.keys).toHaveLength(1);
+    });
+  });
+});
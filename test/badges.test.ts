@@ -0,0 +1,127 @@
+/**
+ * Badge tests
+ *
+ * Tests for SVG badge rendering (badge.ts) and the badge.svg endpoints.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env } from 'cloudflare:test';
+import { AgentService } from '../src/services/agent';
+import { agentBadge, profileUrl, renderBadge } from '../src/services/badge';
+import { setupTestDb, cleanupTestDb, createTestAgent, appRequest } from './setup';
+
+describe('Badges', () => {
+  beforeEach(async () => {
+    await setupTestDb(env.DB);
+    await cleanupTestDb(env.DB);
+    await createTestAgent(env.DB, {
+      id: 'mlt_badge',
+      moltbook_username: 'badge_agent',
+      moltbook_verified: true,
+      trust_score: 82,
+      tier: 'trusted',
+      status: 'active',
+    });
+  });
+
+  // ============================================================
+  // Rendering tests
+  // ============================================================
+  describe('renderBadge', () => {
+    it('renders the tier, score and profile link', async () => {
+      const agent = (await new AgentService(env.DB).getById('mlt_badge'))!;
+
+      const svg = agentBadge(agent, profileUrl(undefined, agent.id));
+
+      expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg"/);
+      expect(svg).toContain('✓ trusted · 82');
+      expect(svg).toContain('fill="#44cc11"');
+      expect(svg).toContain('<a href="https://moltid.dev/a/mlt_badge"');
+    });
+
+    it('shows the status instead of the tier for agents that are not active', async () => {
+      await env.DB.prepare("UPDATE agents SET status = 'suspended' WHERE id = 'mlt_badge'").run();
+      const suspended = (await new AgentService(env.DB).getById('mlt_badge'))!;
+
+      const svg = agentBadge(suspended, profileUrl(undefined, suspended.id));
+      const pending = agentBadge({ ...suspended, status: 'pending' }, profileUrl(undefined, suspended.id));
+
+      expect(svg).toContain('>suspended</text>');
+      expect(svg).toContain('fill="#e05d44"');
+      expect(svg).not.toContain('trusted');
+      expect(pending).toContain('>pending</text>');
+    });
+
+    it('scales with size and changes shape with style', () => {
+      const content = { label: 'MoltID', message: 'linked · 20', color: '#dfb317' };
+
+      const small = renderBadge(content);
+      const large = renderBadge(content, { size: 'large' });
+      const square = renderBadge(content, { style: 'flat-square' });
+      const forTheBadge = renderBadge(content, { style: 'for-the-badge' });
+
+      const size = (svg: string) => svg.match(/width="(\d+)" height="(\d+)"/)!.slice(1).map(Number);
+      const [width, height] = size(small);
+      expect(height).toBe(20);
+      expect(size(large)).toEqual([width * 2, 40]);
+      expect(small).toContain('rx="3"');
+      expect(square).not.toContain('rx="3"');
+      expect(forTheBadge).toContain('LINKED · 20');
+      expect(size(forTheBadge)[1]).toBe(28);
+    });
+
+    it('escapes text', () => {
+      const svg = renderBadge({ label: 'a<b>', message: '"&"', color: '#555' });
+
+      expect(svg).toContain('a&lt;b&gt;');
+      expect(svg).toContain('&quot;&amp;&quot;');
+    });
+  });
+
+  // ============================================================
+  // API tests
+  // ============================================================
+  describe('GET /v1/agents/:id/badge.svg', () => {
+    it('serves a cacheable SVG', async () => {
+      const res = await appRequest('GET', '/v1/agents/mlt_badge/badge.svg?style=flat-square&size=medium');
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toBe('image/svg+xml; charset=utf-8');
+      expect(res.headers.get('Cache-Control')).toBe('public, max-age=300, s-maxage=300');
+      expect(res.headers.get('Link')).toBe('<https://moltid.dev/a/mlt_badge>; rel="related"');
+      expect(await res.text()).toContain('✓ trusted · 82');
+    });
+
+    it('serves the badge by Moltbook username', async () => {
+      const res = await appRequest('GET', '/v1/agents/moltbook/badge_agent/badge.svg');
+
+      expect(res.status).toBe(200);
+      expect(await res.text()).toContain('/a/mlt_badge');
+    });
+
+    it('does not serve badges by usernames the agent has not verified (404)', async () => {
+      await createTestAgent(env.DB, { id: 'mlt_badge_claimed', moltbook_username: 'famous_agent', status: 'active' });
+
+      const res = await appRequest('GET', '/v1/agents/moltbook/famous_agent/badge.svg');
+
+      expect(res.status).toBe(404);
+      const svg = await res.text();
+      expect(svg).toContain('not found');
+      expect(svg).not.toContain('mlt_badge_claimed');
+    });
+
+    it('serves a not found badge for unknown agents (404)', async () => {
+      const res = await appRequest('GET', '/v1/agents/mlt_missing/badge.svg');
+
+      expect(res.status).toBe(404);
+      expect(res.headers.get('Content-Type')).toBe('image/svg+xml; charset=utf-8');
+      expect(await res.text()).toContain('not found');
+    });
+
+    it('rejects unknown styles (400)', async () => {
+      const res = await appRequest('GET', '/v1/agents/mlt_badge/badge.svg?style=neon');
+
+      expect(res.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Challenge tests
+ *
+ * Tests for ChallengeService and the /v1/challenges proof-of-possession routes.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env } from 'cloudflare:test';
+import { ChallengeService } from '../src/services/challenge';
+import {
+  setupTestDb,
+  cleanupTestDb,
+  createTestAgent,
+  createTestKeyPair,
+  signTestMessage,
+  appRequest,
+  type TestKeyPair,
+} from './setup';
+import type { AgentPublic, ApiResponse } from '../src/types';
+
+interface ErrorResponse {
+  success: false;
+  error: { code: string; message: string };
+}
+
+interface ChallengeResponse {
+  id: string;
+  agent_id: string;
+  audience: string | null;
+  message: string;
+  expires_at: string;
+}
+
+interface VerifyResponse {
+  verified: boolean;
+  challenge_id: string;
+  valid_until: string;
+  agent: AgentPublic;
+}
+
+describe('Challenges', () => {
+  let challengeService: ChallengeService;
+  let agentKeys: TestKeyPair;
+  let agentId: string;
+
+  beforeEach(async () => {
+    await setupTestDb(env.DB);
+    await cleanupTestDb(env.DB);
+    challengeService = new ChallengeService(env.DB);
+    agentKeys = await createTestKeyPair();
+    agentId = await createTestAgent(env.DB, {
+      id: 'mlt_challenge_agent',
+      moltbook_username: 'challenged',
+      moltbook_verified: true,
+      public_key: agentKeys.publicKey,
+      trust_score: 42,
+      status: 'active',
+    });
+  });
+
+  async function issue(audience?: string): Promise<ChallengeResponse> {
+    const res = await appRequest('POST', '/v1/challenges', { agent_id: agentId, audience });
+    return ((await res.json()) as ApiResponse<ChallengeResponse>).data!;
+  }
+
+  // ============================================================
+  // ChallengeService tests
+  // ============================================================
+  describe('ChallengeService', () => {
+    it('creates a pending challenge with a unique nonce', async () => {
+      const a = await challengeService.create(agentId, null);
+      const b = await challengeService.create(agentId, null);
+
+      expect(a.id).toMatch(/^chl_/);
+      expect(a.nonce).not.toBe(b.nonce);
+      expect(challengeService.status(a)).toBe('pending');
+    });
+
+    it('binds the audience into the signed message', () => {
+      const base = { id: 'chl_1', agent_id: agentId, nonce: 'n' };
+
+      expect(ChallengeService.message({ ...base, audience: 'a.example' }))
+        .not.toBe(ChallengeService.message({ ...base, audience: 'b.example' }));
+    });
+
+    it('reports expired challenges', async () => {
+      const challenge = await challengeService.create(agentId, null);
+
+      const status = challengeService.status({ ...challenge, expires_at: '2020-01-01T00:00:00Z' });
+
+      expect(status).toBe('expired');
+    });
+  });
+
+  // ============================================================
+  // POST /v1/challenges
+  // ============================================================
+  describe('POST /v1/challenges', () => {
+    it('issues a challenge (201)', async () => {
+      const res = await appRequest('POST', '/v1/challenges', { agent_id: agentId, audience: 'platform.example' });
+
+      expect(res.status).toBe(201);
+      const json = await res.json() as ApiResponse<ChallengeResponse>;
+      expect(json.data!.agent_id).toBe(agentId);
+      expect(json.data!.message).toContain('MOLTID-CHALLENGE-V1');
+      expect(json.data!.message).toContain('platform.example');
+    });
+
+    it('returns 404 for unknown agent', async () => {
+      const res = await appRequest('POST', '/v1/challenges', { agent_id: 'mlt_nonexistent_999' });
+
+      expect(res.status).toBe(404);
+    });
+
+    it('returns 400 for agents without a key', async () => {
+      const keylessId = await createTestAgent(env.DB, { id: 'mlt_challenge_keyless' });
+
+      const res = await appRequest('POST', '/v1/challenges', { agent_id: keylessId });
+
+      expect(res.status).toBe(400);
+      const json = await res.json() as ErrorResponse;
+      expect(json.error.code).toBe('no_public_key');
+    });
+  });
+
+  // ============================================================
+  // POST /v1/challenges/:id/verify
+  // ============================================================
+  describe('POST /v1/challenges/:id/verify', () => {
+    it('verifies a correct signature (200)', async () => {
+      const challenge = await issue();
+      const signature = await signTestMessage(agentKeys, challenge.message);
+
+      const res = await appRequest('POST', `/v1/challenges/${challenge.id}/verify`, { signature });
+
+      expect(res.status).toBe(200);
+      const json = await res.json() as ApiResponse<VerifyResponse>;
+      expect(json.data!.verified).toBe(true);
+      expect(json.data!.agent.id).toBe(agentId);
+      expect(json.data!.agent.trust_score).toBe(42);
+      expect(Date.parse(json.data!.valid_until)).toBeGreaterThan(Date.now());
+    });
+
+    it('rejects a signature from another key (401)', async () => {
+      const challenge = await issue();
+      const impostor = await createTestKeyPair();
+
+      const res = await appRequest('POST', `/v1/challenges/${challenge.id}/verify`, {
+        signature: await signTestMessage(impostor, challenge.message),
+      });
+
+      expect(res.status).toBe(401);
+      const json = await res.json() as ErrorResponse;
+      expect(json.error.code).toBe('invalid_signature');
+    });
+
+    it('rejects reuse of an answered challenge (409)', async () => {
+      const challenge = await issue();
+      const signature = await signTestMessage(agentKeys, challenge.message);
+      await appRequest('POST', `/v1/challenges/${challenge.id}/verify`, { signature });
+
+      const res = await appRequest('POST', `/v1/challenges/${challenge.id}/verify`, { signature });
+
+      expect(res.status).toBe(409);
+      const json = await res.json() as ErrorResponse;
+      expect(json.error.code).toBe('already_used');
+    });
+
+    it('rejects expired challenges (410)', async () => {
+      const challenge = await issue();
+      await env.DB.prepare('UPDATE challenges SET expires_at = ? WHERE id = ?')
+        .bind('2020-01-01T00:00:00.000Z', challenge.id)
+        .run();
+
+      const res = await appRequest('POST', `/v1/challenges/${challenge.id}/verify`, {
+        signature: await signTestMessage(agentKeys, challenge.message),
+      });
+
+      expect(res.status).toBe(410);
+      const json = await res.json() as ErrorResponse;
+      expect(json.error.code).toBe('expired');
+    });
+
+    it('returns 404 for unknown challenge', async () => {
+      const res = await appRequest('POST', '/v1/challenges/chl_missing/verify', { signature: 'AAAA' });
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  // ============================================================
+  // GET /v1/challenges/:id
+  // ============================================================
+  describe('GET /v1/challenges/:id', () => {
+    it('reports pending then verified status', async () => {
+      const challenge = await issue();
+
+      const before = await appRequest('GET', `/v1/challenges/${challenge.id}`);
+      await appRequest('POST', `/v1/challenges/${challenge.id}/verify`, {
+        signature: await signTestMessage(agentKeys, challenge.message),
+      });
+      const after = await appRequest('GET', `/v1/challenges/${challenge.id}`);
+
+      const beforeJson = await before.json() as ApiResponse<{ status: string; agent: AgentPublic | null }>;
+      const afterJson = await after.json() as ApiResponse<{ status: string; agent: AgentPublic | null }>;
+      expect(beforeJson.data!.status).toBe('pending');
+      expect(beforeJson.data!.agent).toBeNull();
+      expect(afterJson.data!.status).toBe('verified');
+      expect(afterJson.data!.agent!.id).toBe(agentId);
+    });
+  });
+});
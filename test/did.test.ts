@@ -0,0 +1,179 @@
+/**
+ * DID and Verifiable Credential tests
+ *
+ * Tests for DidService documents/credentials and the did:web and
+ * /v1/agents/:id/credentials routes.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env } from 'cloudflare:test';
+import { AttestationService } from '../src/services/attestation';
+import { DidService, type DidDocument } from '../src/services/did';
+import {
+  setupTestDb,
+  cleanupTestDb,
+  seedTestData,
+  createTestAgent,
+  createTestKeyPair,
+  appRequest,
+} from './setup';
+import { getSampleAgent } from './fixtures';
+import type { ApiResponse } from '../src/types';
+
+interface CredentialResponse {
+  credential: string;
+  expires_at: string;
+}
+
+interface VcClaims {
+  iss: string;
+  sub: string;
+  exp: number;
+  vc: {
+    type: string[];
+    credentialSubject: Record<string, unknown> & { id: string };
+  };
+}
+
+describe('DIDs and Verifiable Credentials', () => {
+  let didService: DidService;
+
+  beforeEach(async () => {
+    await setupTestDb(env.DB);
+    await cleanupTestDb(env.DB);
+    didService = new DidService(env);
+  });
+
+  // ============================================================
+  // DidService tests
+  // ============================================================
+  describe('DidService', () => {
+    it('builds did:web identifiers under the configured domain', () => {
+      expect(didService.issuerDid).toBe('did:web:moltid.dev');
+      expect(didService.agentDid('mlt_abc')).toBe('did:web:moltid.dev:agents:mlt_abc');
+    });
+
+    it('includes the agent key as a JsonWebKey2020 method', async () => {
+      const keys = await createTestKeyPair('ES256');
+      const agent = { ...getSampleAgent('mlt_verified_001')!, public_key: keys.publicKey };
+
+      const doc = await didService.agentDocument(agent);
+
+      expect(doc.id).toBe('did:web:moltid.dev:agents:mlt_verified_001');
+      expect(doc.verificationMethod).toHaveLength(1);
+      expect(doc.verificationMethod[0].publicKeyJwk).toMatchObject({ kty: 'EC', crv: 'P-256' });
+      expect(doc.authentication).toEqual([`${doc.id}#key-1`]);
+      expect(doc.alsoKnownAs).toEqual(['https://www.moltbook.com/u/alice_agent']);
+    });
+
+    it('omits unproven Moltbook links and unsupported keys', async () => {
+      const agent = getSampleAgent('mlt_unverified_001')!;
+
+      const doc = await didService.agentDocument(agent);
+
+      expect(doc.alsoKnownAs).toBeUndefined();
+      expect(doc.verificationMethod).toEqual([]);
+    });
+
+    it('issues credentials verifiable with the issuer keys', async () => {
+      const { credential } = await didService.issueMoltbookCredential(getSampleAgent('mlt_verified_001')!);
+
+      const claims = await new AttestationService(env).verify<VcClaims>(credential);
+
+      expect(claims!.iss).toBe('did:web:moltid.dev');
+      expect(claims!.sub).toBe('did:web:moltid.dev:agents:mlt_verified_001');
+      expect(claims!.vc.type).toContain('MoltbookAccountCredential');
+      expect(claims!.vc.credentialSubject.moltbook_username).toBe('alice_agent');
+    });
+  });
+
+  // ============================================================
+  // did:web resolution routes
+  // ============================================================
+  describe('did:web documents', () => {
+    it('resolves an agent DID document (200)', async () => {
+      const keys = await createTestKeyPair();
+      await createTestAgent(env.DB, { id: 'mlt_did_agent', public_key: keys.publicKey });
+
+      const res = await appRequest('GET', '/agents/mlt_did_agent/did.json');
+
+      expect(res.status).toBe(200);
+      const doc = await res.json() as DidDocument;
+      expect(doc.id).toBe('did:web:moltid.dev:agents:mlt_did_agent');
+      expect(doc.verificationMethod[0].publicKeyJwk).toMatchObject({ kty: 'OKP', crv: 'Ed25519' });
+    });
+
+    it('returns 404 for unknown agent DID', async () => {
+      const res = await appRequest('GET', '/agents/mlt_nonexistent_999/did.json');
+
+      expect(res.status).toBe(404);
+    });
+
+    it('publishes the issuer DID document with the attestation keys', async () => {
+      const res = await appRequest('GET', '/.well-known/did.json');
+      const { keys } = await new AttestationService(env).getJwks();
+
+      const doc = await res.json() as DidDocument;
+      expect(doc.id).toBe('did:web:moltid.dev');
+      expect(doc.assertionMethod).toEqual([`did:web:moltid.dev#${keys[0].kid}`]);
+    });
+  });
+
+  // ============================================================
+  // Credential routes
+  // ============================================================
+  describe('GET /v1/agents/:id/credentials', () => {
+    beforeEach(async () => {
+      await seedTestData(env.DB, { agents: true, vouches: true });
+    });
+
+    it('returns the agent DID via the API', async () => {
+      const res = await appRequest('GET', '/v1/agents/mlt_verified_001/did');
+
+      expect(res.status).toBe(200);
+      const json = await res.json() as ApiResponse<{ did: string }>;
+      expect(json.data!.did).toBe('did:web:moltid.dev:agents:mlt_verified_001');
+    });
+
+    it('issues a Moltbook credential for verified agents (200)', async () => {
+      const res = await appRequest('GET', '/v1/agents/mlt_verified_001/credentials/moltbook');
+
+      expect(res.status).toBe(200);
+      const json = await res.json() as ApiResponse<CredentialResponse>;
+      expect(json.data!.credential.split('.')).toHaveLength(3);
+    });
+
+    it('refuses a Moltbook credential for unverified agents (400)', async () => {
+      const res = await appRequest('GET', '/v1/agents/mlt_unverified_001/credentials/moltbook');
+
+      expect(res.status).toBe(400);
+      const json = await res.json() as { error: { code: string } };
+      expect(json.error.code).toBe('not_verified');
+    });
+
+    it('issues a trust credential embedding the breakdown (200)', async () => {
+      const res = await appRequest('GET', '/v1/agents/mlt_verified_001/credentials/trust?min_score=50');
+
+      expect(res.status).toBe(200);
+      const json = await res.json() as ApiResponse<CredentialResponse>;
+      const claims = await new AttestationService(env).verify<VcClaims>(json.data!.credential);
+      expect(claims!.vc.type).toContain('TrustScoreCredential');
+      expect(claims!.vc.credentialSubject.trust_score_at_least).toBe(50);
+      expect(claims!.vc.credentialSubject.trust).toMatchObject({ score: 80 });
+    });
+
+    it('refuses a trust credential above the current score (400)', async () => {
+      const res = await appRequest('GET', '/v1/agents/mlt_verified_002/credentials/trust?min_score=90');
+
+      expect(res.status).toBe(400);
+      const json = await res.json() as { error: { code: string } };
+      expect(json.error.code).toBe('threshold_not_met');
+    });
+
+    it('requires a valid min_score (400)', async () => {
+      const res = await appRequest('GET', '/v1/agents/mlt_verified_001/credentials/trust');
+
+      expect(res.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Domain verification tests
+ *
+ * Tests for DomainProvider (with an injected fetch standing in for the DoH
+ * resolver and the domain's web server) and POST /v1/agents/:id/verify/domain.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { env, fetchMock } from 'cloudflare:test';
+import { DomainProvider } from '../src/providers';
+import { AgentService } from '../src/services/agent';
+import { setupTestDb, cleanupTestDb, createTestAgent, appRequest } from './setup';
+import type { Agent, AgentPublic, ApiResponse, LinkedAccount } from '../src/types';
+
+interface ErrorResponse {
+  success: false;
+  error: { code: string; message: string };
+}
+
+const RESOLVER = 'https://doh.test/dns-query';
+
+/**
+ * Fake fetch serving TXT records from `txt` and well-known files from `files`.
+ */
+function fakeFetch(txt: Record<string, string[]>, files: Record<string, string>): typeof fetch {
+  return async (input) => {
+    const url = new URL(input instanceof Request ? input.url : input.toString());
+    if (url.origin + url.pathname === RESOLVER) {
+      const records = txt[url.searchParams.get('name')!] || [];
+      return Response.json({
+        Status: 0,
+        Answer: records.map((data) => ({ name: url.searchParams.get('name'), type: 16, data: `"${data}"` })),
+      });
+    }
+    const file = files[url.toString()];
+    return file === undefined ? new Response('Not found', { status: 404 }) : new Response(file);
+  };
+}
+
+describe('Domain verification', () => {
+  let agent: Agent;
+
+  beforeEach(async () => {
+    await setupTestDb(env.DB);
+    await cleanupTestDb(env.DB);
+    const id = await createTestAgent(env.DB, {
+      id: 'mlt_domain_agent',
+      verification_code: 'moltid-verify:mlt_domain_agent',
+      status: 'active',
+    });
+    agent = (await new AgentService(env.DB).getById(id))!;
+  });
+
+  // ============================================================
+  // DomainProvider tests
+  // ============================================================
+  describe('DomainProvider', () => {
+    it('verifies a TXT record at _moltid.<domain>', async () => {
+      const provider = new DomainProvider({
+        resolverUrl: RESOLVER,
+        fetch: fakeFetch({ '_moltid.example.com': ['v=spf1 -all', agent.verification_code!] }, {}),
+      });
+
+      const outcome = await provider.verify(agent, { domain: 'example.com', method: 'dns' });
+
+      expect(outcome).toEqual({ verified: true, handle: 'example.com', reputation: { method: 'dns' } });
+    });
+
+    it('joins TXT records split into several strings', async () => {
+      const [head, tail] = [agent.verification_code!.slice(0, 10), agent.verification_code!.slice(10)];
+      const provider = new DomainProvider({
+        resolverUrl: RESOLVER,
+        fetch: fakeFetch({ '_moltid.example.com': [`${head}" "${tail}`] }, {}),
+      });
+
+      const outcome = await provider.verify(agent, { domain: 'example.com', method: 'dns' });
+
+      expect(outcome.verified).toBe(true);
+    });
+
+    it('verifies a line in /.well-known/moltid.txt', async () => {
+      const provider = new DomainProvider({
+        resolverUrl: RESOLVER,
+        fetch: fakeFetch({}, {
+          'https://example.com/.well-known/moltid.txt': `# MoltIDs operated here\n${agent.verification_code}\n`,
+        }),
+      });
+
+      const outcome = await provider.verify(agent, { domain: 'example.com', method: 'well_known' });
+
+      expect(outcome.verified).toBe(true);
+      expect(outcome.verified && outcome.reputation).toEqual({ method: 'well_known' });
+    });
+
+    it('falls back to the well-known file when no method is given', async () => {
+      const provider = new DomainProvider({
+        resolverUrl: RESOLVER,
+        fetch: fakeFetch({}, { 'https://example.com/.well-known/moltid.txt': agent.verification_code! }),
+      });
+
+      const outcome = await provider.verify(agent, { domain: 'example.com' });
+
+      expect(outcome.verified && outcome.reputation.method).toBe('well_known');
+    });
+
+    it('only checks the requested method', async () => {
+      const provider = new DomainProvider({
+        resolverUrl: RESOLVER,
+        fetch: fakeFetch({}, { 'https://example.com/.well-known/moltid.txt': agent.verification_code! }),
+      });
+
+      const outcome = await provider.verify(agent, { domain: 'example.com', method: 'dns' });
+
+      expect(outcome.verified).toBe(false);
+    });
+
+    it('does not accept another agent\'s code', async () => {
+      const provider = new DomainProvider({
+        resolverUrl: RESOLVER,
+        fetch: fakeFetch({ '_moltid.example.com': ['moltid-verify:mlt_someone_else'] }, {}),
+      });
+
+      const outcome = await provider.verify(agent, { domain: 'example.com' });
+
+      expect(outcome.verified).toBe(false);
+      expect(!outcome.verified && outcome.message).toContain('_moltid.example.com');
+    });
+
+    it('normalizes and validates the domain', () => {
+      const provider = new DomainProvider();
+
+      expect(provider.inputSchema.parse({ domain: ' Example.COM ' }).domain).toBe('example.com');
+      expect(provider.inputSchema.safeParse({ domain: 'https://example.com' }).success).toBe(false);
+      expect(provider.inputSchema.safeParse({ domain: 'localhost' }).success).toBe(false);
+    });
+  });
+
+  // ============================================================
+  // API tests
+  // ============================================================
+  describe('POST /v1/agents/:id/verify/domain', () => {
+    beforeEach(() => {
+      fetchMock.activate();
+      fetchMock.disableNetConnect();
+    });
+
+    afterEach(() => {
+      fetchMock.deactivate();
+    });
+
+    it('links the domain and surfaces it on the agent', async () => {
+      fetchMock
+        .get('https://cloudflare-dns.com')
+        .intercept({ path: (path) => path.startsWith('/dns-query') })
+        .reply(200, JSON.stringify({
+          Status: 0,
+          Answer: [{ name: '_moltid.acme.dev', type: 16, data: `"${agent.verification_code}"` }],
+        }));
+
+      const res = await appRequest('POST', `/v1/agents/${agent.id}/verify/domain`, { domain: 'acme.dev' });
+
+      expect(res.status).toBe(200);
+      const json = (await res.json()) as ApiResponse<{ account: LinkedAccount; agent: AgentPublic }>;
+      expect(json.data!.account.handle).toBe('acme.dev');
+      expect(json.data!.agent.domains).toEqual(['acme.dev']);
+
+      const lookup = await appRequest('GET', `/v1/agents/${agent.id}`);
+      const profile = (await lookup.json()) as ApiResponse<AgentPublic>;
+      expect(profile.data!.domains).toEqual(['acme.dev']);
+    });
+
+    it('reports where to publish the code when it is missing', async () => {
+      fetchMock
+        .get('https://cloudflare-dns.com')
+        .intercept({ path: (path) => path.startsWith('/dns-query') })
+        .reply(200, JSON.stringify({ Status: 3 }));
+      fetchMock
+        .get('https://acme.dev')
+        .intercept({ path: '/.well-known/moltid.txt' })
+        .reply(404, 'Not found');
+
+      const res = await appRequest('POST', `/v1/agents/${agent.id}/verify/domain`, { domain: 'acme.dev' });
+
+      expect(res.status).toBe(400);
+      const json = (await res.json()) as ErrorResponse;
+      expect(json.error.code).toBe('verification_failed');
+      expect(json.error.message).toContain('https://acme.dev/.well-known/moltid.txt');
+    });
+
+    it('requires a domain', async () => {
+      const res = await appRequest('POST', `/v1/agents/${agent.id}/verify/domain`);
+
+      expect(res.status).toBe(400);
+      const json = (await res.json()) as ErrorResponse;
+      expect(json.error.code).toBe('invalid_request');
+    });
+  });
+});
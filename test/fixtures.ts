@@ -31,9 +31,11 @@ export const SAMPLE_AGENTS: Agent[] = [
     public_key: 'pk_alice_test_key_001',
     capabilities: ['code_review', 'testing', 'deployment'],
     trust_score: 80,
+    tier: 'trusted',
     vouch_count: 3,
     status: 'active',
     verification_code: 'moltid-verify:mlt_verified_001',
+    domains: [],
     created_at: '2025-12-10T00:00:00Z', // 20 days before reference + 30
     updated_at: '2025-12-30T00:00:00Z',
   },
@@ -48,9 +50,11 @@ export const SAMPLE_AGENTS: Agent[] = [
     public_key: 'pk_bob_test_key_002',
     capabilities: ['documentation', 'support'],
     trust_score: 45,
+    tier: 'established',
     vouch_count: 1,
     status: 'active',
     verification_code: 'moltid-verify:mlt_verified_002',
+    domains: [],
     created_at: '2025-12-15T00:00:00Z', // 15 days before reference + 30
     updated_at: '2025-12-30T00:00:00Z',
   },
@@ -65,9 +69,11 @@ export const SAMPLE_AGENTS: Agent[] = [
     public_key: 'pk_charlie_test_key_003',
     capabilities: ['general'],
     trust_score: 10,
+    tier: 'unverified',
     vouch_count: 2,
     status: 'active',
     verification_code: 'moltid-verify:mlt_unverified_001',
+    domains: [],
     created_at: '2025-12-20T00:00:00Z', // 10 days before reference + 30
     updated_at: '2025-12-30T00:00:00Z',
   },
@@ -82,9 +88,11 @@ export const SAMPLE_AGENTS: Agent[] = [
     public_key: null,
     capabilities: [],
     trust_score: 0,
+    tier: 'unverified',
     vouch_count: 0,
     status: 'pending',
     verification_code: 'moltid-verify:mlt_pending_001',
+    domains: [],
     created_at: '2025-12-29T00:00:00Z', // 1 day old
     updated_at: '2025-12-29T00:00:00Z',
   },
@@ -99,9 +107,11 @@ export const SAMPLE_AGENTS: Agent[] = [
     public_key: 'pk_eve_test_key_005',
     capabilities: ['code_review'],
     trust_score: 55,
+    tier: 'established',
     vouch_count: 2,
     status: 'suspended',
     verification_code: 'moltid-verify:mlt_suspended_001',
+    domains: [],
     created_at: '2025-11-15T00:00:00Z', // 45 days old
     updated_at: '2025-12-28T00:00:00Z',
   },
@@ -116,9 +126,11 @@ export const SAMPLE_AGENTS: Agent[] = [
     public_key: 'pk_frank_test_key_006',
     capabilities: ['architecture', 'security', 'code_review'],
     trust_score: 70,
+    tier: 'trusted',
     vouch_count: 0,
     status: 'active',
     verification_code: 'moltid-verify:mlt_verified_003',
+    domains: [],
     created_at: '2025-12-05T00:00:00Z', // 25 days old
     updated_at: '2025-12-30T00:00:00Z',
   },
@@ -133,9 +145,11 @@ export const SAMPLE_AGENTS: Agent[] = [
     public_key: 'pk_grace_test_key_007',
     capabilities: ['testing', 'automation'],
     trust_score: 75,
+    tier: 'trusted',
     vouch_count: 6,
     status: 'active',
     verification_code: 'moltid-verify:mlt_verified_004',
+    domains: [],
     created_at: '2025-12-20T00:00:00Z', // 10 days old
     updated_at: '2025-12-30T00:00:00Z',
   },
@@ -150,9 +164,11 @@ export const SAMPLE_AGENTS: Agent[] = [
     public_key: 'pk_helen_test_key_008',
     capabilities: ['architecture', 'security', 'code_review', 'testing', 'deployment'],
     trust_score: 100,
+    tier: 'trusted',
     vouch_count: 10,
     status: 'active',
     verification_code: 'moltid-verify:mlt_perfect_001',
+    domains: [],
     created_at: '2025-10-01T00:00:00Z', // 90 days old
     updated_at: '2025-12-30T00:00:00Z',
   },
@@ -169,24 +185,40 @@ export const SAMPLE_VOUCHES: Vouch[] = [
     from_agent_id: 'mlt_verified_001', // alice (verified)
     to_agent_id: 'mlt_verified_002', // bob (verified)
     created_at: '2025-12-20T00:00:00Z',
+    expires_at: null,
+    renewed_at: null,
+    capability: null,
+    statement: null,
   },
   {
     id: 'vch_002',
     from_agent_id: 'mlt_verified_001', // alice (verified)
     to_agent_id: 'mlt_verified_004', // grace (verified)
     created_at: '2025-12-21T00:00:00Z',
+    expires_at: null,
+    renewed_at: null,
+    capability: null,
+    statement: null,
   },
   {
     id: 'vch_003',
     from_agent_id: 'mlt_verified_002', // bob (verified)
     to_agent_id: 'mlt_verified_004', // grace (verified)
     created_at: '2025-12-22T00:00:00Z',
+    expires_at: null,
+    renewed_at: null,
+    capability: null,
+    statement: null,
   },
   {
     id: 'vch_004',
     from_agent_id: 'mlt_verified_003', // frank (verified)
     to_agent_id: 'mlt_verified_004', // grace (verified)
     created_at: '2025-12-23T00:00:00Z',
+    expires_at: null,
+    renewed_at: null,
+    capability: null,
+    statement: null,
   },
   // More vouches to grace
   {
@@ -194,12 +226,20 @@ export const SAMPLE_VOUCHES: Vouch[] = [
     from_agent_id: 'mlt_perfect_001', // helen (verified)
     to_agent_id: 'mlt_verified_004', // grace (verified)
     created_at: '2025-12-24T00:00:00Z',
+    expires_at: null,
+    renewed_at: null,
+    capability: null,
+    statement: null,
   },
   {
     id: 'vch_006',
     from_agent_id: 'mlt_suspended_001', // eve (verified but suspended)
     to_agent_id: 'mlt_verified_004', // grace (verified)
     created_at: '2025-12-25T00:00:00Z',
+    expires_at: null,
+    renewed_at: null,
+    capability: null,
+    statement: null,
   },
 
   // Vouches to alice
@@ -208,18 +248,30 @@ export const SAMPLE_VOUCHES: Vouch[] = [
     from_agent_id: 'mlt_verified_002', // bob (verified)
     to_agent_id: 'mlt_verified_001', // alice (verified)
     created_at: '2025-12-20T00:00:00Z',
+    expires_at: null,
+    renewed_at: null,
+    capability: null,
+    statement: null,
   },
   {
     id: 'vch_008',
     from_agent_id: 'mlt_verified_003', // frank (verified)
     to_agent_id: 'mlt_verified_001', // alice (verified)
     created_at: '2025-12-21T00:00:00Z',
+    expires_at: null,
+    renewed_at: null,
+    capability: null,
+    statement: null,
   },
   {
     id: 'vch_009',
     from_agent_id: 'mlt_perfect_001', // helen (verified)
     to_agent_id: 'mlt_verified_001', // alice (verified)
     created_at: '2025-12-22T00:00:00Z',
+    expires_at: null,
+    renewed_at: null,
+    capability: null,
+    statement: null,
   },
 
   // Vouches to suspended agent (from when they were active)
@@ -228,12 +280,20 @@ export const SAMPLE_VOUCHES: Vouch[] = [
     from_agent_id: 'mlt_verified_001', // alice (verified)
     to_agent_id: 'mlt_suspended_001', // eve (now suspended)
     created_at: '2025-12-15T00:00:00Z',
+    expires_at: null,
+    renewed_at: null,
+    capability: null,
+    statement: null,
   },
   {
     id: 'vch_011',
     from_agent_id: 'mlt_verified_002', // bob (verified)
     to_agent_id: 'mlt_suspended_001', // eve (now suspended)
     created_at: '2025-12-16T00:00:00Z',
+    expires_at: null,
+    renewed_at: null,
+    capability: null,
+    statement: null,
   },
 
   // Unverified -> Unverified vouches (these don't count toward trust score)
@@ -242,6 +302,10 @@ export const SAMPLE_VOUCHES: Vouch[] = [
     from_agent_id: 'mlt_unverified_001', // charlie (unverified)
     to_agent_id: 'mlt_pending_001', // dave (pending)
     created_at: '2025-12-29T00:00:00Z',
+    expires_at: null,
+    renewed_at: null,
+    capability: null,
+    statement: null,
   },
 
   // Vouches to helen (perfect agent)
@@ -250,24 +314,40 @@ export const SAMPLE_VOUCHES: Vouch[] = [
     from_agent_id: 'mlt_verified_001',
     to_agent_id: 'mlt_perfect_001',
     created_at: '2025-11-01T00:00:00Z',
+    expires_at: null,
+    renewed_at: null,
+    capability: null,
+    statement: null,
   },
   {
     id: 'vch_014',
     from_agent_id: 'mlt_verified_002',
     to_agent_id: 'mlt_perfect_001',
     created_at: '2025-11-02T00:00:00Z',
+    expires_at: null,
+    renewed_at: null,
+    capability: null,
+    statement: null,
   },
   {
     id: 'vch_015',
     from_agent_id: 'mlt_verified_003',
     to_agent_id: 'mlt_perfect_001',
     created_at: '2025-11-03T00:00:00Z',
+    expires_at: null,
+    renewed_at: null,
+    capability: null,
+    statement: null,
   },
   {
     id: 'vch_016',
     from_agent_id: 'mlt_suspended_001',
     to_agent_id: 'mlt_perfect_001',
     created_at: '2025-11-04T00:00:00Z',
+    expires_at: null,
+    renewed_at: null,
+    capability: null,
+    statement: null,
   },
   // Additional vouches for helen to reach max
   {
@@ -275,6 +355,10 @@ export const SAMPLE_VOUCHES: Vouch[] = [
     from_agent_id: 'mlt_verified_004',
     to_agent_id: 'mlt_perfect_001',
     created_at: '2025-11-05T00:00:00Z',
+    expires_at: null,
+    renewed_at: null,
+    capability: null,
+    statement: null,
   },
 ];
 
@@ -0,0 +1,227 @@
+/**
+ * GitHub verification tests
+ *
+ * Tests for GitHubProvider against a local fake GitHubClient, HttpGitHubClient
+ * request handling, the optional GitHub trust factor, and
+ * POST /v1/agents/:id/verify/github.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { env, fetchMock } from 'cloudflare:test';
+import {
+  GitHubProvider,
+  HttpGitHubClient,
+  type GitHubClient,
+  type GitHubGist,
+  type GitHubUser,
+} from '../src/providers';
+import { AgentService } from '../src/services/agent';
+import { DEFAULT_TRUST_POLICY } from '../src/services/policy';
+import { TrustService } from '../src/services/trust';
+import { VerificationService } from '../src/services/verification';
+import { setupTestDb, cleanupTestDb, createTestAgent, appRequest } from './setup';
+import type { Agent, ApiResponse, LinkedAccount } from '../src/types';
+
+interface ErrorResponse {
+  success: false;
+  error: { code: string; message: string };
+}
+
+/**
+ * In-memory GitHub with users, gists and repository files.
+ */
+class FakeGitHubClient implements GitHubClient {
+  users = new Map<string, GitHubUser>();
+  gists = new Map<string, GitHubGist>();
+  files = new Map<string, string>();
+
+  async getUser(username: string): Promise<GitHubUser | null> {
+    return this.users.get(username.toLowerCase()) ?? null;
+  }
+
+  async getGist(id: string): Promise<GitHubGist | null> {
+    return this.gists.get(id) ?? null;
+  }
+
+  async getRepoFile(owner: string, repo: string, path: string): Promise<string | null> {
+    return this.files.get(`${owner}/${repo}/${path}`) ?? null;
+  }
+}
+
+const GITHUB_POLICY = { ...DEFAULT_TRUST_POLICY, github: { ...DEFAULT_TRUST_POLICY.github, enabled: true } };
+
+const TWO_YEARS_AGO = new Date(Date.now() - 730 * 24 * 60 * 60 * 1000).toISOString();
+
+describe('GitHub verification', () => {
+  let client: FakeGitHubClient;
+  let provider: GitHubProvider;
+  let agent: Agent;
+
+  beforeEach(async () => {
+    await setupTestDb(env.DB);
+    await cleanupTestDb(env.DB);
+    client = new FakeGitHubClient();
+    client.users.set('octo', { login: 'Octo', created_at: TWO_YEARS_AGO, followers: 42, public_repos: 7 });
+    provider = new GitHubProvider(client);
+    const id = await createTestAgent(env.DB, {
+      id: 'mlt_github_agent',
+      verification_code: 'moltid-verify:mlt_github_agent',
+      status: 'active',
+    });
+    agent = (await new AgentService(env.DB).getById(id))!;
+  });
+
+  // ============================================================
+  // GitHubProvider tests
+  // ============================================================
+  describe('GitHubProvider', () => {
+    it('verifies a gist owned by the account and imports reputation', async () => {
+      client.gists.set('abc123', { owner: 'Octo', contents: [`proof: ${agent.verification_code}`] });
+
+      const outcome = await provider.verify(agent, { username: 'octo', gist_id: 'abc123' });
+
+      expect(outcome).toEqual({
+        verified: true,
+        handle: 'octo',
+        reputation: { proof: 'gist', account_created_at: TWO_YEARS_AGO, followers: 42, public_repos: 7 },
+      });
+    });
+
+    it('rejects a gist owned by someone else', async () => {
+      client.gists.set('abc123', { owner: 'mallory', contents: [agent.verification_code!] });
+
+      const outcome = await provider.verify(agent, { username: 'octo', gist_id: 'abc123' });
+
+      expect(outcome.verified).toBe(false);
+    });
+
+    it('verifies a MOLTID file in a repository', async () => {
+      client.files.set('Octo/tools/MOLTID', `${agent.verification_code}\n`);
+
+      const outcome = await provider.verify(agent, { username: 'octo', repo: 'tools' });
+
+      expect(outcome.verified).toBe(true);
+      expect(outcome.verified && outcome.reputation.proof).toBe('repo');
+    });
+
+    it('reports unknown users', async () => {
+      const outcome = await provider.verify(agent, { username: 'ghost', repo: 'tools' });
+
+      expect(outcome.verified).toBe(false);
+      expect(!outcome.verified && outcome.message).toContain('not found');
+    });
+
+    it('requires exactly one of gist_id or repo', () => {
+      expect(provider.inputSchema.safeParse({ username: 'octo' }).success).toBe(false);
+      expect(provider.inputSchema.safeParse({ username: 'octo', gist_id: 'abc', repo: 'tools' }).success).toBe(false);
+      expect(provider.inputSchema.safeParse({ username: 'octo', repo: 'tools' }).success).toBe(true);
+    });
+  });
+
+  describe('HttpGitHubClient', () => {
+    it('sends the token and returns null for missing resources', async () => {
+      const seen: Request[] = [];
+      const github = new HttpGitHubClient({
+        baseUrl: 'https://github.test/api/',
+        token: 'ghp_test',
+        fetch: async (input, init) => {
+          seen.push(new Request(input, init));
+          return new Response('Not Found', { status: 404 });
+        },
+      });
+
+      expect(await github.getUser('octo')).toBeNull();
+      expect(seen[0].url).toBe('https://github.test/api/users/octo');
+      expect(seen[0].headers.get('Authorization')).toBe('Bearer ghp_test');
+    });
+
+    it('reads gist owners and file contents', async () => {
+      const github = new HttpGitHubClient({
+        fetch: async () => Response.json({
+          owner: { login: 'Octo' },
+          files: { 'moltid.txt': { content: 'moltid-verify:x' } },
+        }),
+      });
+
+      expect(await github.getGist('abc123')).toEqual({ owner: 'Octo', contents: ['moltid-verify:x'] });
+    });
+  });
+
+  // ============================================================
+  // Trust factor tests
+  // ============================================================
+  describe('GitHub trust factor', () => {
+    beforeEach(async () => {
+      client.files.set('Octo/tools/MOLTID', agent.verification_code!);
+      await new VerificationService(env.DB, [provider]).verify(agent, provider, { username: 'octo', repo: 'tools' });
+    });
+
+    it('is not counted by default', async () => {
+      const trustService = new TrustService(env.DB);
+
+      const details = await trustService.getDetails(agent);
+      expect(details.factors.github).toBeUndefined();
+    });
+
+    it('adds points for account age and followers when enabled', async () => {
+      const trustService = new TrustService(env.DB, GITHUB_POLICY);
+      const baseline = await new TrustService(env.DB).calculateScore(agent.id);
+
+      // 730 days => 8 points capped at 5; 42 followers => 4 points
+      const details = await trustService.getDetails(agent);
+      expect(details.factors.github).toBe(9);
+      expect(await trustService.calculateScore(agent.id)).toBe(baseline + 9);
+    });
+
+    it('is zero without a linked account', async () => {
+      const otherId = await createTestAgent(env.DB, { id: 'mlt_no_github' });
+      const other = (await new AgentService(env.DB).getById(otherId))!;
+
+      const details = await new TrustService(env.DB, GITHUB_POLICY).getDetails(other);
+      expect(details.factors.github).toBe(0);
+    });
+  });
+
+  // ============================================================
+  // API tests
+  // ============================================================
+  describe('POST /v1/agents/:id/verify/github', () => {
+    beforeEach(() => {
+      fetchMock.activate();
+      fetchMock.disableNetConnect();
+    });
+
+    afterEach(() => {
+      fetchMock.deactivate();
+    });
+
+    it('links the GitHub account', async () => {
+      const github = fetchMock.get('https://api.github.com');
+      github.intercept({ path: '/users/octo' }).reply(200, JSON.stringify({
+        login: 'Octo', created_at: TWO_YEARS_AGO, followers: 3, public_repos: 1,
+      }));
+      github.intercept({ path: '/gists/abc123' }).reply(200, JSON.stringify({
+        owner: { login: 'Octo' },
+        files: { 'moltid.md': { content: agent.verification_code } },
+      }));
+
+      const res = await appRequest('POST', `/v1/agents/${agent.id}/verify/github`, {
+        username: 'octo',
+        gist_id: 'abc123',
+      });
+
+      expect(res.status).toBe(200);
+      const json = (await res.json()) as ApiResponse<{ account: LinkedAccount }>;
+      expect(json.data!.account.provider).toBe('github');
+      expect(json.data!.account.reputation.followers).toBe(3);
+    });
+
+    it('validates the request body', async () => {
+      const res = await appRequest('POST', `/v1/agents/${agent.id}/verify/github`, { username: 'octo' });
+
+      expect(res.status).toBe(400);
+      const json = (await res.json()) as ErrorResponse;
+      expect(json.error.code).toBe('invalid_request');
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Graph trust tests
+ *
+ * Tests for GraphTrustService (EigenTrust over the vouch graph), the
+ * graph_trust factor in TrustService, and the scheduled graph trust job.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env, createScheduledController } from 'cloudflare:test';
+import worker from '../src/index';
+import { AgentService } from '../src/services/agent';
+import { GRAPH_TRUST_JOB, GraphTrustService } from '../src/services/graph';
+import { DEFAULT_TRUST_POLICY } from '../src/services/policy';
+import { TrustService } from '../src/services/trust';
+import { setupTestDb, cleanupTestDb, createTestAgent, createTestVouch } from './setup';
+
+const sum = (scores: Map<string, number>) => [...scores.values()].reduce((a, b) => a + b, 0);
+
+describe('Graph trust', () => {
+  let graphService: GraphTrustService;
+
+  beforeEach(async () => {
+    await setupTestDb(env.DB);
+    await cleanupTestDb(env.DB);
+    graphService = new GraphTrustService(env.DB, DEFAULT_TRUST_POLICY);
+  });
+
+  // ============================================================
+  // compute tests
+  // ============================================================
+  describe('compute', () => {
+    it('splits trust equally between verified agents with no vouches', () => {
+      const { scores } = graphService.compute(
+        [{ id: 'a', pretrusted: true }, { id: 'b', pretrusted: true }, { id: 'c', pretrusted: false }],
+        []
+      );
+
+      expect(scores.get('a')).toBeCloseTo(0.5);
+      expect(scores.get('b')).toBeCloseTo(0.5);
+      expect(scores.get('c')).toBe(0);
+    });
+
+    it('weights a vouch by the voucher\'s own trust', () => {
+      // "top" is vouched for by five verified agents; "fresh" by no one
+      const nodes = [
+        { id: 'top', pretrusted: true },
+        { id: 'fresh', pretrusted: true },
+        ...[1, 2, 3, 4, 5].map((i) => ({ id: `fan${i}`, pretrusted: true })),
+        { id: 'x', pretrusted: false },
+        { id: 'y', pretrusted: false },
+      ];
+      const edges: [string, string][] = [
+        ...[1, 2, 3, 4, 5].map((i): [string, string] => [`fan${i}`, 'top']),
+        ['top', 'x'],
+        ['fresh', 'y'],
+      ];
+
+      const { scores } = graphService.compute(nodes, edges);
+
+      expect(scores.get('x')!).toBeGreaterThan(scores.get('y')! * 2);
+      expect(sum(scores)).toBeCloseTo(1);
+    });
+
+    it('gives a ring of unverified agents no trust', () => {
+      const { scores } = graphService.compute(
+        [
+          { id: 'v', pretrusted: true },
+          { id: 'r1', pretrusted: false },
+          { id: 'r2', pretrusted: false },
+          { id: 'r3', pretrusted: false },
+        ],
+        [['r1', 'r2'], ['r2', 'r3'], ['r3', 'r1']]
+      );
+
+      expect(scores.get('r1')).toBe(0);
+      expect(scores.get('v')).toBeCloseTo(1);
+    });
+
+    it('ignores self-vouches', () => {
+      const { scores } = graphService.compute(
+        [{ id: 'a', pretrusted: true }, { id: 'b', pretrusted: true }],
+        [['a', 'a']]
+      );
+
+      expect(scores.get('a')).toBeCloseTo(scores.get('b')!);
+    });
+  });
+
+  // ============================================================
+  // run tests
+  // ============================================================
+  describe('run', () => {
+    beforeEach(async () => {
+      await createTestAgent(env.DB, { id: 'mlt_graph_a', moltbook_verified: true });
+      await createTestAgent(env.DB, { id: 'mlt_graph_b', moltbook_verified: true });
+      await createTestAgent(env.DB, { id: 'mlt_graph_c' });
+      await createTestVouch(env.DB, 'mlt_graph_a', 'mlt_graph_c');
+    });
+
+    it('stores normalized graph trust for every agent', async () => {
+      const result = await graphService.run();
+
+      expect(result).toMatchObject({ agents: 3, vouches: 1 });
+      const rows = await env.DB.prepare('SELECT agent_id, score, normalized, run_id FROM graph_trust ORDER BY agent_id')
+        .all<{ agent_id: string; score: number; normalized: number; run_id: string }>();
+      expect(rows.results).toHaveLength(3);
+      expect(Math.max(...rows.results.map((r) => r.normalized))).toBe(1);
+      expect(rows.results.every((r) => r.run_id === result.run_id)).toBe(true);
+
+      const state = await env.DB.prepare('SELECT run_id, last_completed_at FROM job_state WHERE name = ?')
+        .bind(GRAPH_TRUST_JOB).first<{ run_id: string; last_completed_at: string }>();
+      expect(state!.run_id).toBe(result.run_id);
+    });
+
+    it('is reported as a factor but not counted by default', async () => {
+      await graphService.run();
+      const agent = (await new AgentService(env.DB).getById('mlt_graph_c'))!;
+      const trustService = new TrustService(env.DB);
+
+      const details = await trustService.getDetails(agent);
+
+      expect(details.factors.graph_trust).toBeGreaterThan(0);
+      expect(details.explanation.factors.graph_trust.counted).toBe(false);
+      expect(details.explanation.factors.graph_trust.computed_at).not.toBeNull();
+      // One verified vouch only: 5 points
+      expect(details.computed_score).toBe(5);
+    });
+
+    it('counts toward the score when the policy enables it', async () => {
+      await graphService.run();
+      const policy = { ...DEFAULT_TRUST_POLICY, graph_trust: { ...DEFAULT_TRUST_POLICY.graph_trust, enabled: true } };
+      const trustService = new TrustService(env.DB, policy);
+      const agent = (await new AgentService(env.DB).getById('mlt_graph_c'))!;
+
+      const explanation = await trustService.explain(agent);
+
+      expect(explanation.score).toBe(5 + explanation.factors.graph_trust.points);
+    });
+
+    it('reports no input before the first run', async () => {
+      const agent = (await new AgentService(env.DB).getById('mlt_graph_c'))!;
+
+      const explanation = await new TrustService(env.DB).explain(agent);
+
+      expect(explanation.factors.graph_trust).toMatchObject({ input: null, points: 0, computed_at: null });
+    });
+  });
+
+  // ============================================================
+  // Scheduled handler tests
+  // ============================================================
+  describe('scheduled', () => {
+    it('runs the graph trust job on the graph trust cron', async () => {
+      await createTestAgent(env.DB, { id: 'mlt_graph_cron', moltbook_verified: true });
+
+      await worker.scheduled(createScheduledController({ scheduledTime: Date.now(), cron: '0 3 * * *' }), env);
+
+      const row = await env.DB.prepare('SELECT normalized FROM graph_trust WHERE agent_id = ?')
+        .bind('mlt_graph_cron').first<{ normalized: number }>();
+      expect(row!.normalized).toBe(1);
+      const refresh = await env.DB.prepare("SELECT COUNT(*) AS count FROM job_state WHERE name = 'trust_refresh'")
+        .first<{ count: number }>();
+      expect(refresh!.count).toBe(0);
+    });
+  });
+});
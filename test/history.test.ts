@@ -0,0 +1,229 @@
+/**
+ * Trust history tests
+ *
+ * Tests for trust snapshots written by TrustService.rescore and the refresh
+ * job, TrustHistoryService bucketing, and GET /v1/agents/:id/trust/history.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env } from 'cloudflare:test';
+import { TrustHistoryService } from '../src/services/history';
+import { RefreshService } from '../src/services/refresh';
+import { TrustService } from '../src/services/trust';
+import { MockMoltbook } from './mocks/moltbook';
+import {
+  setupTestDb,
+  cleanupTestDb,
+  createTestAgent,
+  createTestKeyPair,
+  signedAppRequest,
+  appRequest,
+} from './setup';
+import type { ApiResponse, TrustHistoryBucket, TrustSnapshot } from '../src/types';
+
+interface ErrorResponse {
+  success: false;
+  error: { code: string; message: string };
+}
+
+interface HistoryResponse<TPoint> {
+  agent_id: string;
+  from: string;
+  to: string;
+  bucket: string;
+  starting_score: number | null;
+  points: TPoint[];
+}
+
+/**
+ * Insert a snapshot at a fixed time.
+ */
+async function insertSnapshot(agentId: string, score: number, createdAt: string): Promise<void> {
+  await env.DB.prepare(`
+    INSERT INTO trust_snapshots (id, agent_id, score, factors, policy_version, trigger, created_at)
+    VALUES (?, ?, ?, '{}', '1', 'vouch', ?)
+  `).bind(`tsn_${createdAt}`, agentId, score, createdAt).run();
+}
+
+describe('Trust history', () => {
+  let historyService: TrustHistoryService;
+  let agentId: string;
+
+  beforeEach(async () => {
+    await setupTestDb(env.DB);
+    await cleanupTestDb(env.DB);
+    historyService = new TrustHistoryService(env.DB);
+    // 20 (verified) + 30 (karma)
+    agentId = await createTestAgent(env.DB, {
+      id: 'mlt_history',
+      moltbook_username: 'alice_agent',
+      moltbook_verified: true,
+      moltbook_karma: 3000,
+      status: 'active',
+    });
+  });
+
+  async function snapshots(): Promise<TrustSnapshot[]> {
+    return historyService.list(agentId, { from: '2000-01-01T00:00:00.000Z', to: '2100-01-01T00:00:00.000Z' });
+  }
+
+  // ============================================================
+  // Snapshot tests
+  // ============================================================
+  describe('snapshots', () => {
+    it('records a snapshot when rescoring changes the score', async () => {
+      const score = await new TrustService(env.DB).rescore(agentId, 'verify');
+
+      expect(score).toBe(50);
+      const [snapshot, ...rest] = await snapshots();
+      expect(rest).toHaveLength(0);
+      expect(snapshot).toMatchObject({
+        agent_id: agentId,
+        score: 50,
+        policy_version: '1',
+        trigger: 'verify',
+      });
+      expect(snapshot.factors).toMatchObject({ moltbook_verified: 20, karma: 30, vouches: 0, reports: 0 });
+    });
+
+    it('records nothing when the score is unchanged', async () => {
+      const trustService = new TrustService(env.DB);
+      await trustService.rescore(agentId, 'verify');
+
+      await trustService.rescore(agentId, 'vouch');
+
+      expect(await snapshots()).toHaveLength(1);
+    });
+
+    it('records vouches with the vouch trigger', async () => {
+      const keys = await createTestKeyPair();
+      const voucherId = await createTestAgent(env.DB, {
+        id: 'mlt_history_voucher',
+        public_key: keys.publicKey,
+        moltbook_verified: true,
+      });
+
+      await signedAppRequest('POST', `/v1/agents/${agentId}/vouch`, voucherId, keys, { from_agent_id: voucherId });
+
+      const [snapshot] = await snapshots();
+      expect(snapshot).toMatchObject({ score: 55, trigger: 'vouch' });
+    });
+
+    it('records refresh changes with the cron trigger', async () => {
+      const moltbook = new MockMoltbook();
+
+      await new RefreshService(env.DB, env, moltbook.client()).runBatch();
+
+      // alice_agent has 2500 karma in the mock: 20 + 25
+      const [snapshot] = await snapshots();
+      expect(snapshot).toMatchObject({ score: 45, trigger: 'cron' });
+    });
+  });
+
+  // ============================================================
+  // Bucketing tests
+  // ============================================================
+  describe('buckets', () => {
+    const range = { from: '2026-03-01T00:00:00.000Z', to: '2026-04-01T00:00:00.000Z' };
+
+    beforeEach(async () => {
+      await insertSnapshot(agentId, 20, '2026-02-27T10:00:00.000Z');
+      await insertSnapshot(agentId, 30, '2026-03-02T09:00:00.000Z');
+      await insertSnapshot(agentId, 25, '2026-03-02T09:30:00.000Z');
+      await insertSnapshot(agentId, 40, '2026-03-02T18:00:00.000Z');
+      await insertSnapshot(agentId, 45, '2026-03-10T12:00:00.000Z');
+    });
+
+    it('keeps the last score per day with the range of scores', async () => {
+      const buckets = await historyService.buckets(agentId, range, 'day');
+
+      expect(buckets).toEqual([
+        { bucket_start: '2026-03-02T00:00:00.000Z', score: 40, min_score: 25, max_score: 40, changes: 3 },
+        { bucket_start: '2026-03-10T00:00:00.000Z', score: 45, min_score: 45, max_score: 45, changes: 1 },
+      ]);
+    });
+
+    it('groups by hour and by week (starting Monday)', async () => {
+      const hours = await historyService.buckets(agentId, range, 'hour');
+      const weeks = await historyService.buckets(agentId, range, 'week');
+
+      expect(hours.map((b) => [b.bucket_start, b.score])).toEqual([
+        ['2026-03-02T09:00:00.000Z', 25],
+        ['2026-03-02T18:00:00.000Z', 40],
+        ['2026-03-10T12:00:00.000Z', 45],
+      ]);
+      // 2026-03-02 and 2026-03-09 are Mondays
+      expect(weeks.map((b) => [b.bucket_start, b.changes])).toEqual([
+        ['2026-03-02T00:00:00.000Z', 3],
+        ['2026-03-09T00:00:00.000Z', 1],
+      ]);
+    });
+
+    it('finds the score at the start of a range', async () => {
+      expect(await historyService.scoreAt(agentId, range.from)).toBe(20);
+      expect(await historyService.scoreAt(agentId, '2026-01-01T00:00:00.000Z')).toBeNull();
+    });
+  });
+
+  // ============================================================
+  // API tests
+  // ============================================================
+  describe('GET /v1/agents/:id/trust/history', () => {
+    beforeEach(async () => {
+      await insertSnapshot(agentId, 20, '2026-02-27T10:00:00.000Z');
+      await insertSnapshot(agentId, 30, '2026-03-02T09:00:00.000Z');
+      await insertSnapshot(agentId, 40, '2026-03-02T18:00:00.000Z');
+    });
+
+    it('returns daily buckets for a date range', async () => {
+      const res = await appRequest(
+        'GET', `/v1/agents/${agentId}/trust/history?from=2026-03-01T00:00:00Z&to=2026-03-08T00:00:00Z`
+      );
+
+      expect(res.status).toBe(200);
+      const json = (await res.json()) as ApiResponse<HistoryResponse<TrustHistoryBucket>>;
+      expect(json.data).toEqual({
+        agent_id: agentId,
+        from: '2026-03-01T00:00:00.000Z',
+        to: '2026-03-08T00:00:00.000Z',
+        bucket: 'day',
+        starting_score: 20,
+        points: [{ bucket_start: '2026-03-02T00:00:00.000Z', score: 40, min_score: 30, max_score: 40, changes: 2 }],
+      });
+    });
+
+    it('returns raw snapshots without bucketing', async () => {
+      const res = await appRequest(
+        'GET', `/v1/agents/${agentId}/trust/history?from=2026-03-01T00:00:00Z&to=2026-03-08T00:00:00Z&bucket=none`
+      );
+
+      const json = (await res.json()) as ApiResponse<HistoryResponse<TrustSnapshot>>;
+      expect(json.data!.points.map((p) => p.score)).toEqual([30, 40]);
+    });
+
+    it('defaults to the last 30 days', async () => {
+      await new TrustService(env.DB).rescore(agentId, 'verify');
+
+      const res = await appRequest('GET', `/v1/agents/${agentId}/trust/history`);
+
+      const json = (await res.json()) as ApiResponse<HistoryResponse<TrustHistoryBucket>>;
+      expect(json.data!.points).toHaveLength(1);
+      expect(json.data!.points[0].score).toBe(50);
+    });
+
+    it('rejects an empty range (400)', async () => {
+      const res = await appRequest(
+        'GET', `/v1/agents/${agentId}/trust/history?from=2026-03-08T00:00:00Z&to=2026-03-01T00:00:00Z`
+      );
+
+      expect(res.status).toBe(400);
+      expect(((await res.json()) as ErrorResponse).error.code).toBe('invalid_request');
+    });
+
+    it('returns 404 for unknown agents', async () => {
+      const res = await appRequest('GET', '/v1/agents/mlt_missing/trust/history');
+
+      expect(res.status).toBe(404);
+    });
+  });
+});
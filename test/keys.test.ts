@@ -0,0 +1,278 @@
+/**
+ * Key rotation tests
+ *
+ * Tests for KeyService history/validity windows and the
+ * /v1/agents/:id/keys routes.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env } from 'cloudflare:test';
+import { KeyService } from '../src/services/keys';
+import { AgentService } from '../src/services/agent';
+import {
+  setupTestDb,
+  cleanupTestDb,
+  createTestAgent,
+  createTestKeyPair,
+  signTestMessage,
+  appRequest,
+  signedAppRequest,
+  getTestAgent,
+  type TestKeyPair,
+} from './setup';
+import type { AgentKey, ApiResponse } from '../src/types';
+
+interface ErrorResponse {
+  success: false;
+  error: { code: string; message: string };
+}
+
+interface KeyCheckResponse {
+  valid: boolean;
+  at: string;
+  key: AgentKey | null;
+}
+
+describe('Key rotation', () => {
+  let keyService: KeyService;
+  let currentKeys: TestKeyPair;
+  let agentId: string;
+
+  beforeEach(async () => {
+    await setupTestDb(env.DB);
+    await cleanupTestDb(env.DB);
+    keyService = new KeyService(env.DB);
+    currentKeys = await createTestKeyPair();
+    agentId = await createTestAgent(env.DB, {
+      id: 'mlt_key_agent',
+      public_key: currentKeys.publicKey,
+      moltbook_verified: true,
+      status: 'active',
+      created_at: '2025-01-01T00:00:00.000Z',
+    });
+  });
+
+  // ============================================================
+  // KeyService tests
+  // ============================================================
+  describe('KeyService', () => {
+    it('records the registration key on create', async () => {
+      const keys = await createTestKeyPair();
+      const agent = await new AgentService(env.DB).create({ public_key: keys.publicKey });
+
+      const history = await keyService.getHistory(agent.id);
+
+      expect(history).toHaveLength(1);
+      expect(history[0].public_key).toBe(keys.publicKey);
+      expect(history[0].added_via).toBe('registration');
+      expect(history[0].valid_until).toBeNull();
+    });
+
+    it('closes the old window and opens a new one on rotate', async () => {
+      const next = await createTestKeyPair();
+
+      await keyService.rotate(agentId, next.publicKey, 'signature');
+      const history = await keyService.getHistory(agentId);
+      const agent = await getTestAgent(env.DB, agentId);
+
+      expect(history).toHaveLength(2);
+      expect(history[0].public_key).toBe(next.publicKey);
+      expect(history[0].valid_until).toBeNull();
+      expect(history[1].public_key).toBe(currentKeys.publicKey);
+      expect(history[1].valid_until).not.toBeNull();
+      expect(agent!.public_key).toBe(next.publicKey);
+    });
+
+    it('keeps old keys valid for times before the rotation', async () => {
+      const next = await createTestKeyPair();
+      await keyService.rotate(agentId, next.publicKey, 'signature');
+
+      const before = await keyService.findValidAt(agentId, currentKeys.publicKey, '2025-06-01T00:00:00Z');
+      const after = await keyService.findValidAt(agentId, currentKeys.publicKey, new Date(Date.now() + 1000).toISOString());
+
+      expect(before).not.toBeNull();
+      expect(after).toBeNull();
+    });
+
+    it('does not treat a key as valid before it was registered', async () => {
+      const found = await keyService.findValidAt(agentId, currentKeys.publicKey, '2024-06-01T00:00:00Z');
+
+      expect(found).toBeNull();
+    });
+
+    it('marks the key revoked and clears the agent key on revoke', async () => {
+      await keyService.revoke(agentId, 'compromised');
+      const [key] = await keyService.getHistory(agentId);
+      const agent = await getTestAgent(env.DB, agentId);
+
+      expect(key.revoked_at).not.toBeNull();
+      expect(key.revocation_reason).toBe('compromised');
+      expect(agent!.public_key).toBeNull();
+    });
+
+    it('binds Moltbook rotation codes to the new key', async () => {
+      const a = await KeyService.moltbookRotationCode(agentId, 'key-a');
+      const b = await KeyService.moltbookRotationCode(agentId, 'key-b');
+
+      expect(a).toMatch(/^moltid-rotate:mlt_key_agent:[0-9a-f]{16}$/);
+      expect(a).not.toBe(b);
+    });
+  });
+
+  // ============================================================
+  // POST /v1/agents/:id/keys/rotate
+  // ============================================================
+  describe('POST /v1/agents/:id/keys/rotate', () => {
+    async function rotateBody(next: TestKeyPair, method?: string) {
+      return {
+        new_public_key: next.publicKey,
+        proof: await signTestMessage(next, KeyService.proofMessage(agentId, next.publicKey)),
+        ...(method ? { method } : {}),
+      };
+    }
+
+    it('rotates when signed by the current key (200)', async () => {
+      const next = await createTestKeyPair('ES256');
+
+      const res = await signedAppRequest('POST', `/v1/agents/${agentId}/keys/rotate`, agentId, currentKeys, await rotateBody(next));
+
+      expect(res.status).toBe(200);
+      const json = await res.json() as ApiResponse<{ rotated: boolean; key: AgentKey }>;
+      expect(json.data!.rotated).toBe(true);
+      expect(json.data!.key.public_key).toBe(next.publicKey);
+      expect(json.data!.key.added_via).toBe('signature');
+    });
+
+    it('lets the new key sign subsequent requests', async () => {
+      const next = await createTestKeyPair();
+      await signedAppRequest('POST', `/v1/agents/${agentId}/keys/rotate`, agentId, currentKeys, await rotateBody(next));
+
+      const oldKeyRes = await signedAppRequest('PATCH', `/v1/agents/${agentId}`, agentId, currentKeys, { capabilities: ['x'] });
+      const newKeyRes = await signedAppRequest('PATCH', `/v1/agents/${agentId}`, agentId, next, { capabilities: ['x'] });
+
+      expect(oldKeyRes.status).toBe(401);
+      expect(newKeyRes.status).toBe(200);
+    });
+
+    it('requires a signature for the signature method (401)', async () => {
+      const next = await createTestKeyPair();
+
+      const res = await appRequest('POST', `/v1/agents/${agentId}/keys/rotate`, await rotateBody(next));
+
+      expect(res.status).toBe(401);
+      const json = await res.json() as ErrorResponse;
+      expect(json.error.code).toBe('signature_required');
+    });
+
+    it('rejects a proof not signed by the new key (400)', async () => {
+      const next = await createTestKeyPair();
+      const body = {
+        new_public_key: next.publicKey,
+        proof: await signTestMessage(currentKeys, KeyService.proofMessage(agentId, next.publicKey)),
+      };
+
+      const res = await signedAppRequest('POST', `/v1/agents/${agentId}/keys/rotate`, agentId, currentKeys, body);
+
+      expect(res.status).toBe(400);
+      const json = await res.json() as ErrorResponse;
+      expect(json.error.code).toBe('invalid_proof');
+    });
+
+    it('rejects unsupported keys (400)', async () => {
+      const res = await signedAppRequest('POST', `/v1/agents/${agentId}/keys/rotate`, agentId, currentKeys, {
+        new_public_key: 'pk_not_a_real_key',
+        proof: 'AAAA',
+      });
+
+      expect(res.status).toBe(400);
+      const json = await res.json() as ErrorResponse;
+      expect(json.error.code).toBe('invalid_public_key');
+    });
+
+    it('rejects another agent signing the rotation (403)', async () => {
+      const otherKeys = await createTestKeyPair();
+      const otherId = await createTestAgent(env.DB, { id: 'mlt_key_other', public_key: otherKeys.publicKey });
+      const next = await createTestKeyPair();
+
+      const res = await signedAppRequest('POST', `/v1/agents/${agentId}/keys/rotate`, otherId, otherKeys, await rotateBody(next));
+
+      expect(res.status).toBe(403);
+    });
+
+    it('requires a verified Moltbook account for the moltbook method (400)', async () => {
+      const keylessId = await createTestAgent(env.DB, { id: 'mlt_key_keyless' });
+      const next = await createTestKeyPair();
+      const body = {
+        new_public_key: next.publicKey,
+        proof: await signTestMessage(next, KeyService.proofMessage(keylessId, next.publicKey)),
+        method: 'moltbook',
+      };
+
+      const res = await appRequest('POST', `/v1/agents/${keylessId}/keys/rotate`, body);
+
+      expect(res.status).toBe(400);
+      const json = await res.json() as ErrorResponse;
+      expect(json.error.code).toBe('no_moltbook');
+    });
+  });
+
+  // ============================================================
+  // POST /v1/agents/:id/keys/revoke
+  // ============================================================
+  describe('POST /v1/agents/:id/keys/revoke', () => {
+    it('revokes the current key when signed (200)', async () => {
+      const res = await signedAppRequest('POST', `/v1/agents/${agentId}/keys/revoke`, agentId, currentKeys, {
+        reason: 'lost laptop',
+      });
+
+      expect(res.status).toBe(200);
+      const agent = await getTestAgent(env.DB, agentId);
+      expect(agent!.public_key).toBeNull();
+    });
+
+    it('returns 400 when there is no key to revoke', async () => {
+      const keylessId = await createTestAgent(env.DB, { id: 'mlt_key_none' });
+
+      const res = await appRequest('POST', `/v1/agents/${keylessId}/keys/revoke`, {});
+
+      expect(res.status).toBe(400);
+      const json = await res.json() as ErrorResponse;
+      expect(json.error.code).toBe('no_public_key');
+    });
+  });
+
+  // ============================================================
+  // GET /v1/agents/:id/keys and /keys/check
+  // ============================================================
+  describe('GET /v1/agents/:id/keys', () => {
+    it('returns key history (200)', async () => {
+      const res = await appRequest('GET', `/v1/agents/${agentId}/keys`);
+
+      expect(res.status).toBe(200);
+      const json = await res.json() as ApiResponse<AgentKey[]>;
+      expect(json.data).toHaveLength(1);
+    });
+
+    it('returns 404 for unknown agent', async () => {
+      const res = await appRequest('GET', '/v1/agents/mlt_nonexistent_999/keys');
+
+      expect(res.status).toBe(404);
+    });
+
+    it('reports whether a key was valid at a given time', async () => {
+      const key = encodeURIComponent(currentKeys.publicKey);
+
+      const valid = await appRequest('GET', `/v1/agents/${agentId}/keys/check?public_key=${key}&at=2025-03-01T00:00:00Z`);
+      const tooEarly = await appRequest('GET', `/v1/agents/${agentId}/keys/check?public_key=${key}&at=2024-03-01T00:00:00Z`);
+
+      expect(((await valid.json()) as ApiResponse<KeyCheckResponse>).data!.valid).toBe(true);
+      expect(((await tooEarly.json()) as ApiResponse<KeyCheckResponse>).data!.valid).toBe(false);
+    });
+
+    it('requires public_key for the check (400)', async () => {
+      const res = await appRequest('GET', `/v1/agents/${agentId}/keys/check`);
+
+      expect(res.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,23 @@
+/**
+ * Standalone mock Moltbook for local development
+ *
+ * Run it next to `npm run dev` and point MoltID at it:
+ *   npm run mock:moltbook                 # serves on http://localhost:8788
+ *   MOLTBOOK_BASE_URL = "http://localhost:8788" in wrangler.toml [vars]
+ *
+ * Then "post" a verification code as a fixture user:
+ *   curl -X POST http://localhost:8788/api/v1/users/alice_agent/posts \
+ *     -H "Content-Type: application/json" -d '{"content": "moltid-verify:mlt_xxx"}'
+ *
+ * State lives in memory and resets when the server restarts.
+ */
+
+import { MockMoltbook } from './moltbook';
+
+const moltbook = new MockMoltbook();
+
+export default {
+  fetch(request: Request): Promise<Response> {
+    return moltbook.fetch(request);
+  },
+};
@@ -0,0 +1,150 @@
+/**
+ * Mock Moltbook server for tests and local development
+ *
+ * Implements the slice of Moltbook that MoltID uses:
+ * - GET  /api/v1/users/:username              -> { username, karma }
+ * - GET  /api/v1/users/:username/posts?limit= -> [{ id, content, created_at }], newest first
+ * - GET  /u/:username/posts                   -> HTML posts page (the scraping fallback)
+ * - POST /api/v1/users/:username/posts        -> create a post (mock only, so agents can "post")
+ *
+ * Set `apiDown` to make the /api routes return 503 and exercise the fallback.
+ * Tests serve it to the worker through fetchMock with `installMockMoltbook`
+ * (test/setup.ts); moltbook-server.ts runs it under wrangler for local dev.
+ */
+
+import { HttpMoltbookClient, type MoltbookClient } from '../../src/providers';
+
+export interface MockMoltbookUser {
+  username: string;
+  karma: number;
+  posts: string[]; // Oldest first
+}
+
+export interface MockResponse {
+  status: number;
+  body: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * Fixture accounts. Karma matches the SAMPLE_AGENTS with the same usernames.
+ */
+export const MOLTBOOK_FIXTURES: MockMoltbookUser[] = [
+  { username: 'alice_agent', karma: 2500, posts: ['Hello Moltbook!'] },
+  { username: 'bob_agent', karma: 800, posts: [] },
+  { username: 'charlie_agent', karma: 1000, posts: ['Shipping a new skill today'] },
+  { username: 'newcomer', karma: 0, posts: [] },
+];
+
+// Post timestamps are synthetic: one minute apart from this point
+const POSTS_EPOCH = Date.UTC(2026, 0, 1);
+
+export class MockMoltbook {
+  users = new Map<string, MockMoltbookUser>();
+  apiDown = false;
+  requests: string[] = []; // "METHOD /path" of every request served
+
+  constructor(fixtures: MockMoltbookUser[] = MOLTBOOK_FIXTURES) {
+    for (const user of fixtures) {
+      this.users.set(user.username, { ...user, posts: [...user.posts] });
+    }
+  }
+
+  /**
+   * Add (or replace) an account.
+   */
+  addUser(username: string, karma: number = 0): MockMoltbookUser {
+    const user = { username, karma, posts: [] };
+    this.users.set(username, user);
+    return user;
+  }
+
+  /**
+   * Publish a post as a user, creating the account if needed.
+   */
+  post(username: string, content: string): void {
+    (this.users.get(username) ?? this.addUser(username)).posts.push(content);
+  }
+
+  /**
+   * Serve a request synchronously (fetchMock reply callbacks can't be async).
+   * @param method - HTTP method
+   * @param path - Path including query string
+   * @param body - Raw request body, if any
+   */
+  handle(method: string, path: string, body?: string): MockResponse {
+    this.requests.push(`${method} ${path}`);
+    const url = new URL(path, 'http://moltbook.mock');
+    const api = url.pathname.match(/^\/api\/v1\/users\/([^/]+)(\/posts)?$/);
+    const page = url.pathname.match(/^\/u\/([^/]+)\/posts$/);
+
+    if (api && this.apiDown) {
+      return json(503, { error: 'Service unavailable' });
+    }
+
+    if (api) {
+      const username = decodeURIComponent(api[1]);
+      const user = this.users.get(username);
+
+      if (api[2] && method === 'POST') {
+        const { content } = JSON.parse(body || '{}') as { content?: string };
+        if (!content) return json(400, { error: 'content is required' });
+        this.post(username, content);
+        return json(201, { ok: true });
+      }
+
+      if (!user) return json(404, { error: 'User not found' });
+      if (!api[2]) return json(200, { username: user.username, karma: user.karma });
+
+      const limit = parseInt(url.searchParams.get('limit') || '10');
+      const posts = user.posts
+        .map((content, i) => ({ id: `post_${i + 1}`, content, created_at: new Date(POSTS_EPOCH + i * 60_000).toISOString() }))
+        .reverse()
+        .slice(0, limit);
+      return json(200, posts);
+    }
+
+    if (page && method === 'GET') {
+      const user = this.users.get(decodeURIComponent(page[1]));
+      if (!user) return { status: 404, body: 'Not found', headers: { 'Content-Type': 'text/html' } };
+
+      const posts = user.posts.map((content) => `<article class="post">${escapeHtml(content)}</article>`).join('');
+      return {
+        status: 200,
+        body: `<html><body><h1>${user.username}</h1><p>Karma: ${user.karma}</p>${posts}</body></html>`,
+        headers: { 'Content-Type': 'text/html' },
+      };
+    }
+
+    return json(404, { error: 'Not found' });
+  }
+
+  /**
+   * Serve a Request (for use as a fetch implementation or worker handler).
+   */
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const body = request.method === 'GET' ? undefined : await request.text();
+    const { status, body: responseBody, headers } = this.handle(request.method, url.pathname + url.search, body);
+    return new Response(responseBody, { status, headers });
+  }
+
+  /**
+   * A real HttpMoltbookClient whose requests are served by this mock.
+   */
+  client(options: { retries?: number } = {}): MoltbookClient {
+    return new HttpMoltbookClient({
+      baseUrl: 'https://moltbook.mock',
+      retries: options.retries ?? 0,
+      fetch: (input, init) => this.fetch(new Request(input, init)),
+    });
+  }
+}
+
+function json(status: number, data: unknown): MockResponse {
+  return { status, body: JSON.stringify(data), headers: { 'Content-Type': 'application/json' } };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
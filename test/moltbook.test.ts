@@ -0,0 +1,183 @@
+/**
+ * Moltbook verification tests
+ *
+ * Tests for HttpMoltbookClient and MoltbookProvider against the mock Moltbook
+ * in test/mocks, and the full register -> post -> verify flow through the API.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { env, fetchMock } from 'cloudflare:test';
+import { HttpMoltbookClient, MoltbookProvider } from '../src/providers';
+import { MockMoltbook } from './mocks/moltbook';
+import { setupTestDb, cleanupTestDb, appRequest, installMockMoltbook } from './setup';
+import type { Agent, AgentPublic, ApiResponse, LinkedAccount } from '../src/types';
+
+interface ErrorResponse {
+  success: false;
+  error: { code: string; message: string };
+}
+
+interface VerifyResponse {
+  verified: boolean;
+  account: LinkedAccount;
+  trust_score: number;
+  agent: AgentPublic;
+}
+
+describe('Moltbook verification', () => {
+  let moltbook: MockMoltbook;
+
+  beforeEach(async () => {
+    await setupTestDb(env.DB);
+    await cleanupTestDb(env.DB);
+    moltbook = new MockMoltbook();
+  });
+
+  // ============================================================
+  // HttpMoltbookClient tests
+  // ============================================================
+  describe('HttpMoltbookClient', () => {
+    it('uses the configured base URL and user agent', async () => {
+      const seen: Request[] = [];
+      const client = new HttpMoltbookClient({
+        baseUrl: 'https://staging.moltbook.test/',
+        userAgent: 'MoltID-Staging/2.0',
+        fetch: async (input, init) => {
+          const request = new Request(input, init);
+          seen.push(request);
+          return moltbook.fetch(request);
+        },
+      });
+
+      expect(await client.getKarma('alice_agent')).toBe(2500);
+      expect(seen[0].url).toBe('https://staging.moltbook.test/api/v1/users/alice_agent');
+      expect(seen[0].headers.get('User-Agent')).toBe('MoltID-Staging/2.0');
+    });
+
+    it('retries server errors up to the configured count', async () => {
+      let calls = 0;
+      const client = new HttpMoltbookClient({
+        retries: 2,
+        fetch: async (input, init) => {
+          calls++;
+          return calls < 3 ? new Response('busy', { status: 503 }) : moltbook.fetch(new Request(input, init));
+        },
+      });
+
+      expect(await client.getKarma('bob_agent')).toBe(800);
+      expect(calls).toBe(3);
+    });
+
+    it('does not retry client errors', async () => {
+      let calls = 0;
+      const client = new HttpMoltbookClient({
+        retries: 2,
+        fetch: async (input, init) => {
+          calls++;
+          return moltbook.fetch(new Request(input, init));
+        },
+      });
+
+      expect(await client.getKarma('nobody')).toBeNull();
+      expect(calls).toBe(1);
+    });
+
+    it('returns null for responses that are not the expected JSON', async () => {
+      const client = new HttpMoltbookClient({
+        fetch: async (input) => new URL(String(input)).pathname.endsWith('/posts')
+          ? Response.json({ posts: [] })
+          : new Response('<html>maintenance</html>', { status: 200 }),
+      });
+
+      expect(await client.getKarma('alice_agent')).toBeNull();
+      expect(await client.getRecentPosts('alice_agent', 10)).toBeNull();
+    });
+  });
+
+  // ============================================================
+  // MoltbookProvider tests
+  // ============================================================
+  describe('MoltbookProvider', () => {
+    const agent = {
+      id: 'mlt_mock_agent',
+      moltbook_username: 'alice_agent',
+      verification_code: 'moltid-verify:mlt_mock_agent',
+    } as Agent;
+
+    it('finds the code in recent posts and imports karma', async () => {
+      moltbook.post('alice_agent', `Verifying my MoltID: ${agent.verification_code}`);
+      const provider = new MoltbookProvider(moltbook.client());
+
+      const outcome = await provider.verify(agent);
+
+      expect(outcome.verified).toBe(true);
+      expect(outcome.verified && outcome.reputation).toEqual({ karma: 2500 });
+    });
+
+    it('falls back to the posts page when the API is down', async () => {
+      moltbook.post('alice_agent', agent.verification_code!);
+      moltbook.apiDown = true;
+      const provider = new MoltbookProvider(moltbook.client());
+
+      const result = await provider.checkPost('alice_agent', agent.verification_code);
+
+      expect(result).toEqual({ verified: true, karma: 2500 });
+      expect(moltbook.requests).toContain('GET /u/alice_agent/posts');
+    });
+
+    it('only looks at the most recent posts', async () => {
+      moltbook.post('alice_agent', agent.verification_code!);
+      for (let i = 0; i < 10; i++) moltbook.post('alice_agent', `post ${i}`);
+      const provider = new MoltbookProvider(moltbook.client());
+
+      expect((await provider.checkPost('alice_agent', agent.verification_code)).verified).toBe(false);
+    });
+  });
+
+  // ============================================================
+  // API tests
+  // ============================================================
+  describe('register -> post -> verify', () => {
+    beforeEach(() => {
+      installMockMoltbook(moltbook);
+    });
+
+    afterEach(() => {
+      fetchMock.deactivate();
+    });
+
+    it('verifies a newly registered agent once the code is posted', async () => {
+      const register = await appRequest('POST', '/v1/agents', { moltbook_username: 'charlie_agent' });
+      const agent = ((await register.json()) as ApiResponse<Agent>).data!;
+
+      const early = await appRequest('POST', `/v1/agents/${agent.id}/verify/moltbook`);
+      expect(early.status).toBe(400);
+      expect(((await early.json()) as ErrorResponse).error.code).toBe('verification_failed');
+
+      moltbook.post('charlie_agent', `Claiming my MoltID ${agent.verification_code}`);
+
+      const res = await appRequest('POST', `/v1/agents/${agent.id}/verify/moltbook`);
+      expect(res.status).toBe(200);
+      const json = (await res.json()) as ApiResponse<VerifyResponse>;
+      expect(json.data!.verified).toBe(true);
+      expect(json.data!.account.reputation).toEqual({ karma: 1000 });
+      expect(json.data!.agent.moltbook_verified).toBe(true);
+      expect(json.data!.agent.status).toBe('active');
+      // 20 (verified) + 10 (1000 karma)
+      expect(json.data!.trust_score).toBe(30);
+
+      const lookup = await appRequest('GET', '/v1/agents/moltbook/charlie_agent');
+      expect(((await lookup.json()) as ApiResponse<AgentPublic>).data!.moltbook_verified).toBe(true);
+    });
+
+    it('does not accept a code posted by a different account', async () => {
+      const register = await appRequest('POST', '/v1/agents', { moltbook_username: 'newcomer' });
+      const agent = ((await register.json()) as ApiResponse<Agent>).data!;
+      moltbook.post('bob_agent', agent.verification_code!);
+
+      const res = await appRequest('POST', `/v1/agents/${agent.id}/verify/moltbook`);
+
+      expect(res.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,365 @@
+/**
+ * OAuth tests
+ *
+ * Tests for OAuthService and the /v1/oauth "Sign in with MoltID" routes.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env } from 'cloudflare:test';
+import app from '../src/index';
+import { OAuthService } from '../src/services/oauth';
+import { decodeBase64, encodeBase64Url, sha256 } from '../src/utils/crypto';
+import {
+  setupTestDb,
+  cleanupTestDb,
+  createTestAgent,
+  createTestKeyPair,
+  signTestMessage,
+  appRequest,
+  type TestKeyPair,
+} from './setup';
+import type { ApiResponse } from '../src/types';
+
+interface ErrorResponse {
+  success: false;
+  error: { code: string; message: string };
+}
+
+interface TokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+  scope: string;
+  id_token?: string;
+}
+
+interface TokenError {
+  error: string;
+  error_description: string;
+}
+
+const REDIRECT_URI = 'https://app.example.com/callback';
+
+describe('OAuth', () => {
+  let oauthService: OAuthService;
+  let agentKeys: TestKeyPair;
+  let agentId: string;
+  let clientId: string;
+  let clientSecret: string;
+
+  beforeEach(async () => {
+    await setupTestDb(env.DB);
+    await cleanupTestDb(env.DB);
+    oauthService = new OAuthService(env.DB, env);
+    agentKeys = await createTestKeyPair();
+    agentId = await createTestAgent(env.DB, {
+      id: 'mlt_oauth_agent',
+      moltbook_username: 'signer',
+      moltbook_verified: true,
+      public_key: agentKeys.publicKey,
+      trust_score: 55,
+      status: 'active',
+    });
+
+    const registered = await oauthService.registerClient('Example App', [REDIRECT_URI]);
+    clientId = registered.client.id;
+    clientSecret = registered.client_secret;
+  });
+
+  function authorizePath(params: Record<string, string> = {}): string {
+    const query = new URLSearchParams({
+      response_type: 'code',
+      client_id: clientId,
+      redirect_uri: REDIRECT_URI,
+      agent_id: agentId,
+      state: 'xyz',
+      ...params,
+    });
+    return `/v1/oauth/authorize?${query}`;
+  }
+
+  /** Run the authorize steps and return the issued code. */
+  async function obtainCode(params: Record<string, string> = {}): Promise<string> {
+    const start = await appRequest('GET', authorizePath(params));
+    const { request_id, message } = ((await start.json()) as ApiResponse<{ request_id: string; message: string }>).data!;
+
+    const approve = await appRequest('POST', '/v1/oauth/authorize', {
+      request_id,
+      signature: await signTestMessage(agentKeys, message),
+    });
+    return ((await approve.json()) as ApiResponse<{ code: string }>).data!.code;
+  }
+
+  async function tokenRequest(fields: Record<string, string>, headers: Record<string, string> = {}): Promise<Response> {
+    return app.fetch(
+      new Request('http://localhost/v1/oauth/token', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded', ...headers },
+        body: new URLSearchParams(fields).toString(),
+      }),
+      env
+    );
+  }
+
+  function exchange(code: string, extra: Record<string, string> = {}): Promise<Response> {
+    return tokenRequest({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: REDIRECT_URI,
+      client_id: clientId,
+      client_secret: clientSecret,
+      ...extra,
+    });
+  }
+
+  // ============================================================
+  // OAuthService tests
+  // ============================================================
+  describe('OAuthService', () => {
+    it('stores only a hash of the client secret', async () => {
+      const row = await env.DB.prepare('SELECT secret_hash FROM oauth_clients WHERE id = ?')
+        .bind(clientId).first<{ secret_hash: string }>();
+
+      expect(clientSecret).toMatch(/^mcs_/);
+      expect(row!.secret_hash).not.toContain(clientSecret);
+    });
+
+    it('authenticates clients by secret', async () => {
+      expect((await oauthService.authenticateClient(clientId, clientSecret))?.id).toBe(clientId);
+      expect(await oauthService.authenticateClient(clientId, 'mcs_wrong')).toBeNull();
+    });
+
+    it('rejects access tokens issued for another audience', async () => {
+      const code = await obtainCode();
+      const tokens = (await (await exchange(code)).json()) as TokenResponse;
+
+      expect(await oauthService.verifyAccessToken(tokens.access_token)).not.toBeNull();
+      expect(await oauthService.verifyAccessToken(tokens.id_token!)).toBeNull();
+    });
+  });
+
+  // ============================================================
+  // API tests
+  // ============================================================
+  describe('POST /v1/oauth/clients', () => {
+    it('registers a client and returns its secret once', async () => {
+      const res = await appRequest('POST', '/v1/oauth/clients', {
+        name: 'Another App',
+        redirect_uris: ['https://another.example.com/cb'],
+      });
+
+      expect(res.status).toBe(201);
+      const json = (await res.json()) as ApiResponse<{ id: string; client_secret: string; redirect_uris: string[] }>;
+      expect(json.data!.id).toMatch(/^cli_/);
+      expect(json.data!.client_secret).toMatch(/^mcs_/);
+      expect(json.data!.redirect_uris).toEqual(['https://another.example.com/cb']);
+    });
+
+    it('rejects invalid redirect URIs', async () => {
+      const res = await appRequest('POST', '/v1/oauth/clients', { name: 'Bad', redirect_uris: ['not a url'] });
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('GET /v1/oauth/authorize', () => {
+    it('returns a challenge bound to the client', async () => {
+      const res = await appRequest('GET', authorizePath());
+
+      expect(res.status).toBe(200);
+      const json = (await res.json()) as ApiResponse<{ request_id: string; message: string; client: { name: string } }>;
+      expect(json.data!.request_id).toMatch(/^chl_/);
+      expect(json.data!.message).toContain(`oauth:${clientId}`);
+      expect(json.data!.client.name).toBe('Example App');
+    });
+
+    it('rejects an unregistered redirect_uri', async () => {
+      const res = await appRequest('GET', authorizePath({ redirect_uri: 'https://evil.example.com/cb' }));
+
+      expect(res.status).toBe(400);
+      const json = (await res.json()) as ErrorResponse;
+      expect(json.error.code).toBe('invalid_client');
+    });
+
+    it('rejects agents without a public key', async () => {
+      await createTestAgent(env.DB, { id: 'mlt_oauth_keyless' });
+      const res = await appRequest('GET', authorizePath({ agent_id: 'mlt_oauth_keyless' }));
+
+      expect(res.status).toBe(400);
+      const json = (await res.json()) as ErrorResponse;
+      expect(json.error.code).toBe('no_public_key');
+    });
+  });
+
+  describe('POST /v1/oauth/authorize', () => {
+    it('issues a code and redirect URL for a valid signature', async () => {
+      const start = await appRequest('GET', authorizePath());
+      const { request_id, message } = ((await start.json()) as ApiResponse<{ request_id: string; message: string }>).data!;
+
+      const res = await appRequest('POST', '/v1/oauth/authorize', {
+        request_id,
+        signature: await signTestMessage(agentKeys, message),
+      });
+
+      expect(res.status).toBe(200);
+      const json = (await res.json()) as ApiResponse<{ code: string; state: string; redirect_uri: string }>;
+      const redirect = new URL(json.data!.redirect_uri);
+      expect(redirect.origin + redirect.pathname).toBe(REDIRECT_URI);
+      expect(redirect.searchParams.get('code')).toBe(json.data!.code);
+      expect(redirect.searchParams.get('state')).toBe('xyz');
+    });
+
+    it('rejects a signature from another key', async () => {
+      const start = await appRequest('GET', authorizePath());
+      const { request_id, message } = ((await start.json()) as ApiResponse<{ request_id: string; message: string }>).data!;
+      const otherKeys = await createTestKeyPair();
+
+      const res = await appRequest('POST', '/v1/oauth/authorize', {
+        request_id,
+        signature: await signTestMessage(otherKeys, message),
+      });
+
+      expect(res.status).toBe(401);
+      const json = (await res.json()) as ErrorResponse;
+      expect(json.error.code).toBe('invalid_signature');
+    });
+  });
+
+  describe('POST /v1/oauth/token', () => {
+    it('exchanges a code for access and ID tokens', async () => {
+      const code = await obtainCode();
+      const res = await exchange(code);
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Cache-Control')).toBe('no-store');
+      const json = (await res.json()) as TokenResponse;
+      expect(json.token_type).toBe('Bearer');
+      expect(json.scope).toBe('openid');
+
+      const idClaims = JSON.parse(new TextDecoder().decode(decodeBase64(json.id_token!.split('.')[1])));
+      expect(idClaims.sub).toBe(agentId);
+      expect(idClaims.aud).toBe(clientId);
+      expect(idClaims.moltbook_username).toBe('signer');
+    });
+
+    it('accepts HTTP Basic client authentication', async () => {
+      const code = await obtainCode();
+      const res = await tokenRequest(
+        { grant_type: 'authorization_code', code, redirect_uri: REDIRECT_URI },
+        { Authorization: `Basic ${btoa(`${clientId}:${clientSecret}`)}` }
+      );
+
+      expect(res.status).toBe(200);
+    });
+
+    it('rejects malformed Basic credentials', async () => {
+      const code = await obtainCode();
+      const fields = { grant_type: 'authorization_code', code, redirect_uri: REDIRECT_URI };
+
+      const notBase64 = await tokenRequest(fields, { Authorization: 'Basic %%%' });
+      const badEncoding = await tokenRequest(fields, { Authorization: `Basic ${btoa(`${clientId}:%E0%A4%A`)}` });
+
+      for (const res of [notBase64, badEncoding]) {
+        expect(res.status).toBe(401);
+        expect(((await res.json()) as TokenError).error).toBe('invalid_client');
+      }
+    });
+
+    it('rejects a malformed JSON body', async () => {
+      const res = await app.fetch(
+        new Request('http://localhost/v1/oauth/token', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: '{"grant_type":',
+        }),
+        env
+      );
+
+      expect(res.status).toBe(400);
+      expect(((await res.json()) as TokenError).error).toBe('invalid_request');
+    });
+
+    it('rejects a wrong client secret', async () => {
+      const code = await obtainCode();
+      const res = await exchange(code, { client_secret: 'mcs_wrong' });
+
+      expect(res.status).toBe(401);
+      const json = (await res.json()) as TokenError;
+      expect(json.error).toBe('invalid_client');
+    });
+
+    it('rejects a reused code', async () => {
+      const code = await obtainCode();
+      await exchange(code);
+      const res = await exchange(code);
+
+      expect(res.status).toBe(400);
+      const json = (await res.json()) as TokenError;
+      expect(json.error).toBe('invalid_grant');
+    });
+
+    it('rejects a mismatched redirect_uri', async () => {
+      await oauthService.registerClient('Unused', ['https://app.example.com/other']);
+      const code = await obtainCode();
+      const res = await exchange(code, { redirect_uri: 'https://app.example.com/other' });
+
+      expect(res.status).toBe(400);
+      const json = (await res.json()) as TokenError;
+      expect(json.error).toBe('invalid_grant');
+    });
+
+    it('enforces PKCE when a code challenge was sent', async () => {
+      const verifier = 'a'.repeat(43) + '-verifier';
+      const challenge = encodeBase64Url(await sha256(verifier));
+      const code = await obtainCode({ code_challenge: challenge, code_challenge_method: 'S256' });
+
+      const wrong = await exchange(code, { code_verifier: 'b'.repeat(50) });
+      expect(wrong.status).toBe(400);
+
+      const code2 = await obtainCode({ code_challenge: challenge, code_challenge_method: 'S256' });
+      const right = await exchange(code2, { code_verifier: verifier });
+      expect(right.status).toBe(200);
+    });
+
+    it('rejects unsupported grant types', async () => {
+      const res = await tokenRequest({ grant_type: 'client_credentials' });
+
+      expect(res.status).toBe(400);
+      const json = (await res.json()) as TokenError;
+      expect(json.error).toBe('unsupported_grant_type');
+    });
+  });
+
+  describe('GET /v1/oauth/userinfo', () => {
+    it('returns the signed-in agent with trust details', async () => {
+      const code = await obtainCode();
+      const { access_token } = (await (await exchange(code)).json()) as TokenResponse;
+
+      const res = await appRequest('GET', '/v1/oauth/userinfo', undefined, { Authorization: `Bearer ${access_token}` });
+
+      expect(res.status).toBe(200);
+      const json = (await res.json()) as { sub: string; moltbook_username: string; trust: { score: number } };
+      expect(json.sub).toBe(agentId);
+      expect(json.moltbook_username).toBe('signer');
+      expect(typeof json.trust.score).toBe('number');
+    });
+
+    it('rejects a missing or invalid token', async () => {
+      const res = await appRequest('GET', '/v1/oauth/userinfo', undefined, { Authorization: 'Bearer nope' });
+
+      expect(res.status).toBe(401);
+      expect(res.headers.get('WWW-Authenticate')).toContain('invalid_token');
+    });
+  });
+
+  describe('GET /.well-known/openid-configuration', () => {
+    it('advertises the OAuth endpoints', async () => {
+      const res = await appRequest('GET', '/.well-known/openid-configuration');
+
+      expect(res.status).toBe(200);
+      const json = (await res.json()) as { issuer: string; token_endpoint: string; jwks_uri: string };
+      expect(json.issuer).toBe('https://api.moltid.test');
+      expect(json.token_endpoint).toBe('https://api.moltid.test/v1/oauth/token');
+      expect(json.jwks_uri).toBe('https://api.moltid.test/.well-known/jwks.json');
+    });
+  });
+});
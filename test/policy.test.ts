@@ -0,0 +1,252 @@
+/**
+ * Trust policy tests
+ *
+ * Tests for loading the active TrustPolicy (defaults, env, D1), scoring under
+ * a custom policy, GET /v1/trust/policy and storing policies through the
+ * admin API.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env } from 'cloudflare:test';
+import { DEFAULT_TRUST_POLICY, loadTrustPolicy, loadTrustPolicyVersion, mergeTrustPolicy } from '../src/services/policy';
+import { AgentService } from '../src/services/agent';
+import { TrustService } from '../src/services/trust';
+import { setupTestDb, cleanupTestDb, createTestAgent, appRequest } from './setup';
+import type { ApiResponse, TrustDetails, TrustPolicy } from '../src/types';
+
+async function insertPolicy(version: string, weights: object, active: boolean, activatedAt?: string): Promise<void> {
+  const now = new Date().toISOString();
+  await env.DB.prepare(
+    'INSERT INTO trust_policies (version, weights, active, activated_at, created_at) VALUES (?, ?, ?, ?, ?)'
+  ).bind(version, JSON.stringify(weights), active ? 1 : 0, active ? activatedAt ?? now : null, now).run();
+}
+
+interface ErrorResponse {
+  success: false;
+  error: { code: string; message: string };
+}
+
+const ADMIN = { Authorization: 'Bearer test-admin-token' };
+
+describe('Trust policy', () => {
+  beforeEach(async () => {
+    await setupTestDb(env.DB);
+    await cleanupTestDb(env.DB);
+  });
+
+  // ============================================================
+  // loadTrustPolicy tests
+  // ============================================================
+  describe('loadTrustPolicy', () => {
+    it('uses the default policy when nothing is configured', async () => {
+      expect(await loadTrustPolicy(env)).toEqual(DEFAULT_TRUST_POLICY);
+    });
+
+    it('enables the GitHub factor from TRUST_GITHUB_FACTOR', async () => {
+      const policy = await loadTrustPolicy({ ...env, TRUST_GITHUB_FACTOR: 'true' });
+
+      expect(policy.version).toBe('1+github');
+      expect(policy.github.enabled).toBe(true);
+    });
+
+    it('merges TRUST_POLICY over the defaults', async () => {
+      const policy = await loadTrustPolicy({
+        ...env,
+        TRUST_POLICY: JSON.stringify({ version: '2-env', vouches: { points_each: 10 } }),
+      });
+
+      expect(policy.version).toBe('2-env');
+      expect(policy.vouches).toEqual({ points_each: 10, max_points: 30, flagged_weight: 0.2 });
+      expect(policy.karma).toEqual(DEFAULT_TRUST_POLICY.karma);
+    });
+
+    it('prefers the most recently activated D1 policy over env', async () => {
+      await insertPolicy('2026-01', { moltbook_verified_points: 25 }, true, '2026-01-01T00:00:00.000Z');
+      await insertPolicy('2026-02', { moltbook_verified_points: 15 }, true, '2026-02-01T00:00:00.000Z');
+      await insertPolicy('draft', { moltbook_verified_points: 99 }, false);
+
+      const policy = await loadTrustPolicy({ ...env, TRUST_POLICY: JSON.stringify({ version: 'env' }) });
+
+      expect(policy.version).toBe('2026-02');
+      expect(policy.moltbook_verified_points).toBe(15);
+    });
+
+    it('rejects malformed policies', () => {
+      const merge = (override: object) => () => mergeTrustPolicy(DEFAULT_TRUST_POLICY, override, 'TRUST_POLICY');
+
+      expect(merge({ version: 'bad', karma: { karma_per_point: 0 } })).toThrow('karma.karma_per_point');
+      expect(merge({ version: 'bad', bonus: 5 })).toThrow('TRUST_POLICY');
+      expect(merge({ max_score: 50 })).toThrow('version');
+    });
+
+    it('rejects tier thresholds in the wrong order', () => {
+      const inverted = { version: 'bad', tiers: { trusted_min_score: 30 } };
+
+      expect(() => mergeTrustPolicy(DEFAULT_TRUST_POLICY, inverted, 'TRUST_POLICY')).toThrow(
+        'tiers.trusted_min_score: must be at least tiers.established_min_score'
+      );
+      expect(mergeTrustPolicy(DEFAULT_TRUST_POLICY, { ...inverted, tiers: { trusted_min_score: 40 } }, 'x').tiers)
+        .toEqual({ established_min_score: 40, trusted_min_score: 40 });
+    });
+
+    it('falls back to the base policy when the configured policy is malformed', async () => {
+      const invalid = { ...env, TRUST_POLICY: JSON.stringify({ version: 'bad', karma: { karma_per_point: 0 } }) };
+      const notJson = { ...env, TRUST_POLICY: '{version' };
+
+      expect(await loadTrustPolicy(invalid)).toEqual(DEFAULT_TRUST_POLICY);
+      expect(await loadTrustPolicy(notJson)).toEqual(DEFAULT_TRUST_POLICY);
+
+      await insertPolicy('broken', { bonus: 5 }, true);
+      expect(await loadTrustPolicy(env)).toEqual(DEFAULT_TRUST_POLICY);
+
+      const res = await appRequest('GET', '/');
+      expect(res.status).toBe(200);
+    });
+
+    it('loads inactive policies by version', async () => {
+      await insertPolicy('2026-02', { moltbook_verified_points: 15 }, true);
+      await insertPolicy('draft', { moltbook_verified_points: 99 }, false);
+
+      expect((await loadTrustPolicyVersion(env, 'draft'))!.moltbook_verified_points).toBe(99);
+      expect((await loadTrustPolicyVersion(env, '2026-02'))!.moltbook_verified_points).toBe(15);
+      expect(await loadTrustPolicyVersion(env, '1')).toEqual(DEFAULT_TRUST_POLICY);
+      expect(await loadTrustPolicyVersion(env, 'missing')).toBeNull();
+    });
+  });
+
+  // ============================================================
+  // TrustService tests
+  // ============================================================
+  describe('TrustService with a custom policy', () => {
+    const policy: TrustPolicy = {
+      ...DEFAULT_TRUST_POLICY,
+      version: 'test',
+      max_score: 40,
+      moltbook_verified_points: 10,
+      karma: { karma_per_point: 50, max_points: 40 },
+      age: { days_per_point: 7, max_points: 4 },
+    };
+
+    it('scores with the policy weights and cap', async () => {
+      const id = await createTestAgent(env.DB, {
+        moltbook_verified: true,
+        moltbook_karma: 500,
+        created_at: new Date(Date.now() - 15 * 24 * 60 * 60 * 1000).toISOString(),
+      });
+
+      // 10 (verified) + 10 (500 / 50 karma) + 2 (15 days / 7)
+      expect(await new TrustService(env.DB, policy).calculateScore(id)).toBe(22);
+    });
+
+    it('caps the total at max_score', async () => {
+      const id = await createTestAgent(env.DB, { moltbook_verified: true, moltbook_karma: 5000 });
+
+      expect(await new TrustService(env.DB, policy).calculateScore(id)).toBe(40);
+    });
+
+    it('stamps the policy version into trust details', async () => {
+      const id = await createTestAgent(env.DB, { moltbook_verified: true, moltbook_karma: 500 });
+      const agent = (await new AgentService(env.DB).getById(id))!;
+
+      const details = await new TrustService(env.DB, policy).getDetails(agent);
+
+      expect(details.policy_version).toBe('test');
+      expect(details.factors.moltbook_verified).toBe(10);
+      expect(details.factors.karma).toBe(10);
+    });
+  });
+
+  // ============================================================
+  // API tests
+  // ============================================================
+  describe('GET /v1/trust/policy', () => {
+    it('publishes the default policy', async () => {
+      const res = await appRequest('GET', '/v1/trust/policy');
+
+      expect(res.status).toBe(200);
+      const json = (await res.json()) as ApiResponse<TrustPolicy>;
+      expect(json.data).toEqual(DEFAULT_TRUST_POLICY);
+    });
+
+    it('publishes the active D1 policy', async () => {
+      await insertPolicy('2026-03', { vouches: { max_points: 20 } }, true);
+
+      const res = await appRequest('GET', '/v1/trust/policy');
+
+      const json = (await res.json()) as ApiResponse<TrustPolicy>;
+      expect(json.data!.version).toBe('2026-03');
+      expect(json.data!.vouches.max_points).toBe(20);
+    });
+  });
+
+  describe('policy version in trust responses', () => {
+    it('is included in GET /v1/agents/:id/trust', async () => {
+      await insertPolicy('2026-04', {}, true);
+      const id = await createTestAgent(env.DB, { id: 'mlt_policy_agent' });
+
+      const res = await appRequest('GET', `/v1/agents/${id}/trust`);
+
+      const json = (await res.json()) as ApiResponse<TrustDetails>;
+      expect(json.data!.policy_version).toBe('2026-04');
+    });
+
+    it('drives the landing page breakdown', async () => {
+      await insertPolicy('2026-05', { vouches: { points_each: 8, max_points: 24 } }, true);
+
+      const res = await appRequest('GET', '/');
+
+      const html = await res.text();
+      expect(html).toContain('+8 per vouch</span> from verified agents (max 24)');
+      expect(html).toContain('Scoring policy version 2026-05');
+    });
+  });
+
+  describe('POST /v1/admin/trust-policies', () => {
+    it('stores and activates a validated policy', async () => {
+      const res = await appRequest('POST', '/v1/admin/trust-policies', {
+        version: '2026-06',
+        weights: { vouches: { points_each: 10 } },
+        activate: true,
+      }, ADMIN);
+
+      expect(res.status).toBe(201);
+      const policy = await loadTrustPolicy(env);
+      expect(policy.version).toBe('2026-06');
+      expect(policy.vouches.points_each).toBe(10);
+    });
+
+    it('activates a stored draft', async () => {
+      await appRequest('POST', '/v1/admin/trust-policies', { version: 'draft', weights: { max_score: 50 } }, ADMIN);
+      expect((await loadTrustPolicy(env)).version).toBe('1');
+
+      const res = await appRequest('POST', '/v1/admin/trust-policies/draft/activate', undefined, ADMIN);
+
+      expect(res.status).toBe(200);
+      expect((await loadTrustPolicy(env)).max_score).toBe(50);
+    });
+
+    it('rejects malformed weights (400) and existing versions (409)', async () => {
+      const invalid = await appRequest('POST', '/v1/admin/trust-policies', {
+        version: 'bad',
+        weights: { karma: { karma_per_point: 0 } },
+      }, ADMIN);
+      await insertPolicy('taken', {}, false);
+      const taken = await appRequest('POST', '/v1/admin/trust-policies', { version: 'taken', weights: {} }, ADMIN);
+
+      expect(invalid.status).toBe(400);
+      expect(((await invalid.json()) as ErrorResponse).error.message).toContain('karma.karma_per_point');
+      expect(taken.status).toBe(409);
+      expect(((await taken.json()) as ErrorResponse).error.code).toBe('policy_exists');
+    });
+
+    it('refuses to activate a malformed stored policy (400)', async () => {
+      await insertPolicy('broken', { bonus: 5 }, false);
+
+      const res = await appRequest('POST', '/v1/admin/trust-policies/broken/activate', undefined, ADMIN);
+      const missing = await appRequest('POST', '/v1/admin/trust-policies/missing/activate', undefined, ADMIN);
+
+      expect(res.status).toBe(400);
+      expect(missing.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Profile page tests
+ *
+ * Tests for the public profile pages at /a/:id and /@:username.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env } from 'cloudflare:test';
+import { TrustService } from '../src/services/trust';
+import { setupTestDb, cleanupTestDb, createTestAgent, appRequest } from './setup';
+
+describe('Profile pages', () => {
+  beforeEach(async () => {
+    await setupTestDb(env.DB);
+    await cleanupTestDb(env.DB);
+    await createTestAgent(env.DB, {
+      id: 'mlt_profile',
+      moltbook_username: 'profile_agent',
+      moltbook_verified: true,
+      moltbook_karma: 2500,
+      capabilities: ['code-review'],
+    });
+    await createTestAgent(env.DB, {
+      id: 'mlt_profile_voucher',
+      moltbook_username: 'voucher_agent',
+      moltbook_verified: true,
+      trust_score: 20,
+      tier: 'linked',
+    });
+    await env.DB.prepare(`
+      INSERT INTO linked_accounts (id, agent_id, provider, handle, status, reputation, verified_at, last_checked_at, created_at)
+      VALUES ('lnk_profile', 'mlt_profile', 'moltbook', 'profile_agent', 'verified', '{"karma":2500}', '2026-01-01T00:00:00.000Z', '2026-01-01T00:00:00.000Z', '2026-01-01T00:00:00.000Z')
+    `).run();
+    await env.DB.prepare(`
+      INSERT INTO vouches (id, from_agent_id, to_agent_id, capability, statement, created_at)
+      VALUES ('vch_profile', 'mlt_profile_voucher', 'mlt_profile', 'code-review', ?, ?)
+    `).bind('Reviewed <b>my</b> PRs', new Date().toISOString()).run();
+    await env.DB.prepare('UPDATE agents SET vouch_count = 1 WHERE id = ?').bind('mlt_profile').run();
+    // 20 (verified) + 25 (karma) + 5 (vouch)
+    await new TrustService(env.DB).rescore('mlt_profile', 'vouch');
+  });
+
+  // ============================================================
+  // Page tests
+  // ============================================================
+  describe('GET /a/:id', () => {
+    it('renders identity, trust, accounts, vouchers and history', async () => {
+      const res = await appRequest('GET', '/a/mlt_profile');
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toBe('text/html; charset=UTF-8');
+      expect(res.headers.get('Cache-Control')).toBe('public, max-age=300');
+      const html = await res.text();
+      expect(html).toContain('<h1>@profile_agent</h1>');
+      expect(html).toContain('<span class="score">50</span>');
+      expect(html).toContain('<span class="tier">established</span>');
+      expect(html).toContain('<code>code-review</code>');
+      expect(html).toContain('<strong>moltbook</strong> profile_agent');
+      expect(html).toContain('<a href="/a/mlt_profile_voucher">@voucher_agent</a>');
+      expect(html).toContain('src="/v1/agents/mlt_profile/badge.svg"');
+      expect(html).toContain('<svg class="chart"');
+    });
+
+    it('includes OpenGraph and Twitter card tags', async () => {
+      const html = await (await appRequest('GET', '/a/mlt_profile')).text();
+
+      expect(html).toContain('<meta property="og:title" content="@profile_agent - MoltID">');
+      expect(html).toContain(
+        '<meta property="og:description" content="established on MoltID · trust 50/100 · Moltbook verified · 1 vouch">'
+      );
+      expect(html).toContain('<meta property="og:url" content="https://moltid.dev/a/mlt_profile">');
+      expect(html).toContain('<meta property="og:type" content="profile">');
+      expect(html).toContain('<meta name="twitter:card" content="summary">');
+      expect(html).toContain('<link rel="canonical" href="https://moltid.dev/a/mlt_profile">');
+    });
+
+    it('escapes user-provided text', async () => {
+      const html = await (await appRequest('GET', '/a/mlt_profile')).text();
+
+      expect(html).toContain('Reviewed &lt;b&gt;my&lt;/b&gt; PRs');
+      expect(html).not.toContain('<b>my</b>');
+    });
+
+    it('renders agents without history or vouches', async () => {
+      const res = await appRequest('GET', '/a/mlt_profile_voucher');
+
+      expect(res.status).toBe(200);
+      const html = await res.text();
+      expect(html).toContain('No vouches yet.');
+      expect(html).toContain('No linked accounts yet.');
+      expect(html).toContain('No score changes in the last 90 days.');
+    });
+
+    it('renders a not found page for unknown agents (404)', async () => {
+      const res = await appRequest('GET', '/a/mlt_missing');
+
+      expect(res.status).toBe(404);
+      expect(res.headers.get('Content-Type')).toBe('text/html; charset=UTF-8');
+      expect(await res.text()).toContain('Agent not found');
+    });
+  });
+
+  describe('GET /@:username', () => {
+    it('renders the profile by Moltbook username', async () => {
+      const res = await appRequest('GET', '/@profile_agent');
+
+      expect(res.status).toBe(200);
+      expect(await res.text()).toContain('<meta property="og:url" content="https://moltid.dev/a/mlt_profile">');
+    });
+
+    it('does not resolve usernames the agent has not verified (404)', async () => {
+      await createTestAgent(env.DB, { id: 'mlt_profile_claimed', moltbook_username: 'famous_agent' });
+
+      const byName = await appRequest('GET', '/@famous_agent');
+      const byId = await (await appRequest('GET', '/a/mlt_profile_claimed')).text();
+
+      expect(byName.status).toBe(404);
+      expect(byId).toContain('<h1>mlt_profile_claimed</h1>');
+      expect(byId).not.toContain('famous_agent');
+    });
+
+    it('renders a not found page for unknown usernames (404)', async () => {
+      const res = await appRequest('GET', '/@nobody');
+
+      expect(res.status).toBe(404);
+      expect(await res.text()).toContain('Agent not found');
+    });
+  });
+});
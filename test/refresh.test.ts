@@ -0,0 +1,250 @@
+/**
+ * Refresh tests
+ *
+ * Tests for RefreshService (karma refresh, score recomputation, resumable
+ * batches) against the mock Moltbook, and the cron scheduled handler.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { env, fetchMock, createScheduledController } from 'cloudflare:test';
+import worker from '../src/index';
+import { AgentService } from '../src/services/agent';
+import { REFRESH_JOB, RefreshService } from '../src/services/refresh';
+import { MockMoltbook } from './mocks/moltbook';
+import { setupTestDb, cleanupTestDb, createTestAgent, installMockMoltbook } from './setup';
+
+interface ScoreChange {
+  agent_id: string;
+  run_id: string;
+  old_score: number;
+  new_score: number;
+  old_karma: number | null;
+  new_karma: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function scoreChanges(): Promise<ScoreChange[]> {
+  const results = await env.DB.prepare('SELECT * FROM score_changes ORDER BY agent_id').all<ScoreChange>();
+  return results.results;
+}
+
+describe('Refresh', () => {
+  let moltbook: MockMoltbook;
+  let refreshService: RefreshService;
+
+  beforeEach(async () => {
+    await setupTestDb(env.DB);
+    await cleanupTestDb(env.DB);
+    moltbook = new MockMoltbook();
+    refreshService = new RefreshService(env.DB, env, moltbook.client());
+  });
+
+  // ============================================================
+  // RefreshService tests
+  // ============================================================
+  describe('RefreshService', () => {
+    it('re-fetches karma and records the score change', async () => {
+      // Verified when alice had 1000 karma: 20 + 10
+      await createTestAgent(env.DB, {
+        id: 'mlt_alice',
+        moltbook_username: 'alice_agent',
+        moltbook_verified: true,
+        moltbook_karma: 1000,
+        trust_score: 30,
+      });
+
+      const result = await refreshService.runBatch();
+
+      expect(result).toMatchObject({ processed: 1, changed: 1, completed: true });
+      const agent = await new AgentService(env.DB).getById('mlt_alice');
+      expect(agent!.moltbook_karma).toBe(2500);
+      expect(agent!.trust_score).toBe(45);
+
+      const changes = await scoreChanges();
+      expect(changes).toHaveLength(1);
+      expect(changes[0]).toMatchObject({
+        agent_id: 'mlt_alice',
+        run_id: result!.run_id,
+        old_score: 30,
+        new_score: 45,
+        old_karma: 1000,
+        new_karma: 2500,
+      });
+    });
+
+    it('updates the linked Moltbook account reputation', async () => {
+      await createTestAgent(env.DB, {
+        id: 'mlt_alice',
+        moltbook_username: 'alice_agent',
+        moltbook_verified: true,
+        moltbook_karma: 1000,
+      });
+      await env.DB.prepare(`
+        INSERT INTO linked_accounts (id, agent_id, provider, handle, status, reputation, verified_at, last_checked_at, created_at)
+        VALUES ('lnk_alice', 'mlt_alice', 'moltbook', 'alice_agent', 'verified', '{"karma":1000}', '2026-01-01T00:00:00.000Z', '2026-01-01T00:00:00.000Z', '2026-01-01T00:00:00.000Z')
+      `).run();
+
+      await refreshService.runBatch();
+
+      const row = await env.DB.prepare('SELECT reputation, last_checked_at FROM linked_accounts WHERE id = ?')
+        .bind('lnk_alice').first<{ reputation: string; last_checked_at: string }>();
+      expect(JSON.parse(row!.reputation)).toEqual({ karma: 2500 });
+      expect(row!.last_checked_at > '2026-01-01T00:00:00.000Z').toBe(true);
+    });
+
+    it('picks up score growth from account age', async () => {
+      await createTestAgent(env.DB, {
+        id: 'mlt_aging',
+        trust_score: 0,
+        created_at: new Date(Date.now() - 7 * DAY_MS).toISOString(),
+      });
+
+      await refreshService.runBatch();
+
+      const agent = await new AgentService(env.DB).getById('mlt_aging');
+      expect(agent!.trust_score).toBe(7);
+      expect((await scoreChanges())[0]).toMatchObject({ old_score: 0, new_score: 7, old_karma: null, new_karma: null });
+    });
+
+    it('records nothing when the score is already current', async () => {
+      await createTestAgent(env.DB, { id: 'mlt_current', trust_score: 0 });
+
+      const result = await refreshService.runBatch();
+
+      expect(result).toMatchObject({ processed: 1, changed: 0 });
+      expect(await scoreChanges()).toHaveLength(0);
+    });
+
+    it('keeps the previous karma when Moltbook is unavailable', async () => {
+      await createTestAgent(env.DB, {
+        id: 'mlt_alice',
+        moltbook_username: 'alice_agent',
+        moltbook_verified: true,
+        moltbook_karma: 1000,
+        trust_score: 30,
+        tier: 'linked',
+      });
+      moltbook.apiDown = true;
+
+      const result = await refreshService.runBatch();
+
+      expect(result!.changed).toBe(0);
+      const agent = await new AgentService(env.DB).getById('mlt_alice');
+      expect(agent!.moltbook_karma).toBe(1000);
+    });
+
+    it('skips an agent that fails and refreshes the rest of the batch', async () => {
+      await createTestAgent(env.DB, { id: 'mlt_a_broken', moltbook_username: 'broken', moltbook_verified: true });
+      await createTestAgent(env.DB, {
+        id: 'mlt_b_alice',
+        moltbook_username: 'alice_agent',
+        moltbook_verified: true,
+        moltbook_karma: 1000,
+        trust_score: 30,
+      });
+      const client = moltbook.client();
+      const service = new RefreshService(env.DB, env, {
+        getKarma: async (username) => {
+          if (username === 'broken') throw new Error('boom');
+          return client.getKarma(username);
+        },
+        getRecentPosts: (username, limit) => client.getRecentPosts(username, limit),
+        getPostsPage: (username) => client.getPostsPage(username),
+      });
+
+      const result = await service.runBatch();
+
+      expect(result).toMatchObject({ processed: 2, changed: 1, failed: 1, completed: true });
+      expect((await new AgentService(env.DB).getById('mlt_b_alice'))!.moltbook_karma).toBe(2500);
+    });
+
+    it('drops expired vouches from the score and vouch count', async () => {
+      await createTestAgent(env.DB, { id: 'mlt_voucher', moltbook_verified: true, trust_score: 20, tier: 'linked' });
+      await createTestAgent(env.DB, { id: 'mlt_vouched', trust_score: 5, vouch_count: 1 });
+      await env.DB.prepare(
+        'INSERT INTO vouches (id, from_agent_id, to_agent_id, created_at, expires_at) VALUES (?, ?, ?, ?, ?)'
+      ).bind('vch_expired', 'mlt_voucher', 'mlt_vouched', new Date(Date.now() - 2 * DAY_MS).toISOString(),
+        new Date(Date.now() - DAY_MS).toISOString()).run();
+
+      await refreshService.runBatch();
+
+      const agent = await new AgentService(env.DB).getById('mlt_vouched');
+      expect(agent!.trust_score).toBe(0);
+      expect(agent!.vouch_count).toBe(0);
+    });
+
+    it('does not look up unverified Moltbook usernames', async () => {
+      await createTestAgent(env.DB, { id: 'mlt_pending', moltbook_username: 'bob_agent', status: 'pending' });
+
+      await refreshService.runBatch();
+
+      expect(moltbook.requests).toHaveLength(0);
+    });
+
+    it('resumes across invocations and then starts a new pass', async () => {
+      for (const id of ['mlt_a', 'mlt_b', 'mlt_c', 'mlt_d', 'mlt_e']) {
+        await createTestAgent(env.DB, { id, trust_score: 50 });
+      }
+
+      const first = await refreshService.runBatch(2);
+      const second = await refreshService.runBatch(2);
+      const third = await refreshService.runBatch(2);
+
+      expect(first).toMatchObject({ processed: 2, completed: false });
+      expect(second).toMatchObject({ processed: 2, completed: false, run_id: first!.run_id });
+      expect(third).toMatchObject({ processed: 1, completed: true, run_id: first!.run_id });
+      expect((await scoreChanges()).map((c) => c.agent_id)).toEqual(['mlt_a', 'mlt_b', 'mlt_c', 'mlt_d', 'mlt_e']);
+
+      const state = await env.DB.prepare('SELECT * FROM job_state WHERE name = ?')
+        .bind(REFRESH_JOB).first<{ cursor: string | null; last_completed_at: string | null }>();
+      expect(state!.cursor).toBeNull();
+      expect(state!.last_completed_at).not.toBeNull();
+
+      const next = await refreshService.runBatch(2);
+      expect(next!.run_id).not.toBe(first!.run_id);
+      expect(next!.changed).toBe(0);
+    });
+
+    it('skips a batch another invocation already claimed', async () => {
+      await createTestAgent(env.DB, { id: 'mlt_a', trust_score: 50 });
+      await createTestAgent(env.DB, { id: 'mlt_b', trust_score: 50 });
+
+      const [one, two] = await Promise.all([refreshService.runBatch(1), refreshService.runBatch(1)]);
+
+      expect([one, two].filter((r) => r === null)).toHaveLength(1);
+      expect(await scoreChanges()).toHaveLength(1);
+    });
+  });
+
+  // ============================================================
+  // Scheduled handler tests
+  // ============================================================
+  describe('scheduled', () => {
+    beforeEach(() => {
+      installMockMoltbook(moltbook);
+    });
+
+    afterEach(() => {
+      fetchMock.deactivate();
+    });
+
+    it('refreshes a batch on the cron trigger', async () => {
+      await createTestAgent(env.DB, {
+        id: 'mlt_bob',
+        moltbook_username: 'bob_agent',
+        moltbook_verified: true,
+        moltbook_karma: 100,
+        trust_score: 21,
+      });
+
+      const controller = createScheduledController({ scheduledTime: Date.now(), cron: '*/15 * * * *' });
+      await worker.scheduled(controller, env);
+
+      const agent = await new AgentService(env.DB).getById('mlt_bob');
+      expect(agent!.moltbook_karma).toBe(800);
+      expect(agent!.trust_score).toBe(28);
+      expect(moltbook.requests).toContain('GET /api/v1/users/bob_agent');
+    });
+  });
+});
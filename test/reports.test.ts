@@ -0,0 +1,375 @@
+/**
+ * Report tests
+ *
+ * Tests for the report penalty in TrustService, POST /v1/agents/:id/reports
+ * by agents and platforms, disputes by the reported agent, and resolving
+ * reports and allowing platforms to report under /v1/admin.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env } from 'cloudflare:test';
+import { AgentService } from '../src/services/agent';
+import { OAuthService } from '../src/services/oauth';
+import { ReportService } from '../src/services/report';
+import { TrustService } from '../src/services/trust';
+import {
+  setupTestDb,
+  cleanupTestDb,
+  createTestAgent,
+  createTestKeyPair,
+  signedAppRequest,
+  appRequest,
+  type TestKeyPair,
+} from './setup';
+import type { ApiResponse, OAuthClient, Report } from '../src/types';
+
+interface ErrorResponse {
+  success: false;
+  error: { code: string; message: string };
+}
+
+interface ReportResponse {
+  report: Report;
+  new_trust_score: number;
+}
+
+const ADMIN = { Authorization: 'Bearer test-admin-token' };
+
+describe('Reports', () => {
+  let reportService: ReportService;
+  let targetId: string;
+
+  beforeEach(async () => {
+    await setupTestDb(env.DB);
+    await cleanupTestDb(env.DB);
+    reportService = new ReportService(env.DB);
+    // 20 (verified) + 30 (karma)
+    targetId = await createTestAgent(env.DB, {
+      id: 'mlt_reported',
+      moltbook_verified: true,
+      moltbook_karma: 3000,
+      status: 'active',
+    });
+  });
+
+  /**
+   * Create a verified reporter with the given stored trust score.
+   */
+  async function createReporter(id: string, trustScore = 50): Promise<string> {
+    return createTestAgent(env.DB, { id, moltbook_verified: true, trust_score: trustScore, status: 'active' });
+  }
+
+  /**
+   * Register a platform (OAuth client), optionally allowed to report.
+   */
+  async function createPlatform(canReport = true): Promise<{ id: string; authorization: string }> {
+    const oauthService = new OAuthService(env.DB, env);
+    const { client, client_secret } = await oauthService.registerClient('Marketplace', ['https://market.example.com/cb']);
+    await oauthService.setCanReport(client.id, canReport);
+    return { id: client.id, authorization: `Basic ${btoa(`${client.id}:${client_secret}`)}` };
+  }
+
+  async function explainTarget() {
+    const target = (await new AgentService(env.DB).getById(targetId))!;
+    return new TrustService(env.DB).explain(target);
+  }
+
+  // ============================================================
+  // Trust penalty tests
+  // ============================================================
+  describe('trust penalty', () => {
+    it('ignores a single reporter', async () => {
+      await reportService.create(targetId, await createReporter('mlt_reporter_a'), { category: 'scam' });
+
+      const explanation = await explainTarget();
+
+      expect(explanation.factors.reports).toMatchObject({ input: 1, points: 0, applied: false });
+      expect(explanation.score).toBe(50);
+    });
+
+    it('applies once enough trusted reporters agree', async () => {
+      await reportService.create(targetId, await createReporter('mlt_reporter_a'), { category: 'scam' });
+      await reportService.create(targetId, await createReporter('mlt_reporter_b'), { category: 'spam' });
+
+      const explanation = await explainTarget();
+
+      expect(explanation.factors.reports).toEqual({
+        input: 2,
+        points: -20,
+        max_points: 40,
+        capped: false,
+        reporters: ['mlt_reporter_a', 'mlt_reporter_b'],
+        applied: true,
+      });
+      expect(explanation.score).toBe(30);
+    });
+
+    it('does not count reporters below the trust threshold', async () => {
+      await reportService.create(targetId, await createReporter('mlt_reporter_a'), { category: 'scam' });
+      await reportService.create(targetId, await createReporter('mlt_reporter_low', 10), { category: 'scam' });
+      const unverifiedId = await createTestAgent(env.DB, { id: 'mlt_reporter_unverified', trust_score: 90 });
+      await reportService.create(targetId, unverifiedId, { category: 'scam' });
+
+      const explanation = await explainTarget();
+
+      expect(explanation.factors.reports.reporters).toEqual(['mlt_reporter_a']);
+      expect(explanation.factors.reports.points).toBe(0);
+    });
+
+    it('counts reports from platforms while they are allowed to report', async () => {
+      await reportService.create(targetId, await createReporter('mlt_reporter_a'), { category: 'scam' });
+      const platform = await createPlatform();
+      await reportService.create(targetId, platform.id, { category: 'scam' }, 'platform');
+
+      expect((await explainTarget()).factors.reports).toMatchObject({
+        reporters: ['mlt_reporter_a', platform.id],
+        points: -20,
+      });
+
+      await new OAuthService(env.DB, env).setCanReport(platform.id, false);
+      expect((await explainTarget()).factors.reports).toMatchObject({ reporters: ['mlt_reporter_a'], points: 0 });
+    });
+
+    it('counts disputed reports at half weight and ignores dismissed ones', async () => {
+      const a = await reportService.create(targetId, await createReporter('mlt_reporter_a'), { category: 'scam' });
+      await reportService.create(targetId, await createReporter('mlt_reporter_b'), { category: 'scam' });
+      const c = await reportService.create(targetId, await createReporter('mlt_reporter_c'), { category: 'scam' });
+      await reportService.dispute(a.id, 'This was a misunderstanding');
+      await reportService.resolve(c.id, 'dismissed');
+
+      const explanation = await explainTarget();
+
+      // 0.5 + 1 => 15 points
+      expect(explanation.factors.reports.points).toBe(-15);
+    });
+
+    it('applies an upheld report on its own, and never goes below zero', async () => {
+      const lowId = await createTestAgent(env.DB, { id: 'mlt_reported_low', moltbook_verified: false });
+      const report = await reportService.create(lowId, await createReporter('mlt_reporter_a'), { category: 'scam' });
+      await reportService.resolve(report.id, 'upheld');
+
+      const score = await new TrustService(env.DB).calculateScore(lowId);
+
+      expect(score).toBe(0);
+    });
+  });
+
+  // ============================================================
+  // API tests
+  // ============================================================
+  describe('POST /v1/agents/:id/reports', () => {
+    let reporterKeys: TestKeyPair;
+    let reporterId: string;
+
+    beforeEach(async () => {
+      reporterKeys = await createTestKeyPair();
+      reporterId = await createTestAgent(env.DB, {
+        id: 'mlt_api_reporter',
+        public_key: reporterKeys.publicKey,
+        moltbook_verified: true,
+        trust_score: 50,
+        status: 'active',
+      });
+    });
+
+    it('files a report with evidence (201)', async () => {
+      const res = await signedAppRequest('POST', `/v1/agents/${targetId}/reports`, reporterId, reporterKeys, {
+        reporter_id: reporterId,
+        category: 'impersonation',
+        description: 'Claims to be the official Moltbook support bot',
+        evidence: ['https://moltbook.com/p/123'],
+      });
+
+      expect(res.status).toBe(201);
+      const json = (await res.json()) as ApiResponse<ReportResponse>;
+      expect(json.data!.report).toMatchObject({
+        agent_id: targetId,
+        reporter_id: reporterId,
+        category: 'impersonation',
+        evidence: ['https://moltbook.com/p/123'],
+        status: 'open',
+      });
+      expect(json.data!.new_trust_score).toBe(50);
+
+      const list = await appRequest('GET', `/v1/agents/${targetId}/reports`);
+      expect(((await list.json()) as ApiResponse<Report[]>).data).toHaveLength(1);
+    });
+
+    it('rejects duplicate reports (409)', async () => {
+      const body = { reporter_id: reporterId, category: 'spam' };
+      await signedAppRequest('POST', `/v1/agents/${targetId}/reports`, reporterId, reporterKeys, body);
+
+      const res = await signedAppRequest('POST', `/v1/agents/${targetId}/reports`, reporterId, reporterKeys, body);
+
+      expect(res.status).toBe(409);
+      expect(((await res.json()) as ErrorResponse).error.code).toBe('already_reported');
+    });
+
+    it('only verified agents can report (403)', async () => {
+      await new AgentService(env.DB).update(reporterId, { moltbook_verified: false });
+
+      const res = await signedAppRequest('POST', `/v1/agents/${targetId}/reports`, reporterId, reporterKeys, {
+        reporter_id: reporterId,
+        category: 'scam',
+      });
+
+      expect(res.status).toBe(403);
+    });
+
+    it('validates the category and evidence URLs (400)', async () => {
+      const res = await signedAppRequest('POST', `/v1/agents/${targetId}/reports`, reporterId, reporterKeys, {
+        reporter_id: reporterId,
+        category: 'rude',
+        evidence: ['not a url'],
+      });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('only accepts http and https evidence URLs (400)', async () => {
+      for (const url of ['javascript:alert(1)', 'data:text/html,<b>hi</b>', 'file:///etc/passwd']) {
+        const res = await signedAppRequest('POST', `/v1/agents/${targetId}/reports`, reporterId, reporterKeys, {
+          reporter_id: reporterId,
+          category: 'scam',
+          evidence: [url],
+        });
+
+        expect(res.status).toBe(400);
+      }
+    });
+
+    it('requires a signature or platform credentials (401)', async () => {
+      const res = await appRequest('POST', `/v1/agents/${targetId}/reports`, { reporter_id: reporterId, category: 'scam' });
+
+      expect(res.status).toBe(401);
+      expect(((await res.json()) as ErrorResponse).error.code).toBe('signature_required');
+    });
+  });
+
+  describe('POST /v1/agents/:id/reports by platforms', () => {
+    it('files a report with client credentials (201)', async () => {
+      const platform = await createPlatform();
+
+      const res = await appRequest('POST', `/v1/agents/${targetId}/reports`, {
+        category: 'scam',
+        evidence: ['https://market.example.com/disputes/42'],
+      }, { Authorization: platform.authorization });
+
+      expect(res.status).toBe(201);
+      const json = (await res.json()) as ApiResponse<ReportResponse>;
+      expect(json.data!.report).toMatchObject({
+        agent_id: targetId,
+        reporter_id: platform.id,
+        reporter_type: 'platform',
+        status: 'open',
+      });
+    });
+
+    it('rejects platforms that are not allowed to report (403)', async () => {
+      const platform = await createPlatform(false);
+
+      const res = await appRequest('POST', `/v1/agents/${targetId}/reports`, { category: 'scam' }, {
+        Authorization: platform.authorization,
+      });
+
+      expect(res.status).toBe(403);
+    });
+
+    it('rejects bad client credentials (401)', async () => {
+      const platform = await createPlatform();
+
+      const res = await appRequest('POST', `/v1/agents/${targetId}/reports`, { category: 'scam' }, {
+        Authorization: `Basic ${btoa(`${platform.id}:wrong`)}`,
+      });
+
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe('POST /v1/agents/:id/reports/:reportId/dispute', () => {
+    let targetKeys: TestKeyPair;
+    let report: Report;
+
+    beforeEach(async () => {
+      targetKeys = await createTestKeyPair();
+      await new AgentService(env.DB).update(targetId, { public_key: targetKeys.publicKey });
+      report = await reportService.create(targetId, await createReporter('mlt_reporter_a'), { category: 'scam' });
+    });
+
+    it('records the dispute', async () => {
+      const res = await signedAppRequest(
+        'POST', `/v1/agents/${targetId}/reports/${report.id}/dispute`, targetId, targetKeys,
+        { statement: 'The transaction completed, see the receipt' }
+      );
+
+      expect(res.status).toBe(200);
+      const json = (await res.json()) as ApiResponse<ReportResponse>;
+      expect(json.data!.report.status).toBe('disputed');
+      expect(json.data!.report.dispute_statement).toBe('The transaction completed, see the receipt');
+    });
+
+    it('cannot dispute twice (409)', async () => {
+      const path = `/v1/agents/${targetId}/reports/${report.id}/dispute`;
+      await signedAppRequest('POST', path, targetId, targetKeys, { statement: 'First' });
+
+      const res = await signedAppRequest('POST', path, targetId, targetKeys, { statement: 'Second' });
+
+      expect(res.status).toBe(409);
+      expect(((await res.json()) as ErrorResponse).error.code).toBe('invalid_state');
+    });
+
+    it('returns 404 for a report against another agent', async () => {
+      const otherId = await createTestAgent(env.DB, { id: 'mlt_other_reported' });
+      const other = await reportService.create(otherId, 'mlt_reporter_a', { category: 'spam' });
+
+      const res = await signedAppRequest(
+        'POST', `/v1/agents/${targetId}/reports/${other.id}/dispute`, targetId, targetKeys,
+        { statement: 'Not mine' }
+      );
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('POST /v1/admin/reports/:id/resolve', () => {
+    it('upholds a report and rescores the agent', async () => {
+      const report = await reportService.create(targetId, await createReporter('mlt_reporter_a'), { category: 'scam' });
+
+      const res = await appRequest('POST', `/v1/admin/reports/${report.id}/resolve`, { outcome: 'upheld' }, ADMIN);
+
+      expect(res.status).toBe(200);
+      const json = (await res.json()) as ApiResponse<ReportResponse>;
+      expect(json.data!.report.status).toBe('upheld');
+      expect(json.data!.new_trust_score).toBe(40);
+
+      const list = await appRequest('GET', '/v1/admin/reports?status=upheld', undefined, ADMIN);
+      expect(((await list.json()) as ApiResponse<Report[]>).data!.map((r) => r.id)).toEqual([report.id]);
+    });
+
+    it('returns 404 for unknown reports', async () => {
+      const res = await appRequest('POST', '/v1/admin/reports/rpt_missing/resolve', { outcome: 'dismissed' }, ADMIN);
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('POST /v1/admin/oauth-clients/:id/reporting', () => {
+    it('allows a platform to report and rescores the agents it reported', async () => {
+      await reportService.create(targetId, await createReporter('mlt_reporter_a'), { category: 'scam' });
+      const platform = await createPlatform(false);
+      await reportService.create(targetId, platform.id, { category: 'scam' }, 'platform');
+
+      const res = await appRequest('POST', `/v1/admin/oauth-clients/${platform.id}/reporting`, { can_report: true }, ADMIN);
+
+      expect(res.status).toBe(200);
+      expect(((await res.json()) as ApiResponse<OAuthClient>).data!.can_report).toBe(true);
+      expect((await new AgentService(env.DB).getById(targetId))!.trust_score).toBe(30);
+    });
+
+    it('returns 404 for unknown clients', async () => {
+      const res = await appRequest('POST', '/v1/admin/oauth-clients/cli_missing/reporting', { can_report: true }, ADMIN);
+
+      expect(res.status).toBe(404);
+    });
+  });
+});
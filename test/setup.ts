@@ -5,7 +5,13 @@
  * and cleaning up after tests.
  */
 
+import { env, fetchMock } from 'cloudflare:test';
+import app from '../src/index';
+import { SignatureService } from '../src/services/signature';
+import { encodeBase64 } from '../src/utils/crypto';
 import { SAMPLE_AGENTS, SAMPLE_VOUCHES } from './fixtures';
+import type { MockMoltbook } from './mocks/moltbook';
+import type { TrustTier } from '../src/types';
 
 /**
  * Schema SQL for creating tables in the test database.
@@ -20,6 +26,7 @@ CREATE TABLE IF NOT EXISTS agents (
     public_key TEXT,
     capabilities TEXT,
     trust_score INTEGER DEFAULT 0,
+    tier TEXT DEFAULT 'unverified',
     vouch_count INTEGER DEFAULT 0,
     status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'suspended')),
     verification_code TEXT,
@@ -29,6 +36,7 @@ CREATE TABLE IF NOT EXISTS agents (
 
 CREATE INDEX IF NOT EXISTS idx_agents_moltbook ON agents(moltbook_username);
 CREATE INDEX IF NOT EXISTS idx_agents_status ON agents(status);
+CREATE INDEX IF NOT EXISTS idx_agents_tier ON agents(tier, trust_score DESC);
 CREATE INDEX IF NOT EXISTS idx_agents_trust ON agents(trust_score DESC);
 
 CREATE TABLE IF NOT EXISTS vouches (
@@ -36,6 +44,10 @@ CREATE TABLE IF NOT EXISTS vouches (
     from_agent_id TEXT NOT NULL,
     to_agent_id TEXT NOT NULL,
     created_at TEXT DEFAULT (datetime('now')),
+    expires_at TEXT, -- NULL: never expires
+    renewed_at TEXT, -- Last renewal, which vouch decay is measured from
+    capability TEXT, -- What the agent is vouched for, NULL for a general vouch
+    statement TEXT, -- Short comment from the voucher
     FOREIGN KEY (from_agent_id) REFERENCES agents(id),
     FOREIGN KEY (to_agent_id) REFERENCES agents(id),
     UNIQUE(from_agent_id, to_agent_id)
@@ -43,6 +55,203 @@ CREATE TABLE IF NOT EXISTS vouches (
 
 CREATE INDEX IF NOT EXISTS idx_vouches_to ON vouches(to_agent_id);
 CREATE INDEX IF NOT EXISTS idx_vouches_from ON vouches(from_agent_id);
+
+CREATE TABLE IF NOT EXISTS request_nonces (
+    agent_id TEXT NOT NULL,
+    nonce TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (agent_id, nonce)
+);
+
+CREATE INDEX IF NOT EXISTS idx_request_nonces_created ON request_nonces(created_at);
+
+CREATE TABLE IF NOT EXISTS agent_keys (
+    id TEXT PRIMARY KEY,
+    agent_id TEXT NOT NULL,
+    public_key TEXT NOT NULL,
+    valid_from TEXT NOT NULL,
+    valid_until TEXT,
+    revoked_at TEXT,
+    revocation_reason TEXT,
+    added_via TEXT NOT NULL CHECK (added_via IN ('registration', 'signature', 'moltbook')),
+    FOREIGN KEY (agent_id) REFERENCES agents(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_keys_agent ON agent_keys(agent_id);
+CREATE INDEX IF NOT EXISTS idx_agent_keys_key ON agent_keys(public_key);
+
+CREATE TABLE IF NOT EXISTS challenges (
+    id TEXT PRIMARY KEY,
+    agent_id TEXT NOT NULL,
+    nonce TEXT NOT NULL,
+    audience TEXT,
+    created_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    verified_at TEXT,
+    valid_until TEXT,
+    FOREIGN KEY (agent_id) REFERENCES agents(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_challenges_agent ON challenges(agent_id);
+
+CREATE TABLE IF NOT EXISTS oauth_clients (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    secret_hash TEXT NOT NULL,
+    redirect_uris TEXT NOT NULL,
+    can_report INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS oauth_authorizations (
+    id TEXT PRIMARY KEY,
+    client_id TEXT NOT NULL,
+    agent_id TEXT NOT NULL,
+    redirect_uri TEXT NOT NULL,
+    scope TEXT NOT NULL,
+    state TEXT,
+    code_challenge TEXT,
+    code_hash TEXT UNIQUE,
+    code_expires_at TEXT,
+    used_at TEXT,
+    created_at TEXT NOT NULL,
+    FOREIGN KEY (client_id) REFERENCES oauth_clients(id),
+    FOREIGN KEY (agent_id) REFERENCES agents(id)
+);
+
+CREATE TABLE IF NOT EXISTS linked_accounts (
+    id TEXT PRIMARY KEY,
+    agent_id TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    handle TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('verified', 'failed')),
+    reputation TEXT,
+    verified_at TEXT,
+    last_checked_at TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    FOREIGN KEY (agent_id) REFERENCES agents(id),
+    UNIQUE(agent_id, provider, handle)
+);
+
+CREATE INDEX IF NOT EXISTS idx_linked_accounts_agent ON linked_accounts(agent_id);
+CREATE INDEX IF NOT EXISTS idx_linked_accounts_handle ON linked_accounts(provider, handle);
+
+CREATE TABLE IF NOT EXISTS job_state (
+    name TEXT PRIMARY KEY,
+    cursor TEXT,
+    run_id TEXT,
+    run_started_at TEXT,
+    last_completed_at TEXT,
+    updated_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS score_changes (
+    id TEXT PRIMARY KEY,
+    agent_id TEXT NOT NULL,
+    run_id TEXT NOT NULL,
+    old_score INTEGER NOT NULL,
+    new_score INTEGER NOT NULL,
+    old_karma INTEGER,
+    new_karma INTEGER,
+    created_at TEXT NOT NULL,
+    FOREIGN KEY (agent_id) REFERENCES agents(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_score_changes_agent ON score_changes(agent_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_score_changes_run ON score_changes(run_id);
+
+CREATE TABLE IF NOT EXISTS trust_policies (
+    version TEXT PRIMARY KEY,
+    weights TEXT NOT NULL,
+    active INTEGER DEFAULT 0,
+    activated_at TEXT,
+    created_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS graph_trust (
+    agent_id TEXT PRIMARY KEY,
+    score REAL NOT NULL,
+    normalized REAL NOT NULL,
+    run_id TEXT NOT NULL,
+    computed_at TEXT NOT NULL,
+    FOREIGN KEY (agent_id) REFERENCES agents(id)
+);
+
+CREATE TABLE IF NOT EXISTS risk_flags (
+    id TEXT PRIMARY KEY,
+    agent_id TEXT NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('vouch_ring', 'registration_burst', 'shared_key')),
+    details TEXT,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed', 'resolved')),
+    run_id TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    FOREIGN KEY (agent_id) REFERENCES agents(id),
+    UNIQUE(agent_id, kind)
+);
+
+CREATE INDEX IF NOT EXISTS idx_risk_flags_status ON risk_flags(status, updated_at);
+
+CREATE TABLE IF NOT EXISTS vouch_revocations (
+    id TEXT PRIMARY KEY,
+    vouch_id TEXT NOT NULL,
+    from_agent_id TEXT NOT NULL,
+    to_agent_id TEXT NOT NULL,
+    reason TEXT,
+    vouched_at TEXT NOT NULL,
+    revoked_at TEXT NOT NULL,
+    FOREIGN KEY (from_agent_id) REFERENCES agents(id),
+    FOREIGN KEY (to_agent_id) REFERENCES agents(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vouch_revocations_to ON vouch_revocations(to_agent_id, revoked_at);
+-- One revocation per vouch, so concurrent revokes can't both succeed
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vouch_revocations_vouch ON vouch_revocations(vouch_id);
+
+CREATE TABLE IF NOT EXISTS capability_scores (
+    agent_id TEXT NOT NULL,
+    capability TEXT NOT NULL,
+    score INTEGER NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (agent_id, capability),
+    FOREIGN KEY (agent_id) REFERENCES agents(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_capability_scores_rank ON capability_scores(capability, score DESC);
+
+CREATE TABLE IF NOT EXISTS reports (
+    id TEXT PRIMARY KEY,
+    agent_id TEXT NOT NULL, -- The reported agent
+    reporter_id TEXT NOT NULL,
+    reporter_type TEXT NOT NULL DEFAULT 'agent' CHECK (reporter_type IN ('agent', 'platform')),
+    category TEXT NOT NULL CHECK (category IN ('scam', 'impersonation', 'spam', 'malicious', 'other')),
+    description TEXT,
+    evidence TEXT, -- JSON array of URLs
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'disputed', 'upheld', 'dismissed')),
+    dispute_statement TEXT,
+    disputed_at TEXT,
+    resolved_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    FOREIGN KEY (agent_id) REFERENCES agents(id),
+    UNIQUE(agent_id, reporter_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reports_agent ON reports(agent_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_reports_status ON reports(status, updated_at);
+
+CREATE TABLE IF NOT EXISTS trust_snapshots (
+    id TEXT PRIMARY KEY,
+    agent_id TEXT NOT NULL,
+    score INTEGER NOT NULL,
+    factors TEXT NOT NULL, -- JSON object of points per factor
+    policy_version TEXT NOT NULL,
+    trigger TEXT NOT NULL, -- What caused the change, e.g. vouch, verify, cron
+    created_at TEXT NOT NULL,
+    FOREIGN KEY (agent_id) REFERENCES agents(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trust_snapshots_agent ON trust_snapshots(agent_id, created_at);
 `;
 
 /**
@@ -126,6 +335,21 @@ export async function seedTestData(
  */
 export async function cleanupTestDb(db: D1Database): Promise<void> {
   // Delete in order to respect foreign key constraints
+  await db.prepare('DELETE FROM request_nonces').run();
+  await db.prepare('DELETE FROM job_state').run();
+  await db.prepare('DELETE FROM score_changes').run();
+  await db.prepare('DELETE FROM trust_policies').run();
+  await db.prepare('DELETE FROM graph_trust').run();
+  await db.prepare('DELETE FROM risk_flags').run();
+  await db.prepare('DELETE FROM vouch_revocations').run();
+  await db.prepare('DELETE FROM capability_scores').run();
+  await db.prepare('DELETE FROM reports').run();
+  await db.prepare('DELETE FROM trust_snapshots').run();
+  await db.prepare('DELETE FROM agent_keys').run();
+  await db.prepare('DELETE FROM oauth_authorizations').run();
+  await db.prepare('DELETE FROM oauth_clients').run();
+  await db.prepare('DELETE FROM challenges').run();
+  await db.prepare('DELETE FROM linked_accounts').run();
   await db.prepare('DELETE FROM vouches').run();
   await db.prepare('DELETE FROM agents').run();
 }
@@ -137,6 +361,21 @@ export async function cleanupTestDb(db: D1Database): Promise<void> {
  * @param db - The D1 database instance from the test environment
  */
 export async function resetTestDb(db: D1Database): Promise<void> {
+  await db.prepare('DROP TABLE IF EXISTS request_nonces').run();
+  await db.prepare('DROP TABLE IF EXISTS job_state').run();
+  await db.prepare('DROP TABLE IF EXISTS score_changes').run();
+  await db.prepare('DROP TABLE IF EXISTS trust_policies').run();
+  await db.prepare('DROP TABLE IF EXISTS graph_trust').run();
+  await db.prepare('DROP TABLE IF EXISTS risk_flags').run();
+  await db.prepare('DROP TABLE IF EXISTS vouch_revocations').run();
+  await db.prepare('DROP TABLE IF EXISTS capability_scores').run();
+  await db.prepare('DROP TABLE IF EXISTS reports').run();
+  await db.prepare('DROP TABLE IF EXISTS trust_snapshots').run();
+  await db.prepare('DROP TABLE IF EXISTS agent_keys').run();
+  await db.prepare('DROP TABLE IF EXISTS oauth_authorizations').run();
+  await db.prepare('DROP TABLE IF EXISTS oauth_clients').run();
+  await db.prepare('DROP TABLE IF EXISTS challenges').run();
+  await db.prepare('DROP TABLE IF EXISTS linked_accounts').run();
   await db.prepare('DROP TABLE IF EXISTS vouches').run();
   await db.prepare('DROP TABLE IF EXISTS agents').run();
   await setupTestDb(db);
@@ -159,6 +398,7 @@ export async function createTestAgent(
     public_key: string | null;
     capabilities: string[];
     trust_score: number;
+    tier: TrustTier;
     vouch_count: number;
     status: 'pending' | 'active' | 'suspended';
     verification_code: string | null;
@@ -172,9 +412,9 @@ export async function createTestAgent(
     .prepare(
       `INSERT INTO agents (
         id, moltbook_username, moltbook_verified, moltbook_karma,
-        public_key, capabilities, trust_score, vouch_count, status,
+        public_key, capabilities, trust_score, tier, vouch_count, status,
         verification_code, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
     )
     .bind(
       id,
@@ -184,6 +424,7 @@ export async function createTestAgent(
       overrides.public_key ?? null,
       JSON.stringify(overrides.capabilities || []),
       overrides.trust_score ?? 0,
+      overrides.tier ?? 'unverified',
       overrides.vouch_count ?? 0,
       overrides.status ?? 'pending',
       overrides.verification_code ?? `moltid-verify:${id}`,
@@ -192,6 +433,17 @@ export async function createTestAgent(
     )
     .run();
 
+  // Mirror AgentService.create, which starts the key history at registration
+  if (overrides.public_key) {
+    await db
+      .prepare(
+        `INSERT INTO agent_keys (id, agent_id, public_key, valid_from, added_via)
+         VALUES (?, ?, ?, ?, 'registration')`
+      )
+      .bind(`key_${id}`, id, overrides.public_key, overrides.created_at ?? now)
+      .run();
+  }
+
   return id;
 }
 
@@ -258,3 +510,166 @@ export async function countTestAgents(
   const result = (await db.prepare(sql).first()) as { count: number } | null;
   return result?.count ?? 0;
 }
+
+/**
+ * A generated key pair for signing test requests.
+ * publicKey is the base64 SPKI string to store on the agent.
+ */
+export interface TestKeyPair {
+  publicKey: string;
+  privateKey: CryptoKey;
+  algorithm: 'Ed25519' | 'ES256';
+}
+
+/**
+ * Helper to generate a signing key pair for an agent.
+ *
+ * @param algorithm - Ed25519 (default) or ES256 (ECDSA P-256)
+ * @returns The key pair with an exported public key
+ */
+export async function createTestKeyPair(
+  algorithm: 'Ed25519' | 'ES256' = 'Ed25519'
+): Promise<TestKeyPair> {
+  const params =
+    algorithm === 'Ed25519'
+      ? { name: 'Ed25519' }
+      : { name: 'ECDSA', namedCurve: 'P-256' };
+  const pair = (await crypto.subtle.generateKey(params, true, [
+    'sign',
+    'verify',
+  ])) as CryptoKeyPair;
+  const spki = (await crypto.subtle.exportKey('spki', pair.publicKey)) as ArrayBuffer;
+
+  return {
+    publicKey: encodeBase64(spki),
+    privateKey: pair.privateKey,
+    algorithm,
+  };
+}
+
+/**
+ * Helper to sign an arbitrary message with a test key.
+ *
+ * @param keyPair - The signing key pair
+ * @param message - The message to sign
+ * @returns Base64 signature
+ */
+export async function signTestMessage(
+  keyPair: TestKeyPair,
+  message: string
+): Promise<string> {
+  const params =
+    keyPair.algorithm === 'Ed25519'
+      ? { name: 'Ed25519' }
+      : { name: 'ECDSA', hash: 'SHA-256' };
+  const signature = await crypto.subtle.sign(
+    params,
+    keyPair.privateKey,
+    new TextEncoder().encode(message)
+  );
+  return encodeBase64(signature);
+}
+
+/**
+ * Helper to build the signature headers for a request.
+ *
+ * @param keyPair - The signing agent's key pair
+ * @param agentId - The signing agent's ID
+ * @param method - HTTP method
+ * @param path - Request path including query string
+ * @param body - Raw request body ('' when there is none)
+ * @param overrides - Optional timestamp/nonce overrides for replay tests
+ * @returns Headers to merge into the request
+ */
+export async function signTestRequest(
+  keyPair: TestKeyPair,
+  agentId: string,
+  method: string,
+  path: string,
+  body: string,
+  overrides: { timestamp?: string; nonce?: string } = {}
+): Promise<Record<string, string>> {
+  const timestamp = overrides.timestamp ?? String(Math.floor(Date.now() / 1000));
+  const nonce = overrides.nonce ?? crypto.randomUUID();
+  const message = await SignatureService.canonicalString({
+    method,
+    path,
+    timestamp,
+    nonce,
+    body,
+  });
+
+  return {
+    'X-MoltID-Agent': agentId,
+    'X-MoltID-Timestamp': timestamp,
+    'X-MoltID-Nonce': nonce,
+    'X-MoltID-Signature': await signTestMessage(keyPair, message),
+  };
+}
+
+/**
+ * Helper to send a request to the Hono app.
+ *
+ * @param method - HTTP method
+ * @param path - Request path including query string
+ * @param body - Optional JSON body
+ * @param headers - Extra request headers
+ */
+export async function appRequest(
+  method: string,
+  path: string,
+  body?: unknown,
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  const init: RequestInit = {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  };
+  if (body) {
+    init.body = JSON.stringify(body);
+  }
+  return app.fetch(new Request(`http://localhost${path}`, init), env);
+}
+
+/**
+ * Helper to send a request signed by an agent's key to the Hono app.
+ *
+ * @param method - HTTP method
+ * @param path - Request path including query string
+ * @param agentId - The signing agent's ID
+ * @param keyPair - The signing agent's key pair
+ * @param body - Optional JSON body
+ * @param overrides - Optional timestamp/nonce overrides for replay tests
+ */
+export async function signedAppRequest(
+  method: string,
+  path: string,
+  agentId: string,
+  keyPair: TestKeyPair,
+  body?: unknown,
+  overrides: { timestamp?: string; nonce?: string } = {}
+): Promise<Response> {
+  const rawBody = body ? JSON.stringify(body) : '';
+  const headers = await signTestRequest(keyPair, agentId, method, path, rawBody, overrides);
+  return appRequest(method, path, body, headers);
+}
+
+/**
+ * Route the worker's outbound Moltbook requests to a mock instance.
+ * Call fetchMock.deactivate() after the test.
+ *
+ * @param mock - The mock Moltbook
+ * @param origin - Must match MOLTBOOK_BASE_URL in wrangler.test.toml
+ */
+export function installMockMoltbook(mock: MockMoltbook, origin: string = env.MOLTBOOK_BASE_URL!): void {
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+  fetchMock
+    .get(origin)
+    .intercept({ path: () => true, method: () => true })
+    .reply((opts) => {
+      const { status, body, headers } = mock.handle(opts.method, opts.path, opts.body?.toString());
+      return { statusCode: status, data: body, responseOptions: { headers } };
+    })
+    .persist();
+}
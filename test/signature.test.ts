@@ -0,0 +1,159 @@
+/**
+ * Signature service unit tests
+ *
+ * Tests for public key parsing, signature verification and the
+ * replay protection in SignatureService.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env } from 'cloudflare:test';
+import { SignatureService } from '../src/services/signature';
+import {
+  encodeBase64,
+  importPublicKey,
+  verifySignature,
+} from '../src/utils/crypto';
+import {
+  setupTestDb,
+  cleanupTestDb,
+  createTestKeyPair,
+  signTestMessage,
+} from './setup';
+
+describe('SignatureService', () => {
+  let signatureService: SignatureService;
+
+  beforeEach(async () => {
+    await setupTestDb(env.DB);
+    await cleanupTestDb(env.DB);
+    signatureService = new SignatureService(env.DB);
+  });
+
+  // ============================================================
+  // importPublicKey() tests
+  // ============================================================
+  describe('importPublicKey', () => {
+    it('detects Ed25519 SPKI keys', async () => {
+      const keys = await createTestKeyPair('Ed25519');
+
+      const imported = await importPublicKey(keys.publicKey);
+
+      expect(imported?.algorithm).toBe('Ed25519');
+    });
+
+    it('detects P-256 SPKI keys', async () => {
+      const keys = await createTestKeyPair('ES256');
+
+      const imported = await importPublicKey(keys.publicKey);
+
+      expect(imported?.algorithm).toBe('ES256');
+    });
+
+    it('accepts raw Ed25519 keys', async () => {
+      const pair = (await crypto.subtle.generateKey({ name: 'Ed25519' }, true, [
+        'sign',
+        'verify',
+      ])) as CryptoKeyPair;
+      const raw = (await crypto.subtle.exportKey('raw', pair.publicKey)) as ArrayBuffer;
+
+      const imported = await importPublicKey(encodeBase64(raw));
+
+      expect(imported?.algorithm).toBe('Ed25519');
+    });
+
+    it('accepts PEM-wrapped keys', async () => {
+      const keys = await createTestKeyPair('Ed25519');
+      const pem = `-----BEGIN PUBLIC KEY-----\n${keys.publicKey}\n-----END PUBLIC KEY-----`;
+
+      const imported = await importPublicKey(pem);
+
+      expect(imported?.algorithm).toBe('Ed25519');
+    });
+
+    it('returns null for unsupported keys', async () => {
+      expect(await importPublicKey('pk_alice_test_key_001')).toBeNull();
+      expect(await importPublicKey('not base64 at all!')).toBeNull();
+    });
+  });
+
+  // ============================================================
+  // verifySignature() tests
+  // ============================================================
+  describe('verifySignature', () => {
+    it('verifies a valid signature', async () => {
+      const keys = await createTestKeyPair();
+      const signature = await signTestMessage(keys, 'hello');
+
+      expect(await verifySignature(keys.publicKey, signature, 'hello')).toBe(true);
+    });
+
+    it('rejects a signature over a different message', async () => {
+      const keys = await createTestKeyPair('ES256');
+      const signature = await signTestMessage(keys, 'hello');
+
+      expect(await verifySignature(keys.publicKey, signature, 'goodbye')).toBe(false);
+    });
+
+    it('rejects malformed signatures', async () => {
+      const keys = await createTestKeyPair();
+
+      expect(await verifySignature(keys.publicKey, '%%%', 'hello')).toBe(false);
+    });
+  });
+
+  // ============================================================
+  // verifyRequest() tests
+  // ============================================================
+  describe('verifyRequest', () => {
+    const parts = () => ({
+      method: 'POST',
+      path: '/v1/agents/mlt_x/vouch',
+      timestamp: String(Math.floor(Date.now() / 1000)),
+      nonce: crypto.randomUUID(),
+      body: '{"from_agent_id":"mlt_y"}',
+    });
+
+    it('builds the canonical string with a body hash', async () => {
+      const canonical = await SignatureService.canonicalString({
+        method: 'post',
+        path: '/v1/x',
+        timestamp: '1700000000',
+        nonce: 'n1',
+        body: '',
+      });
+
+      expect(canonical).toBe(
+        'MOLTID-SIG-V1\nPOST\n/v1/x\n1700000000\nn1\n' +
+          'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+      );
+    });
+
+    it('accepts a correctly signed request once', async () => {
+      const keys = await createTestKeyPair();
+      const p = parts();
+      const signature = await signTestMessage(keys, await SignatureService.canonicalString(p));
+
+      const first = await signatureService.verifyRequest('mlt_y', keys.publicKey, p, signature);
+      const second = await signatureService.verifyRequest('mlt_y', keys.publicKey, p, signature);
+
+      expect(first.valid).toBe(true);
+      expect(second).toMatchObject({ valid: false, code: 'replayed_nonce' });
+    });
+
+    it('rejects timestamps outside the skew window', async () => {
+      const keys = await createTestKeyPair();
+      const p = { ...parts(), timestamp: '1000' };
+      const signature = await signTestMessage(keys, await SignatureService.canonicalString(p));
+
+      const result = await signatureService.verifyRequest('mlt_y', keys.publicKey, p, signature);
+
+      expect(result).toMatchObject({ valid: false, code: 'stale_timestamp' });
+    });
+
+    it('allows the same nonce for different agents', async () => {
+      expect(await signatureService.consumeNonce('mlt_a', 'shared')).toBe(true);
+      expect(await signatureService.consumeNonce('mlt_b', 'shared')).toBe(true);
+      expect(await signatureService.consumeNonce('mlt_a', 'shared')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Sybil detection tests
+ *
+ * Tests for SybilService (vouch rings, registration bursts, shared keys),
+ * vouch discounting in TrustService, and the /v1/admin risk flag routes.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env } from 'cloudflare:test';
+import { AgentService } from '../src/services/agent';
+import { SybilService } from '../src/services/sybil';
+import { TrustService } from '../src/services/trust';
+import { setupTestDb, cleanupTestDb, createTestAgent, createTestVouch, appRequest } from './setup';
+import type { ApiResponse, RiskFlag } from '../src/types';
+
+interface ErrorResponse {
+  success: false;
+  error: { code: string; message: string };
+}
+
+const ADMIN = { Authorization: 'Bearer test-admin-token' };
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Register verified agents `ids` an hour apart (so they never form a burst).
+ */
+async function createSpacedAgents(ids: string[], overrides: { public_key?: string } = {}): Promise<void> {
+  for (const [i, id] of ids.entries()) {
+    await createTestAgent(env.DB, {
+      id,
+      moltbook_verified: true,
+      status: 'active',
+      created_at: new Date(Date.now() - (i + 1) * HOUR_MS).toISOString(),
+      ...overrides,
+    });
+  }
+}
+
+/**
+ * Vouch in both directions between every pair of `ids`.
+ */
+async function vouchMutually(ids: string[]): Promise<void> {
+  for (const from of ids) {
+    for (const to of ids) {
+      if (from !== to) await createTestVouch(env.DB, from, to);
+    }
+  }
+}
+
+describe('Sybil detection', () => {
+  let sybilService: SybilService;
+
+  beforeEach(async () => {
+    await setupTestDb(env.DB);
+    await cleanupTestDb(env.DB);
+    sybilService = new SybilService(env.DB);
+  });
+
+  // ============================================================
+  // Detector tests
+  // ============================================================
+  describe('findVouchRings', () => {
+    it('flags a clique of new agents vouching for each other', async () => {
+      const ring = ['mlt_ring_a', 'mlt_ring_b', 'mlt_ring_c'];
+      await createSpacedAgents(ring);
+      await vouchMutually(ring);
+
+      const findings = await sybilService.findVouchRings();
+
+      expect(findings.map((f) => f.agent_id).sort()).toEqual(ring);
+      expect(findings[0].details).toMatchObject({ members: ring, mutual_pairs: 3, density: 1 });
+    });
+
+    it('ignores a single mutual pair and one-way chains', async () => {
+      await createSpacedAgents(['mlt_pair_a', 'mlt_pair_b', 'mlt_chain_c']);
+      await vouchMutually(['mlt_pair_a', 'mlt_pair_b']);
+      await createTestVouch(env.DB, 'mlt_pair_b', 'mlt_chain_c');
+
+      expect(await sybilService.findVouchRings()).toEqual([]);
+    });
+
+    it('ignores rings between established agents', async () => {
+      const ring = ['mlt_old_a', 'mlt_old_b', 'mlt_old_c'];
+      for (const id of ring) {
+        await createTestAgent(env.DB, { id, created_at: new Date(Date.now() - 90 * 24 * HOUR_MS).toISOString() });
+      }
+      await vouchMutually(ring);
+
+      expect(await sybilService.findVouchRings()).toEqual([]);
+    });
+
+    it('compares SQLite registration times with the cutoff as datetimes', async () => {
+      // datetime('now') format, a minute inside the 30-day window
+      const createdAt = new Date(Date.now() - 30 * 24 * HOUR_MS + 60_000).toISOString().replace('T', ' ').slice(0, 19);
+      const ring = ['mlt_sql_a', 'mlt_sql_b', 'mlt_sql_c'];
+      for (const id of ring) {
+        await createTestAgent(env.DB, { id, created_at: createdAt });
+      }
+      await vouchMutually(ring);
+
+      expect((await sybilService.findVouchRings()).map((f) => f.agent_id).sort()).toEqual(ring);
+    });
+  });
+
+  describe('findRegistrationBursts', () => {
+    it('flags vouching agents registered within minutes of each other', async () => {
+      await createTestAgent(env.DB, { id: 'mlt_target' });
+      const start = Date.now() - 2 * HOUR_MS;
+      for (let i = 0; i < 5; i++) {
+        const id = `mlt_burst_${i}`;
+        await createTestAgent(env.DB, { id, created_at: new Date(start + i * 60 * 1000).toISOString() });
+        await createTestVouch(env.DB, id, 'mlt_target');
+      }
+
+      const findings = await sybilService.findRegistrationBursts();
+
+      expect(findings).toHaveLength(5);
+      expect(findings[0].details).toMatchObject({ window_minutes: 10 });
+      expect(findings.map((f) => f.agent_id)).not.toContain('mlt_target');
+    });
+
+    it('ignores bursts of agents that never vouch', async () => {
+      for (let i = 0; i < 6; i++) await createTestAgent(env.DB, { id: `mlt_quiet_${i}` });
+
+      expect(await sybilService.findRegistrationBursts()).toEqual([]);
+    });
+  });
+
+  describe('findSharedKeys', () => {
+    it('flags agents registered with the same public key', async () => {
+      await createSpacedAgents(['mlt_key_a', 'mlt_key_b'], { public_key: 'shared-key' });
+      await createSpacedAgents(['mlt_key_c'], { public_key: 'own-key' });
+
+      const findings = await sybilService.findSharedKeys();
+
+      expect(findings.map((f) => f.agent_id)).toEqual(['mlt_key_a', 'mlt_key_b']);
+      expect(findings[0].details).toEqual({ public_key: 'shared-key', agents: ['mlt_key_a', 'mlt_key_b'] });
+    });
+  });
+
+  // ============================================================
+  // analyze tests
+  // ============================================================
+  describe('analyze', () => {
+    const ring = ['mlt_ring_a', 'mlt_ring_b', 'mlt_ring_c'];
+
+    beforeEach(async () => {
+      await createSpacedAgents(ring);
+      await vouchMutually(ring);
+    });
+
+    it('stores open risk flags', async () => {
+      const result = await sybilService.analyze();
+
+      expect(result).toMatchObject({ flagged: 3, findings: { vouch_ring: 3, registration_burst: 0, shared_key: 0 } });
+      const flags = await sybilService.list({ status: 'open' });
+      expect(flags).toHaveLength(3);
+      expect(flags[0].run_id).toBe(result.run_id);
+    });
+
+    it('resolves flags that are no longer detected', async () => {
+      await sybilService.analyze();
+      await env.DB.prepare("DELETE FROM vouches WHERE from_agent_id = 'mlt_ring_a' OR to_agent_id = 'mlt_ring_a'").run();
+
+      const result = await sybilService.analyze();
+
+      expect(result.resolved).toBe(3);
+      expect(await sybilService.list({ status: 'open' })).toHaveLength(0);
+    });
+
+    it('keeps dismissed flags dismissed', async () => {
+      await sybilService.analyze();
+      const [flag] = await sybilService.list({ agent_id: 'mlt_ring_a' });
+      await sybilService.dismiss(flag.id);
+
+      await sybilService.analyze();
+
+      const [after] = await sybilService.list({ agent_id: 'mlt_ring_a' });
+      expect(after.status).toBe('dismissed');
+    });
+
+    it('discounts vouches from flagged agents', async () => {
+      const target = (await new AgentService(env.DB).getById('mlt_ring_a'))!;
+      const trustService = new TrustService(env.DB);
+      const before = await trustService.explain(target);
+
+      await sybilService.analyze();
+      const after = await trustService.explain(target);
+
+      // Two vouches: 10 points, then 2 x 20% x 5 = 2 points
+      expect(before.factors.vouches.points).toBe(10);
+      expect(after.factors.vouches.points).toBe(2);
+      expect(after.factors.vouches.flagged_vouchers.sort()).toEqual(['mlt_ring_b', 'mlt_ring_c']);
+    });
+
+    it('rescores the agents flagged agents vouched for', async () => {
+      const agentService = new AgentService(env.DB);
+
+      const result = await sybilService.analyze();
+
+      // 20 (verified) + 2 (two discounted vouches)
+      expect(result.rescored).toBe(3);
+      expect((await agentService.getById('mlt_ring_a'))!.trust_score).toBe(22);
+
+      for (const flag of await sybilService.list({ agent_id: 'mlt_ring_b' })) {
+        await sybilService.dismiss(flag.id);
+      }
+      // 20 (verified) + 5 (mlt_ring_b) + 1 (mlt_ring_c, still flagged)
+      expect((await agentService.getById('mlt_ring_a'))!.trust_score).toBe(26);
+    });
+  });
+
+  // ============================================================
+  // API tests
+  // ============================================================
+  describe('/v1/admin/risk-flags', () => {
+    beforeEach(async () => {
+      await createSpacedAgents(['mlt_key_a', 'mlt_key_b'], { public_key: 'shared-key' });
+    });
+
+    it('requires the admin token', async () => {
+      const missing = await appRequest('GET', '/v1/admin/risk-flags');
+      const wrong = await appRequest('GET', '/v1/admin/risk-flags', undefined, { Authorization: 'Bearer nope' });
+
+      expect(missing.status).toBe(401);
+      expect(wrong.status).toBe(401);
+      expect(((await wrong.json()) as ErrorResponse).error.code).toBe('unauthorized');
+    });
+
+    it('runs the analysis and lists findings', async () => {
+      const run = await appRequest('POST', '/v1/admin/risk-flags/analyze', undefined, ADMIN);
+      expect(run.status).toBe(200);
+
+      const res = await appRequest('GET', '/v1/admin/risk-flags?kind=shared_key&status=open', undefined, ADMIN);
+
+      expect(res.status).toBe(200);
+      const json = (await res.json()) as ApiResponse<RiskFlag[]>;
+      expect(json.data!.map((f) => f.agent_id).sort()).toEqual(['mlt_key_a', 'mlt_key_b']);
+    });
+
+    it('dismisses a flag', async () => {
+      await sybilService.analyze();
+      const [flag] = await sybilService.list();
+
+      const res = await appRequest('POST', `/v1/admin/risk-flags/${flag.id}/dismiss`, undefined, ADMIN);
+
+      expect(res.status).toBe(200);
+      const json = (await res.json()) as ApiResponse<RiskFlag>;
+      expect(json.data!.status).toBe('dismissed');
+
+      const missing = await appRequest('POST', '/v1/admin/risk-flags/rsk_missing/dismiss', undefined, ADMIN);
+      expect(missing.status).toBe(404);
+    });
+
+    it('validates filters', async () => {
+      const res = await appRequest('GET', '/v1/admin/risk-flags?kind=bogus', undefined, ADMIN);
+
+      expect(res.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Trust tier tests
+ *
+ * Tests for tier placement (tiers.ts), storing tiers on rescore and refresh,
+ * GET /v1/agents?tier= and GET /v1/trust/tiers.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env } from 'cloudflare:test';
+import { AgentService } from '../src/services/agent';
+import { DEFAULT_TRUST_POLICY } from '../src/services/policy';
+import { RefreshService } from '../src/services/refresh';
+import { ReportService } from '../src/services/report';
+import { tierDefinitions } from '../src/services/tiers';
+import { TrustService } from '../src/services/trust';
+import { MockMoltbook } from './mocks/moltbook';
+import { setupTestDb, cleanupTestDb, createTestAgent, createTestVouch, appRequest } from './setup';
+import type { AgentPublic, ApiResponse, TrustDetails, TrustTierDefinition } from '../src/types';
+
+interface ErrorResponse {
+  success: false;
+  error: { code: string; message: string };
+}
+
+describe('Trust tiers', () => {
+  let trustService: TrustService;
+
+  beforeEach(async () => {
+    await setupTestDb(env.DB);
+    await cleanupTestDb(env.DB);
+    trustService = new TrustService(env.DB);
+  });
+
+  /**
+   * Rescore an agent and return its stored tier.
+   */
+  async function rescoredTier(agentId: string): Promise<string> {
+    await trustService.rescore(agentId, 'verify');
+    return (await new AgentService(env.DB).getById(agentId))!.tier;
+  }
+
+  // ============================================================
+  // Placement tests
+  // ============================================================
+  describe('placement', () => {
+    it('places agents by verification and score', async () => {
+      const unverified = await createTestAgent(env.DB, { id: 'mlt_tier_unverified' });
+      // 20 (verified)
+      const linked = await createTestAgent(env.DB, { id: 'mlt_tier_linked', moltbook_verified: true });
+      // 20 (verified) + 25 (karma)
+      const established = await createTestAgent(env.DB, {
+        id: 'mlt_tier_established',
+        moltbook_verified: true,
+        moltbook_karma: 2500,
+      });
+      // 20 (verified) + 30 (karma) + 20 (age)
+      const trusted = await createTestAgent(env.DB, {
+        id: 'mlt_tier_trusted',
+        moltbook_verified: true,
+        moltbook_karma: 3000,
+        created_at: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
+      });
+
+      expect(await rescoredTier(unverified)).toBe('unverified');
+      expect(await rescoredTier(linked)).toBe('linked');
+      expect(await rescoredTier(established)).toBe('established');
+      expect(await rescoredTier(trusted)).toBe('trusted');
+    });
+
+    it('keeps unverified agents unverified whatever their score', async () => {
+      const agentId = await createTestAgent(env.DB, {
+        id: 'mlt_tier_vouched',
+        created_at: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
+      });
+      for (const id of ['mlt_tier_v1', 'mlt_tier_v2', 'mlt_tier_v3', 'mlt_tier_v4']) {
+        await createTestAgent(env.DB, { id, moltbook_verified: true });
+        await createTestVouch(env.DB, id, agentId);
+      }
+
+      // 20 (age) + 20 (vouches)
+      expect(await trustService.rescore(agentId, 'vouch')).toBe(40);
+      expect(await rescoredTier(agentId)).toBe('unverified');
+    });
+
+    it('caps agents with a report penalty at linked', async () => {
+      const agentId = await createTestAgent(env.DB, {
+        id: 'mlt_tier_reported',
+        moltbook_verified: true,
+        moltbook_karma: 3000,
+        created_at: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
+      });
+      const reporterId = await createTestAgent(env.DB, { id: 'mlt_tier_reporter', moltbook_verified: true, trust_score: 50 });
+      const report = await new ReportService(env.DB).create(agentId, reporterId, { category: 'scam' });
+      await new ReportService(env.DB).resolve(report.id, 'upheld');
+
+      // 70 - 10 would still clear the established threshold
+      expect(await trustService.rescore(agentId, 'report_resolved')).toBe(60);
+      expect(await rescoredTier(agentId)).toBe('linked');
+    });
+
+    it('follows the policy thresholds', async () => {
+      const policy = { ...DEFAULT_TRUST_POLICY, tiers: { established_min_score: 10, trusted_min_score: 20 } };
+      const agentId = await createTestAgent(env.DB, { id: 'mlt_tier_policy', moltbook_verified: true });
+
+      await new TrustService(env.DB, policy).rescore(agentId, 'verify');
+
+      expect((await new AgentService(env.DB).getById(agentId))!.tier).toBe('trusted');
+      expect(tierDefinitions(policy).map((t) => t.min_score)).toEqual([0, 0, 10, 20]);
+    });
+  });
+
+  // ============================================================
+  // Storage tests
+  // ============================================================
+  describe('storage', () => {
+    it('updates the tier in the refresh job', async () => {
+      // The mock has 2500 karma for alice_agent: 20 + 25
+      await createTestAgent(env.DB, {
+        id: 'mlt_tier_refresh',
+        moltbook_username: 'alice_agent',
+        moltbook_verified: true,
+        moltbook_karma: 1000,
+        trust_score: 30,
+        tier: 'linked',
+      });
+
+      await new RefreshService(env.DB, env, new MockMoltbook().client()).runBatch();
+
+      expect((await new AgentService(env.DB).getById('mlt_tier_refresh'))!.tier).toBe('established');
+    });
+
+    it('is returned with the agent and the trust breakdown', async () => {
+      const agentId = await createTestAgent(env.DB, {
+        id: 'mlt_tier_public',
+        moltbook_verified: true,
+        moltbook_karma: 2500,
+        trust_score: 45,
+        tier: 'established',
+      });
+
+      const agent = await appRequest('GET', `/v1/agents/${agentId}`);
+      const trust = await appRequest('GET', `/v1/agents/${agentId}/trust`);
+
+      expect(((await agent.json()) as ApiResponse<AgentPublic>).data!.tier).toBe('established');
+      const details = ((await trust.json()) as ApiResponse<TrustDetails>).data!;
+      expect(details.tier).toBe('established');
+      expect(details.explanation.tier).toBe('established');
+    });
+  });
+
+  // ============================================================
+  // API tests
+  // ============================================================
+  describe('GET /v1/agents?tier=', () => {
+    it('filters agents by tier', async () => {
+      await createTestAgent(env.DB, { id: 'mlt_tier_a', status: 'active', trust_score: 80, tier: 'trusted' });
+      await createTestAgent(env.DB, { id: 'mlt_tier_b', status: 'active', trust_score: 45, tier: 'established' });
+      await createTestAgent(env.DB, { id: 'mlt_tier_c', status: 'active', trust_score: 75, tier: 'trusted' });
+
+      const res = await appRequest('GET', '/v1/agents?tier=trusted');
+
+      expect(res.status).toBe(200);
+      const json = (await res.json()) as ApiResponse<AgentPublic[]>;
+      expect(json.data!.map((a) => a.id)).toEqual(['mlt_tier_a', 'mlt_tier_c']);
+    });
+
+    it('rejects unknown tiers (400)', async () => {
+      const res = await appRequest('GET', '/v1/agents?tier=legendary');
+
+      expect(res.status).toBe(400);
+      expect(((await res.json()) as ErrorResponse).error.code).toBe('invalid_request');
+    });
+  });
+
+  describe('GET /v1/trust/tiers', () => {
+    it('publishes the tier definitions', async () => {
+      const res = await appRequest('GET', '/v1/trust/tiers');
+
+      expect(res.status).toBe(200);
+      const json = (await res.json()) as ApiResponse<{ policy_version: string; tiers: TrustTierDefinition[] }>;
+      expect(json.data!.policy_version).toBe('1');
+      expect(json.data!.tiers.map((t) => [t.tier, t.min_score])).toEqual([
+        ['unverified', 0],
+        ['linked', 0],
+        ['established', 40],
+        ['trusted', 70],
+      ]);
+    });
+  });
+});
@@ -6,14 +6,23 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import { env } from 'cloudflare:test';
+import { DEFAULT_TRUST_POLICY } from '../src/services/policy';
 import { TrustService } from '../src/services/trust';
 import {
   setupTestDb,
   cleanupTestDb,
   createTestAgent,
   createTestVouch,
+  appRequest,
 } from './setup';
 import { TRUST_SCORE_SCENARIOS, EXPECTED_TRUST_SCORES } from './fixtures';
+import { AgentService } from '../src/services/agent';
+import type { Agent, ApiResponse, TrustDetails, TrustDrift } from '../src/types';
+
+interface ErrorResponse {
+  success: false;
+  error: { code: string; message: string };
+}
 
 describe('TrustService', () => {
   let trustService: TrustService;
@@ -266,6 +275,19 @@ describe('TrustService', () => {
   });
 
   describe('getDetails', () => {
+    // Stores the agent and `count` vouches for it from verified agents
+    async function addVerifiedVouches(agentId: string, count: number): Promise<void> {
+      await createTestAgent(env.DB, { id: agentId });
+      for (let i = 0; i < count; i++) {
+        const voucherId = await createTestAgent(env.DB, {
+          id: `mlt_details_voucher_${i}`,
+          moltbook_verified: true,
+          status: 'active',
+        });
+        await createTestVouch(env.DB, voucherId, agentId);
+      }
+    }
+
     it('returns correct breakdown for verified agent', async () => {
       const fiveDaysAgo = new Date();
       fiveDaysAgo.setDate(fiveDaysAgo.getDate() - 5);
@@ -278,13 +300,16 @@ describe('TrustService', () => {
         public_key: null,
         capabilities: [],
         trust_score: 30,
+        tier: 'linked' as const,
         vouch_count: 1,
         status: 'active' as const,
         verification_code: null,
+        domains: [],
         created_at: fiveDaysAgo.toISOString(),
         updated_at: new Date().toISOString(),
       };
 
+      await addVerifiedVouches(agent.id, 1);
       const details = await trustService.getDetails(agent);
 
       expect(details.moltbook_verified).toBe(true);
@@ -306,9 +331,11 @@ describe('TrustService', () => {
         public_key: null,
         capabilities: [],
         trust_score: 0,
+        tier: 'unverified' as const,
         vouch_count: 0,
         status: 'pending' as const,
         verification_code: null,
+        domains: [],
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       };
@@ -333,19 +360,22 @@ describe('TrustService', () => {
         public_key: null,
         capabilities: [],
         trust_score: 100,
-        vouch_count: 20, // 20 * 5 = 100, should cap at 30
+        tier: 'trusted' as const,
+        vouch_count: 7, // 7 * 5 = 35, should cap at 30
         status: 'active' as const,
         verification_code: null,
+        domains: [],
         created_at: longAgo.toISOString(), // 100 days, should cap at 20
         updated_at: new Date().toISOString(),
       };
 
+      await addVerifiedVouches(agent.id, 7);
       const details = await trustService.getDetails(agent);
 
       expect(details.factors.moltbook_verified).toBe(20);
       expect(details.factors.karma).toBe(30); // Capped
       expect(details.factors.age).toBe(20); // Capped
-      expect(details.factors.vouches).toBe(30); // Capped (20 * 5 = 100, capped at 30)
+      expect(details.factors.vouches).toBe(30); // Capped (7 * 5 = 35, capped at 30)
     });
 
     it('returns preserved score from agent object', async () => {
@@ -357,9 +387,11 @@ describe('TrustService', () => {
         public_key: null,
         capabilities: [],
         trust_score: 42, // Pre-calculated score
+        tier: 'unverified' as const,
         vouch_count: 0,
         status: 'active' as const,
         verification_code: null,
+        domains: [],
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       };
@@ -370,4 +402,329 @@ describe('TrustService', () => {
       expect(details.score).toBe(42);
     });
   });
+
+  describe('explain', () => {
+    it('agrees with calculateScore when a voucher is unverified', async () => {
+      const targetId = await createTestAgent(env.DB, { id: 'mlt_explain_target', moltbook_verified: true });
+      const verifiedId = await createTestAgent(env.DB, { id: 'mlt_explain_verified', moltbook_verified: true });
+      const unverifiedId = await createTestAgent(env.DB, { id: 'mlt_explain_unverified' });
+      await createTestVouch(env.DB, verifiedId, targetId);
+      await createTestVouch(env.DB, unverifiedId, targetId);
+      const target = (await new AgentService(env.DB).getById(targetId))!;
+
+      const explanation = await trustService.explain(target);
+      const details = await trustService.getDetails(target);
+
+      expect(target.vouch_count).toBe(2);
+      expect(explanation.factors.vouches).toEqual({
+        input: 1,
+        points: 5,
+        max_points: 30,
+        capped: false,
+        vouchers: [verifiedId],
+        flagged_vouchers: [],
+        weight: 1,
+      });
+      expect(details.factors.vouches).toBe(5);
+      expect(details.computed_score).toBe(await trustService.calculateScore(targetId));
+    });
+
+    it('reports raw inputs and which caps applied', async () => {
+      const agentId = await createTestAgent(env.DB, {
+        moltbook_verified: true,
+        moltbook_karma: 4200,
+        created_at: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
+      });
+      const agent = (await new AgentService(env.DB).getById(agentId))!;
+
+      const explanation = await trustService.explain(agent);
+
+      expect(explanation.factors.moltbook_verified).toEqual({ input: true, points: 20, max_points: 20, capped: false });
+      expect(explanation.factors.karma).toEqual({ input: 4200, points: 30, max_points: 30, capped: true });
+      expect(explanation.factors.age).toEqual({ input: 3, points: 3, max_points: 20, capped: false });
+      expect(explanation.uncapped_total).toBe(53);
+      expect(explanation.score).toBe(53);
+      expect(explanation.policy_version).toBe('1');
+    });
+  });
+
+  describe('vouch expiry and decay', () => {
+    const DECAY_POLICY = {
+      ...DEFAULT_TRUST_POLICY,
+      vouch_decay: { ...DEFAULT_TRUST_POLICY.vouch_decay, enabled: true },
+    };
+    const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    // Stores a vouch for `targetId` from a new verified agent
+    async function addVouch(
+      targetId: string,
+      voucherId: string,
+      vouch: { created_at?: string; expires_at?: string; renewed_at?: string } = {}
+    ): Promise<void> {
+      await createTestAgent(env.DB, { id: voucherId, moltbook_verified: true });
+      await env.DB.prepare(
+        `INSERT INTO vouches (id, from_agent_id, to_agent_id, created_at, expires_at, renewed_at)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      ).bind(
+        `vch_${voucherId}`, voucherId, targetId,
+        vouch.created_at ?? new Date().toISOString(), vouch.expires_at ?? null, vouch.renewed_at ?? null
+      ).run();
+    }
+
+    it('ignores expired vouches', async () => {
+      const targetId = await createTestAgent(env.DB, { id: 'mlt_expiry_target' });
+      await addVouch(targetId, 'mlt_expiry_current', { expires_at: new Date(Date.now() + 60_000).toISOString() });
+      await addVouch(targetId, 'mlt_expiry_expired', { expires_at: daysAgo(1) });
+      const target = (await new AgentService(env.DB).getById(targetId))!;
+
+      const { factors } = await trustService.explain(target);
+
+      expect(factors.vouches.vouchers).toEqual(['mlt_expiry_current']);
+      expect(factors.vouches.points).toBe(5);
+    });
+
+    it('does not decay vouches under the default policy', async () => {
+      const targetId = await createTestAgent(env.DB, { id: 'mlt_decay_default' });
+      await addVouch(targetId, 'mlt_decay_old', { created_at: daysAgo(800) });
+      const target = (await new AgentService(env.DB).getById(targetId))!;
+
+      const { factors } = await trustService.explain(target);
+
+      expect(factors.vouches.weight).toBe(1);
+      expect(factors.vouches.points).toBe(5);
+    });
+
+    it('decays vouches after the grace period when enabled', async () => {
+      const targetId = await createTestAgent(env.DB, { id: 'mlt_decay_target' });
+      await addVouch(targetId, 'mlt_decay_recent', { created_at: daysAgo(30) });
+      // 90 grace days + one half-life => 0.5
+      await addVouch(targetId, 'mlt_decay_year', { created_at: daysAgo(455) });
+      // Floored at min_weight
+      await addVouch(targetId, 'mlt_decay_ancient', { created_at: daysAgo(2000) });
+      const target = (await new AgentService(env.DB).getById(targetId))!;
+
+      const { factors } = await new TrustService(env.DB, DECAY_POLICY).explain(target);
+
+      expect(factors.vouches.input).toBe(3);
+      expect(factors.vouches.weight).toBe(1.75);
+      expect(factors.vouches.points).toBe(8);
+    });
+
+    it('measures decay from the last renewal', async () => {
+      const targetId = await createTestAgent(env.DB, { id: 'mlt_renewed_target' });
+      await addVouch(targetId, 'mlt_renewed_voucher', { created_at: daysAgo(2000), renewed_at: daysAgo(10) });
+      const target = (await new AgentService(env.DB).getById(targetId))!;
+
+      const { factors } = await new TrustService(env.DB, DECAY_POLICY).explain(target);
+
+      expect(factors.vouches.weight).toBe(1);
+    });
+  });
+
+  describe('capability scores', () => {
+    it('counts only the vouches for each capability', async () => {
+      const targetId = await createTestAgent(env.DB, {
+        id: 'mlt_capability_target',
+        moltbook_verified: true,
+        capabilities: ['code-review', 'translation'],
+      });
+      const reviewerId = await createTestAgent(env.DB, { id: 'mlt_capability_reviewer', moltbook_verified: true });
+      const generalId = await createTestAgent(env.DB, { id: 'mlt_capability_general', moltbook_verified: true });
+      await new AgentService(env.DB).addVouch(reviewerId, targetId, { capability: 'code-review', statement: 'Reviewed 40 PRs with me' });
+      await new AgentService(env.DB).addVouch(generalId, targetId);
+      const target = (await new AgentService(env.DB).getById(targetId))!;
+
+      const explanation = await trustService.explain(target);
+
+      // 20 (verified) + 10 (two vouches)
+      expect(explanation.score).toBe(30);
+      expect(explanation.capability_scores).toEqual({ 'code-review': 25, translation: 20 });
+    });
+
+    it('stores capability scores for search ranking', async () => {
+      const targetId = await createTestAgent(env.DB, { id: 'mlt_capability_stored', capabilities: ['research'] });
+
+      const scores = await trustService.updateCapabilityScores(targetId);
+      await new AgentService(env.DB).update(targetId, { capabilities: [] });
+      const cleared = await trustService.updateCapabilityScores(targetId);
+
+      expect(scores).toEqual({ research: 0 });
+      expect(cleared).toEqual({});
+      const rows = await env.DB.prepare('SELECT * FROM capability_scores WHERE agent_id = ?').bind(targetId).all();
+      expect(rows.results).toHaveLength(0);
+    });
+  });
+
+  describe('simulate', () => {
+    let target: Agent;
+
+    beforeEach(async () => {
+      const targetId = await createTestAgent(env.DB, {
+        id: 'mlt_simulate_target',
+        moltbook_verified: true,
+        moltbook_karma: 1000,
+        trust_score: 30,
+        capabilities: ['research'],
+      });
+      target = (await new AgentService(env.DB).getById(targetId))!;
+      await createTestAgent(env.DB, { id: 'mlt_simulate_a', moltbook_verified: true });
+      await createTestAgent(env.DB, { id: 'mlt_simulate_b', moltbook_verified: true });
+      await createTestAgent(env.DB, { id: 'mlt_simulate_unverified' });
+    });
+
+    it('projects hypothetical vouches, karma and time without writing', async () => {
+      const details = await trustService.simulate(target, {
+        vouches: [
+          { from_agent_id: 'mlt_simulate_a', capability: 'research' },
+          { from_agent_id: 'mlt_simulate_b' },
+          { from_agent_id: 'mlt_simulate_unverified' },
+        ],
+        karma: 2500,
+        at: new Date(Date.now() + 10 * 24 * 60 * 60 * 1000),
+      });
+
+      // 20 (verified) + 25 (karma) + 10 (age) + 10 (two verified vouches)
+      expect(details.score).toBe(65);
+      expect(details.computed_score).toBe(65);
+      expect(details.moltbook_karma).toBe(2500);
+      expect(details.age_days).toBe(10);
+      expect(details.explanation.factors.vouches.vouchers).toEqual(['mlt_simulate_a', 'mlt_simulate_b']);
+      expect(details.explanation.capability_scores).toEqual({ research: 60 });
+
+      const stored = (await new AgentService(env.DB).getById(target.id))!;
+      expect(stored.trust_score).toBe(30);
+      expect(stored.moltbook_karma).toBe(1000);
+      expect(stored.vouch_count).toBe(0);
+    });
+
+    it('does not count a hypothetical vouch twice', async () => {
+      await createTestVouch(env.DB, 'mlt_simulate_a', target.id);
+
+      const details = await trustService.simulate(target, { vouches: [{ from_agent_id: 'mlt_simulate_a' }] });
+
+      expect(details.explanation.factors.vouches.input).toBe(1);
+    });
+
+    it('counts vouches that expire before the simulated date as gone', async () => {
+      await env.DB.prepare(
+        `INSERT INTO vouches (id, from_agent_id, to_agent_id, created_at, expires_at) VALUES (?, ?, ?, ?, ?)`
+      ).bind(
+        'vch_simulate', 'mlt_simulate_a', target.id,
+        new Date().toISOString(), new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
+      ).run();
+
+      const now = await trustService.simulate(target, {});
+      const later = await trustService.simulate(target, { at: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000) });
+
+      expect(now.explanation.factors.vouches.input).toBe(1);
+      expect(later.explanation.factors.vouches.input).toBe(0);
+    });
+
+    it('is exposed at POST /v1/agents/:id/trust/simulate', async () => {
+      const res = await appRequest('POST', `/v1/agents/${target.id}/trust/simulate`, {
+        vouches: [{ from_agent_id: 'mlt_simulate_a' }],
+        karma: 5000,
+      });
+
+      expect(res.status).toBe(200);
+      const json = (await res.json()) as ApiResponse<{ current_score: number; projected: TrustDetails }>;
+      expect(json.data!.current_score).toBe(30);
+      expect(json.data!.projected.score).toBe(55);
+      expect(json.data!.projected.policy_version).toBe('1');
+    });
+
+    it('simulates under another policy version', async () => {
+      await env.DB.prepare(
+        'INSERT INTO trust_policies (version, weights, active, created_at) VALUES (?, ?, 0, ?)'
+      ).bind('draft', JSON.stringify({ moltbook_verified_points: 40 }), new Date().toISOString()).run();
+
+      const res = await appRequest('POST', `/v1/agents/${target.id}/trust/simulate`, { policy_version: 'draft' });
+
+      const json = (await res.json()) as ApiResponse<{ current_score: number; projected: TrustDetails }>;
+      expect(json.data!.projected.policy_version).toBe('draft');
+      // 40 (verified) + 10 (karma)
+      expect(json.data!.projected.score).toBe(50);
+    });
+
+    it('rejects unknown policy versions, past dates and unknown vouchers (400)', async () => {
+      const path = `/v1/agents/${target.id}/trust/simulate`;
+
+      const responses = await Promise.all([
+        appRequest('POST', path, { policy_version: 'missing' }),
+        appRequest('POST', path, { at: '2020-01-01T00:00:00Z' }),
+        appRequest('POST', path, { vouches: [{ from_agent_id: 'mlt_missing' }] }),
+        appRequest('POST', path, { vouches: [{ from_agent_id: target.id }] }),
+      ]);
+
+      for (const res of responses) {
+        expect(res.status).toBe(400);
+        expect(((await res.json()) as ErrorResponse).error.code).toBe('invalid_request');
+      }
+    });
+
+    it('rejects stored policies that no longer validate (400)', async () => {
+      await env.DB.prepare(
+        'INSERT INTO trust_policies (version, weights, active, created_at) VALUES (?, ?, 0, ?)'
+      ).bind('legacy', JSON.stringify({ bonus: 5 }), new Date().toISOString()).run();
+
+      const res = await appRequest('POST', `/v1/agents/${target.id}/trust/simulate`, { policy_version: 'legacy' });
+
+      expect(res.status).toBe(400);
+      const json = (await res.json()) as ErrorResponse;
+      expect(json.error.code).toBe('invalid_request');
+      expect(json.error.message).toContain('trust_policies legacy');
+    });
+
+    it('returns 404 for unknown agents', async () => {
+      const res = await appRequest('POST', '/v1/agents/mlt_missing/trust/simulate', {});
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('consistency', () => {
+    it('flags a stored score that drifted from the engine', async () => {
+      const agentId = await createTestAgent(env.DB, { moltbook_verified: true, trust_score: 35 });
+      const agent = (await new AgentService(env.DB).getById(agentId))!;
+
+      const details = await trustService.getDetails(agent);
+
+      expect(details.score).toBe(35);
+      expect(details.computed_score).toBe(20);
+      expect(details.drifted).toBe(true);
+    });
+
+    it('finds drifted agents page by page', async () => {
+      await createTestAgent(env.DB, { id: 'mlt_drift_a', trust_score: 0 });
+      await createTestAgent(env.DB, { id: 'mlt_drift_b', trust_score: 12 });
+      await createTestAgent(env.DB, { id: 'mlt_drift_c', moltbook_verified: true, trust_score: 20 });
+
+      const first = await trustService.checkConsistency({ limit: 2 });
+      const second = await trustService.checkConsistency({ limit: 2, cursor: first.next_cursor! });
+
+      expect(first).toEqual({
+        checked: 2,
+        drifted: [{ agent_id: 'mlt_drift_b', stored_score: 12, computed_score: 0 }],
+        next_cursor: 'mlt_drift_b',
+      });
+      expect(second).toEqual({ checked: 1, drifted: [], next_cursor: null });
+    });
+
+    it('is exposed to admins at GET /v1/admin/trust/consistency', async () => {
+      await createTestAgent(env.DB, { id: 'mlt_drift_api', trust_score: 99 });
+
+      const anonymous = await appRequest('GET', '/v1/admin/trust/consistency');
+      const res = await appRequest('GET', '/v1/admin/trust/consistency', undefined, {
+        Authorization: 'Bearer test-admin-token',
+      });
+
+      expect(anonymous.status).toBe(401);
+      expect((await appRequest('GET', '/v1/trust/consistency')).status).toBe(404);
+
+      expect(res.status).toBe(200);
+      const json = (await res.json()) as ApiResponse<{ policy_version: string; checked: number; drifted: TrustDrift[] }>;
+      expect(json.data!.policy_version).toBe('1');
+      expect(json.data!.drifted).toEqual([{ agent_id: 'mlt_drift_api', stored_score: 99, computed_score: 0 }]);
+    });
+  });
 });
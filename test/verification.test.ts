@@ -0,0 +1,174 @@
+/**
+ * Verification provider tests
+ *
+ * Tests for VerificationService (with a fake provider), the Moltbook
+ * provider's local checks, and the /v1/agents/:id/verify/:provider and
+ * /v1/agents/:id/accounts routes.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env } from 'cloudflare:test';
+import { z } from 'zod';
+import { MoltbookProvider, type VerificationOutcome, type VerificationProvider } from '../src/providers';
+import { AgentService } from '../src/services/agent';
+import { VerificationService } from '../src/services/verification';
+import { MockMoltbook } from './mocks/moltbook';
+import { setupTestDb, cleanupTestDb, createTestAgent, getTestAgent, appRequest } from './setup';
+import type { Agent, ApiResponse, LinkedAccount } from '../src/types';
+
+interface ErrorResponse {
+  success: false;
+  error: { code: string; message: string };
+}
+
+/**
+ * Provider that "finds" the code when the handle is listed in `published`.
+ */
+class FakeProvider implements VerificationProvider<{ handle: string }> {
+  readonly name = 'fake';
+  readonly inputSchema = z.object({ handle: z.string().min(1) });
+  published = new Set<string>();
+
+  async verify(agent: Agent, input: { handle: string }): Promise<VerificationOutcome> {
+    if (!this.published.has(input.handle)) {
+      return { verified: false, handle: input.handle, code: 'verification_failed', message: 'Code not found' };
+    }
+    return {
+      verified: true,
+      handle: input.handle,
+      reputation: { followers: 12 },
+      agent_updates: { status: 'active' },
+    };
+  }
+}
+
+describe('Verification providers', () => {
+  let provider: FakeProvider;
+  let verificationService: VerificationService;
+  let agent: Agent;
+
+  beforeEach(async () => {
+    await setupTestDb(env.DB);
+    await cleanupTestDb(env.DB);
+    provider = new FakeProvider();
+    verificationService = new VerificationService(env.DB, [provider, new MoltbookProvider(new MockMoltbook().client())]);
+    const id = await createTestAgent(env.DB, { id: 'mlt_linker', status: 'pending' });
+    agent = (await new AgentService(env.DB).getById(id))!;
+  });
+
+  // ============================================================
+  // VerificationService tests
+  // ============================================================
+  describe('VerificationService', () => {
+    it('looks up providers by name', () => {
+      expect(verificationService.getProvider('fake')).toBe(provider);
+      expect(verificationService.getProvider('nope')).toBeNull();
+      expect(verificationService.providerNames).toEqual(['fake', 'moltbook']);
+    });
+
+    it('records a verified account with imported reputation', async () => {
+      provider.published.add('alice');
+      const { outcome, account } = await verificationService.verify(agent, provider, { handle: 'alice' });
+
+      expect(outcome.verified).toBe(true);
+      expect(account!.provider).toBe('fake');
+      expect(account!.handle).toBe('alice');
+      expect(account!.status).toBe('verified');
+      expect(account!.reputation).toEqual({ followers: 12 });
+      expect(account!.verified_at).not.toBeNull();
+    });
+
+    it('applies agent updates from the provider', async () => {
+      provider.published.add('alice');
+      await verificationService.verify(agent, provider, { handle: 'alice' });
+
+      const row = await getTestAgent(env.DB, agent.id);
+      expect(row!.status).toBe('active');
+    });
+
+    it('records failed attempts', async () => {
+      const { outcome, account } = await verificationService.verify(agent, provider, { handle: 'bob' });
+
+      expect(outcome.verified).toBe(false);
+      expect(account!.status).toBe('failed');
+      expect(account!.verified_at).toBeNull();
+    });
+
+    it('does not downgrade a verified account on a failed recheck', async () => {
+      provider.published.add('alice');
+      await verificationService.verify(agent, provider, { handle: 'alice' });
+      provider.published.clear();
+
+      const { account } = await verificationService.verify(agent, provider, { handle: 'alice' });
+      expect(account!.status).toBe('verified');
+      expect(account!.reputation).toEqual({ followers: 12 });
+    });
+
+    it('lists linked accounts, optionally verified only', async () => {
+      provider.published.add('alice');
+      await verificationService.verify(agent, provider, { handle: 'alice' });
+      await verificationService.verify(agent, provider, { handle: 'bob' });
+
+      expect(await verificationService.getLinkedAccounts(agent.id)).toHaveLength(2);
+      const verified = await verificationService.getLinkedAccounts(agent.id, { verifiedOnly: true });
+      expect(verified.map((a) => a.handle)).toEqual(['alice']);
+    });
+
+    it('records nothing when no account was identified', async () => {
+      const moltbook = verificationService.getProvider('moltbook')!;
+      const { outcome, account } = await verificationService.verify(agent, moltbook, {});
+
+      expect(outcome.verified).toBe(false);
+      expect(outcome.verified === false && outcome.code).toBe('no_moltbook');
+      expect(account).toBeNull();
+    });
+  });
+
+  // ============================================================
+  // API tests
+  // ============================================================
+  describe('POST /v1/agents/:id/verify/:provider', () => {
+    it('returns 404 for an unknown provider', async () => {
+      const res = await appRequest('POST', `/v1/agents/${agent.id}/verify/myspace`);
+
+      expect(res.status).toBe(404);
+      const json = (await res.json()) as ErrorResponse;
+      expect(json.error.code).toBe('unknown_provider');
+      expect(json.error.message).toContain('moltbook');
+    });
+
+    it('validates the body against the provider schema', async () => {
+      const res = await appRequest('POST', `/v1/agents/${agent.id}/verify/moltbook`, { unexpected: true });
+
+      expect(res.status).toBe(400);
+      const json = (await res.json()) as ErrorResponse;
+      expect(json.error.code).toBe('invalid_request');
+    });
+
+    it('returns 404 for an unknown agent', async () => {
+      const res = await appRequest('POST', '/v1/agents/mlt_missing/verify/moltbook');
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('GET /v1/agents/:id/accounts', () => {
+    it('lists the agent\'s linked accounts', async () => {
+      provider.published.add('alice');
+      await verificationService.verify(agent, provider, { handle: 'alice' });
+
+      const res = await appRequest('GET', `/v1/agents/${agent.id}/accounts`);
+
+      expect(res.status).toBe(200);
+      const json = (await res.json()) as ApiResponse<LinkedAccount[]>;
+      expect(json.data).toHaveLength(1);
+      expect(json.data![0].provider).toBe('fake');
+    });
+
+    it('returns 404 for an unknown agent', async () => {
+      const res = await appRequest('GET', '/v1/agents/mlt_missing/accounts');
+
+      expect(res.status).toBe(404);
+    });
+  });
+});